@@ -6,8 +6,219 @@ export const TABLES = {
   SYNC_LOGS: "bridge_sync_logs_v1",
   POST_TRACKING: "bridge_post_tracking_v1",
   SETTINGS: "bridge_settings_v1",
+  SYNC_LEASE: "bridge_sync_lease_v1",
+  BACKFILL_JOBS: "bridge_backfill_jobs_v1",
+  DESTINATIONS: "bridge_destinations_v1",
 };
 
+// Allowed post tracking statuses. SQLite can't alter CHECK constraints, so
+// adding a value here rebuilds the tracking table on the next migration run.
+export const POST_SYNC_STATUSES = [
+  "pending",
+  "posting", // createPost in flight; left behind if the run was interrupted
+  "success",
+  "failed",
+  "skipped",
+  "deleted",
+];
+
+function postTrackingTableSql(tableName: string): string {
+  const statuses = POST_SYNC_STATUSES.map((status) => `'${status}'`).join(
+    ", ",
+  );
+
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL DEFAULT 1,
+      destination_id INTEGER NOT NULL DEFAULT 0, -- 0 is the account's own Mastodon
+      origin TEXT NOT NULL DEFAULT 'bluesky', -- 'mastodon' for reverse-synced statuses
+      
+      -- Bluesky post identifiers
+      atproto_uri TEXT NOT NULL, -- at:// URI
+      atproto_cid TEXT NOT NULL, -- Content ID
+      atproto_rkey TEXT NOT NULL, -- Record key
+      
+      -- Mastodon post identifiers
+      mastodon_id TEXT, -- Mastodon post ID (null if failed)
+      mastodon_url TEXT, -- Mastodon post URL
+      mastodon_thread_ids TEXT, -- JSON array of the posted parts' status ids
+      mastodon_media_cids TEXT, -- JSON array of the attachments' blob CIDs
+      
+      -- Content hash for duplicate detection
+      content_hash TEXT NOT NULL,
+      
+      -- Status tracking
+      sync_status TEXT CHECK(sync_status IN (${statuses})) DEFAULT 'pending',
+      error_message TEXT,
+      retry_count INTEGER DEFAULT 0,
+      max_retries INTEGER DEFAULT 3,
+      next_retry_at INTEGER, -- Earliest time a failed post may be retried
+      posting_started_at INTEGER, -- When the last createPost attempt began
+      
+      -- Timestamps
+      atproto_created_at INTEGER NOT NULL,
+      synced_at INTEGER,
+      mastodon_reblogged_at INTEGER, -- Last own repost mirrored as a boost
+      edit_count INTEGER DEFAULT 0, -- Bluesky edits mirrored to Mastodon
+      edited_at INTEGER, -- When the last edit was mirrored
+      created_at INTEGER DEFAULT (unixepoch()),
+      updated_at INTEGER DEFAULT (unixepoch()),
+      
+      UNIQUE(user_id, atproto_uri, destination_id)
+    )
+  `;
+}
+
+// Single-user tables used to be limited to one row; in multi-user mode the
+// row id is the user id
+function userAccountsTableSql(tableName: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, -- User id
+      
+      -- Bluesky/ATProto account
+      atproto_did TEXT,
+      atproto_handle TEXT,
+      atproto_access_token TEXT,
+      atproto_refresh_token TEXT,
+      atproto_token_expires_at INTEGER,
+      atproto_dpop_private_key TEXT, -- DPoP private key JWK for token binding
+      atproto_dpop_public_jwk TEXT,  -- DPoP public key JWK
+      atproto_app_password TEXT,     -- App Password for sync service
+      
+      -- Mastodon account
+      mastodon_instance_url TEXT,
+      mastodon_username TEXT,
+      mastodon_access_token TEXT,
+      mastodon_client_id TEXT,
+      mastodon_client_secret TEXT,
+      mastodon_software TEXT, -- 'misskey' for Misskey-family servers
+      
+      -- Status tracking
+      setup_completed BOOLEAN DEFAULT FALSE,
+      last_sync_at INTEGER,
+      last_sync_cursor TEXT, -- ATProto cursor for pagination
+      jetstream_cursor INTEGER, -- Jetstream time_us cursor for event ingestion
+      mastodon_status_cursor TEXT, -- Newest status seen by the reverse sync
+      
+      created_at INTEGER DEFAULT (unixepoch()),
+      updated_at INTEGER DEFAULT (unixepoch())
+    )
+  `;
+}
+
+function settingsTableSql(tableName: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      id INTEGER PRIMARY KEY, -- User id
+      
+      -- Sync settings
+      sync_enabled BOOLEAN DEFAULT TRUE,
+      sync_interval_minutes INTEGER DEFAULT 15, -- 15 min for free tier
+      
+      -- Post filtering
+      skip_replies BOOLEAN DEFAULT TRUE,
+      skip_mentions BOOLEAN DEFAULT TRUE,
+      skip_reposts BOOLEAN, -- Null uses the config default
+      
+      -- Media handling
+      include_media BOOLEAN DEFAULT TRUE,
+      compress_images BOOLEAN DEFAULT FALSE,
+      
+      -- Mastodon to Bluesky sync (null uses the config default)
+      reverse_sync BOOLEAN,
+      
+      -- Keyword, regex and hashtag rules (JSON array)
+      filter_rules TEXT,
+      
+      created_at INTEGER DEFAULT (unixepoch()),
+      updated_at INTEGER DEFAULT (unixepoch())
+    )
+  `;
+}
+
+function syncLeaseTableSql(tableName: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      id INTEGER PRIMARY KEY, -- User id, each user syncs independently
+      holder TEXT NOT NULL,
+      acquired_at INTEGER NOT NULL, -- ms
+      expires_at INTEGER NOT NULL -- ms
+    )
+  `;
+}
+
+function backfillJobsTableSql(tableName: string): string {
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      id INTEGER PRIMARY KEY, -- User id, one job per user at a time
+      status TEXT CHECK(status IN ('running', 'paused', 'cancelled', 'completed')) DEFAULT 'running',
+      phase TEXT CHECK(phase IN ('scanning', 'posting')) DEFAULT 'scanning',
+      
+      -- Job parameters
+      since_at INTEGER NOT NULL,
+      until_at INTEGER NOT NULL,
+      max_posts INTEGER NOT NULL,
+      add_date_prefix BOOLEAN DEFAULT FALSE,
+      
+      -- Progress
+      feed_cursor TEXT,
+      queue TEXT DEFAULT '[]', -- JSON array of post URIs, oldest first
+      position INTEGER DEFAULT 0,
+      posts_synced INTEGER DEFAULT 0,
+      posts_failed INTEGER DEFAULT 0,
+      error_message TEXT,
+      
+      created_at INTEGER NOT NULL, -- ms
+      updated_at INTEGER NOT NULL -- ms
+    )
+  `;
+}
+
+// Recreate a table whose constraints are outdated (SQLite can't alter them),
+// copying over every column the old and new tables have in common
+async function rebuildTableIfOutdated(
+  tableName: string,
+  createSql: (tableName: string) => string,
+  isCurrent: (tableSql: string) => boolean,
+) {
+  const result = await sqlite.execute(
+    "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [tableName],
+  );
+  const tableSql = (result.rows[0] as any)?.sql as string | undefined;
+  if (!tableSql || isCurrent(tableSql)) {
+    return;
+  }
+
+  console.log(`${tableName} constraints outdated, rebuilding table...`);
+  // The new table is built beside the old one and only swapped in by a
+  // single write batch, so a failed rebuild leaves the old table as it was
+  const newTable = `${tableName}_rebuild`;
+  await sqlite.execute(`DROP TABLE IF EXISTS ${newTable}`);
+  await sqlite.execute(createSql(newTable));
+
+  const [oldInfo, newInfo] = await Promise.all([
+    sqlite.execute(`PRAGMA table_info(${tableName})`),
+    sqlite.execute(`PRAGMA table_info(${newTable})`),
+  ]);
+  const newColumns = new Set(newInfo.rows.map((row: any) => row.name));
+  const columns = oldInfo.rows
+    .map((row: any) => row.name as string)
+    .filter((name) => newColumns.has(name))
+    .join(", ");
+
+  await sqlite.batch([
+    `INSERT INTO ${newTable} (${columns}) SELECT ${columns} FROM ${tableName}`,
+    `DROP TABLE ${tableName}`,
+    `ALTER TABLE ${newTable} RENAME TO ${tableName}`,
+  ], "write");
+}
+
+const allowsMultipleRows = (tableSql: string) =>
+  !tableSql.includes("CHECK (id = 1)");
+
 export async function runMigrations() {
   // Drop old tables that might have incompatible schemas
   try {
@@ -18,8 +229,10 @@ export async function runMigrations() {
     const syncLogsTableInfo = await sqlite.execute(
       "PRAGMA table_info(bridge_sync_logs_v1)",
     );
+    // The old schema keyed rows by a TEXT user id; multi-user mode's
+    // INTEGER user_id column is current
     const syncLogsHasUserId = syncLogsTableInfo.rows.some((row: any) =>
-      row.name === "user_id"
+      row.name === "user_id" && row.type !== "INTEGER"
     );
 
     if (syncLogsHasUserId) {
@@ -36,7 +249,7 @@ export async function runMigrations() {
       "PRAGMA table_info(bridge_post_tracking_v1)",
     );
     const postTrackingHasUserId = postTrackingTableInfo.rows.some((row: any) =>
-      row.name === "user_id"
+      row.name === "user_id" && row.type !== "INTEGER"
     );
 
     if (postTrackingHasUserId) {
@@ -87,102 +300,198 @@ export async function runMigrations() {
         "ALTER TABLE bridge_user_accounts_v1 ADD COLUMN atproto_app_password TEXT",
       );
     }
+
+    const hasJetstreamCursor = userTableInfo.rows.some((row: any) =>
+      row.name === "jetstream_cursor"
+    );
+    if (!hasJetstreamCursor) {
+      console.log("Adding jetstream_cursor column...");
+      await sqlite.execute(
+        "ALTER TABLE bridge_user_accounts_v1 ADD COLUMN jetstream_cursor INTEGER",
+      );
+    }
+
+    const hasStatusCursor = userTableInfo.rows.some((row: any) =>
+      row.name === "mastodon_status_cursor"
+    );
+    if (!hasStatusCursor) {
+      console.log("Adding mastodon_status_cursor column...");
+      await sqlite.execute(
+        "ALTER TABLE bridge_user_accounts_v1 ADD COLUMN mastodon_status_cursor TEXT",
+      );
+    }
+
+    const hasSoftware = userTableInfo.rows.some((row: any) =>
+      row.name === "mastodon_software"
+    );
+    if (!hasSoftware) {
+      console.log("Adding mastodon_software column...");
+      await sqlite.execute(
+        "ALTER TABLE bridge_user_accounts_v1 ADD COLUMN mastodon_software TEXT",
+      );
+    }
   } catch (_error) {
     console.log("DPoP column migration check completed");
   }
 
-  // Single user configuration - stores OAuth tokens and account info
-  await sqlite.execute(`
-    CREATE TABLE IF NOT EXISTS ${TABLES.USER_ACCOUNTS} (
-      id INTEGER PRIMARY KEY CHECK (id = 1), -- Enforce single row
-      
-      -- Bluesky/ATProto account
-      atproto_did TEXT,
-      atproto_handle TEXT,
-      atproto_access_token TEXT,
-      atproto_refresh_token TEXT,
-      atproto_token_expires_at INTEGER,
-      atproto_dpop_private_key TEXT, -- DPoP private key JWK for token binding
-      atproto_dpop_public_jwk TEXT,  -- DPoP public key JWK
-      atproto_app_password TEXT,     -- App Password for sync service
-      
-      -- Mastodon account
-      mastodon_instance_url TEXT,
-      mastodon_username TEXT,
-      mastodon_access_token TEXT,
-      mastodon_client_id TEXT,
-      mastodon_client_secret TEXT,
-      
-      -- Status tracking
-      setup_completed BOOLEAN DEFAULT FALSE,
-      last_sync_at INTEGER,
-      last_sync_cursor TEXT, -- ATProto cursor for pagination
-      
-      created_at INTEGER DEFAULT (unixepoch()),
-      updated_at INTEGER DEFAULT (unixepoch())
-    )
-  `);
+  // User accounts - stores OAuth tokens and account info
+  await sqlite.execute(userAccountsTableSql(TABLES.USER_ACCOUNTS));
+  await rebuildTableIfOutdated(
+    TABLES.USER_ACCOUNTS,
+    userAccountsTableSql,
+    allowsMultipleRows,
+  );
 
   // Settings table - user preferences and configuration
-  await sqlite.execute(`
-    CREATE TABLE IF NOT EXISTS ${TABLES.SETTINGS} (
-      id INTEGER PRIMARY KEY CHECK (id = 1), -- Enforce single row
-      
-      -- Sync settings
-      sync_enabled BOOLEAN DEFAULT TRUE,
-      sync_interval_minutes INTEGER DEFAULT 15, -- 15 min for free tier
-      
-      -- Post filtering (for future versions)
-      skip_replies BOOLEAN DEFAULT TRUE,
-      skip_mentions BOOLEAN DEFAULT TRUE,
-      skip_reposts BOOLEAN DEFAULT FALSE,
-      
-      -- Media handling
-      include_media BOOLEAN DEFAULT TRUE,
-      compress_images BOOLEAN DEFAULT FALSE,
-      
-      created_at INTEGER DEFAULT (unixepoch()),
-      updated_at INTEGER DEFAULT (unixepoch())
-    )
-  `);
+  await sqlite.execute(settingsTableSql(TABLES.SETTINGS));
+
+  // skip_reposts couldn't be changed while it defaulted to FALSE, which
+  // contradicted the config default, so the stored values are cleared to
+  // fall back to the config before the table is rebuilt without the default
+  const hasOldRepostDefault = (tableSql: string) =>
+    tableSql.includes("skip_reposts BOOLEAN DEFAULT FALSE");
+  const settingsSql = await sqlite.execute(
+    "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [TABLES.SETTINGS],
+  );
+  if (hasOldRepostDefault((settingsSql.rows[0] as any)?.sql ?? "")) {
+    await sqlite.execute(
+      `UPDATE ${TABLES.SETTINGS} SET skip_reposts = NULL`,
+    );
+  }
+  await rebuildTableIfOutdated(
+    TABLES.SETTINGS,
+    settingsTableSql,
+    (tableSql) =>
+      allowsMultipleRows(tableSql) && !hasOldRepostDefault(tableSql),
+  );
+
+  // Add columns introduced after the settings table was created
+  try {
+    const settingsTableInfo = await sqlite.execute(
+      `PRAGMA table_info(${TABLES.SETTINGS})`,
+    );
+    const hasFilterRules = settingsTableInfo.rows.some((row: any) =>
+      row.name === "filter_rules"
+    );
+    if (!hasFilterRules) {
+      console.log("Adding filter_rules column...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.SETTINGS} ADD COLUMN filter_rules TEXT`,
+      );
+    }
+
+    const hasReverseSync = settingsTableInfo.rows.some((row: any) =>
+      row.name === "reverse_sync"
+    );
+    if (!hasReverseSync) {
+      console.log("Adding reverse_sync column...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.SETTINGS} ADD COLUMN reverse_sync BOOLEAN`,
+      );
+    }
+  } catch (_error) {
+    console.log("Settings column migration check completed");
+  }
 
   // Post tracking table - prevent duplicate posts and track sync status
-  await sqlite.execute(`
-    CREATE TABLE IF NOT EXISTS ${TABLES.POST_TRACKING} (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      
-      -- Bluesky post identifiers
-      atproto_uri TEXT NOT NULL, -- at:// URI
-      atproto_cid TEXT NOT NULL, -- Content ID
-      atproto_rkey TEXT NOT NULL, -- Record key
-      
-      -- Mastodon post identifiers
-      mastodon_id TEXT, -- Mastodon post ID (null if failed)
-      mastodon_url TEXT, -- Mastodon post URL
-      
-      -- Content hash for duplicate detection
-      content_hash TEXT NOT NULL,
-      
-      -- Status tracking
-      sync_status TEXT CHECK(sync_status IN ('pending', 'success', 'failed', 'skipped')) DEFAULT 'pending',
-      error_message TEXT,
-      retry_count INTEGER DEFAULT 0,
-      max_retries INTEGER DEFAULT 3,
-      
-      -- Timestamps
-      atproto_created_at INTEGER NOT NULL,
-      synced_at INTEGER,
-      created_at INTEGER DEFAULT (unixepoch()),
-      updated_at INTEGER DEFAULT (unixepoch()),
-      
-      UNIQUE(atproto_uri)
-    )
-  `);
+  // Rebuilt when its status CHECK constraint or its unique key (per post,
+  // now per user, post and destination) is outdated
+  await sqlite.execute(postTrackingTableSql(TABLES.POST_TRACKING));
+  await rebuildTableIfOutdated(
+    TABLES.POST_TRACKING,
+    postTrackingTableSql,
+    (tableSql) =>
+      POST_SYNC_STATUSES.every((status) => tableSql.includes(`'${status}'`)) &&
+      tableSql.includes("user_id"),
+  );
+
+  // Add columns introduced after the post tracking table was created
+  try {
+    const trackingTableInfo = await sqlite.execute(
+      `PRAGMA table_info(${TABLES.POST_TRACKING})`,
+    );
+    const hasNextRetryAt = trackingTableInfo.rows.some((row: any) =>
+      row.name === "next_retry_at"
+    );
+    if (!hasNextRetryAt) {
+      console.log("Adding next_retry_at column...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.POST_TRACKING} ADD COLUMN next_retry_at INTEGER`,
+      );
+    }
+
+    const hasRebloggedAt = trackingTableInfo.rows.some((row: any) =>
+      row.name === "mastodon_reblogged_at"
+    );
+    if (!hasRebloggedAt) {
+      console.log("Adding mastodon_reblogged_at column...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.POST_TRACKING} ADD COLUMN mastodon_reblogged_at INTEGER`,
+      );
+    }
+
+    const hasPostingStartedAt = trackingTableInfo.rows.some((row: any) =>
+      row.name === "posting_started_at"
+    );
+    if (!hasPostingStartedAt) {
+      console.log("Adding posting_started_at column...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.POST_TRACKING} ADD COLUMN posting_started_at INTEGER`,
+      );
+    }
+
+    const hasEditCount = trackingTableInfo.rows.some((row: any) =>
+      row.name === "edit_count"
+    );
+    if (!hasEditCount) {
+      console.log("Adding edit_count and edited_at columns...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.POST_TRACKING} ADD COLUMN edit_count INTEGER DEFAULT 0`,
+      );
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.POST_TRACKING} ADD COLUMN edited_at INTEGER`,
+      );
+    }
+
+    const hasOrigin = trackingTableInfo.rows.some((row: any) =>
+      row.name === "origin"
+    );
+    if (!hasOrigin) {
+      console.log("Adding origin column...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.POST_TRACKING} ADD COLUMN origin TEXT NOT NULL DEFAULT 'bluesky'`,
+      );
+    }
+
+    const hasThreadIds = trackingTableInfo.rows.some((row: any) =>
+      row.name === "mastodon_thread_ids"
+    );
+    if (!hasThreadIds) {
+      console.log("Adding mastodon_thread_ids column...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.POST_TRACKING} ADD COLUMN mastodon_thread_ids TEXT`,
+      );
+    }
+
+    const hasMediaCids = trackingTableInfo.rows.some((row: any) =>
+      row.name === "mastodon_media_cids"
+    );
+    if (!hasMediaCids) {
+      console.log("Adding mastodon_media_cids column...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.POST_TRACKING} ADD COLUMN mastodon_media_cids TEXT`,
+      );
+    }
+  } catch (_error) {
+    console.log("Post tracking column migration check completed");
+  }
 
   // Sync logs table - track sync operations and errors
   await sqlite.execute(`
     CREATE TABLE IF NOT EXISTS ${TABLES.SYNC_LOGS} (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL DEFAULT 1,
       
       -- Sync operation details
       sync_type TEXT CHECK(sync_type IN ('manual', 'cron', 'webhook')) DEFAULT 'cron',
@@ -204,6 +513,82 @@ export async function runMigrations() {
     )
   `);
 
+  // Sync lease - only one sync run at a time, expiring if a run crashes
+  await sqlite.execute(syncLeaseTableSql(TABLES.SYNC_LEASE));
+  await rebuildTableIfOutdated(
+    TABLES.SYNC_LEASE,
+    syncLeaseTableSql,
+    allowsMultipleRows,
+  );
+
+  // Backfill job - historical import, run in chunks across cron invocations
+  await sqlite.execute(backfillJobsTableSql(TABLES.BACKFILL_JOBS));
+  await rebuildTableIfOutdated(
+    TABLES.BACKFILL_JOBS,
+    backfillJobsTableSql,
+    allowsMultipleRows,
+  );
+
+  // Additional Mastodon accounts that posts are published to
+  await sqlite.execute(`
+    CREATE TABLE IF NOT EXISTS ${TABLES.DESTINATIONS} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL DEFAULT 1,
+      name TEXT NOT NULL,
+      
+      -- Mastodon OAuth credentials
+      instance_url TEXT NOT NULL,
+      username TEXT,
+      access_token TEXT, -- Set once OAuth completes
+      client_id TEXT NOT NULL,
+      client_secret TEXT NOT NULL,
+      software TEXT, -- 'misskey' for Misskey-family servers
+      
+      -- Posting options
+      visibility TEXT CHECK(visibility IN ('public', 'unlisted', 'private')) DEFAULT 'public',
+      filter_overrides TEXT, -- JSON object overriding the sync settings
+      enabled BOOLEAN DEFAULT FALSE,
+      
+      created_at INTEGER NOT NULL, -- ms
+      updated_at INTEGER NOT NULL -- ms
+    )
+  `);
+
+  // Sync logs and destinations predate multi-user mode
+  for (const table of [TABLES.SYNC_LOGS, TABLES.DESTINATIONS]) {
+    try {
+      const tableInfo = await sqlite.execute(`PRAGMA table_info(${table})`);
+      const hasUserId = tableInfo.rows.some((row: any) =>
+        row.name === "user_id"
+      );
+      if (!hasUserId) {
+        console.log(`Adding user_id column to ${table}...`);
+        await sqlite.execute(
+          `ALTER TABLE ${table} ADD COLUMN user_id INTEGER NOT NULL DEFAULT 1`,
+        );
+      }
+    } catch (_error) {
+      console.log(`${table} column migration check completed`);
+    }
+  }
+
+  try {
+    const destinationTableInfo = await sqlite.execute(
+      `PRAGMA table_info(${TABLES.DESTINATIONS})`,
+    );
+    const hasSoftware = destinationTableInfo.rows.some((row: any) =>
+      row.name === "software"
+    );
+    if (!hasSoftware) {
+      console.log("Adding software column to destinations...");
+      await sqlite.execute(
+        `ALTER TABLE ${TABLES.DESTINATIONS} ADD COLUMN software TEXT`,
+      );
+    }
+  } catch (_error) {
+    console.log("Destination column migration check completed");
+  }
+
   // Create indexes for performance
   await sqlite.execute(
     `CREATE INDEX IF NOT EXISTS idx_post_tracking_status ON ${TABLES.POST_TRACKING}(sync_status)`,
@@ -214,4 +599,7 @@ export async function runMigrations() {
   await sqlite.execute(
     `CREATE INDEX IF NOT EXISTS idx_sync_logs_created_at ON ${TABLES.SYNC_LOGS}(created_at)`,
   );
+  await sqlite.execute(
+    `CREATE INDEX IF NOT EXISTS idx_sync_logs_user_id ON ${TABLES.SYNC_LOGS}(user_id)`,
+  );
 }
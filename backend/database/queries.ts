@@ -1,5 +1,7 @@
 import { sqlite } from "https://esm.town/v/stevekrouse/sqlite";
 import { TABLES } from "./migrations.ts";
+import { DEFAULT_USER_ID } from "../interfaces/storage.ts";
+import { ServerSoftware } from "../interfaces/http-client.ts";
 
 export interface UserAccount {
   id: number;
@@ -16,33 +18,55 @@ export interface UserAccount {
   mastodon_access_token?: string;
   mastodon_client_id?: string;
   mastodon_client_secret?: string;
+  mastodon_software?: ServerSoftware | null;
   setup_completed: boolean;
   last_sync_at?: number;
   last_sync_cursor?: string;
+  jetstream_cursor?: number;
+  mastodon_status_cursor?: string;
   created_at: number;
   updated_at: number;
 }
 
 export interface PostTracking {
   id: number;
+  user_id?: number;
+  destination_id?: number;
+  origin?: "bluesky" | "mastodon";
   atproto_uri: string;
   atproto_cid: string;
   atproto_rkey: string;
   mastodon_id?: string;
   mastodon_url?: string;
+  // JSON array of the status ids of every posted part, in thread order
+  mastodon_thread_ids?: string | null;
+  // JSON array of the blob CIDs of the first status' attachments, in order
+  mastodon_media_cids?: string | null;
   content_hash: string;
-  sync_status: "pending" | "success" | "failed" | "skipped";
+  sync_status:
+    | "pending"
+    | "posting"
+    | "success"
+    | "failed"
+    | "skipped"
+    | "deleted";
   error_message?: string;
   retry_count: number;
   max_retries: number;
+  next_retry_at?: number; // Unix seconds, set when a failed post is scheduled
+  posting_started_at?: number; // Unix seconds of the last createPost attempt
   atproto_created_at: number;
   synced_at?: number;
+  mastodon_reblogged_at?: number; // Unix seconds of the last repost we boosted
+  edit_count?: number; // Bluesky edits mirrored to the Mastodon status
+  edited_at?: number; // Unix seconds of the last mirrored edit
   created_at: number;
   updated_at: number;
 }
 
 export interface SyncLog {
   id: number;
+  user_id?: number;
   sync_type: "manual" | "cron" | "webhook";
   posts_fetched: number;
   posts_synced: number;
@@ -62,24 +86,40 @@ export interface Settings {
   sync_interval_minutes: number;
   skip_replies: boolean;
   skip_mentions: boolean;
-  skip_reposts: boolean;
+  skip_reposts?: boolean | null; // Null falls back to the config default
   include_media: boolean;
   compress_images: boolean;
+  reverse_sync?: boolean | null;
+  filter_rules?: string | null; // JSON array of FilterRule
   created_at: number;
   updated_at: number;
 }
 
-// Single User Account queries
-export async function createUserAccount(): Promise<UserAccount> {
+// User Account queries; the user id defaults to the single-user account
+export async function createUserAccount(
+  userId: number = DEFAULT_USER_ID,
+): Promise<UserAccount> {
   const result = await sqlite.execute(
-    `INSERT INTO ${TABLES.USER_ACCOUNTS} (id) VALUES (1) RETURNING *`,
+    `INSERT INTO ${TABLES.USER_ACCOUNTS} (id) VALUES (?) RETURNING *`,
+    [userId],
   );
   return result.rows[0] as unknown as UserAccount;
 }
 
-export async function getUserAccount(): Promise<UserAccount | null> {
+// Create an account with the next free id (multi-user mode)
+export async function createNewUserAccount(): Promise<UserAccount> {
   const result = await sqlite.execute(
-    `SELECT * FROM ${TABLES.USER_ACCOUNTS} WHERE id = 1`,
+    `INSERT INTO ${TABLES.USER_ACCOUNTS} (setup_completed) VALUES (FALSE) RETURNING *`,
+  );
+  return result.rows[0] as unknown as UserAccount;
+}
+
+export async function getUserAccount(
+  userId: number = DEFAULT_USER_ID,
+): Promise<UserAccount | null> {
+  const result = await sqlite.execute(
+    `SELECT * FROM ${TABLES.USER_ACCOUNTS} WHERE id = ?`,
+    [userId],
   );
   return (result.rows[0] as unknown as UserAccount) || null;
 }
@@ -96,6 +136,17 @@ export async function getUserAccountByHandle(
   return (result.rows[0] as unknown as UserAccount) || null;
 }
 
+// Lookup user account by ATProto DID
+export async function getUserAccountByDid(
+  did: string,
+): Promise<UserAccount | null> {
+  const result = await sqlite.execute(
+    `SELECT * FROM ${TABLES.USER_ACCOUNTS} WHERE atproto_did = ? LIMIT 1`,
+    [did],
+  );
+  return (result.rows[0] as unknown as UserAccount) || null;
+}
+
 // Get the single user account (for single-user service)
 export async function getSingleUserAccount(): Promise<UserAccount | null> {
   return await getUserAccount();
@@ -103,86 +154,105 @@ export async function getSingleUserAccount(): Promise<UserAccount | null> {
 
 export async function updateUserAccount(
   updates: Partial<UserAccount>,
+  userId: number = DEFAULT_USER_ID,
 ): Promise<void> {
   const keys = Object.keys(updates);
   const values = Object.values(updates);
   const setClause = keys.map((key) => `${key} = ?`).join(", ");
 
   await sqlite.execute(
-    `UPDATE ${TABLES.USER_ACCOUNTS} SET ${setClause}, updated_at = unixepoch() WHERE id = 1`,
-    values,
+    `UPDATE ${TABLES.USER_ACCOUNTS} SET ${setClause}, updated_at = unixepoch() WHERE id = ?`,
+    [...values, userId],
   );
 }
 
 // Settings queries
-export async function createDefaultSettings(): Promise<Settings> {
+export async function createDefaultSettings(
+  userId: number = DEFAULT_USER_ID,
+): Promise<Settings> {
   const result = await sqlite.execute(
-    `INSERT INTO ${TABLES.SETTINGS} (id) VALUES (1) RETURNING *`,
+    `INSERT INTO ${TABLES.SETTINGS} (id) VALUES (?) RETURNING *`,
+    [userId],
   );
   return result.rows[0] as unknown as Settings;
 }
 
-export async function getSettings(): Promise<Settings | null> {
+export async function getSettings(
+  userId: number = DEFAULT_USER_ID,
+): Promise<Settings | null> {
   const result = await sqlite.execute(
-    `SELECT * FROM ${TABLES.SETTINGS} WHERE id = 1`,
+    `SELECT * FROM ${TABLES.SETTINGS} WHERE id = ?`,
+    [userId],
   );
   return (result.rows[0] as unknown as Settings) || null;
 }
 
 export async function updateSettings(
   updates: Partial<Settings>,
+  userId: number = DEFAULT_USER_ID,
 ): Promise<void> {
   const keys = Object.keys(updates);
   const values = Object.values(updates);
   const setClause = keys.map((key) => `${key} = ?`).join(", ");
 
   await sqlite.execute(
-    `UPDATE ${TABLES.SETTINGS} SET ${setClause}, updated_at = unixepoch() WHERE id = 1`,
-    values,
+    `UPDATE ${TABLES.SETTINGS} SET ${setClause}, updated_at = unixepoch() WHERE id = ?`,
+    [...values, userId],
   );
 }
 
 // Post tracking queries
 export async function getRecentPosts(
   limit: number = 10,
+  userId: number = DEFAULT_USER_ID,
 ): Promise<PostTracking[]> {
   const result = await sqlite.execute(
     `SELECT * FROM ${TABLES.POST_TRACKING} 
-     WHERE sync_status = 'success' 
+     WHERE user_id = ? AND sync_status IN ('success', 'deleted') 
      ORDER BY synced_at DESC 
      LIMIT ?`,
-    [limit],
+    [userId, limit],
   );
   return result.rows as unknown as PostTracking[];
 }
 
-export async function cullOldPostLogs(keepCount: number = 100): Promise<void> {
-  // Delete old post tracking records, keeping only the most recent ones
+export async function cullOldPostLogs(
+  keepCount: number = 100,
+  userId: number = DEFAULT_USER_ID,
+): Promise<void> {
+  // Delete the user's old skipped and deleted records, keeping only the
+  // most recent ones. Rows for published, adopted, in-flight and failed
+  // posts are kept, as they are what stops a post being synced twice.
   await sqlite.execute(
     `
     DELETE FROM ${TABLES.POST_TRACKING}
-    WHERE id NOT IN (
+    WHERE user_id = ? AND sync_status IN ('skipped', 'deleted') AND id NOT IN (
       SELECT id FROM ${TABLES.POST_TRACKING}
+      WHERE user_id = ? AND sync_status IN ('skipped', 'deleted')
       ORDER BY created_at DESC
       LIMIT ?
     )
   `,
-    [keepCount],
+    [userId, userId, keepCount],
   );
 }
 
-export async function getPostStats(): Promise<{
+export async function getPostStats(userId: number = DEFAULT_USER_ID): Promise<{
   posts_synced: number;
   posts_failed: number;
   posts_pending: number;
 }> {
-  const result = await sqlite.execute(`
+  const result = await sqlite.execute(
+    `
     SELECT 
       COUNT(CASE WHEN sync_status = 'success' THEN 1 END) as posts_synced,
       COUNT(CASE WHEN sync_status = 'failed' THEN 1 END) as posts_failed,
       COUNT(CASE WHEN sync_status = 'pending' THEN 1 END) as posts_pending
     FROM ${TABLES.POST_TRACKING}
-  `);
+    WHERE user_id = ?
+  `,
+    [userId],
+  );
 
   const row = result.rows[0] as any;
   return {
@@ -193,17 +263,23 @@ export async function getPostStats(): Promise<{
 }
 
 // Sync log queries
-export async function getRecentSyncLogs(limit: number = 5): Promise<SyncLog[]> {
+export async function getRecentSyncLogs(
+  limit: number = 5,
+  userId: number = DEFAULT_USER_ID,
+): Promise<SyncLog[]> {
   const result = await sqlite.execute(
-    `SELECT * FROM ${TABLES.SYNC_LOGS} ORDER BY created_at DESC LIMIT ?`,
-    [limit],
+    `SELECT * FROM ${TABLES.SYNC_LOGS} WHERE user_id = ? ORDER BY created_at DESC LIMIT ?`,
+    [userId, limit],
   );
   return result.rows as unknown as SyncLog[];
 }
 
-export async function getLastSyncLog(): Promise<SyncLog | null> {
+export async function getLastSyncLog(
+  userId: number = DEFAULT_USER_ID,
+): Promise<SyncLog | null> {
   const result = await sqlite.execute(
-    `SELECT * FROM ${TABLES.SYNC_LOGS} ORDER BY created_at DESC LIMIT 1`,
+    `SELECT * FROM ${TABLES.SYNC_LOGS} WHERE user_id = ? ORDER BY created_at DESC LIMIT 1`,
+    [userId],
   );
   return (result.rows[0] as unknown as SyncLog) || null;
 }
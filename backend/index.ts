@@ -5,6 +5,7 @@ import {
 } from "https://esm.town/v/std/utils@85-main/index.ts";
 import { runMigrations } from "./database/migrations.ts";
 import oauthRoutes from "./routes/oauth.ts";
+import { isMultiUserMode } from "./lib/multi-user.ts";
 import setupRoutes from "./routes/setup.ts";
 import dashboardRoutes from "./routes/dashboard.ts";
 import authRoutes from "./routes/auth.ts";
@@ -47,7 +48,13 @@ app.get("/api/setup/status", (c) => {
     ATPROTO_ALLOWED_HANDLE: {
       set: !!Deno.env.get("ATPROTO_ALLOWED_HANDLE"),
       description: "Allowed Bluesky handle for this single-user service",
-      required: true,
+      required: !isMultiUserMode(),
+    },
+    BRIDGE_ALLOWED_USERS: {
+      set: !!Deno.env.get("BRIDGE_ALLOWED_USERS"),
+      description:
+        "Bluesky handles or DIDs allowed to use the bridge in multi-user mode",
+      required: isMultiUserMode(),
     },
     VALTOWN_URL: {
       set: !!Deno.env.get("VALTOWN_URL"),
@@ -0,0 +1,23 @@
+// Event source interfaces for push-based post ingestion (testable)
+
+import { ATProtoPost } from "../../shared/types.ts";
+
+export interface PostEvent {
+  operation: "create" | "update" | "delete";
+  uri: string; // at:// URI
+  cid?: string; // Not present for deletes
+  record?: ATProtoPost["record"]; // Not present for deletes
+  timeUs: number; // Event time in microseconds since epoch
+}
+
+export interface PostEventBatch {
+  events: PostEvent[];
+  cursor?: number; // time_us of the last event seen, resume from here
+}
+
+export interface PostEventSource {
+  fetchEvents(params: {
+    did: string;
+    cursor?: number;
+  }): Promise<PostEventBatch>;
+}
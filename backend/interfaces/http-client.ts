@@ -35,6 +35,17 @@ export interface HttpClient {
   }): Promise<HttpResponse>;
 }
 
+/**
+ * Thrown by getPost when the record doesn't exist (deleted), as opposed to
+ * posts that exist but can't be viewed, e.g. because of a block
+ */
+export class PostNotFoundError extends Error {
+  constructor(public uri: string) {
+    super(`Post not found: ${uri}`);
+    this.name = "PostNotFoundError";
+  }
+}
+
 // ATProto-specific client interface
 export interface ATProtoHttpClient {
   fetchPosts(params: {
@@ -43,6 +54,7 @@ export interface ATProtoHttpClient {
     cursor?: string;
   }): Promise<any>;
 
+  // Throws PostNotFoundError when the post was deleted
   getPost(uri: string): Promise<any>;
 
   getProfile(actor: string): Promise<any>;
@@ -53,6 +65,17 @@ export interface ATProtoHttpClient {
 
   resolveBlobUrl(blobRef: string): string;
 
+  // Upload media to the account's repo, returning the blob ref to embed in
+  // a record
+  uploadBlob(data: Blob, mimeType: string): Promise<any>;
+
+  // Write an app.bsky.feed.post record to the account's repo under the
+  // given record key
+  createPost(
+    record: Record<string, unknown>,
+    rkey: string,
+  ): Promise<{ uri: string; cid: string }>;
+
   refreshToken(refreshToken: string): Promise<{
     access_token: string;
     refresh_token: string;
@@ -60,7 +83,11 @@ export interface ATProtoHttpClient {
   }>;
 }
 
-// Mastodon-specific client interface
+// The API a fediverse server speaks: Mastodon's, which most servers
+// implement, or Misskey's (also used by its forks)
+export type ServerSoftware = "mastodon" | "misskey";
+
+// Mastodon-specific client interface, also implemented for Misskey servers
 export interface MastodonHttpClient {
   verifyCredentials(): Promise<any>;
 
@@ -71,7 +98,7 @@ export interface MastodonHttpClient {
   uploadMedia(file: Blob, description?: string): Promise<{
     id: string;
     type: string;
-    url: string;
+    url: string | null; // null while the instance is still processing it
     description?: string;
   }>;
 
@@ -83,8 +110,36 @@ export interface MastodonHttpClient {
     visibility?: string;
     sensitive?: boolean;
     spoiler_text?: string;
+    in_reply_to_id?: string;
+    language?: string;
+    idempotency_key?: string; // Sent as the Idempotency-Key header
+  }): Promise<any>;
+
+  // Edit a status in place (PUT /api/v1/statuses/:id). Media descriptions
+  // of attachments that are kept are changed through media_attributes.
+  editPost(id: string, params: {
+    status: string;
+    media_ids?: string[];
+    media_attributes?: Array<{ id: string; description?: string }>;
+    sensitive?: boolean;
+    spoiler_text?: string;
+    language?: string;
   }): Promise<any>;
 
+  getStatus(id: string): Promise<any>;
+
+  deletePost(id: string): Promise<void>;
+
+  // An account's own statuses, newest first, excluding boosts. min_id
+  // pages forward: the statuses directly after it rather than the newest.
+  getAccountStatuses(accountId: string, params: {
+    limit: number;
+    max_id?: string;
+    min_id?: string;
+  }): Promise<any[]>;
+
+  reblog(id: string): Promise<any>;
+
   registerApp(params: {
     client_name: string;
     redirect_uris: string;
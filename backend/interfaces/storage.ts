@@ -1,5 +1,11 @@
 // Abstract storage interfaces for dependency injection and testability
 
+import { ServerSoftware } from "./http-client.ts";
+
+// The only account in single-user mode. In multi-user mode every account
+// has its own id and a storage provider is scoped to one of them.
+export const DEFAULT_USER_ID = 1;
+
 export interface UserAccount {
   id: number;
   atproto_did?: string;
@@ -12,27 +18,54 @@ export interface UserAccount {
   mastodon_access_token?: string;
   mastodon_client_id?: string;
   mastodon_client_secret?: string;
+  mastodon_software?: ServerSoftware | null; // Null is Mastodon
   setup_completed: boolean;
   last_sync_at?: number;
   last_sync_cursor?: string;
+  jetstream_cursor?: number;
+  mastodon_status_cursor?: string; // Newest status seen by the reverse sync
   created_at: number;
   updated_at: number;
 }
 
+// Destination id of the account's own Mastodon connection; rows in the
+// destinations table are additional accounts posted to alongside it
+export const PRIMARY_DESTINATION_ID = 0;
+
 export interface PostTracking {
   id: number;
+  user_id?: number;
+  destination_id?: number; // One tracking row per post and destination
+  // Where the post was written: "mastodon" rows track statuses bridged to
+  // Bluesky by the reverse sync, everything else a Bluesky post
+  origin?: "bluesky" | "mastodon";
   atproto_uri: string;
   atproto_cid: string;
   atproto_rkey: string;
   mastodon_id?: string;
   mastodon_url?: string;
+  // JSON array of the status ids of every posted part, in thread order
+  mastodon_thread_ids?: string | null;
+  // JSON array of the blob CIDs of the first status' attachments, in order
+  mastodon_media_cids?: string | null;
   content_hash: string;
-  sync_status: "pending" | "success" | "failed" | "skipped";
+  sync_status:
+    | "pending"
+    | "posting"
+    | "success"
+    | "failed"
+    | "skipped"
+    | "deleted";
   error_message?: string;
   retry_count: number;
   max_retries: number;
+  next_retry_at?: number; // Unix seconds, set when a failed post is scheduled
+  posting_started_at?: number; // Unix seconds of the last createPost attempt
   atproto_created_at: number;
   synced_at?: number;
+  mastodon_reblogged_at?: number; // Unix seconds of the last repost we boosted
+  edit_count?: number; // Bluesky edits mirrored to the Mastodon status
+  edited_at?: number; // Unix seconds of the last mirrored edit
   created_at: number;
   updated_at: number;
 }
@@ -43,15 +76,61 @@ export interface Settings {
   sync_interval_minutes: number;
   skip_replies: boolean;
   skip_mentions: boolean;
-  skip_reposts: boolean;
+  skip_reposts?: boolean | null; // Null falls back to the config default
   include_media: boolean;
   compress_images: boolean;
+  reverse_sync?: boolean | null; // Null falls back to the config default
+  filter_rules?: string | null; // JSON array of FilterRule
+  created_at: number;
+  updated_at: number;
+}
+
+export interface Destination {
+  id: number;
+  name: string;
+  instance_url: string;
+  username?: string | null;
+  access_token?: string | null; // null until OAuth completes
+  client_id: string;
+  client_secret: string;
+  software?: ServerSoftware | null; // API the server speaks; null is Mastodon
+  visibility: "public" | "unlisted" | "private";
+  filter_overrides?: string | null; // JSON object of SyncSettings overrides
+  enabled: boolean;
   created_at: number;
   updated_at: number;
 }
 
+export interface BackfillJob {
+  id: number;
+  status: "running" | "paused" | "cancelled" | "completed";
+  // Scanning walks the feed back to since_at collecting posts; posting then
+  // publishes them oldest first
+  phase: "scanning" | "posting";
+  since_at: number; // Unix seconds, oldest post to include
+  until_at: number; // Unix seconds, newest post to include
+  max_posts: number;
+  add_date_prefix: boolean;
+  feed_cursor?: string | null; // Where scanning resumes
+  queue: string; // JSON array of post URIs, oldest first
+  position: number; // Index of the next queued post to publish
+  posts_synced: number;
+  posts_failed: number;
+  error_message?: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface SyncLease {
+  id: number;
+  holder: string; // Unique id of the run holding the lease
+  acquired_at: number; // ms
+  expires_at: number; // ms
+}
+
 export interface SyncLog {
   id: number;
+  user_id?: number;
   sync_type: "manual" | "cron" | "webhook";
   posts_fetched: number;
   posts_synced: number;
@@ -73,20 +152,42 @@ export interface SyncStats {
   last_sync: number | null;
 }
 
-// Storage interface for user accounts (single user)
+// Storage interface for user accounts (the provider's user)
 export interface UserAccountStorage {
   create(): Promise<UserAccount>;
   getSingle(): Promise<UserAccount | null>;
   updateSingle(updates: Partial<UserAccount>): Promise<void>;
 }
 
-// Storage interface for settings (single user)
+// Storage interface for settings (the provider's user)
 export interface SettingsStorage {
   create(): Promise<Settings>;
   getSingle(): Promise<Settings | null>;
   updateSingle(updates: Partial<Settings>): Promise<void>;
 }
 
+// Storage interface for the sync lease, which keeps overlapping cron and
+// manual runs from posting the same post twice
+export interface SyncLeaseStorage {
+  // Take the lease if it's free or expired; null while another run holds it
+  acquire(holder: string, ttlMs: number): Promise<SyncLease | null>;
+  release(holder: string): Promise<void>;
+  getCurrent(): Promise<SyncLease | null>;
+}
+
+// Storage interface for the backfill job (one at a time)
+export interface BackfillJobStorage {
+  // Replace any previous job with a new one
+  create(data: {
+    since_at: number;
+    until_at: number;
+    max_posts: number;
+    add_date_prefix: boolean;
+  }): Promise<BackfillJob>;
+  get(): Promise<BackfillJob | null>;
+  update(updates: Partial<BackfillJob>): Promise<void>;
+}
+
 // Storage interface for post tracking (single user)
 export interface PostTrackingStorage {
   create(data: {
@@ -95,16 +196,40 @@ export interface PostTrackingStorage {
     atproto_rkey: string;
     content_hash: string;
     atproto_created_at: number;
+    origin?: "bluesky" | "mastodon";
   }): Promise<PostTracking>;
   getByUri(atprotoUri: string): Promise<PostTracking | null>;
+  // Matches the first status of a post or any part of a split one
+  getByMastodonId(mastodonId: string): Promise<PostTracking | null>;
   updateByUri(
     atprotoUri: string,
     updates: Partial<PostTracking>,
   ): Promise<void>;
+  // Work queues of the Bluesky to Mastodon sync; reverse-synced rows are
+  // left out
   getPending(): Promise<PostTracking[]>;
   getFailed(): Promise<PostTracking[]>;
+  getPosting(): Promise<PostTracking[]>;
+  getSynced(limit?: number): Promise<PostTracking[]>;
   getRecent(limit?: number): Promise<PostTracking[]>;
   getStats(): Promise<SyncStats>;
+  // The same storage, scoped to another destination's tracking rows
+  forDestination(destinationId: number): PostTrackingStorage;
+}
+
+// Storage interface for additional Mastodon destinations
+export interface DestinationStorage {
+  create(data: {
+    name: string;
+    instance_url: string;
+    client_id: string;
+    client_secret: string;
+    software?: ServerSoftware;
+  }): Promise<Destination>;
+  get(id: number): Promise<Destination | null>;
+  list(): Promise<Destination[]>;
+  update(id: number, updates: Partial<Destination>): Promise<void>;
+  delete(id: number): Promise<void>;
 }
 
 // Storage interface for sync logs (single user)
@@ -130,6 +255,14 @@ export interface StorageProvider {
   settings: SettingsStorage;
   postTracking: PostTrackingStorage;
   syncLogs: SyncLogStorage;
+  syncLease: SyncLeaseStorage;
+  backfillJobs: BackfillJobStorage;
+  destinations: DestinationStorage;
+
+  // The same storage, scoped to another user (multi-user mode)
+  forUser(userId: number): StorageProvider;
+  // Every user's account, in id order
+  listUsers(): Promise<UserAccount[]>;
 
   // Initialize storage (run migrations, etc.)
   initialize(): Promise<void>;
@@ -0,0 +1,623 @@
+// Baseline and progressive JPEG decoding (ITU T.81), with the YCbCr, RGB,
+// grayscale and Adobe CMYK/YCCK color spaces cameras and editors produce
+
+import { createRaster, RasterImage } from "./raster.ts";
+import { idct8x8, ZIGZAG } from "./jpeg-shared.ts";
+
+interface HuffmanTable {
+  // Indexed by the next 16 bits: code length << 8 | symbol
+  lookup: Uint16Array;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  blocksPerLine: number; // Blocks with image data
+  blocksPerColumn: number;
+  blocksPerLineForMcu: number; // Including the padding of partial MCUs
+  blocksPerColumnForMcu: number;
+  coefficients: Int16Array; // 64 per block, in natural order
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  prediction: number;
+}
+
+interface Frame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: FrameComponent[];
+}
+
+const SOI = 0xffd8;
+const EOI = 0xffd9;
+
+function buildHuffmanTable(
+  counts: Uint8Array,
+  symbols: Uint8Array,
+): HuffmanTable {
+  const lookup = new Uint16Array(1 << 16);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      const shift = 16 - length;
+      lookup.fill(
+        (length << 8) | symbols[k++],
+        code << shift,
+        (code + 1) << shift,
+      );
+      code++;
+    }
+    code <<= 1;
+  }
+  return { lookup };
+}
+
+/**
+ * Reads entropy-coded data, skipping stuffed zero bytes and stopping at
+ * the next marker (reading zeros past it)
+ */
+class BitReader {
+  private buffer = 0;
+  private bits = 0;
+
+  constructor(private data: Uint8Array, public offset: number) {}
+
+  private fill(): void {
+    while (this.bits <= 16) {
+      let byte = 0;
+      if (this.offset < this.data.length) {
+        byte = this.data[this.offset];
+        if (byte === 0xff) {
+          const next = this.data[this.offset + 1];
+          if (next === 0) {
+            this.offset += 2;
+          } else {
+            byte = 0; // A marker: the scan's data has ended
+          }
+        } else {
+          this.offset++;
+        }
+      }
+      this.buffer = ((this.buffer << 8) | byte) & 0xffffff;
+      this.bits += 8;
+    }
+  }
+
+  readBits(count: number): number {
+    if (count === 0) return 0;
+    this.fill();
+    this.bits -= count;
+    return (this.buffer >>> this.bits) & ((1 << count) - 1);
+  }
+
+  readBit(): number {
+    return this.readBits(1);
+  }
+
+  decode(table: HuffmanTable): number {
+    this.fill();
+    const entry = table.lookup[(this.buffer >>> (this.bits - 16)) & 0xffff];
+    const length = entry >> 8;
+    if (length === 0) throw new Error("Invalid JPEG Huffman code");
+    this.bits -= length;
+    return entry & 0xff;
+  }
+
+  // A value of the given size, sign-extended as in F.2.2.1
+  receiveExtend(size: number): number {
+    if (size === 0) return 0;
+    const value = this.readBits(size);
+    return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+  }
+
+  // Drop buffered bits at a restart marker, and step over the marker
+  restart(): void {
+    this.buffer = 0;
+    this.bits = 0;
+    while (
+      this.offset < this.data.length - 1 &&
+      !(this.data[this.offset] === 0xff &&
+        this.data[this.offset + 1] >= 0xd0 &&
+        this.data[this.offset + 1] <= 0xd7)
+    ) {
+      this.offset++;
+    }
+    this.offset += 2;
+  }
+}
+
+/**
+ * Decode the entropy-coded data of one scan into the components'
+ * coefficients. Returns the offset after the scan's data.
+ */
+function decodeScan(
+  data: Uint8Array,
+  offset: number,
+  frame: Frame,
+  components: FrameComponent[],
+  restartInterval: number,
+  spectralStart: number,
+  spectralEnd: number,
+  approximationHigh: number,
+  approximationLow: number,
+): number {
+  const reader = new BitReader(data, offset);
+  let eobrun = 0;
+
+  const decodeBaseline = (component: FrameComponent, block: number) => {
+    const coefficients = component.coefficients;
+    const t = reader.decode(component.dcTable!);
+    component.prediction += reader.receiveExtend(t);
+    coefficients[block] = component.prediction;
+
+    for (let k = 1; k < 64;) {
+      const rs = reader.decode(component.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      coefficients[block + ZIGZAG[k]] = reader.receiveExtend(s);
+      k++;
+    }
+  };
+
+  const decodeDcFirst = (component: FrameComponent, block: number) => {
+    const t = reader.decode(component.dcTable!);
+    component.prediction += reader.receiveExtend(t) * (1 << approximationLow);
+    component.coefficients[block] = component.prediction;
+  };
+
+  const decodeDcRefine = (component: FrameComponent, block: number) => {
+    if (reader.readBit()) {
+      component.coefficients[block] |= 1 << approximationLow;
+    }
+  };
+
+  const decodeAcFirst = (component: FrameComponent, block: number) => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    const coefficients = component.coefficients;
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const rs = reader.decode(component.acTable!);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = (1 << r) + reader.readBits(r) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      coefficients[block + ZIGZAG[k]] = reader.receiveExtend(s) *
+        (1 << approximationLow);
+      k++;
+    }
+  };
+
+  // Successive approximation of AC coefficients (G.1.2.3)
+  const decodeAcRefine = (component: FrameComponent, block: number) => {
+    const coefficients = component.coefficients;
+    const p1 = 1 << approximationLow;
+    const m1 = -1 << approximationLow;
+    let k = spectralStart;
+
+    const refine = (position: number) => {
+      const coefficient = coefficients[position];
+      if (reader.readBit() && (coefficient & p1) === 0) {
+        coefficients[position] = coefficient >= 0
+          ? coefficient + p1
+          : coefficient + m1;
+      }
+    };
+
+    if (eobrun === 0) {
+      for (; k <= spectralEnd; k++) {
+        const rs = reader.decode(component.acTable!);
+        let r = rs >> 4;
+        let value = 0;
+        if (rs & 15) {
+          value = reader.readBit() ? p1 : m1;
+        } else if (r !== 15) {
+          eobrun = (1 << r) + reader.readBits(r);
+          break;
+        }
+
+        // Skip r zero-history coefficients, refining nonzero ones on the way
+        for (; k <= spectralEnd; k++) {
+          const position = block + ZIGZAG[k];
+          if (coefficients[position] !== 0) {
+            refine(position);
+          } else {
+            if (r === 0) break;
+            r--;
+          }
+        }
+        if (value !== 0 && k <= spectralEnd) {
+          coefficients[block + ZIGZAG[k]] = value;
+        }
+      }
+    }
+
+    if (eobrun > 0) {
+      for (; k <= spectralEnd; k++) {
+        const position = block + ZIGZAG[k];
+        if (coefficients[position] !== 0) refine(position);
+      }
+      eobrun--;
+    }
+  };
+
+  const decodeBlock = frame.progressive
+    ? spectralStart === 0
+      ? approximationHigh === 0 ? decodeDcFirst : decodeDcRefine
+      : approximationHigh === 0
+      ? decodeAcFirst
+      : decodeAcRefine
+    : decodeBaseline;
+
+  // A lone component is coded block by block over its own area; several
+  // are interleaved in MCUs
+  const single = components.length === 1;
+  const totalMcus = single
+    ? components[0].blocksPerLine * components[0].blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+  const interval = restartInterval || totalMcus;
+
+  for (let mcu = 0; mcu < totalMcus;) {
+    for (const component of components) component.prediction = 0;
+    eobrun = 0;
+
+    for (let n = 0; n < interval && mcu < totalMcus; n++, mcu++) {
+      if (single) {
+        const component = components[0];
+        const row = Math.floor(mcu / component.blocksPerLine);
+        const column = mcu % component.blocksPerLine;
+        decodeBlock(
+          component,
+          (row * component.blocksPerLineForMcu + column) * 64,
+        );
+        continue;
+      }
+
+      const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+      const mcuColumn = mcu % frame.mcusPerLine;
+      for (const component of components) {
+        for (let v = 0; v < component.v; v++) {
+          for (let h = 0; h < component.h; h++) {
+            const row = mcuRow * component.v + v;
+            const column = mcuColumn * component.h + h;
+            decodeBlock(
+              component,
+              (row * component.blocksPerLineForMcu + column) * 64,
+            );
+          }
+        }
+      }
+    }
+
+    if (mcu < totalMcus) reader.restart();
+  }
+
+  // Find the marker that ends the scan
+  let end = reader.offset;
+  while (
+    end < data.length - 1 &&
+    !(data[end] === 0xff && data[end + 1] !== 0 &&
+      !(data[end + 1] >= 0xd0 && data[end + 1] <= 0xd7))
+  ) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Dequantize and inverse-transform a component into a plane of samples
+ */
+function buildPlane(
+  component: FrameComponent,
+  quantTable: Uint16Array,
+): { samples: Uint8ClampedArray; width: number } {
+  const width = component.blocksPerLineForMcu * 8;
+  const samples = new Uint8ClampedArray(
+    width * component.blocksPerColumnForMcu * 8,
+  );
+  const block = new Float32Array(64);
+
+  for (let row = 0; row < component.blocksPerColumnForMcu; row++) {
+    for (let column = 0; column < component.blocksPerLineForMcu; column++) {
+      const offset = (row * component.blocksPerLineForMcu + column) * 64;
+      for (let i = 0; i < 64; i++) {
+        block[i] = component.coefficients[offset + i] * quantTable[i];
+      }
+      idct8x8(block);
+
+      for (let y = 0; y < 8; y++) {
+        const line = (row * 8 + y) * width + column * 8;
+        for (let x = 0; x < 8; x++) {
+          samples[line + x] = Math.round(block[y * 8 + x] + 128);
+        }
+      }
+    }
+  }
+
+  return { samples, width };
+}
+
+/**
+ * Decode a baseline or progressive JPEG
+ */
+export function decodeJpeg(bytes: Uint8Array): RasterImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(0) !== SOI) throw new Error("Not a JPEG image");
+
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+  let jfif = false;
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    // Skip fill bytes and anything that isn't a marker
+    if (bytes[offset] !== 0xff || bytes[offset + 1] === 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = view.getUint16(offset);
+    offset += 2;
+    if (marker === EOI) break;
+    if (marker >= 0xffd0 && marker <= 0xffd7) continue; // Stray restart
+
+    const length = view.getUint16(offset);
+    const segment = bytes.subarray(offset + 2, offset + length);
+
+    switch (marker) {
+      case 0xffe0: // APP0
+        if (String.fromCharCode(...segment.subarray(0, 4)) === "JFIF") {
+          jfif = true;
+        }
+        break;
+
+      case 0xffee: // APP14
+        if (String.fromCharCode(...segment.subarray(0, 5)) === "Adobe") {
+          adobeTransform = segment[11];
+        }
+        break;
+
+      case 0xffdb: // DQT
+        for (let i = 0; i < segment.length;) {
+          const precision = segment[i] >> 4;
+          const id = segment[i] & 15;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = precision
+              ? (segment[i + 1 + k * 2] << 8) | segment[i + 2 + k * 2]
+              : segment[i + 1 + k];
+          }
+          quantTables[id] = table;
+          i += 1 + 64 * (precision ? 2 : 1);
+        }
+        break;
+
+      case 0xffc4: // DHT
+        for (let i = 0; i < segment.length;) {
+          const tableClass = segment[i] >> 4;
+          const id = segment[i] & 15;
+          const counts = segment.subarray(i + 1, i + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const table = buildHuffmanTable(
+            counts,
+            segment.subarray(i + 17, i + 17 + total),
+          );
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+          i += 17 + total;
+        }
+        break;
+
+      case 0xffdd: // DRI
+        restartInterval = view.getUint16(offset + 2);
+        break;
+
+      case 0xffc0: // SOF0, baseline
+      case 0xffc1: // SOF1, extended sequential
+      case 0xffc2: { // SOF2, progressive
+        if (frame) throw new Error("JPEG has more than one frame");
+        const height = (segment[1] << 8) | segment[2];
+        const width = (segment[3] << 8) | segment[4];
+        const components: FrameComponent[] = [];
+        for (let i = 0; i < segment[5]; i++) {
+          const c = 6 + i * 3;
+          components.push({
+            id: segment[c],
+            h: segment[c + 1] >> 4 || 1,
+            v: segment[c + 1] & 15 || 1,
+            quantTable: segment[c + 2],
+            blocksPerLine: 0,
+            blocksPerColumn: 0,
+            blocksPerLineForMcu: 0,
+            blocksPerColumnForMcu: 0,
+            coefficients: new Int16Array(0),
+            prediction: 0,
+          });
+        }
+        if (!width || !height) throw new Error("JPEG has no dimensions");
+
+        const maxH = Math.max(...components.map((c) => c.h));
+        const maxV = Math.max(...components.map((c) => c.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const component of components) {
+          component.blocksPerLine = Math.ceil(
+            Math.ceil(width * component.h / maxH) / 8,
+          );
+          component.blocksPerColumn = Math.ceil(
+            Math.ceil(height * component.v / maxV) / 8,
+          );
+          component.blocksPerLineForMcu = mcusPerLine * component.h;
+          component.blocksPerColumnForMcu = mcusPerColumn * component.v;
+          component.coefficients = new Int16Array(
+            component.blocksPerLineForMcu * component.blocksPerColumnForMcu *
+              64,
+          );
+        }
+
+        frame = {
+          progressive: marker === 0xffc2,
+          width,
+          height,
+          maxH,
+          maxV,
+          mcusPerLine,
+          mcusPerColumn,
+          components,
+        };
+        break;
+      }
+
+      case 0xffc3:
+      case 0xffc5:
+      case 0xffc6:
+      case 0xffc7:
+      case 0xffc9:
+      case 0xffca:
+      case 0xffcb:
+      case 0xffcd:
+      case 0xffce:
+      case 0xffcf:
+        throw new Error("Unsupported JPEG coding (lossless or arithmetic)");
+
+      case 0xffda: { // SOS
+        if (!frame) throw new Error("JPEG scan before frame header");
+        const scanComponents: FrameComponent[] = [];
+        for (let i = 0; i < segment[0]; i++) {
+          const component = frame.components.find((c) =>
+            c.id === segment[1 + i * 2]
+          );
+          if (!component) throw new Error("JPEG scan of unknown component");
+          const tables = segment[2 + i * 2];
+          component.dcTable = dcTables[tables >> 4];
+          component.acTable = acTables[tables & 15];
+          scanComponents.push(component);
+        }
+        const s = 1 + segment[0] * 2;
+        offset = decodeScan(
+          bytes,
+          offset + length,
+          frame,
+          scanComponents,
+          restartInterval,
+          segment[s],
+          segment[s + 1],
+          segment[s + 2] >> 4,
+          segment[s + 2] & 15,
+        );
+        continue;
+      }
+    }
+
+    offset += length;
+  }
+
+  if (!frame) throw new Error("JPEG has no frame");
+  return toRaster(frame, quantTables, adobeTransform, jfif);
+}
+
+function toRaster(
+  frame: Frame,
+  quantTables: Uint16Array[],
+  adobeTransform: number | null,
+  jfif: boolean,
+): RasterImage {
+  const { width, height, maxH, maxV, components } = frame;
+  const planes = components.map((component) => {
+    const table = quantTables[component.quantTable];
+    if (!table) throw new Error("JPEG quantization table is missing");
+    return buildPlane(component, table);
+  });
+
+  // Per-component sample offsets for each output column and row
+  const xOffsets = components.map((component) =>
+    Int32Array.from(
+      { length: width },
+      (_, x) => Math.floor(x * component.h / maxH),
+    )
+  );
+  const rowOf = (index: number, y: number) =>
+    Math.floor(y * components[index].v / maxV) * planes[index].width;
+
+  // RGB unless JFIF says YCbCr; Adobe's flag and component ids tell otherwise
+  const ids = String.fromCharCode(...components.map((c) => c.id));
+  const transform = components.length === 3
+    ? adobeTransform !== null ? adobeTransform !== 0 : jfif || ids !== "RGB"
+    : components.length === 4
+    ? adobeTransform === 2
+    : false;
+
+  const image = createRaster(width, height);
+  const out = image.data;
+
+  for (let y = 0; y < height; y++) {
+    const rows = components.map((_, i) => rowOf(i, y));
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const c0 = planes[0].samples[rows[0] + xOffsets[0][x]];
+
+      if (components.length === 1) {
+        out[o] = out[o + 1] = out[o + 2] = c0;
+        out[o + 3] = 255;
+        continue;
+      }
+
+      const c1 = planes[1].samples[rows[1] + xOffsets[1][x]];
+      const c2 = planes[2].samples[rows[2] + xOffsets[2][x]];
+      let r = c0, g = c1, b = c2;
+      if (transform) {
+        r = c0 + 1.402 * (c2 - 128);
+        g = c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128);
+        b = c0 + 1.772 * (c1 - 128);
+      }
+
+      if (components.length === 4) {
+        // Adobe stores inverted CMYK; YCCK converts to it by inverting RGB
+        const k = planes[3].samples[rows[3] + xOffsets[3][x]];
+        const [c, m, ye] = transform
+          ? [255 - clamp(r), 255 - clamp(g), 255 - clamp(b)]
+          : [r, g, b];
+        r = c * k / 255;
+        g = m * k / 255;
+        b = ye * k / 255;
+      }
+
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = 255;
+    }
+  }
+
+  return image;
+}
+
+function clamp(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
@@ -0,0 +1,318 @@
+// Baseline JPEG encoding: JFIF, 4:2:0 chroma subsampling and the example
+// Huffman tables of ITU T.81 Annex K
+
+import { RasterImage } from "./raster.ts";
+import { fdct8x8, ZIGZAG } from "./jpeg-shared.ts";
+
+// Annex K.1 quantization tables at quality 50, in natural order
+// deno-fmt-ignore
+const LUMINANCE_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+// deno-fmt-ignore
+const CHROMINANCE_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+// Annex K.3 Huffman tables: code counts by length, then symbols
+const DC_LUMINANCE = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+const DC_CHROMINANCE = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+// deno-fmt-ignore
+const AC_LUMINANCE = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06,
+    0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08,
+    0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72,
+    0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
+    0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59,
+    0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75,
+    0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
+    0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
+    0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9,
+    0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+// deno-fmt-ignore
+const AC_CHROMINANCE = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41,
+    0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91,
+    0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1,
+    0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44,
+    0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58,
+    0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74,
+    0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a,
+    0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4,
+    0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7,
+    0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+
+interface HuffmanCodes {
+  codes: Uint16Array; // By symbol
+  lengths: Uint8Array;
+}
+
+function buildCodes(spec: { counts: number[]; symbols: number[] }) {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.counts[length - 1]; i++) {
+      const symbol = spec.symbols[k++];
+      codes[symbol] = code++;
+      lengths[symbol] = length;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+}
+
+/**
+ * Scale a quality-50 table to the requested quality (1-100) the way the
+ * IJG library does, in natural order
+ */
+function scaleQuantTable(table: number[], quality: number): Uint8Array {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const factor = q < 50 ? 5000 / q : 200 - q * 2;
+  return Uint8Array.from(
+    table,
+    (value) =>
+      Math.min(255, Math.max(1, Math.floor((value * factor + 50) / 100))),
+  );
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    const grown = new Uint8Array(
+      Math.max(this.buffer.length * 2, this.length + extra),
+    );
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+
+  byte(value: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    this.ensure(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  uint16(value: number): void {
+    this.byte(value >> 8);
+    this.byte(value & 0xff);
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Encode as a baseline JPEG at the given quality (1-100). Transparency
+ * is dropped, so callers should only pass opaque images.
+ */
+export function encodeJpeg(
+  image: RasterImage,
+  quality: number,
+): Uint8Array<ArrayBuffer> {
+  const { width, height, data } = image;
+  if (!width || !height) throw new Error("Cannot encode an empty image");
+
+  const quantTables = [
+    scaleQuantTable(LUMINANCE_QUANT, quality),
+    scaleQuantTable(CHROMINANCE_QUANT, quality),
+  ];
+  const dcCodes = [buildCodes(DC_LUMINANCE), buildCodes(DC_CHROMINANCE)];
+  const acCodes = [buildCodes(AC_LUMINANCE), buildCodes(AC_CHROMINANCE)];
+
+  const out = new ByteWriter();
+  out.uint16(0xffd8); // SOI
+
+  // APP0: JFIF 1.1, no density or thumbnail
+  out.uint16(0xffe0);
+  out.uint16(16);
+  out.bytes([0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+  // DQT, both tables in zigzag order
+  out.uint16(0xffdb);
+  out.uint16(2 + 65 * 2);
+  quantTables.forEach((table, id) => {
+    out.byte(id);
+    for (let k = 0; k < 64; k++) out.byte(table[ZIGZAG[k]]);
+  });
+
+  // SOF0: luma sampled 2x2, chroma 1x1
+  out.uint16(0xffc0);
+  out.uint16(17);
+  out.byte(8);
+  out.uint16(height);
+  out.uint16(width);
+  out.byte(3);
+  out.bytes([1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]);
+
+  // DHT
+  const specs = [
+    [0x00, DC_LUMINANCE],
+    [0x10, AC_LUMINANCE],
+    [0x01, DC_CHROMINANCE],
+    [0x11, AC_CHROMINANCE],
+  ] as const;
+  out.uint16(0xffc4);
+  out.uint16(
+    2 + specs.reduce((total, [, spec]) => total + 17 + spec.symbols.length, 0),
+  );
+  for (const [id, spec] of specs) {
+    out.byte(id);
+    out.bytes(spec.counts);
+    out.bytes(spec.symbols);
+  }
+
+  // SOS: all three components, full spectrum
+  out.uint16(0xffda);
+  out.uint16(12);
+  out.bytes([3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+  // Entropy-coded data, with stuffed zeros after 0xff bytes
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const writeBits = (value: number, count: number) => {
+    bitBuffer = (bitBuffer << count) | (value & ((1 << count) - 1));
+    bitCount += count;
+    while (bitCount >= 8) {
+      const byte = (bitBuffer >> (bitCount - 8)) & 0xff;
+      out.byte(byte);
+      if (byte === 0xff) out.byte(0);
+      bitCount -= 8;
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  };
+  const writeCode = (table: HuffmanCodes, symbol: number) =>
+    writeBits(table.codes[symbol], table.lengths[symbol]);
+
+  const block = new Float32Array(64);
+  const predictions = [0, 0, 0];
+  const encodeBlock = (component: number) => {
+    fdct8x8(block);
+    const table = component === 0 ? 0 : 1;
+    const quant = quantTables[table];
+
+    const dc = Math.round(block[0] / quant[0]);
+    const difference = dc - predictions[component];
+    predictions[component] = dc;
+    const dcSize = bitSize(difference);
+    writeCode(dcCodes[table], dcSize);
+    if (dcSize) writeBits(magnitudeBits(difference, dcSize), dcSize);
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const position = ZIGZAG[k];
+      const value = Math.round(block[position] / quant[position]);
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      while (run > 15) {
+        writeCode(acCodes[table], 0xf0); // Sixteen zeros
+        run -= 16;
+      }
+      const size = bitSize(value);
+      writeCode(acCodes[table], (run << 4) | size);
+      writeBits(magnitudeBits(value, size), size);
+      run = 0;
+    }
+    if (run > 0) writeCode(acCodes[table], 0x00); // End of block
+  };
+
+  // Converts to YCbCr, repeating the edge pixels into partial blocks
+  const sample = (x: number, y: number) =>
+    (Math.min(y, height - 1) * width + Math.min(x, width - 1)) * 4;
+  const luma = (i: number) =>
+    0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  const cb = (i: number) =>
+    -0.168736 * data[i] - 0.331264 * data[i + 1] + 0.5 * data[i + 2] + 128;
+  const cr = (i: number) =>
+    0.5 * data[i] - 0.418688 * data[i + 1] - 0.081312 * data[i + 2] + 128;
+
+  for (let mcuY = 0; mcuY < height; mcuY += 16) {
+    for (let mcuX = 0; mcuX < width; mcuX += 16) {
+      for (let b = 0; b < 4; b++) {
+        const blockX = mcuX + (b & 1) * 8;
+        const blockY = mcuY + (b >> 1) * 8;
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            block[y * 8 + x] = luma(sample(blockX + x, blockY + y)) - 128;
+          }
+        }
+        encodeBlock(0);
+      }
+
+      // Each chroma sample averages a 2x2 square of pixels
+      for (const [component, convert] of [[1, cb], [2, cr]] as const) {
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            const px = mcuX + x * 2;
+            const py = mcuY + y * 2;
+            block[y * 8 + x] = (convert(sample(px, py)) +
+                  convert(sample(px + 1, py)) +
+                  convert(sample(px, py + 1)) +
+                  convert(sample(px + 1, py + 1))) / 4 - 128;
+          }
+        }
+        encodeBlock(component);
+      }
+    }
+  }
+
+  // Pad the last byte with ones
+  if (bitCount > 0) writeBits(0x7f, 8 - bitCount);
+  out.uint16(0xffd9); // EOI
+  return out.result();
+}
+
+// Number of bits of a coefficient's magnitude (its JPEG size category)
+function bitSize(value: number): number {
+  let magnitude = Math.abs(value);
+  let size = 0;
+  while (magnitude) {
+    size++;
+    magnitude >>= 1;
+  }
+  return size;
+}
+
+// Negative values are sent as their ones' complement
+function magnitudeBits(value: number, size: number): number {
+  return value < 0 ? value + (1 << size) - 1 : value;
+}
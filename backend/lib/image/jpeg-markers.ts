@@ -0,0 +1,136 @@
+// Reading and rewriting a JPEG's marker segments, without decoding the
+// image itself
+
+interface Segment {
+  marker: number;
+  start: number; // Offset of the marker
+  end: number;
+  data: Uint8Array; // The payload after the length field
+}
+
+const SOS = 0xffda;
+const EOI = 0xffd9;
+
+// Metadata that's dropped when stripping: EXIF or XMP (APP1), Photoshop
+// and IPTC (APP13) and comments. ICC profiles (APP2) and the Adobe
+// segment (APP14) affect the colors, so they stay.
+const METADATA_MARKERS = new Set([0xffe1, 0xffed, 0xfffe]);
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+/**
+ * The segments before the image data. Returns the offset of the start of
+ * scan marker too, or the end of the file when there's none.
+ */
+function readSegments(
+  bytes: Uint8Array,
+): { segments: Segment[]; scanStart: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: Segment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = view.getUint16(offset);
+    if (marker === 0xffff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === SOS || marker === EOI) {
+      return { segments, scanStart: offset };
+    }
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    segments.push({
+      marker,
+      start: offset,
+      end,
+      data: bytes.subarray(offset + 4, Math.min(end, bytes.length)),
+    });
+    offset = end;
+  }
+
+  return { segments, scanStart: Math.min(offset, bytes.length) };
+}
+
+/**
+ * Width and height from the frame header, without decoding the image
+ */
+export function readJpegSize(
+  bytes: Uint8Array,
+): { width: number; height: number } | null {
+  for (const { marker, data } of readSegments(bytes).segments) {
+    // Start of frame markers, leaving out DHT, JPG and DAC among them
+    const isFrame = marker >= 0xffc0 && marker <= 0xffcf &&
+      marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc;
+    if (isFrame && data.length >= 5) {
+      return {
+        height: (data[1] << 8) | data[2],
+        width: (data[3] << 8) | data[4],
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * The EXIF orientation (1-8) of a JPEG, or 1 when it has none
+ */
+export function readJpegOrientation(bytes: Uint8Array): number {
+  for (const { marker, data } of readSegments(bytes).segments) {
+    if (
+      marker !== 0xffe1 ||
+      String.fromCharCode(...data.subarray(0, 6)) !== "Exif\0\0"
+    ) {
+      continue;
+    }
+
+    const tiff = new DataView(
+      data.buffer,
+      data.byteOffset + 6,
+      data.byteLength - 6,
+    );
+    try {
+      const little = tiff.getUint16(0) === 0x4949;
+      const ifd = tiff.getUint32(4, little);
+      const entries = tiff.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (tiff.getUint16(entry, little) === 0x0112) {
+          const orientation = tiff.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+    } catch {
+      // Offsets pointing outside the segment: treat as no orientation
+    }
+  }
+
+  return 1;
+}
+
+/**
+ * Drop EXIF, XMP, IPTC and comment segments, keeping the encoded image
+ * as is
+ */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  const { segments, scanStart } = readSegments(bytes);
+  const kept = segments.filter(({ marker }) => !METADATA_MARKERS.has(marker));
+  if (kept.length === segments.length) return bytes;
+
+  const parts = [
+    bytes.subarray(0, 2),
+    ...kept.map(({ start, end }) => bytes.subarray(start, end)),
+    bytes.subarray(scanStart),
+  ];
+  const out = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
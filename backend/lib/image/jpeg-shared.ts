@@ -0,0 +1,68 @@
+// Pieces JPEG decoding and encoding have in common
+
+// Natural (row-major) position of each coefficient in zigzag order
+// deno-fmt-ignore
+export const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+// COSINES[u * 8 + x] = C(u) / 2 * cos((2x + 1)uπ / 16)
+const COSINES = (() => {
+  const table = new Float32Array(64);
+  for (let u = 0; u < 8; u++) {
+    const scale = u === 0 ? Math.SQRT1_2 / 2 : 0.5;
+    for (let x = 0; x < 8; x++) {
+      table[u * 8 + x] = scale * Math.cos((2 * x + 1) * u * Math.PI / 16);
+    }
+  }
+  return table;
+})();
+
+const scratch = new Float32Array(64);
+
+/**
+ * Inverse DCT of a block of coefficients in place, rows then columns
+ */
+export function idct8x8(block: Float32Array): void {
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) sum += COSINES[u * 8 + x] * block[y * 8 + u];
+      scratch[y * 8 + x] = sum;
+    }
+  }
+  for (let x = 0; x < 8; x++) {
+    for (let y = 0; y < 8; y++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) {
+        sum += COSINES[v * 8 + y] * scratch[v * 8 + x];
+      }
+      block[y * 8 + x] = sum;
+    }
+  }
+}
+
+/**
+ * Forward DCT of a block of samples in place, rows then columns
+ */
+export function fdct8x8(block: Float32Array): void {
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += COSINES[u * 8 + x] * block[y * 8 + x];
+      scratch[y * 8 + u] = sum;
+    }
+  }
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) {
+        sum += COSINES[v * 8 + y] * scratch[y * 8 + u];
+      }
+      block[v * 8 + u] = sum;
+    }
+  }
+}
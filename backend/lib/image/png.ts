@@ -0,0 +1,340 @@
+// PNG decoding and encoding. Image data is zlib-compressed, which the
+// platform's (De)CompressionStream handles; everything else is done here.
+
+import { createRaster, hasTransparency, RasterImage } from "./raster.ts";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Start column and row, and steps between them, of the Adam7 passes
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+// Samples per pixel of each color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const output = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+async function transform(
+  data: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([data]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Width and height from the header, without decoding the image
+ */
+export function readPngSize(
+  bytes: Uint8Array,
+): { width: number; height: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Undo the per-row filters of one (sub)image in place
+ */
+function unfilter(
+  data: Uint8Array,
+  offset: number,
+  rowBytes: number,
+  rows: number,
+  bpp: number,
+): void {
+  let previous = -1; // Offset of the previous row's first byte
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset];
+    const row = offset + 1;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const a = i >= bpp ? data[row + i - bpp] : 0;
+      const b = previous >= 0 ? data[previous + i] : 0;
+      const c = i >= bpp && previous >= 0 ? data[previous + i - bpp] : 0;
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          data[row + i] += a;
+          break;
+        case 2:
+          data[row + i] += b;
+          break;
+        case 3:
+          data[row + i] += (a + b) >> 1;
+          break;
+        case 4:
+          data[row + i] += paeth(a, b, c);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+    }
+
+    previous = row;
+    offset = row + rowBytes;
+  }
+}
+
+/**
+ * Decode a PNG of any color type and bit depth, interlaced or not
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RasterImage> {
+  if (!isPng(bytes)) throw new Error("Not a PNG image");
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = view.getUint32(16);
+      height = view.getUint32(20);
+      [bitDepth, colorType] = [chunk[8], chunk[9]];
+      interlace = chunk[12];
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      compressed.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || !channels) {
+    throw new Error("Unsupported or invalid PNG header");
+  }
+  if (colorType === 3 && !palette) throw new Error("PNG palette is missing");
+
+  const data = await transform(
+    concat(compressed),
+    new DecompressionStream("deflate"),
+  );
+
+  const bitsPerPixel = channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const image = createRaster(width, height);
+  const maxValue = (1 << bitDepth) - 1;
+  const view16 = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // Color-key transparency of gray and RGB images, in raw sample values
+  const key = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from(
+      { length: colorType === 0 ? 1 : 3 },
+      (_, i) => (transparency![i * 2] << 8) | transparency![i * 2 + 1],
+    )
+    : null;
+
+  const sample = (rowStart: number, x: number, channel: number): number => {
+    if (bitDepth === 8) return data[rowStart + x * channels + channel];
+    if (bitDepth === 16) {
+      return view16.getUint16(rowStart + (x * channels + channel) * 2);
+    }
+    const bit = (x * channels + channel) * bitDepth;
+    return (data[rowStart + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) &
+      maxValue;
+  };
+  const scale = (value: number) => Math.round(value * 255 / maxValue);
+
+  let offset = 0;
+  const passes = interlace ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  for (const [xStart, yStart, xStep, yStep] of passes) {
+    const passWidth = Math.ceil((width - xStart) / xStep);
+    const passHeight = Math.ceil((height - yStart) / yStep);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = Math.ceil(passWidth * bitsPerPixel / 8);
+    if (offset + (rowBytes + 1) * passHeight > data.length) {
+      throw new Error("PNG image data is truncated");
+    }
+    unfilter(data, offset, rowBytes, passHeight, bpp);
+
+    for (let py = 0; py < passHeight; py++) {
+      const rowStart = offset + py * (rowBytes + 1) + 1;
+      const y = yStart + py * yStep;
+
+      for (let px = 0; px < passWidth; px++) {
+        const o = (y * width + xStart + px * xStep) * 4;
+        let r: number, g: number, b: number, a = 255;
+
+        if (colorType === 3) {
+          const index = sample(rowStart, px, 0);
+          [r, g, b] = [
+            palette![index * 3],
+            palette![index * 3 + 1],
+            palette![index * 3 + 2],
+          ];
+          if (transparency && index < transparency.length) {
+            a = transparency[index];
+          }
+        } else if (colorType === 0 || colorType === 4) {
+          const gray = sample(rowStart, px, 0);
+          r = g = b = scale(gray);
+          if (colorType === 4) a = scale(sample(rowStart, px, 1));
+          else if (key && gray === key[0]) a = 0;
+        } else if (bitDepth === 8) {
+          const s = rowStart + px * channels;
+          [r, g, b] = [data[s], data[s + 1], data[s + 2]];
+          if (colorType === 6) a = data[s + 3];
+          else if (key && r === key[0] && g === key[1] && b === key[2]) a = 0;
+        } else {
+          const raw = [0, 1, 2].map((channel) => sample(rowStart, px, channel));
+          [r, g, b] = raw.map(scale);
+          if (colorType === 6) a = scale(sample(rowStart, px, 3));
+          else if (key && raw.every((value, i) => value === key[i])) a = 0;
+        }
+
+        image.data[o] = r;
+        image.data[o + 1] = g;
+        image.data[o + 2] = b;
+        image.data[o + 3] = a;
+      }
+    }
+
+    offset += (rowBytes + 1) * passHeight;
+  }
+
+  return image;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const output = new Uint8Array(12 + data.length);
+  const view = new DataView(output.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) output[4 + i] = type.charCodeAt(i);
+  output.set(data, 8);
+  view.setUint32(8 + data.length, crc32(output.subarray(4, 8 + data.length)));
+  return output;
+}
+
+/**
+ * Encode as an 8-bit RGB or RGBA PNG (RGB when fully opaque), choosing each
+ * row's filter by the smallest sum of absolute differences
+ */
+export async function encodePng(
+  image: RasterImage,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { width, height, data } = image;
+  const channels = hasTransparency(image) ? 4 : 3;
+  const rowBytes = width * channels;
+
+  const raw = new Uint8Array(height * rowBytes);
+  for (let i = 0, o = 0; i < data.length; i += 4) {
+    raw[o++] = data[i];
+    raw[o++] = data[i + 1];
+    raw[o++] = data[i + 2];
+    if (channels === 4) raw[o++] = data[i + 3];
+  }
+
+  const filtered = new Uint8Array(height * (rowBytes + 1));
+  const candidate = new Uint8Array(rowBytes);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    const previous = row - rowBytes;
+    let bestScore = Infinity;
+
+    for (let filter = 0; filter <= 4; filter++) {
+      let score = 0;
+      for (let i = 0; i < rowBytes; i++) {
+        const a = i >= channels ? raw[row + i - channels] : 0;
+        const b = y > 0 ? raw[previous + i] : 0;
+        const c = i >= channels && y > 0 ? raw[previous + i - channels] : 0;
+        const predictor = filter === 0
+          ? 0
+          : filter === 1
+          ? a
+          : filter === 2
+          ? b
+          : filter === 3
+          ? (a + b) >> 1
+          : paeth(a, b, c);
+        const value = (raw[row + i] - predictor) & 0xff;
+        candidate[i] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+
+      if (score < bestScore) {
+        bestScore = score;
+        filtered[y * (rowBytes + 1)] = filter;
+        filtered.set(candidate, y * (rowBytes + 1) + 1);
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = channels === 4 ? 6 : 2; // RGBA or RGB
+
+  const compressed = await transform(
+    filtered,
+    new CompressionStream("deflate"),
+  );
+  return concat([
+    new Uint8Array(SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", compressed),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
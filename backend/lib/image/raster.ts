@@ -0,0 +1,146 @@
+// Decoded images as plain RGBA pixels, and the operations the media
+// pipeline applies to them between decoding and encoding
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, row by row
+}
+
+export function createRaster(width: number, height: number): RasterImage {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+/**
+ * Whether any pixel is less than fully opaque
+ */
+export function hasTransparency(image: RasterImage): boolean {
+  for (let i = 3; i < image.data.length; i += 4) {
+    if (image.data[i] !== 255) return true;
+  }
+  return false;
+}
+
+/**
+ * Downscale by averaging the source area under each target pixel. Colors
+ * are weighted by alpha so transparent pixels don't darken the edges.
+ */
+export function resizeRaster(
+  image: RasterImage,
+  width: number,
+  height: number,
+): RasterImage {
+  const { width: sourceWidth, height: sourceHeight, data: source } = image;
+  if (width === sourceWidth && height === sourceHeight) return image;
+
+  const output = createRaster(width, height);
+  const xScale = sourceWidth / width;
+  const yScale = sourceHeight / height;
+
+  // Horizontal coverage of each target column: the source columns it spans
+  // and how much of the first and last one
+  const xStart = new Int32Array(width);
+  const xEnd = new Int32Array(width);
+  const xWeights: Float64Array[] = [];
+  for (let x = 0; x < width; x++) {
+    const left = x * xScale;
+    const right = Math.min(sourceWidth, left + xScale);
+    xStart[x] = Math.floor(left);
+    xEnd[x] = Math.min(sourceWidth, Math.ceil(right));
+    const weights = new Float64Array(xEnd[x] - xStart[x]);
+    for (let sx = xStart[x]; sx < xEnd[x]; sx++) {
+      weights[sx - xStart[x]] = Math.min(sx + 1, right) - Math.max(sx, left);
+    }
+    xWeights.push(weights);
+  }
+
+  const sums = new Float64Array(4);
+  for (let y = 0; y < height; y++) {
+    const top = y * yScale;
+    const bottom = Math.min(sourceHeight, top + yScale);
+
+    for (let x = 0; x < width; x++) {
+      sums.fill(0);
+      let area = 0;
+      const weights = xWeights[x];
+
+      for (let sy = Math.floor(top); sy < bottom; sy++) {
+        const yWeight = Math.min(sy + 1, bottom) - Math.max(sy, top);
+        for (let sx = xStart[x]; sx < xEnd[x]; sx++) {
+          const weight = yWeight * weights[sx - xStart[x]];
+          const i = (sy * sourceWidth + sx) * 4;
+          const alphaWeight = weight * source[i + 3];
+          sums[0] += source[i] * alphaWeight;
+          sums[1] += source[i + 1] * alphaWeight;
+          sums[2] += source[i + 2] * alphaWeight;
+          sums[3] += alphaWeight;
+          area += weight;
+        }
+      }
+
+      const o = (y * width + x) * 4;
+      if (sums[3] > 0) {
+        output.data[o] = Math.round(sums[0] / sums[3]);
+        output.data[o + 1] = Math.round(sums[1] / sums[3]);
+        output.data[o + 2] = Math.round(sums[2] / sums[3]);
+      }
+      output.data[o + 3] = Math.round(sums[3] / area);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Turn an image stored with an EXIF orientation (2-8) the right way up
+ */
+export function orientRaster(
+  image: RasterImage,
+  orientation: number,
+): RasterImage {
+  if (orientation < 2 || orientation > 8) return image;
+
+  const { width, height, data } = image;
+  const swapped = orientation >= 5; // Rotated a quarter turn
+  const output = createRaster(
+    swapped ? height : width,
+    swapped ? width : height,
+  );
+
+  for (let dy = 0; dy < output.height; dy++) {
+    for (let dx = 0; dx < output.width; dx++) {
+      let sx: number, sy: number;
+      switch (orientation) {
+        case 2: // Mirrored
+          [sx, sy] = [width - 1 - dx, dy];
+          break;
+        case 3: // Upside down
+          [sx, sy] = [width - 1 - dx, height - 1 - dy];
+          break;
+        case 4: // Mirrored upside down
+          [sx, sy] = [dx, height - 1 - dy];
+          break;
+        case 5: // Transposed
+          [sx, sy] = [dy, dx];
+          break;
+        case 6: // Needs a clockwise turn
+          [sx, sy] = [dy, height - 1 - dx];
+          break;
+        case 7: // Transversed
+          [sx, sy] = [width - 1 - dy, height - 1 - dx];
+          break;
+        default: // 8: needs a counter-clockwise turn
+          [sx, sy] = [width - 1 - dy, dx];
+      }
+
+      const s = (sy * width + sx) * 4;
+      const o = (dy * output.width + dx) * 4;
+      output.data[o] = data[s];
+      output.data[o + 1] = data[s + 1];
+      output.data[o + 2] = data[s + 2];
+      output.data[o + 3] = data[s + 3];
+    }
+  }
+
+  return output;
+}
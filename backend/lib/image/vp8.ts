@@ -0,0 +1,1173 @@
+// Lossy WebP (VP8 key frame) decoding, per RFC 6386. Reconstruction,
+// loop filtering and the YUV to RGB conversion follow libwebp so decoded
+// pixels match what browsers show.
+
+import { createRaster, RasterImage } from "./raster.ts";
+import {
+  AC_QUANT,
+  BMODE_PROBS,
+  COEFF_UPDATE_PROBS,
+  DC_QUANT,
+  DEFAULT_COEFF_PROBS,
+} from "./vp8-tables.ts";
+
+// Prediction modes. The 16x16 and chroma modes share the first four.
+const DC_PRED = 0;
+const TM_PRED = 1;
+const V_PRED = 2;
+const H_PRED = 3;
+const B_RD_PRED = 4;
+const B_VR_PRED = 5;
+const B_LD_PRED = 6;
+const B_VL_PRED = 7;
+const B_HD_PRED = 8;
+const B_HU_PRED = 9;
+
+// Subblock mode tree, as pairs of branches per node: negative entries are
+// leaves (-mode)
+// deno-fmt-ignore
+const BMODE_TREE = [
+  -DC_PRED, 1,
+  -TM_PRED, 2,
+  -V_PRED, 3,
+  4, 6,
+  -H_PRED, 5,
+  -B_RD_PRED, -B_VR_PRED,
+  -B_LD_PRED, 7,
+  -B_VL_PRED, 8,
+  -B_HD_PRED, -B_HU_PRED,
+];
+
+// Position of each coefficient in zigzag order, and its probability band
+const ZIGZAG = [0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15];
+const BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7, 0];
+
+// Extra bits of the larger coefficient categories
+const CATEGORY_PROBS = [
+  [173, 148, 140],
+  [176, 155, 140, 135],
+  [180, 157, 141, 134, 130],
+  [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129],
+];
+
+// Coefficient types, indexing the token probabilities
+const TYPE_I16_AC = 0;
+const TYPE_Y2 = 1;
+const TYPE_CHROMA = 2;
+const TYPE_I4 = 3;
+
+/**
+ * The boolean entropy decoder of RFC 6386 section 7
+ */
+class BoolDecoder {
+  private value: number;
+  private range = 255;
+  private bitCount = 0;
+  private position: number;
+
+  constructor(private data: Uint8Array, start: number, private end: number) {
+    this.value = (this.byteAt(start) << 8) | this.byteAt(start + 1);
+    this.position = start + 2;
+  }
+
+  // Reading past the end yields zeros, as libvpx and libwebp do
+  private byteAt(offset: number): number {
+    return offset < this.end ? this.data[offset] : 0;
+  }
+
+  getBit(probability: number): number {
+    const split = 1 + (((this.range - 1) * probability) >> 8);
+    const bigSplit = split << 8;
+    let bit: number;
+    if (this.value >= bigSplit) {
+      bit = 1;
+      this.range -= split;
+      this.value -= bigSplit;
+    } else {
+      bit = 0;
+      this.range = split;
+    }
+
+    while (this.range < 128) {
+      this.value <<= 1;
+      this.range <<= 1;
+      if (++this.bitCount === 8) {
+        this.bitCount = 0;
+        this.value |= this.byteAt(this.position++);
+      }
+    }
+    return bit;
+  }
+
+  getValue(bits: number): number {
+    let value = 0;
+    while (bits-- > 0) value = (value << 1) | this.getBit(128);
+    return value;
+  }
+
+  // A magnitude followed by its sign
+  getSignedValue(bits: number): number {
+    const value = this.getValue(bits);
+    return this.getBit(128) ? -value : value;
+  }
+
+  // An optional signed value, preceded by a flag
+  getOptionalSigned(bits: number): number {
+    return this.getBit(128) ? this.getSignedValue(bits) : 0;
+  }
+}
+
+interface Quantizers {
+  y1: [number, number]; // DC and AC step sizes
+  y2: [number, number];
+  uv: [number, number];
+}
+
+interface FilterStrength {
+  limit: number; // 0 when the macroblock isn't filtered
+  interiorLimit: number;
+  hevThreshold: number;
+}
+
+const clip = (value: number, max: number) =>
+  value < 0 ? 0 : value > max ? max : value;
+
+const clip255 = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+/**
+ * Inverse Walsh-Hadamard transform of the Y2 block, spreading the DC
+ * coefficients into the 16 luma blocks
+ */
+function inverseWht(input: Int16Array, output: Int16Array): void {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i++) {
+    const a0 = input[i] + input[12 + i];
+    const a1 = input[4 + i] + input[8 + i];
+    const a2 = input[4 + i] - input[8 + i];
+    const a3 = input[i] - input[12 + i];
+    tmp[i] = a0 + a1;
+    tmp[8 + i] = a0 - a1;
+    tmp[4 + i] = a3 + a2;
+    tmp[12 + i] = a3 - a2;
+  }
+  for (let i = 0; i < 4; i++) {
+    const dc = tmp[i * 4] + 3;
+    const a0 = dc + tmp[3 + i * 4];
+    const a1 = tmp[1 + i * 4] + tmp[2 + i * 4];
+    const a2 = tmp[1 + i * 4] - tmp[2 + i * 4];
+    const a3 = dc - tmp[3 + i * 4];
+    output[i * 64] = (a0 + a1) >> 3;
+    output[i * 64 + 16] = (a3 + a2) >> 3;
+    output[i * 64 + 32] = (a0 - a1) >> 3;
+    output[i * 64 + 48] = (a3 - a2) >> 3;
+  }
+}
+
+const mul1 = (a: number) => ((a * 20091) >> 16) + a;
+const mul2 = (a: number) => (a * 35468) >> 16;
+
+/**
+ * Inverse DCT of a 4x4 block, added to the prediction in place
+ */
+function inverseDctAdd(
+  input: Int16Array,
+  offset: number,
+  plane: Uint8Array,
+  position: number,
+  stride: number,
+): void {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i++) {
+    const a = input[offset + i] + input[offset + 8 + i];
+    const b = input[offset + i] - input[offset + 8 + i];
+    const c = mul2(input[offset + 4 + i]) - mul1(input[offset + 12 + i]);
+    const d = mul1(input[offset + 4 + i]) + mul2(input[offset + 12 + i]);
+    tmp[i * 4] = a + d;
+    tmp[i * 4 + 1] = b + c;
+    tmp[i * 4 + 2] = b - c;
+    tmp[i * 4 + 3] = a - d;
+  }
+  for (let i = 0; i < 4; i++) {
+    const dc = tmp[i] + 4;
+    const a = dc + tmp[8 + i];
+    const b = dc - tmp[8 + i];
+    const c = mul2(tmp[4 + i]) - mul1(tmp[12 + i]);
+    const d = mul1(tmp[4 + i]) + mul2(tmp[12 + i]);
+    const row = position + i * stride;
+    plane[row] = clip255(plane[row] + ((a + d) >> 3));
+    plane[row + 1] = clip255(plane[row + 1] + ((b + c) >> 3));
+    plane[row + 2] = clip255(plane[row + 2] + ((b - c) >> 3));
+    plane[row + 3] = clip255(plane[row + 3] + ((a - d) >> 3));
+  }
+}
+
+const avg2 = (a: number, b: number) => (a + b + 1) >> 1;
+const avg3 = (a: number, b: number, c: number) => (a + 2 * b + c + 2) >> 2;
+
+/**
+ * Predict a 4x4 luma subblock. `edge` holds the 13 neighbors: left
+ * (bottom to top, L..I), the corner X, then above and above-right (A..H).
+ */
+function predictSubblock(
+  mode: number,
+  edge: Int32Array,
+  out: Uint8Array,
+): void {
+  const [L, K, J, I, X, A, B, C, D, E, F, G, H] = edge;
+  const set = (x: number, y: number, value: number) => out[y * 4 + x] = value;
+
+  switch (mode) {
+    case DC_PRED: {
+      const dc = (A + B + C + D + I + J + K + L + 4) >> 3;
+      out.fill(dc);
+      break;
+    }
+    case TM_PRED: {
+      const left = [I, J, K, L];
+      const top = [A, B, C, D];
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) set(x, y, clip255(left[y] + top[x] - X));
+      }
+      break;
+    }
+    case V_PRED: {
+      const values = [
+        avg3(X, A, B),
+        avg3(A, B, C),
+        avg3(B, C, D),
+        avg3(C, D, E),
+      ];
+      for (let y = 0; y < 4; y++) out.set(values, y * 4);
+      break;
+    }
+    case H_PRED:
+      out.fill(avg3(X, I, J), 0, 4);
+      out.fill(avg3(I, J, K), 4, 8);
+      out.fill(avg3(J, K, L), 8, 12);
+      out.fill(avg3(K, L, L), 12, 16);
+      break;
+    case B_RD_PRED:
+      set(0, 3, avg3(J, K, L));
+      set(1, 3, avg3(I, J, K));
+      set(0, 2, avg3(I, J, K));
+      set(2, 3, avg3(X, I, J));
+      set(1, 2, avg3(X, I, J));
+      set(0, 1, avg3(X, I, J));
+      set(3, 3, avg3(A, X, I));
+      set(2, 2, avg3(A, X, I));
+      set(1, 1, avg3(A, X, I));
+      set(0, 0, avg3(A, X, I));
+      set(3, 2, avg3(B, A, X));
+      set(2, 1, avg3(B, A, X));
+      set(1, 0, avg3(B, A, X));
+      set(3, 1, avg3(C, B, A));
+      set(2, 0, avg3(C, B, A));
+      set(3, 0, avg3(D, C, B));
+      break;
+    case B_VR_PRED:
+      set(0, 0, avg2(X, A));
+      set(1, 2, avg2(X, A));
+      set(1, 0, avg2(A, B));
+      set(2, 2, avg2(A, B));
+      set(2, 0, avg2(B, C));
+      set(3, 2, avg2(B, C));
+      set(3, 0, avg2(C, D));
+      set(0, 3, avg3(K, J, I));
+      set(0, 2, avg3(J, I, X));
+      set(0, 1, avg3(I, X, A));
+      set(1, 3, avg3(I, X, A));
+      set(1, 1, avg3(X, A, B));
+      set(2, 3, avg3(X, A, B));
+      set(2, 1, avg3(A, B, C));
+      set(3, 3, avg3(A, B, C));
+      set(3, 1, avg3(B, C, D));
+      break;
+    case B_LD_PRED:
+      set(0, 0, avg3(A, B, C));
+      set(1, 0, avg3(B, C, D));
+      set(0, 1, avg3(B, C, D));
+      set(2, 0, avg3(C, D, E));
+      set(1, 1, avg3(C, D, E));
+      set(0, 2, avg3(C, D, E));
+      set(3, 0, avg3(D, E, F));
+      set(2, 1, avg3(D, E, F));
+      set(1, 2, avg3(D, E, F));
+      set(0, 3, avg3(D, E, F));
+      set(3, 1, avg3(E, F, G));
+      set(2, 2, avg3(E, F, G));
+      set(1, 3, avg3(E, F, G));
+      set(3, 2, avg3(F, G, H));
+      set(2, 3, avg3(F, G, H));
+      set(3, 3, avg3(G, H, H));
+      break;
+    case B_VL_PRED:
+      set(0, 0, avg2(A, B));
+      set(1, 0, avg2(B, C));
+      set(0, 2, avg2(B, C));
+      set(2, 0, avg2(C, D));
+      set(1, 2, avg2(C, D));
+      set(3, 0, avg2(D, E));
+      set(2, 2, avg2(D, E));
+      set(0, 1, avg3(A, B, C));
+      set(1, 1, avg3(B, C, D));
+      set(0, 3, avg3(B, C, D));
+      set(2, 1, avg3(C, D, E));
+      set(1, 3, avg3(C, D, E));
+      set(3, 1, avg3(D, E, F));
+      set(2, 3, avg3(D, E, F));
+      set(3, 2, avg3(E, F, G));
+      set(3, 3, avg3(F, G, H));
+      break;
+    case B_HD_PRED:
+      set(0, 0, avg2(I, X));
+      set(2, 1, avg2(I, X));
+      set(0, 1, avg2(J, I));
+      set(2, 2, avg2(J, I));
+      set(0, 2, avg2(K, J));
+      set(2, 3, avg2(K, J));
+      set(0, 3, avg2(L, K));
+      set(3, 0, avg3(A, B, C));
+      set(2, 0, avg3(X, A, B));
+      set(1, 0, avg3(I, X, A));
+      set(3, 1, avg3(I, X, A));
+      set(1, 1, avg3(J, I, X));
+      set(3, 2, avg3(J, I, X));
+      set(1, 2, avg3(K, J, I));
+      set(3, 3, avg3(K, J, I));
+      set(1, 3, avg3(L, K, J));
+      break;
+    default: // B_HU_PRED
+      set(0, 0, avg2(I, J));
+      set(2, 0, avg2(J, K));
+      set(0, 1, avg2(J, K));
+      set(2, 1, avg2(K, L));
+      set(0, 2, avg2(K, L));
+      set(1, 0, avg3(I, J, K));
+      set(3, 0, avg3(J, K, L));
+      set(1, 1, avg3(J, K, L));
+      set(3, 1, avg3(K, L, L));
+      set(1, 2, avg3(K, L, L));
+      set(3, 2, L);
+      set(2, 2, L);
+      set(0, 3, L);
+      set(1, 3, L);
+      set(2, 3, L);
+      set(3, 3, L);
+  }
+}
+
+/**
+ * Predict a whole 16x16 luma or 8x8 chroma block from its edges
+ */
+function predictBlock(
+  mode: number,
+  size: number,
+  top: Int32Array, // The corner, then `size` samples above
+  left: Int32Array,
+  hasTop: boolean,
+  hasLeft: boolean,
+  plane: Uint8Array,
+  position: number,
+  stride: number,
+): void {
+  const shift = size === 16 ? 4 : 3;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let value: number;
+      if (mode === TM_PRED) value = clip255(left[y] + top[x + 1] - top[0]);
+      else if (mode === V_PRED) value = top[x + 1];
+      else if (mode === H_PRED) value = left[y];
+      else continue;
+      plane[position + y * stride + x] = value;
+    }
+  }
+  if (mode !== DC_PRED) return;
+
+  // DC averages whichever edges are inside the frame
+  let sum = 0;
+  for (let i = 0; i < size; i++) {
+    if (hasTop) sum += top[i + 1];
+    if (hasLeft) sum += left[i];
+  }
+  const dc = hasTop && hasLeft
+    ? (sum + size) >> (shift + 1)
+    : hasTop || hasLeft
+    ? (sum + (size >> 1)) >> shift
+    : 128;
+  for (let y = 0; y < size; y++) {
+    plane.fill(dc, position + y * stride, position + y * stride + size);
+  }
+}
+
+// Loop filter helpers (RFC 6386 section 15), on the pixels either side
+// of an edge at `p` going across it in steps of `step`
+function needsFilter(p: Uint8Array, i: number, step: number, t: number) {
+  return 4 * Math.abs(p[i - step] - p[i]) +
+      Math.abs(p[i - 2 * step] - p[i + step]) <= t;
+}
+
+function needsFilter2(
+  p: Uint8Array,
+  i: number,
+  step: number,
+  t: number,
+  it: number,
+): boolean {
+  const p3 = p[i - 4 * step], p2 = p[i - 3 * step], p1 = p[i - 2 * step];
+  const p0 = p[i - step], q0 = p[i], q1 = p[i + step];
+  const q2 = p[i + 2 * step], q3 = p[i + 3 * step];
+  if (4 * Math.abs(p0 - q0) + Math.abs(p1 - q1) > t) return false;
+  return Math.abs(p3 - p2) <= it && Math.abs(p2 - p1) <= it &&
+    Math.abs(p1 - p0) <= it && Math.abs(q3 - q2) <= it &&
+    Math.abs(q2 - q1) <= it && Math.abs(q1 - q0) <= it;
+}
+
+const sclip1 = (v: number) => v < -128 ? -128 : v > 127 ? 127 : v;
+const sclip2 = (v: number) => v < -16 ? -16 : v > 15 ? 15 : v;
+
+function highEdgeVariance(
+  p: Uint8Array,
+  i: number,
+  step: number,
+  threshold: number,
+): boolean {
+  return Math.abs(p[i - 2 * step] - p[i - step]) > threshold ||
+    Math.abs(p[i + step] - p[i]) > threshold;
+}
+
+function filter2(p: Uint8Array, i: number, step: number): void {
+  const p1 = p[i - 2 * step], p0 = p[i - step], q0 = p[i], q1 = p[i + step];
+  const a = 3 * (q0 - p0) + sclip1(p1 - q1);
+  const a1 = sclip2((a + 4) >> 3);
+  const a2 = sclip2((a + 3) >> 3);
+  p[i - step] = clip255(p0 + a2);
+  p[i] = clip255(q0 - a1);
+}
+
+function filter4(p: Uint8Array, i: number, step: number): void {
+  const p1 = p[i - 2 * step], p0 = p[i - step], q0 = p[i], q1 = p[i + step];
+  const a = 3 * (q0 - p0);
+  const a1 = sclip2((a + 4) >> 3);
+  const a2 = sclip2((a + 3) >> 3);
+  const a3 = (a1 + 1) >> 1;
+  p[i - 2 * step] = clip255(p1 + a3);
+  p[i - step] = clip255(p0 + a2);
+  p[i] = clip255(q0 - a1);
+  p[i + step] = clip255(q1 - a3);
+}
+
+function filter6(p: Uint8Array, i: number, step: number): void {
+  const p2 = p[i - 3 * step], p1 = p[i - 2 * step], p0 = p[i - step];
+  const q0 = p[i], q1 = p[i + step], q2 = p[i + 2 * step];
+  const a = sclip1(3 * (q0 - p0) + sclip1(p1 - q1));
+  const a1 = (27 * a + 63) >> 7;
+  const a2 = (18 * a + 63) >> 7;
+  const a3 = (9 * a + 63) >> 7;
+  p[i - 3 * step] = clip255(p2 + a3);
+  p[i - 2 * step] = clip255(p1 + a2);
+  p[i - step] = clip255(p0 + a1);
+  p[i] = clip255(q0 - a1);
+  p[i + step] = clip255(q1 - a2);
+  p[i + 2 * step] = clip255(q2 - a3);
+}
+
+/**
+ * Filter `size` pixels along one edge. Macroblock edges get the stronger
+ * six-tap filter.
+ */
+function filterEdge(
+  plane: Uint8Array,
+  position: number,
+  across: number,
+  along: number,
+  size: number,
+  strength: FilterStrength,
+  limit: number,
+  macroblockEdge: boolean,
+): void {
+  const threshold = 2 * limit + 1;
+  for (let i = 0; i < size; i++, position += along) {
+    if (
+      !needsFilter2(
+        plane,
+        position,
+        across,
+        threshold,
+        strength.interiorLimit,
+      )
+    ) {
+      continue;
+    }
+    if (highEdgeVariance(plane, position, across, strength.hevThreshold)) {
+      filter2(plane, position, across);
+    } else if (macroblockEdge) {
+      filter6(plane, position, across);
+    } else {
+      filter4(plane, position, across);
+    }
+  }
+}
+
+function simpleFilterEdge(
+  plane: Uint8Array,
+  position: number,
+  across: number,
+  along: number,
+  limit: number,
+): void {
+  const threshold = 2 * limit + 1;
+  for (let i = 0; i < 16; i++, position += along) {
+    if (needsFilter(plane, position, across, threshold)) {
+      filter2(plane, position, across);
+    }
+  }
+}
+
+// BT.601 YUV to RGB in libwebp's 14-bit fixed point
+const multHi = (v: number, coefficient: number) => (v * coefficient) >> 8;
+const clip8 = (v: number) => (v & ~16383) === 0 ? v >> 6 : v < 0 ? 0 : 255;
+
+/**
+ * Decode a VP8 key frame (a lossy WebP's VP8 chunk payload) as opaque
+ * RGBA
+ */
+export function decodeVp8(data: Uint8Array): RasterImage {
+  if (data.length < 10) throw new Error("WebP VP8 data is truncated");
+  const frameTag = data[0] | (data[1] << 8) | (data[2] << 16);
+  if (frameTag & 1) throw new Error("WebP VP8 data isn't a key frame");
+  if (!((frameTag >> 4) & 1)) throw new Error("WebP VP8 frame is hidden");
+  if (data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) {
+    throw new Error("Invalid WebP VP8 start code");
+  }
+
+  const width = (data[6] | (data[7] << 8)) & 0x3fff;
+  const height = (data[8] | (data[9] << 8)) & 0x3fff;
+  if (!width || !height) throw new Error("WebP VP8 frame has no size");
+
+  const firstPartitionEnd = 10 + (frameTag >>> 5);
+  if (firstPartitionEnd > data.length) {
+    throw new Error("WebP VP8 data is truncated");
+  }
+  const header = new BoolDecoder(data, 10, firstPartitionEnd);
+  header.getValue(2); // Color space and clamping type
+
+  // Segments: per-region quantizer and filter level adjustments
+  const useSegments = header.getBit(128) === 1;
+  let updateSegmentMap = false;
+  let absoluteSegmentValues = false;
+  const segmentQuantizers = [0, 0, 0, 0];
+  const segmentFilterLevels = [0, 0, 0, 0];
+  const segmentProbs = [255, 255, 255];
+  if (useSegments) {
+    updateSegmentMap = header.getBit(128) === 1;
+    if (header.getBit(128)) {
+      absoluteSegmentValues = header.getBit(128) === 1;
+      for (let s = 0; s < 4; s++) {
+        segmentQuantizers[s] = header.getOptionalSigned(7);
+      }
+      for (let s = 0; s < 4; s++) {
+        segmentFilterLevels[s] = header.getOptionalSigned(6);
+      }
+    }
+    if (updateSegmentMap) {
+      for (let s = 0; s < 3; s++) {
+        segmentProbs[s] = header.getBit(128) ? header.getValue(8) : 255;
+      }
+    }
+  }
+
+  // Loop filter
+  const simpleFilter = header.getBit(128) === 1;
+  const filterLevel = header.getValue(6);
+  const sharpness = header.getValue(3);
+  const useFilterDeltas = header.getBit(128) === 1;
+  const referenceDeltas = [0, 0, 0, 0];
+  const modeDeltas = [0, 0, 0, 0];
+  if (useFilterDeltas && header.getBit(128)) {
+    for (let i = 0; i < 4; i++) {
+      if (header.getBit(128)) referenceDeltas[i] = header.getSignedValue(6);
+    }
+    for (let i = 0; i < 4; i++) {
+      if (header.getBit(128)) modeDeltas[i] = header.getSignedValue(6);
+    }
+  }
+  const filterType = filterLevel === 0 ? 0 : simpleFilter ? 1 : 2;
+
+  // Token partitions, which macroblock rows take turns to use
+  const partitionCount = 1 << header.getValue(2);
+  const sizesStart = firstPartitionEnd;
+  let partitionStart = sizesStart + 3 * (partitionCount - 1);
+  if (partitionStart > data.length) {
+    throw new Error("WebP VP8 data is truncated");
+  }
+  const partitions: BoolDecoder[] = [];
+  for (let i = 0; i < partitionCount; i++) {
+    let end = data.length;
+    if (i < partitionCount - 1) {
+      const s = sizesStart + 3 * i;
+      end = Math.min(
+        data.length,
+        partitionStart + (data[s] | (data[s + 1] << 8) | (data[s + 2] << 16)),
+      );
+    }
+    partitions.push(new BoolDecoder(data, partitionStart, end));
+    partitionStart = end;
+  }
+
+  // Quantizers, per segment
+  const baseQuantizer = header.getValue(7);
+  const y1DcDelta = header.getOptionalSigned(4);
+  const y2DcDelta = header.getOptionalSigned(4);
+  const y2AcDelta = header.getOptionalSigned(4);
+  const uvDcDelta = header.getOptionalSigned(4);
+  const uvAcDelta = header.getOptionalSigned(4);
+  const quantizers: Quantizers[] = [];
+  for (let s = 0; s < 4; s++) {
+    const q = useSegments
+      ? segmentQuantizers[s] + (absoluteSegmentValues ? 0 : baseQuantizer)
+      : baseQuantizer;
+    quantizers.push({
+      y1: [DC_QUANT[clip(q + y1DcDelta, 127)], AC_QUANT[clip(q, 127)]],
+      y2: [
+        DC_QUANT[clip(q + y2DcDelta, 127)] * 2,
+        Math.max(8, (AC_QUANT[clip(q + y2AcDelta, 127)] * 101581) >> 16),
+      ],
+      uv: [
+        DC_QUANT[clip(q + uvDcDelta, 117)],
+        AC_QUANT[clip(q + uvAcDelta, 127)],
+      ],
+    });
+  }
+
+  header.getBit(128); // Whether to keep updated probabilities; moot here
+
+  const probs = new Uint8Array(DEFAULT_COEFF_PROBS);
+  for (let i = 0; i < probs.length; i++) {
+    if (header.getBit(COEFF_UPDATE_PROBS[i])) probs[i] = header.getValue(8);
+  }
+  const useSkipProb = header.getBit(128) === 1;
+  const skipProb = useSkipProb ? header.getValue(8) : 0;
+
+  // Filter strengths by segment and whether the macroblock uses subblocks
+  const strengths: FilterStrength[][] = [];
+  for (let s = 0; s < 4; s++) {
+    let base = filterLevel;
+    if (useSegments) {
+      base = segmentFilterLevels[s] +
+        (absoluteSegmentValues ? 0 : filterLevel);
+    }
+    strengths.push([0, 1].map((subblocks) => {
+      let level = base;
+      if (useFilterDeltas) {
+        level += referenceDeltas[0];
+        if (subblocks) level += modeDeltas[0];
+      }
+      level = clip(level, 63);
+      if (level === 0) return { limit: 0, interiorLimit: 0, hevThreshold: 0 };
+
+      let interiorLimit = level;
+      if (sharpness > 0) {
+        interiorLimit >>= sharpness > 4 ? 2 : 1;
+        interiorLimit = Math.min(interiorLimit, 9 - sharpness);
+      }
+      interiorLimit = Math.max(1, interiorLimit);
+      return {
+        limit: 2 * level + interiorLimit,
+        interiorLimit,
+        hevThreshold: level >= 40 ? 2 : level >= 15 ? 1 : 0,
+      };
+    }));
+  }
+
+  const mbWidth = (width + 15) >> 4;
+  const mbHeight = (height + 15) >> 4;
+  const yStride = mbWidth * 16;
+  const uvStride = mbWidth * 8;
+  const yPlane = new Uint8Array(yStride * mbHeight * 16);
+  const uPlane = new Uint8Array(uvStride * mbHeight * 8);
+  const vPlane = new Uint8Array(uvStride * mbHeight * 8);
+
+  // Per-macroblock filter settings, applied once everything is decoded
+  const mbStrengths: FilterStrength[] = [];
+  const mbInnerEdges = new Uint8Array(mbWidth * mbHeight);
+
+  // Contexts from the macroblocks above (per column) and to the left
+  const intraTop = new Uint8Array(mbWidth * 4);
+  const intraLeft = new Uint8Array(4);
+  const nonZeroTop = new Uint8Array(mbWidth);
+  const nonZeroDcTop = new Uint8Array(mbWidth);
+  let nonZeroLeft = 0;
+  let nonZeroDcLeft = 0;
+
+  const coefficients = new Int16Array(384);
+  const dc = new Int16Array(16);
+  const subblockModes = new Uint8Array(16);
+  const edge = new Int32Array(13);
+  const predicted = new Uint8Array(16);
+  const top = new Int32Array(21); // Corner, 16 above, 4 above-right
+  const left = new Int32Array(16);
+
+  // Read one block's tokens, returning the index after the last one read
+  const readCoefficients = (
+    tokens: BoolDecoder,
+    type: number,
+    context: number,
+    steps: [number, number],
+    n: number,
+    out: Int16Array,
+    offset: number,
+  ): number => {
+    const bandOffset = (i: number, ctx: number) =>
+      ((type * 8 + BANDS[i]) * 3 + ctx) * 11;
+    let p = bandOffset(n, context);
+
+    for (; n < 16; n++) {
+      if (!tokens.getBit(probs[p])) return n; // End of block
+      while (!tokens.getBit(probs[p + 1])) { // Zero
+        p = bandOffset(++n, 0);
+        if (n === 16) return 16;
+      }
+
+      let value: number;
+      if (!tokens.getBit(probs[p + 2])) {
+        value = 1;
+        p = bandOffset(n + 1, 1);
+      } else {
+        if (!tokens.getBit(probs[p + 3])) {
+          value = tokens.getBit(probs[p + 4])
+            ? 3 + tokens.getBit(probs[p + 5])
+            : 2;
+        } else if (!tokens.getBit(probs[p + 6])) {
+          value = tokens.getBit(probs[p + 7])
+            ? 7 + 2 * tokens.getBit(165) + tokens.getBit(145)
+            : 5 + tokens.getBit(159);
+        } else {
+          const high = tokens.getBit(probs[p + 8]);
+          const category = 2 * high + tokens.getBit(probs[p + 9 + high]);
+          value = 0;
+          for (const prob of CATEGORY_PROBS[category]) {
+            value = 2 * value + tokens.getBit(prob);
+          }
+          value += 3 + (8 << category);
+        }
+        p = bandOffset(n + 1, 2);
+      }
+      const signed = tokens.getBit(128) ? -value : value;
+      out[offset + ZIGZAG[n]] = signed * steps[n > 0 ? 1 : 0];
+    }
+    return 16;
+  };
+
+  for (let mbY = 0; mbY < mbHeight; mbY++) {
+    const tokens = partitions[mbY & (partitionCount - 1)];
+    intraLeft.fill(DC_PRED);
+    nonZeroLeft = 0;
+    nonZeroDcLeft = 0;
+
+    for (let mbX = 0; mbX < mbWidth; mbX++) {
+      // Macroblock header
+      let segment = 0;
+      if (updateSegmentMap) {
+        segment = header.getBit(segmentProbs[0])
+          ? 2 + header.getBit(segmentProbs[2])
+          : header.getBit(segmentProbs[1]);
+      }
+      const skip = useSkipProb ? header.getBit(skipProb) === 1 : false;
+      const subblocks = !header.getBit(145);
+      let lumaMode = DC_PRED;
+
+      if (!subblocks) {
+        lumaMode = header.getBit(156)
+          ? header.getBit(128) ? TM_PRED : H_PRED
+          : header.getBit(163)
+          ? V_PRED
+          : DC_PRED;
+        intraTop.fill(lumaMode, mbX * 4, mbX * 4 + 4);
+        intraLeft.fill(lumaMode);
+      } else {
+        for (let y = 0; y < 4; y++) {
+          let mode = intraLeft[y];
+          for (let x = 0; x < 4; x++) {
+            const p = (intraTop[mbX * 4 + x] * 10 + mode) * 9;
+            let i = BMODE_TREE[header.getBit(BMODE_PROBS[p])];
+            while (i > 0) {
+              i = BMODE_TREE[2 * i + header.getBit(BMODE_PROBS[p + i])];
+            }
+            mode = -i;
+            intraTop[mbX * 4 + x] = mode;
+            subblockModes[y * 4 + x] = mode;
+          }
+          intraLeft[y] = mode;
+        }
+      }
+      const chromaMode = !header.getBit(142)
+        ? DC_PRED
+        : !header.getBit(114)
+        ? V_PRED
+        : header.getBit(183)
+        ? TM_PRED
+        : H_PRED;
+
+      // Residuals
+      coefficients.fill(0);
+      let hasCoefficients = false;
+      if (skip) {
+        nonZeroTop[mbX] = 0;
+        nonZeroLeft = 0;
+        if (!subblocks) {
+          nonZeroDcTop[mbX] = 0;
+          nonZeroDcLeft = 0;
+        }
+      } else {
+        const q = quantizers[segment];
+        let first = 0;
+        let lumaType = TYPE_I4;
+        if (!subblocks) {
+          dc.fill(0);
+          const count = readCoefficients(
+            tokens,
+            TYPE_Y2,
+            nonZeroDcTop[mbX] + nonZeroDcLeft,
+            q.y2,
+            0,
+            dc,
+            0,
+          );
+          nonZeroDcTop[mbX] = nonZeroDcLeft = count > 0 ? 1 : 0;
+          if (count > 1) {
+            inverseWht(dc, coefficients);
+          } else {
+            const value = (dc[0] + 3) >> 3;
+            for (let i = 0; i < 16; i++) coefficients[i * 16] = value;
+          }
+          first = 1;
+          lumaType = TYPE_I16_AC;
+        }
+
+        // Bits of whether each block edge has coefficients, shifted through
+        // as blocks are read (as libwebp tracks them)
+        let topBits = nonZeroTop[mbX] & 0x0f;
+        let leftBits = nonZeroLeft & 0x0f;
+        for (let y = 0; y < 4; y++) {
+          let l = leftBits & 1;
+          for (let x = 0; x < 4; x++) {
+            const offset = (y * 4 + x) * 16;
+            const count = readCoefficients(
+              tokens,
+              lumaType,
+              l + (topBits & 1),
+              q.y1,
+              first,
+              coefficients,
+              offset,
+            );
+            l = count > first ? 1 : 0;
+            topBits = (topBits >> 1) | (l << 7);
+            if (count > 1 || coefficients[offset] !== 0) {
+              hasCoefficients = true;
+            }
+          }
+          topBits >>= 4;
+          leftBits = (leftBits >> 1) | (l << 7);
+        }
+        let outTop = topBits;
+        let outLeft = leftBits >> 4;
+
+        for (let ch = 0; ch < 4; ch += 2) {
+          topBits = nonZeroTop[mbX] >> (4 + ch);
+          leftBits = nonZeroLeft >> (4 + ch);
+          for (let y = 0; y < 2; y++) {
+            let l = leftBits & 1;
+            for (let x = 0; x < 2; x++) {
+              const offset = 256 + ch * 32 + (y * 2 + x) * 16;
+              const count = readCoefficients(
+                tokens,
+                TYPE_CHROMA,
+                l + (topBits & 1),
+                q.uv,
+                0,
+                coefficients,
+                offset,
+              );
+              l = count > 0 ? 1 : 0;
+              topBits = (topBits >> 1) | (l << 3);
+              if (count > 1 || coefficients[offset] !== 0) {
+                hasCoefficients = true;
+              }
+            }
+            topBits >>= 2;
+            leftBits = (leftBits >> 1) | (l << 5);
+          }
+          outTop |= (topBits << 4) << ch;
+          outLeft |= (leftBits & 0xf0) << ch;
+        }
+        nonZeroTop[mbX] = outTop;
+        nonZeroLeft = outLeft;
+      }
+
+      const mbIndex = mbY * mbWidth + mbX;
+      mbStrengths[mbIndex] = strengths[segment][subblocks ? 1 : 0];
+      mbInnerEdges[mbIndex] = subblocks || hasCoefficients ? 1 : 0;
+
+      // Luma prediction edges: 127 above the frame, 129 left of it. The
+      // corner is 129 down the left edge (but 127 on the top row).
+      const x0 = mbX * 16;
+      const y0 = mbY * 16;
+      const above = (y0 - 1) * yStride;
+      top[0] = mbY === 0 ? 127 : mbX === 0 ? 129 : yPlane[above + x0 - 1];
+      for (let i = 0; i < 16; i++) {
+        top[i + 1] = mbY === 0 ? 127 : yPlane[above + x0 + i];
+        left[i] = mbX === 0 ? 129 : yPlane[(y0 + i) * yStride + x0 - 1];
+      }
+      // Above-right, repeating the last pixel above on the right border
+      for (let i = 0; i < 4; i++) {
+        top[17 + i] = mbY === 0
+          ? 127
+          : mbX < mbWidth - 1
+          ? yPlane[above + x0 + 16 + i]
+          : yPlane[above + x0 + 15];
+      }
+
+      if (!subblocks) {
+        predictBlock(
+          lumaMode,
+          16,
+          top,
+          left,
+          mbY > 0,
+          mbX > 0,
+          yPlane,
+          y0 * yStride + x0,
+          yStride,
+        );
+        for (let n = 0; n < 16; n++) {
+          addResidual(
+            coefficients,
+            n * 16,
+            yPlane,
+            (y0 + (n >> 2) * 4) * yStride + x0 + (n & 3) * 4,
+            yStride,
+          );
+        }
+      } else {
+        for (let n = 0; n < 16; n++) {
+          const bx = (n & 3) * 4;
+          const by = (n >> 2) * 4;
+          const position = (y0 + by) * yStride + x0 + bx;
+
+          // Left (L..I) from the block to the left, or the macroblock edge
+          for (let i = 0; i < 4; i++) {
+            edge[3 - i] = bx > 0
+              ? yPlane[position + i * yStride - 1]
+              : left[by + i];
+          }
+          // Corner and above, then above-right; the right column of
+          // blocks uses the macroblock's above-right pixels throughout
+          if (by === 0) {
+            for (let i = 0; i < 9; i++) edge[4 + i] = top[bx + i];
+          } else {
+            edge[4] = bx > 0 ? yPlane[position - yStride - 1] : left[by - 1];
+            for (let i = 0; i < 8; i++) {
+              edge[5 + i] = i >= 4 && bx === 12
+                ? top[17 + i - 4]
+                : yPlane[position - yStride + i];
+            }
+          }
+
+          predictSubblock(subblockModes[n], edge, predicted);
+          for (let y = 0; y < 4; y++) {
+            yPlane.set(
+              predicted.subarray(y * 4, y * 4 + 4),
+              position + y * yStride,
+            );
+          }
+          addResidual(coefficients, n * 16, yPlane, position, yStride);
+        }
+      }
+
+      // Chroma
+      const cx0 = mbX * 8;
+      const cy0 = mbY * 8;
+      [uPlane, vPlane].forEach((plane, c) => {
+        const cAbove = (cy0 - 1) * uvStride;
+        top[0] = mbY === 0 ? 127 : mbX === 0 ? 129 : plane[cAbove + cx0 - 1];
+        for (let i = 0; i < 8; i++) {
+          top[i + 1] = mbY === 0 ? 127 : plane[cAbove + cx0 + i];
+          left[i] = mbX === 0 ? 129 : plane[(cy0 + i) * uvStride + cx0 - 1];
+        }
+        predictBlock(
+          chromaMode,
+          8,
+          top,
+          left,
+          mbY > 0,
+          mbX > 0,
+          plane,
+          cy0 * uvStride + cx0,
+          uvStride,
+        );
+        for (let n = 0; n < 4; n++) {
+          addResidual(
+            coefficients,
+            256 + c * 64 + n * 16,
+            plane,
+            (cy0 + (n >> 1) * 4) * uvStride + cx0 + (n & 1) * 4,
+            uvStride,
+          );
+        }
+      });
+    }
+  }
+
+  if (filterType > 0) {
+    for (let mbY = 0; mbY < mbHeight; mbY++) {
+      for (let mbX = 0; mbX < mbWidth; mbX++) {
+        const index = mbY * mbWidth + mbX;
+        const strength = mbStrengths[index];
+        if (strength.limit === 0) continue;
+        const inner = mbInnerEdges[index] === 1;
+        const y = mbY * 16 * yStride + mbX * 16;
+        const { limit } = strength;
+
+        if (filterType === 1) {
+          if (mbX > 0) simpleFilterEdge(yPlane, y, 1, yStride, limit + 4);
+          if (inner) {
+            for (let i = 4; i < 16; i += 4) {
+              simpleFilterEdge(yPlane, y + i, 1, yStride, limit);
+            }
+          }
+          if (mbY > 0) simpleFilterEdge(yPlane, y, yStride, 1, limit + 4);
+          if (inner) {
+            for (let i = 4; i < 16; i += 4) {
+              simpleFilterEdge(yPlane, y + i * yStride, yStride, 1, limit);
+            }
+          }
+          continue;
+        }
+
+        const uv = mbY * 8 * uvStride + mbX * 8;
+        if (mbX > 0) {
+          filterEdge(yPlane, y, 1, yStride, 16, strength, limit + 4, true);
+          for (const plane of [uPlane, vPlane]) {
+            filterEdge(plane, uv, 1, uvStride, 8, strength, limit + 4, true);
+          }
+        }
+        if (inner) {
+          for (let i = 4; i < 16; i += 4) {
+            filterEdge(yPlane, y + i, 1, yStride, 16, strength, limit, false);
+          }
+          for (const plane of [uPlane, vPlane]) {
+            filterEdge(plane, uv + 4, 1, uvStride, 8, strength, limit, false);
+          }
+        }
+        if (mbY > 0) {
+          filterEdge(yPlane, y, yStride, 1, 16, strength, limit + 4, true);
+          for (const plane of [uPlane, vPlane]) {
+            filterEdge(plane, uv, uvStride, 1, 8, strength, limit + 4, true);
+          }
+        }
+        if (inner) {
+          for (let i = 4; i < 16; i += 4) {
+            filterEdge(
+              yPlane,
+              y + i * yStride,
+              yStride,
+              1,
+              16,
+              strength,
+              limit,
+              false,
+            );
+          }
+          for (const plane of [uPlane, vPlane]) {
+            filterEdge(
+              plane,
+              uv + 4 * uvStride,
+              uvStride,
+              1,
+              8,
+              strength,
+              limit,
+              false,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  return yuvToRgba(width, height, yPlane, uPlane, vPlane, yStride, uvStride);
+}
+
+// Add a 4x4 block's residual, if it has any coefficients
+function addResidual(
+  coefficients: Int16Array,
+  offset: number,
+  plane: Uint8Array,
+  position: number,
+  stride: number,
+): void {
+  for (let i = 0; i < 16; i++) {
+    if (coefficients[offset + i] !== 0) {
+      inverseDctAdd(coefficients, offset, plane, position, stride);
+      return;
+    }
+  }
+}
+
+/**
+ * Convert to RGBA, upsampling chroma bilinearly (libwebp's "fancy"
+ * upsampling: 9/16 of the nearest sample, 3/16 of the two beside it and
+ * 1/16 of the diagonal one)
+ */
+function yuvToRgba(
+  width: number,
+  height: number,
+  yPlane: Uint8Array,
+  uPlane: Uint8Array,
+  vPlane: Uint8Array,
+  yStride: number,
+  uvStride: number,
+): RasterImage {
+  const image = createRaster(width, height);
+  const out = image.data;
+  const uvHeight = (height + 1) >> 1;
+
+  const upsample = (
+    plane: Uint8Array,
+    near: number,
+    far: number,
+    x: number,
+  ): number => {
+    const nearColumn = x >> 1;
+    if (x === 0 || (x === width - 1 && !(width & 1))) {
+      return (3 * plane[near + nearColumn] + plane[far + nearColumn] + 2) >> 2;
+    }
+    const farColumn = x & 1 ? nearColumn + 1 : nearColumn - 1;
+    const a = plane[near + nearColumn];
+    const b = plane[near + farColumn];
+    const c = plane[far + nearColumn];
+    const d = plane[far + farColumn];
+    return (((a + b + c + d + 8 + 2 * (b + c)) >> 3) + a) >> 1;
+  };
+
+  for (let y = 0; y < height; y++) {
+    const nearRow = y >> 1;
+    const farRow = clip(y & 1 ? nearRow + 1 : nearRow - 1, uvHeight - 1);
+    const near = nearRow * uvStride;
+    const far = farRow * uvStride;
+
+    for (let x = 0; x < width; x++) {
+      const u = upsample(uPlane, near, far, x);
+      const v = upsample(vPlane, near, far, x);
+      const luma = multHi(yPlane[y * yStride + x], 19077);
+      const o = (y * width + x) * 4;
+      out[o] = clip8(luma + multHi(v, 26149) - 14234);
+      out[o + 1] = clip8(luma - multHi(u, 6419) - multHi(v, 13320) + 8708);
+      out[o + 2] = clip8(luma + multHi(u, 33050) - 17685);
+      out[o + 3] = 255;
+    }
+  }
+
+  return image;
+}
@@ -0,0 +1,591 @@
+// Lossless WebP (VP8L) decoding, following the WebP lossless bitstream
+// specification. Pixels are handled as 32-bit ARGB values throughout.
+
+import { createRaster, RasterImage } from "./raster.ts";
+
+const NUM_LITERAL_CODES = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+// deno-fmt-ignore
+const CODE_LENGTH_ORDER = [
+  17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15,
+];
+
+// (x, y) offsets of the 120 short distance codes, closest first
+// deno-fmt-ignore
+const DISTANCE_MAP = [
+  0, 1,  1, 0,  1, 1,  -1, 1,  0, 2,  2, 0,  1, 2,  -1, 2,
+  2, 1,  -2, 1,  2, 2,  -2, 2,  0, 3,  3, 0,  1, 3,  -1, 3,
+  3, 1,  -3, 1,  2, 3,  -2, 3,  3, 2,  -3, 2,  0, 4,  4, 0,
+  1, 4,  -1, 4,  4, 1,  -4, 1,  3, 3,  -3, 3,  2, 4,  -2, 4,
+  4, 2,  -4, 2,  0, 5,  3, 4,  -3, 4,  4, 3,  -4, 3,  5, 0,
+  1, 5,  -1, 5,  5, 1,  -5, 1,  2, 5,  -2, 5,  5, 2,  -5, 2,
+  4, 4,  -4, 4,  3, 5,  -3, 5,  5, 3,  -5, 3,  0, 6,  6, 0,
+  1, 6,  -1, 6,  6, 1,  -6, 1,  2, 6,  -2, 6,  6, 2,  -6, 2,
+  4, 5,  -4, 5,  5, 4,  -5, 4,  3, 6,  -3, 6,  6, 3,  -6, 3,
+  0, 7,  7, 0,  1, 7,  -1, 7,  5, 5,  -5, 5,  7, 1,  -7, 1,
+  4, 6,  -4, 6,  6, 4,  -6, 4,  2, 7,  -2, 7,  7, 2,  -7, 2,
+  3, 7,  -3, 7,  7, 3,  -7, 3,  5, 6,  -5, 6,  6, 5,  -6, 5,
+  8, 0,  4, 7,  -4, 7,  7, 4,  -7, 4,  8, 1,  8, 2,  6, 6,
+  -6, 6,  8, 3,  5, 7,  -5, 7,  7, 5,  -7, 5,  8, 4,  6, 7,
+  -6, 7,  7, 6,  -7, 6,  8, 5,  7, 7,  -7, 7,  8, 6,  8, 7,
+];
+
+const PRIMARY_BITS = 9; // Codes up to this long are decoded by one lookup
+
+/**
+ * Reads the stream's bits least significant first
+ */
+class LosslessBitReader {
+  private position = 0; // In bits
+
+  constructor(private data: Uint8Array) {}
+
+  peek(count: number): number {
+    const byte = this.position >> 3;
+    const d = this.data;
+    const value = (d[byte] | (d[byte + 1] << 8) | (d[byte + 2] << 16) |
+      (d[byte + 3] << 24)) >>> (this.position & 7);
+    return value & ((1 << count) - 1);
+  }
+
+  skip(count: number): void {
+    this.position += count;
+    if (this.position > this.data.length * 8 + 64) {
+      throw new Error("WebP lossless data is truncated");
+    }
+  }
+
+  readBits(count: number): number {
+    if (count === 0) return 0;
+    const value = this.peek(count);
+    this.skip(count);
+    return value;
+  }
+}
+
+/**
+ * A canonical prefix code, with a lookup table for short codes and a
+ * bit-by-bit walk for the rest
+ */
+class PrefixCode {
+  private table: Int32Array; // symbol << 4 | length, -1 for long codes
+  private single = -1; // The symbol of a code with just one
+  private counts = new Int32Array(16);
+  private sorted: Int32Array; // Symbols ordered by code
+
+  constructor(lengths: Uint8Array) {
+    const used = lengths.reduce((count, length) => count + (length ? 1 : 0), 0);
+    this.table = new Int32Array(1 << PRIMARY_BITS).fill(-1);
+    this.sorted = new Int32Array(used);
+    if (used === 0) throw new Error("WebP prefix code has no symbols");
+    if (used === 1) {
+      this.single = lengths.findIndex((length) => length > 0);
+      return;
+    }
+
+    for (const length of lengths) this.counts[length]++;
+    this.counts[0] = 0;
+    const offsets = new Int32Array(16);
+    for (let length = 1; length < 16; length++) {
+      offsets[length] = offsets[length - 1] + this.counts[length - 1];
+    }
+    lengths.forEach((length, symbol) => {
+      if (length) this.sorted[offsets[length]++] = symbol;
+    });
+
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length < 16; length++) {
+      for (let i = 0; i < this.counts[length]; i++, k++, code++) {
+        if (length > PRIMARY_BITS) continue;
+        // The stream sends codes most significant bit first
+        let reversed = 0;
+        for (let bit = 0; bit < length; bit++) {
+          reversed |= ((code >> bit) & 1) << (length - 1 - bit);
+        }
+        for (let j = reversed; j < 1 << PRIMARY_BITS; j += 1 << length) {
+          this.table[j] = (this.sorted[k] << 4) | length;
+        }
+      }
+      code <<= 1;
+    }
+  }
+
+  read(reader: LosslessBitReader): number {
+    if (this.single >= 0) return this.single;
+
+    const entry = this.table[reader.peek(PRIMARY_BITS)];
+    if (entry >= 0) {
+      reader.skip(entry & 15);
+      return entry >> 4;
+    }
+
+    // Walk the canonical code: first is the first code of each length
+    let code = 0, first = 0, index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= reader.readBits(1);
+      const count = this.counts[length];
+      if (code - first < count) return this.sorted[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid WebP prefix code");
+  }
+}
+
+function readCodeLengths(
+  reader: LosslessBitReader,
+  lengthCode: PrefixCode,
+  count: number,
+): Uint8Array {
+  const lengths = new Uint8Array(count);
+  let maxSymbol = count;
+  if (reader.readBits(1)) {
+    const bits = 2 + 2 * reader.readBits(3);
+    maxSymbol = 2 + reader.readBits(bits);
+    if (maxSymbol > count) throw new Error("Invalid WebP code lengths");
+  }
+
+  let previous = 8;
+  for (let symbol = 0; symbol < count;) {
+    if (maxSymbol-- === 0) break;
+    const length = lengthCode.read(reader);
+    if (length < 16) {
+      lengths[symbol++] = length;
+      if (length) previous = length;
+      continue;
+    }
+
+    const [repeatBits, repeatOffset, value] = length === 16
+      ? [2, 3, previous]
+      : length === 17
+      ? [3, 3, 0]
+      : [7, 11, 0];
+    const repeat = reader.readBits(repeatBits) + repeatOffset;
+    if (symbol + repeat > count) throw new Error("Invalid WebP code lengths");
+    lengths.fill(value, symbol, symbol + repeat);
+    symbol += repeat;
+  }
+  return lengths;
+}
+
+function readPrefixCode(
+  reader: LosslessBitReader,
+  alphabetSize: number,
+): PrefixCode {
+  const lengths = new Uint8Array(alphabetSize);
+
+  if (reader.readBits(1)) {
+    // Simple code: one or two symbols
+    const count = reader.readBits(1) + 1;
+    const first = reader.readBits(reader.readBits(1) ? 8 : 1);
+    lengths[first] = 1;
+    if (count === 2) lengths[reader.readBits(8)] = 1;
+    return new PrefixCode(lengths);
+  }
+
+  const codeLengthLengths = new Uint8Array(19);
+  const count = reader.readBits(4) + 4;
+  for (let i = 0; i < count; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  return new PrefixCode(
+    readCodeLengths(reader, new PrefixCode(codeLengthLengths), alphabetSize),
+  );
+}
+
+// Lengths and distances: a prefix symbol, then extra bits
+function readPrefixValue(reader: LosslessBitReader, symbol: number): number {
+  if (symbol < 4) return symbol + 1;
+  const extraBits = (symbol - 2) >> 1;
+  const offset = (2 + (symbol & 1)) << extraBits;
+  return offset + reader.readBits(extraBits) + 1;
+}
+
+const subsampledSize = (size: number, bits: number) =>
+  (size + (1 << bits) - 1) >> bits;
+
+/**
+ * Decode entropy-coded ARGB pixels: the main image (which may have meta
+ * prefix codes) or one of the sub-images that parameterize it
+ */
+function decodePixels(
+  reader: LosslessBitReader,
+  width: number,
+  height: number,
+  isMain: boolean,
+): Uint32Array {
+  let cacheBits = 0;
+  if (reader.readBits(1)) {
+    cacheBits = reader.readBits(4);
+    if (cacheBits < 1 || cacheBits > 11) {
+      throw new Error("Invalid WebP color cache size");
+    }
+  }
+
+  let groupBits = 0;
+  let groupImage: Uint32Array | null = null;
+  let groupCount = 1;
+  if (isMain && reader.readBits(1)) {
+    groupBits = reader.readBits(3) + 2;
+    groupImage = decodePixels(
+      reader,
+      subsampledSize(width, groupBits),
+      subsampledSize(height, groupBits),
+      false,
+    );
+    for (const pixel of groupImage) {
+      groupCount = Math.max(groupCount, ((pixel >> 8) & 0xffff) + 1);
+    }
+  }
+
+  const cacheSize = cacheBits ? 1 << cacheBits : 0;
+  const groups = Array.from({ length: groupCount }, () => [
+    readPrefixCode(reader, NUM_LITERAL_CODES + NUM_LENGTH_CODES + cacheSize),
+    readPrefixCode(reader, 256),
+    readPrefixCode(reader, 256),
+    readPrefixCode(reader, 256),
+    readPrefixCode(reader, NUM_DISTANCE_CODES),
+  ]);
+
+  const pixels = new Uint32Array(width * height);
+  const cache = new Uint32Array(cacheSize);
+  const groupWidth = subsampledSize(width, groupBits);
+  let cached = 0; // Pixels before this one are in the color cache
+
+  for (let position = 0; position < pixels.length;) {
+    const x = position % width;
+    const y = (position - x) / width;
+    const group = groupImage
+      ? groups[
+        (groupImage[(y >> groupBits) * groupWidth + (x >> groupBits)] >> 8) &
+        0xffff
+      ]
+      : groups[0];
+
+    const green = group[0].read(reader);
+    if (green < NUM_LITERAL_CODES) {
+      const red = group[1].read(reader);
+      const blue = group[2].read(reader);
+      const alpha = group[3].read(reader);
+      pixels[position++] =
+        ((alpha << 24) | (red << 16) | (green << 8) | blue) >>>
+        0;
+    } else if (green < NUM_LITERAL_CODES + NUM_LENGTH_CODES) {
+      const length = readPrefixValue(reader, green - NUM_LITERAL_CODES);
+      const code = readPrefixValue(reader, group[4].read(reader));
+      let distance: number;
+      if (code > 120) {
+        distance = code - 120;
+      } else {
+        const dx = DISTANCE_MAP[(code - 1) * 2];
+        const dy = DISTANCE_MAP[(code - 1) * 2 + 1];
+        distance = Math.max(1, dy * width + dx);
+      }
+      if (distance > position || position + length > pixels.length) {
+        throw new Error("Invalid WebP backward reference");
+      }
+      for (let i = 0; i < length; i++, position++) {
+        pixels[position] = pixels[position - distance];
+      }
+    } else {
+      // The cache holds every pixel so far; bring it up to date lazily
+      for (; cached < position; cached++) {
+        const pixel = pixels[cached];
+        cache[Math.imul(pixel, 0x1e35a7bd) >>> (32 - cacheBits)] = pixel;
+      }
+      const index = green - NUM_LITERAL_CODES - NUM_LENGTH_CODES;
+      if (index >= cacheSize) throw new Error("Invalid WebP color cache index");
+      pixels[position++] = cache[index];
+    }
+  }
+
+  return pixels;
+}
+
+// Per-channel helpers for the predictor transform
+const average2 = (a: number, b: number) =>
+  ((((a ^ b) & 0xfefefefe) >>> 1) + (a & b)) >>> 0;
+
+function select(left: number, top: number, topLeft: number): number {
+  let pLeft = 0, pTop = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const l = (left >>> shift) & 0xff;
+    const t = (top >>> shift) & 0xff;
+    const tl = (topLeft >>> shift) & 0xff;
+    pLeft += Math.abs(t - tl); // |prediction - left|
+    pTop += Math.abs(l - tl); // |prediction - top|
+  }
+  return pLeft < pTop ? left : top;
+}
+
+function perChannel(
+  a: number,
+  b: number,
+  c: number,
+  combine: (a: number, b: number, c: number) => number,
+): number {
+  let result = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const value = combine(
+      (a >>> shift) & 0xff,
+      (b >>> shift) & 0xff,
+      (c >>> shift) & 0xff,
+    );
+    result |= Math.min(255, Math.max(0, value)) << shift;
+  }
+  return result >>> 0;
+}
+
+function predict(
+  mode: number,
+  pixels: Uint32Array,
+  position: number,
+  width: number,
+): number {
+  const left = pixels[position - 1];
+  const top = pixels[position - width];
+  const topRight = pixels[position - width + 1];
+  const topLeft = pixels[position - width - 1];
+
+  switch (mode) {
+    case 0:
+      return 0xff000000;
+    case 1:
+      return left;
+    case 2:
+      return top;
+    case 3:
+      return topRight;
+    case 4:
+      return topLeft;
+    case 5:
+      return average2(average2(left, topRight), top);
+    case 6:
+      return average2(left, topLeft);
+    case 7:
+      return average2(left, top);
+    case 8:
+      return average2(topLeft, top);
+    case 9:
+      return average2(top, topRight);
+    case 10:
+      return average2(average2(left, topLeft), average2(top, topRight));
+    case 11:
+      return select(left, top, topLeft);
+    case 12:
+      return perChannel(left, top, topLeft, (a, b, c) => a + b - c);
+    case 13:
+      return perChannel(
+        average2(left, top),
+        topLeft,
+        0,
+        (a, b) => a + Math.trunc((a - b) / 2),
+      );
+    default: // Modes 14 and 15 aren't defined; decoders treat them as top
+      return top;
+  }
+}
+
+// Byte-wise addition, without carries between channels
+const addPixels = (a: number, b: number) =>
+  ((((a & 0xff00ff00) + (b & 0xff00ff00)) & 0xff00ff00) |
+    (((a & 0x00ff00ff) + (b & 0x00ff00ff)) & 0x00ff00ff)) >>> 0;
+
+interface Transform {
+  type: number;
+  width: number; // Image width when the transform was read
+  bits: number;
+  data: Uint32Array;
+}
+
+function inversePredictor(
+  transform: Transform,
+  pixels: Uint32Array,
+  height: number,
+): void {
+  const { width, bits, data } = transform;
+  const blocksPerRow = subsampledSize(width, bits);
+
+  pixels[0] = addPixels(pixels[0], 0xff000000);
+  for (let x = 1; x < width; x++) {
+    pixels[x] = addPixels(pixels[x], pixels[x - 1]);
+  }
+  for (let y = 1; y < height; y++) {
+    const row = y * width;
+    pixels[row] = addPixels(pixels[row], pixels[row - width]);
+    for (let x = 1; x < width; x++) {
+      const mode = (data[(y >> bits) * blocksPerRow + (x >> bits)] >> 8) & 15;
+      pixels[row + x] = addPixels(
+        pixels[row + x],
+        predict(mode, pixels, row + x, width),
+      );
+    }
+  }
+}
+
+const colorTransformDelta = (multiplier: number, color: number) =>
+  (((multiplier << 24) >> 24) * ((color << 24) >> 24)) >> 5;
+
+function inverseColorTransform(
+  transform: Transform,
+  pixels: Uint32Array,
+  height: number,
+): void {
+  const { width, bits, data } = transform;
+  const blocksPerRow = subsampledSize(width, bits);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const element = data[(y >> bits) * blocksPerRow + (x >> bits)];
+      const greenToRed = element & 0xff;
+      const greenToBlue = (element >> 8) & 0xff;
+      const redToBlue = (element >> 16) & 0xff;
+
+      const i = y * width + x;
+      const pixel = pixels[i];
+      const green = (pixel >> 8) & 0xff;
+      const red = ((pixel >> 16) + colorTransformDelta(greenToRed, green)) &
+        0xff;
+      const blue = (pixel + colorTransformDelta(greenToBlue, green) +
+        colorTransformDelta(redToBlue, red)) & 0xff;
+      pixels[i] = ((pixel & 0xff00ff00) | (red << 16) | blue) >>> 0;
+    }
+  }
+}
+
+function addGreen(pixels: Uint32Array): void {
+  for (let i = 0; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    const green = (pixel >> 8) & 0xff;
+    const redBlue = ((pixel & 0x00ff00ff) + ((green << 16) | green)) &
+      0x00ff00ff;
+    pixels[i] = ((pixel & 0xff00ff00) | redBlue) >>> 0;
+  }
+}
+
+function inverseColorIndexing(
+  transform: Transform,
+  packed: Uint32Array,
+  height: number,
+): Uint32Array {
+  const { width, bits, data: palette } = transform;
+  const packedWidth = subsampledSize(width, bits);
+  const bitsPerIndex = 8 >> bits;
+  const mask = (1 << bitsPerIndex) - 1;
+  const pixels = new Uint32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const green = (packed[y * packedWidth + (x >> bits)] >> 8) & 0xff;
+      const index = (green >> (bitsPerIndex * (x & ((1 << bits) - 1)))) & mask;
+      pixels[y * width + x] = index < palette.length ? palette[index] : 0;
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Decode a VP8L image stream without its header, as also found in the
+ * ALPH chunk of lossy images. Returns ARGB pixels.
+ */
+export function decodeLosslessStream(
+  data: Uint8Array,
+  width: number,
+  height: number,
+): Uint32Array {
+  return decodeImageStream(new LosslessBitReader(data), width, height);
+}
+
+function decodeImageStream(
+  reader: LosslessBitReader,
+  width: number,
+  height: number,
+): Uint32Array {
+  const transforms: Transform[] = [];
+  let codedWidth = width;
+  const seen = new Set<number>();
+
+  while (reader.readBits(1)) {
+    const type = reader.readBits(2);
+    if (seen.has(type)) throw new Error("Repeated WebP lossless transform");
+    seen.add(type);
+    const transform: Transform = {
+      type,
+      width: codedWidth,
+      bits: 0,
+      data: new Uint32Array(0),
+    };
+
+    if (type === 0 || type === 1) {
+      // Predictor or color transform: a sub-image of per-block parameters
+      transform.bits = reader.readBits(3) + 2;
+      transform.data = decodePixels(
+        reader,
+        subsampledSize(codedWidth, transform.bits),
+        subsampledSize(height, transform.bits),
+        false,
+      );
+    } else if (type === 3) {
+      // Color indexing: a delta-coded palette, and small palettes pack
+      // several indexes into each pixel
+      const size = reader.readBits(8) + 1;
+      const palette = decodePixels(reader, size, 1, false);
+      for (let i = 1; i < size; i++) {
+        palette[i] = addPixels(palette[i], palette[i - 1]);
+      }
+      transform.data = palette;
+      transform.bits = size <= 2 ? 3 : size <= 4 ? 2 : size <= 16 ? 1 : 0;
+      codedWidth = subsampledSize(codedWidth, transform.bits);
+    }
+    transforms.push(transform);
+  }
+
+  let pixels = decodePixels(reader, codedWidth, height, true);
+
+  for (const transform of transforms.reverse()) {
+    switch (transform.type) {
+      case 0:
+        inversePredictor(transform, pixels, height);
+        break;
+      case 1:
+        inverseColorTransform(transform, pixels, height);
+        break;
+      case 2:
+        addGreen(pixels);
+        break;
+      default:
+        pixels = inverseColorIndexing(transform, pixels, height);
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Decode a VP8L chunk's payload
+ */
+export function decodeVp8l(data: Uint8Array): RasterImage {
+  if (data[0] !== 0x2f) throw new Error("Invalid WebP lossless signature");
+
+  const reader = new LosslessBitReader(data.subarray(1));
+  const width = reader.readBits(14) + 1;
+  const height = reader.readBits(14) + 1;
+  reader.readBits(1); // Whether alpha is used; the pixels tell anyway
+  if (reader.readBits(3) !== 0) {
+    throw new Error("Unsupported WebP lossless version");
+  }
+
+  const pixels = decodeImageStream(reader, width, height);
+  const image = createRaster(width, height);
+  for (let i = 0; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    image.data[i * 4] = (pixel >> 16) & 0xff;
+    image.data[i * 4 + 1] = (pixel >> 8) & 0xff;
+    image.data[i * 4 + 2] = pixel & 0xff;
+    image.data[i * 4 + 3] = pixel >>> 24;
+  }
+  return image;
+}
@@ -0,0 +1,204 @@
+// WebP container handling: finding the image data among the RIFF chunks,
+// decoding it (lossy with optional alpha, or lossless), and dropping
+// metadata chunks without re-encoding.
+
+import { RasterImage } from "./raster.ts";
+import { decodeVp8 } from "./vp8.ts";
+import { decodeLosslessStream, decodeVp8l } from "./vp8l.ts";
+
+interface Chunk {
+  type: string;
+  start: number; // Offset of the chunk header
+  data: Uint8Array;
+}
+
+// VP8X feature flags
+const ANIMATION_FLAG = 0x02;
+const XMP_FLAG = 0x04;
+const EXIF_FLAG = 0x08;
+
+const fourcc = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const uint24 = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+export function isWebp(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && fourcc(bytes, 0) === "RIFF" &&
+    fourcc(bytes, 8) === "WEBP";
+}
+
+function readChunks(bytes: Uint8Array): Chunk[] {
+  if (!isWebp(bytes)) throw new Error("Not a WebP image");
+
+  const chunks: Chunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = new DataView(bytes.buffer, bytes.byteOffset + offset + 4)
+      .getUint32(0, true);
+    const end = offset + 8 + size;
+    if (end > bytes.length) throw new Error("WebP chunk is truncated");
+    chunks.push({
+      type: fourcc(bytes, offset),
+      start: offset,
+      data: bytes.subarray(offset + 8, end),
+    });
+    offset = end + (size & 1); // Chunks are padded to even sizes
+  }
+  return chunks;
+}
+
+/**
+ * Width and height, without decoding the image
+ */
+export function readWebpSize(
+  bytes: Uint8Array,
+): { width: number; height: number } | null {
+  let chunks: Chunk[];
+  try {
+    chunks = readChunks(bytes);
+  } catch {
+    return null;
+  }
+
+  const [first] = chunks;
+  if (!first || first.data.length < 10) return null;
+  const { data } = first;
+  switch (first.type) {
+    case "VP8X":
+      return { width: uint24(data, 4) + 1, height: uint24(data, 7) + 1 };
+    case "VP8 ":
+      return {
+        width: (data[6] | (data[7] << 8)) & 0x3fff,
+        height: (data[8] | (data[9] << 8)) & 0x3fff,
+      };
+    case "VP8L": {
+      const bits = data[1] | (data[2] << 8) | (data[3] << 16) |
+        (data[4] << 24);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reverse the prediction filter applied to alpha values before
+ * compression, row by row in place
+ */
+function unfilterAlpha(
+  alpha: Uint8Array,
+  width: number,
+  height: number,
+  filter: number,
+): void {
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    const above = row - width;
+    for (let x = 0; x < width; x++) {
+      let prediction: number;
+      if (y === 0) {
+        // The first row is always predicted from the left
+        prediction = x > 0 ? alpha[row + x - 1] : 0;
+      } else if (filter === 1) {
+        prediction = x > 0 ? alpha[row + x - 1] : alpha[above];
+      } else if (filter === 2) {
+        prediction = alpha[above + x];
+      } else if (x === 0) {
+        prediction = alpha[above];
+      } else {
+        const gradient = alpha[row + x - 1] + alpha[above + x] -
+          alpha[above + x - 1];
+        prediction = gradient < 0 ? 0 : gradient > 255 ? 255 : gradient;
+      }
+      alpha[row + x] = (alpha[row + x] + prediction) & 0xff;
+    }
+  }
+}
+
+function decodeAlpha(
+  chunk: Uint8Array,
+  width: number,
+  height: number,
+): Uint8Array {
+  const compression = chunk[0] & 0x03;
+  const filter = (chunk[0] >> 2) & 0x03;
+
+  let alpha: Uint8Array;
+  if (compression === 0) {
+    alpha = chunk.slice(1, 1 + width * height);
+    if (alpha.length < width * height) {
+      throw new Error("WebP alpha data is truncated");
+    }
+  } else if (compression === 1) {
+    // Alpha travels in the green channel of a headerless lossless image
+    const pixels = decodeLosslessStream(chunk.subarray(1), width, height);
+    alpha = new Uint8Array(pixels.length);
+    for (let i = 0; i < pixels.length; i++) alpha[i] = (pixels[i] >> 8) & 0xff;
+  } else {
+    throw new Error("Unsupported WebP alpha compression");
+  }
+
+  if (filter) unfilterAlpha(alpha, width, height, filter);
+  return alpha;
+}
+
+/**
+ * Decode a still WebP image, lossy or lossless
+ */
+export function decodeWebp(bytes: Uint8Array): RasterImage {
+  const chunks = readChunks(bytes);
+  const extended = chunks.find((chunk) => chunk.type === "VP8X");
+  if (extended && extended.data[0] & ANIMATION_FLAG) {
+    throw new Error("Animated WebP images aren't supported");
+  }
+
+  const lossless = chunks.find((chunk) => chunk.type === "VP8L");
+  if (lossless) return decodeVp8l(lossless.data);
+
+  const lossy = chunks.find((chunk) => chunk.type === "VP8 ");
+  if (!lossy) throw new Error("WebP image has no image data");
+  const image = decodeVp8(lossy.data);
+
+  const alphaChunk = chunks.find((chunk) => chunk.type === "ALPH");
+  if (alphaChunk) {
+    const alpha = decodeAlpha(alphaChunk.data, image.width, image.height);
+    for (let i = 0; i < alpha.length; i++) image.data[i * 4 + 3] = alpha[i];
+  }
+  return image;
+}
+
+/**
+ * Drop the EXIF and XMP chunks, keeping the encoded image as is
+ */
+export function stripWebpMetadata(bytes: Uint8Array): Uint8Array {
+  const chunks = readChunks(bytes);
+  const kept = chunks.filter((chunk) =>
+    chunk.type !== "EXIF" && chunk.type !== "XMP "
+  );
+  if (kept.length === chunks.length) return bytes;
+
+  const parts = kept.map((chunk) => {
+    // Copied with any padding byte (zero if a final one was left off)
+    const part = new Uint8Array(
+      8 + chunk.data.length + (chunk.data.length & 1),
+    );
+    part.set(bytes.subarray(chunk.start, chunk.start + 8 + chunk.data.length));
+    if (chunk.type === "VP8X") part[8] &= ~(EXIF_FLAG | XMP_FLAG);
+    return part;
+  });
+
+  const size = parts.reduce((total, part) => total + part.length, 12);
+  const out = new Uint8Array(size);
+  out.set(bytes.subarray(0, 12));
+  new DataView(out.buffer).setUint32(4, size - 8, true);
+  let offset = 12;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
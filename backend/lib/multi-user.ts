@@ -0,0 +1,63 @@
+// Multi-user mode: one bridge serving several people, each with their own
+// accounts, settings, post tracking and sync logs. Off unless
+// BRIDGE_MULTI_USER is set; single-user mode keeps using user id 1 and
+// ATPROTO_ALLOWED_HANDLE.
+
+import { DEFAULT_USER_ID } from "../interfaces/storage.ts";
+
+function readEnv(name: string): string | undefined {
+  try {
+    return Deno.env.get(name);
+  } catch (_error) {
+    // Environment access not available (e.g., in tests without --allow-env)
+    return undefined;
+  }
+}
+
+export function isMultiUserMode(): boolean {
+  return readEnv("BRIDGE_MULTI_USER") === "true";
+}
+
+function normalizeIdentity(identity: string): string {
+  return identity.trim().toLowerCase().replace(/^@/, "");
+}
+
+/**
+ * Handles and DIDs from BRIDGE_ALLOWED_USERS (comma or whitespace
+ * separated), normalized for comparison
+ */
+export function allowedUsers(): string[] {
+  return (readEnv("BRIDGE_ALLOWED_USERS") ?? "")
+    .split(/[\s,]+/)
+    .map(normalizeIdentity)
+    .filter(Boolean);
+}
+
+/**
+ * Whether a Bluesky account may use this multi-user bridge. Matches on
+ * either its handle or its DID; an empty allowlist admits nobody.
+ */
+export function isAllowedUser(
+  handle: string | null | undefined,
+  did: string | null | undefined,
+): boolean {
+  const allowed = allowedUsers();
+  return [handle, did].some((identity) =>
+    !!identity && allowed.includes(normalizeIdentity(identity))
+  );
+}
+
+/**
+ * The account a session, OAuth cookie or setup URL refers to. Single-user
+ * mode passes a placeholder ("single-user") and always means the one
+ * account.
+ */
+export function resolveUserId(rawUserId: string | undefined): number {
+  if (!isMultiUserMode()) return DEFAULT_USER_ID;
+
+  const userId = Number(rawUserId);
+  if (!Number.isInteger(userId) || userId < 1) {
+    throw new Error(`Invalid user id: ${rawUserId}`);
+  }
+  return userId;
+}
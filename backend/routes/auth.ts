@@ -7,9 +7,15 @@ import {
 import {
   createUserAccount,
   getUserAccount,
+  getUserAccountByDid,
   getUserAccountByHandle,
   updateUserAccount,
 } from "../database/queries.ts";
+import {
+  isAllowedUser,
+  isMultiUserMode,
+  resolveUserId,
+} from "../lib/multi-user.ts";
 import {
   createUserSession,
   deleteSession,
@@ -26,6 +32,10 @@ auth.post("/login", async (c) => {
   }
 
   try {
+    if (isMultiUserMode()) {
+      return await multiUserLogin(c, handle);
+    }
+
     // Check if handle matches the allowed handle from environment
     const allowedHandle = Deno.env.get("ATPROTO_ALLOWED_HANDLE");
 
@@ -84,6 +94,39 @@ auth.post("/login", async (c) => {
   }
 });
 
+/**
+ * Log in to an existing account of a multi-user bridge. New users go
+ * through setup, which checks the allowlist when Bluesky is connected.
+ */
+async function multiUserLogin(c: any, identity: string) {
+  const normalized = identity.toLowerCase().replace(/^@/, "");
+  const user = normalized.startsWith("did:")
+    ? await getUserAccountByDid(normalized)
+    : await getUserAccountByHandle(normalized);
+
+  if (!user || !isAllowedUser(user.atproto_handle, user.atproto_did)) {
+    return c.json({
+      error: "No bridge account for this handle. Set one up first.",
+      setupUrl: "/setup",
+    }, 403);
+  }
+
+  const { sessionToken } = await createUserSession(
+    user.id.toString(),
+    user.atproto_handle ?? normalized,
+  );
+  setCookie(c, "session_token", sessionToken, {
+    maxAge: 7 * 24 * 60 * 60, // 7 days
+    path: "/",
+  });
+
+  return c.json({
+    success: true,
+    userId: user.id,
+    handle: user.atproto_handle,
+  });
+}
+
 // Logout
 auth.post("/logout", async (c) => {
   const sessionToken = getCookie(c, "session_token");
@@ -98,7 +141,7 @@ auth.post("/logout", async (c) => {
 
 // Disconnect Bluesky account
 auth.post("/disconnect/bluesky", requireAuth(), async (c) => {
-  const _userId = c.get("userId") as string;
+  const userId = c.get("userId") as string;
 
   try {
     await updateUserAccount({
@@ -107,7 +150,7 @@ auth.post("/disconnect/bluesky", requireAuth(), async (c) => {
       atproto_access_token: null,
       atproto_refresh_token: null,
       atproto_token_expires_at: null,
-    });
+    }, resolveUserId(userId));
 
     return c.json({ success: true, message: "Bluesky account disconnected" });
   } catch (error) {
@@ -118,7 +161,7 @@ auth.post("/disconnect/bluesky", requireAuth(), async (c) => {
 
 // Disconnect Mastodon account
 auth.post("/disconnect/mastodon", requireAuth(), async (c) => {
-  const _userId = c.get("userId") as string;
+  const userId = c.get("userId") as string;
 
   try {
     await updateUserAccount({
@@ -127,7 +170,7 @@ auth.post("/disconnect/mastodon", requireAuth(), async (c) => {
       mastodon_access_token: null,
       mastodon_client_id: null,
       mastodon_client_secret: null,
-    });
+    }, resolveUserId(userId));
 
     return c.json({ success: true, message: "Mastodon account disconnected" });
   } catch (error) {
@@ -182,11 +225,17 @@ export function requireAuth() {
 /**
  * Middleware that blocks setup endpoints when setup is already completed.
  * Use this to prevent setup interference after both Bluesky and Mastodon are connected.
+ * In multi-user mode it guards the account named by the request, if any.
  */
 export function blockIfSetupCompleted() {
   return async (c: any, next: any) => {
     try {
-      const userAccount = await getUserAccount();
+      const rawUserId = c.req.param("userId") ?? c.req.query("user_id");
+      if (isMultiUserMode() && !rawUserId) {
+        // New accounts can always be started
+        return await next();
+      }
+      const userAccount = await getUserAccount(resolveUserId(rawUserId));
 
       // Block only if both accounts are actually connected (setup is truly complete)
       if (
@@ -215,7 +264,7 @@ export function blockIfSetupCompleted() {
 export function requireSetupCompleted() {
   return async (c: any, next: any) => {
     try {
-      const userAccount = await getUserAccount();
+      const userAccount = await getUserAccount(resolveUserId(c.get("userId")));
 
       if (!userAccount?.setup_completed) {
         return c.json({
@@ -6,13 +6,83 @@ import {
   getUserAccount,
 } from "../database/queries.ts";
 import { requireAuth } from "./auth.ts";
-import { SyncService } from "../services/sync-service.ts";
+import { SyncInProgressError, SyncService } from "../services/sync-service.ts";
 import { SQLiteStorageProvider } from "../storage/sqlite-storage.ts";
 import { ATProtoClientAdapter } from "../services/atproto-client-adapter.ts";
-import { MastodonClientMasto } from "../services/mastodon-client-masto.ts";
+import { createFediverseClient } from "../services/server-software.ts";
+import {
+  EDITABLE_SETTINGS,
+  EditableSetting,
+  editableSettings,
+  resolveSyncSettings,
+  validateDestinationOverrides,
+} from "../services/sync-settings.ts";
+import { Destination } from "../interfaces/storage.ts";
+import { FilterRule, validateFilterRule } from "../services/post-filter.ts";
+import { Backfiller } from "../services/backfiller.ts";
+import { resolveUserId } from "../lib/multi-user.ts";
 
 const dashboard = new Hono();
 
+/**
+ * SQLite storage scoped to the signed-in user
+ */
+function userStorage(c: any): SQLiteStorageProvider {
+  return new SQLiteStorageProvider(resolveUserId(c.get("userId")));
+}
+
+/**
+ * Set up a sync service backed by SQLite and the real API clients
+ */
+function createSyncService(storage: SQLiteStorageProvider): SyncService {
+  return new SyncService({
+    storage,
+    createATProtoClient: (
+      pdsUrl,
+      accessToken,
+      refreshToken,
+      did,
+      onTokenRefresh,
+      appPassword,
+    ) =>
+      new ATProtoClientAdapter(
+        pdsUrl,
+        accessToken,
+        refreshToken,
+        did,
+        onTokenRefresh,
+        appPassword,
+      ),
+    createMastodonClient: createFediverseClient,
+  });
+}
+
+/**
+ * Validate a request body holding a list of filter rules
+ */
+function parseRulesBody(
+  body: any,
+): { rules: FilterRule[] } | { error: string } {
+  if (!body || !Array.isArray(body.rules)) {
+    return { error: "Body must contain a rules array" };
+  }
+
+  for (const [index, rule] of body.rules.entries()) {
+    const error = validateFilterRule(rule);
+    if (error) {
+      return { error: `Rule ${index + 1}: ${error}` };
+    }
+  }
+
+  return {
+    rules: body.rules.map((rule: FilterRule) => ({
+      type: rule.type,
+      pattern: rule.pattern,
+      action: rule.action,
+    })),
+  };
+}
+
 // Test endpoint to check if dashboard route is registered
 dashboard.get("/test", (c) => {
   console.log("Dashboard test endpoint hit");
@@ -25,7 +95,7 @@ dashboard.get("/", requireAuth(), async (c) => {
   const userId = c.get("userId") as string;
 
   try {
-    const user = await getUserAccount();
+    const user = await getUserAccount(resolveUserId(userId));
     console.log("User lookup result:", { userId, userFound: !!user, user });
 
     if (!user) {
@@ -35,9 +105,9 @@ dashboard.get("/", requireAuth(), async (c) => {
 
     // Get dashboard data from database
     const [postStats, recentPosts, lastSyncLog] = await Promise.all([
-      getPostStats(),
-      getRecentPosts(25), // Show last 25 posts
-      getLastSyncLog(),
+      getPostStats(user.id),
+      getRecentPosts(25, user.id), // Show last 25 posts
+      getLastSyncLog(user.id),
     ]);
 
     const dashboardData = {
@@ -111,7 +181,7 @@ dashboard.post("/reset-auth", requireAuth(), async (c) => {
   try {
     console.log("Resetting user authentication...");
 
-    const storage = new SQLiteStorageProvider();
+    const storage = userStorage(c);
     await storage.userAccounts.updateSingle({
       atproto_access_token: null,
       atproto_refresh_token: null,
@@ -129,6 +199,309 @@ dashboard.post("/reset-auth", requireAuth(), async (c) => {
   }
 });
 
+// Get the sync settings, with config defaults for anything not stored
+dashboard.get("/settings", requireAuth(), async (c) => {
+  try {
+    const storage = userStorage(c);
+    const settings = resolveSyncSettings(await storage.settings.getSingle());
+
+    return c.json(editableSettings(settings));
+  } catch (error) {
+    console.error("Settings fetch error:", error);
+    return c.json({ error: "Failed to fetch settings" }, 500);
+  }
+});
+
+// Update the sync settings
+dashboard.put("/settings", requireAuth(), async (c) => {
+  let body: Record<string, unknown>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return c.json({ error: "Settings must be an object" }, 400);
+  }
+
+  const updates: Partial<Record<EditableSetting, boolean>> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!(EDITABLE_SETTINGS as readonly string[]).includes(key)) {
+      return c.json({ error: `Unknown setting: ${key}` }, 400);
+    }
+    if (typeof value !== "boolean") {
+      return c.json({ error: `Setting ${key} must be a boolean` }, 400);
+    }
+    updates[key as EditableSetting] = value;
+  }
+
+  try {
+    const storage = userStorage(c);
+    if (!await storage.settings.getSingle()) {
+      await storage.settings.create();
+    }
+    await storage.settings.updateSingle(updates);
+
+    const settings = resolveSyncSettings(await storage.settings.getSingle());
+    return c.json(editableSettings(settings));
+  } catch (error) {
+    console.error("Settings update error:", error);
+    return c.json({ error: "Failed to update settings" }, 500);
+  }
+});
+
+// Get the keyword, regex and hashtag filter rules
+dashboard.get("/rules", requireAuth(), async (c) => {
+  try {
+    const storage = userStorage(c);
+    const settings = resolveSyncSettings(await storage.settings.getSingle());
+
+    return c.json({ rules: settings.filter_rules });
+  } catch (error) {
+    console.error("Rules fetch error:", error);
+    return c.json({ error: "Failed to fetch rules" }, 500);
+  }
+});
+
+// Replace the filter rules
+dashboard.put("/rules", requireAuth(), async (c) => {
+  const parsed = parseRulesBody(await c.req.json().catch(() => null));
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  try {
+    const storage = userStorage(c);
+    if (!await storage.settings.getSingle()) {
+      await storage.settings.create();
+    }
+    await storage.settings.updateSingle({
+      filter_rules: JSON.stringify(parsed.rules),
+    });
+
+    return c.json({ rules: parsed.rules });
+  } catch (error) {
+    console.error("Rules update error:", error);
+    return c.json({ error: "Failed to update rules" }, 500);
+  }
+});
+
+// Show which recent posts the given (unsaved) rules would match
+dashboard.post("/rules/preview", requireAuth(), async (c) => {
+  const parsed = parseRulesBody(await c.req.json().catch(() => null));
+  if ("error" in parsed) {
+    return c.json({ error: parsed.error }, 400);
+  }
+
+  try {
+    const posts = await createSyncService(userStorage(c)).previewFilterRules(
+      parsed.rules,
+    );
+    return c.json({ posts });
+  } catch (error) {
+    console.error("Rules preview error:", error);
+    return c.json({
+      error: error instanceof Error ? error.message : "Failed to preview rules",
+    }, 500);
+  }
+});
+
+// Dry run: show what the next sync would publish, without posting
+dashboard.post("/preview", requireAuth(), async (c) => {
+  try {
+    const preview = await createSyncService(userStorage(c)).previewSync();
+    return c.json(preview);
+  } catch (error) {
+    console.error("Sync preview error:", error);
+    return c.json({
+      error: error instanceof Error ? error.message : "Failed to preview sync",
+    }, 500);
+  }
+});
+
+// Mark posts that are already on Mastodon as synced; dry_run only lists them
+dashboard.post("/adopt", requireAuth(), async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+
+  try {
+    const result = await createSyncService(userStorage(c)).adoptExistingPosts(
+      body?.dry_run === true,
+    );
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof SyncInProgressError) {
+      return c.json({
+        error: "A sync is already in progress",
+        startedAt: new Date(error.startedAt).toISOString(),
+      }, 409);
+    }
+
+    console.error("Adopt error:", error);
+    return c.json({
+      error: error instanceof Error ? error.message : "Failed to adopt posts",
+    }, 500);
+  }
+});
+
+// Get the current (or last) backfill job
+dashboard.get("/backfill", requireAuth(), async (c) => {
+  try {
+    const storage = userStorage(c);
+    return c.json({ job: await storage.backfillJobs.get() });
+  } catch (error) {
+    console.error("Backfill fetch error:", error);
+    return c.json({ error: "Failed to fetch backfill job" }, 500);
+  }
+});
+
+// Start a backfill job; it runs in chunks on the following cron runs
+dashboard.post("/backfill", requireAuth(), async (c) => {
+  const body = await c.req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const backfiller = new Backfiller(userStorage(c));
+  try {
+    const job = await backfiller.start({
+      since: String(body.since),
+      until: String(body.until),
+      maxPosts: Number(body.max_posts),
+      addDatePrefix: body.add_date_prefix === true,
+    });
+    return c.json({ job });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Backfill start error:", message);
+    return c.json(
+      { error: message },
+      message.includes("already in progress") ? 409 : 400,
+    );
+  }
+});
+
+// Pause, resume or cancel the backfill job
+for (const action of ["pause", "resume", "cancel"] as const) {
+  dashboard.post(`/backfill/${action}`, requireAuth(), async (c) => {
+    const storage = userStorage(c);
+    try {
+      await new Backfiller(storage)[action]();
+      return c.json({ job: await storage.backfillJobs.get() });
+    } catch (error) {
+      return c.json({
+        error: error instanceof Error
+          ? error.message
+          : `Failed to ${action} backfill`,
+      }, 409);
+    }
+  });
+}
+
+/**
+ * A destination as shown on the dashboard, without its credentials
+ */
+function publicDestination(destination: Destination) {
+  return {
+    id: destination.id,
+    name: destination.name,
+    instance_url: destination.instance_url,
+    username: destination.username ?? null,
+    visibility: destination.visibility,
+    enabled: destination.enabled,
+    connected: !!destination.access_token,
+    filter_overrides: destination.filter_overrides
+      ? JSON.parse(destination.filter_overrides)
+      : {},
+  };
+}
+
+// List the extra Mastodon destinations
+dashboard.get("/destinations", requireAuth(), async (c) => {
+  try {
+    const storage = userStorage(c);
+    const destinations = await storage.destinations.list();
+    return c.json({ destinations: destinations.map(publicDestination) });
+  } catch (error) {
+    console.error("Destinations fetch error:", error);
+    return c.json({ error: "Failed to fetch destinations" }, 500);
+  }
+});
+
+// Update a destination's name, visibility, overrides or enabled flag
+dashboard.put("/destinations/:id", requireAuth(), async (c) => {
+  const body = await c.req.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const updates: Partial<Destination> = {};
+  if ("name" in body) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return c.json({ error: "Name must be a non-empty string" }, 400);
+    }
+    updates.name = body.name.trim();
+  }
+  if ("visibility" in body) {
+    if (!["public", "unlisted", "private"].includes(body.visibility)) {
+      return c.json({
+        error: "Visibility must be public, unlisted or private",
+      }, 400);
+    }
+    updates.visibility = body.visibility;
+  }
+  if ("enabled" in body) {
+    if (typeof body.enabled !== "boolean") {
+      return c.json({ error: "enabled must be a boolean" }, 400);
+    }
+    updates.enabled = body.enabled;
+  }
+  if ("filter_overrides" in body) {
+    const error = validateDestinationOverrides(body.filter_overrides);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+    updates.filter_overrides = JSON.stringify(body.filter_overrides);
+  }
+
+  try {
+    const storage = userStorage(c);
+    const id = Number(c.req.param("id"));
+    const destination = await storage.destinations.get(id);
+    if (!destination) {
+      return c.json({ error: "Destination not found" }, 404);
+    }
+    if (updates.enabled && !destination.access_token) {
+      return c.json({ error: "Destination is not connected yet" }, 400);
+    }
+
+    await storage.destinations.update(id, updates);
+    return c.json({
+      destination: publicDestination((await storage.destinations.get(id))!),
+    });
+  } catch (error) {
+    console.error("Destination update error:", error);
+    return c.json({ error: "Failed to update destination" }, 500);
+  }
+});
+
+// Remove a destination
+dashboard.delete("/destinations/:id", requireAuth(), async (c) => {
+  try {
+    const storage = userStorage(c);
+    const id = Number(c.req.param("id"));
+    if (!await storage.destinations.get(id)) {
+      return c.json({ error: "Destination not found" }, 404);
+    }
+
+    await storage.destinations.delete(id);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Destination delete error:", error);
+    return c.json({ error: "Failed to delete destination" }, 500);
+  }
+});
+
 // Trigger manual sync
 dashboard.post("/sync", requireAuth(), async (c) => {
   const userId = c.get("userId") as string;
@@ -136,29 +509,7 @@ dashboard.post("/sync", requireAuth(), async (c) => {
   try {
     console.log("Manual sync triggered for user:", userId);
 
-    // Set up dependencies for the sync service
-    const storage = new SQLiteStorageProvider();
-    const syncService = new SyncService({
-      storage,
-      createATProtoClient: (
-        pdsUrl,
-        accessToken,
-        refreshToken,
-        did,
-        onTokenRefresh,
-        appPassword,
-      ) =>
-        new ATProtoClientAdapter(
-          pdsUrl,
-          accessToken,
-          refreshToken,
-          did,
-          onTokenRefresh,
-          appPassword,
-        ),
-      createMastodonClient: (instanceUrl, accessToken) =>
-        new MastodonClientMasto(instanceUrl, accessToken),
-    });
+    const syncService = createSyncService(userStorage(c));
 
     // Run sync for the single user
     const result = await syncService.syncUser();
@@ -176,6 +527,13 @@ dashboard.post("/sync", requireAuth(), async (c) => {
       },
     });
   } catch (error) {
+    if (error instanceof SyncInProgressError) {
+      return c.json({
+        error: "A sync is already in progress",
+        startedAt: new Date(error.startedAt).toISOString(),
+      }, 409);
+    }
+
     console.error("Manual sync error:", error);
 
     // Check for authentication errors that require re-auth
@@ -1,8 +1,22 @@
 import { Hono } from "https://esm.sh/hono@3.11.7";
 import { getCookie, setCookie } from "https://esm.sh/hono@3.11.7/cookie";
-import { getUserAccount, updateUserAccount } from "../database/queries.ts";
+import {
+  getUserAccount,
+  getUserAccountByDid,
+  updateUserAccount,
+} from "../database/queries.ts";
+import {
+  isAllowedUser,
+  isMultiUserMode,
+  resolveUserId,
+} from "../lib/multi-user.ts";
 import { createUserSession } from "../lib/session.ts";
 import { identityResolver } from "../services/identity-resolver.ts";
+import { checkMiAuthSession, miAuthUrl } from "../services/misskey-client.ts";
+import { detectServerSoftware } from "../services/server-software.ts";
+import { BRIDGE_APP_NAME } from "../services/reverse-syncer.ts";
+import { SQLiteStorageProvider } from "../storage/sqlite-storage.ts";
+import { requireAuth } from "./auth.ts";
 
 const oauth = new Hono();
 
@@ -178,6 +192,55 @@ async function getAuthServerMetadata(pdsUrl: string): Promise<any> {
   return response.json();
 }
 
+/**
+ * Check that a Bluesky account may use this bridge and be stored on the
+ * given bridge account, returning the reason when it may not
+ */
+async function checkBlueskyAccess(
+  handle: string | null,
+  did: string,
+  userId: number,
+): Promise<string | null> {
+  if (!isMultiUserMode()) {
+    // Verify the handle matches the allowed handle for this service
+    const allowedHandle = Deno.env.get("ATPROTO_ALLOWED_HANDLE");
+    if (allowedHandle && handle !== allowedHandle) {
+      console.error(
+        `OAuth rejected: handle ${handle} does not match allowed handle ${allowedHandle}`,
+      );
+      return `This service is configured for ${allowedHandle} only. You are logged in as ${handle}.`;
+    }
+    return null;
+  }
+
+  if (!isAllowedUser(handle, did)) {
+    console.error(`OAuth rejected: ${handle} (${did}) is not allowlisted`);
+    return `${handle ?? did} is not allowed to use this bridge.`;
+  }
+
+  // One bridge account per Bluesky account, and accounts keep their DID
+  const existing = await getUserAccountByDid(did);
+  if (existing && existing.id !== userId) {
+    return "This Bluesky account is already connected. Log in instead.";
+  }
+  const account = await getUserAccount(userId);
+  if (!account) {
+    return "Bridge account not found. Start setup again.";
+  }
+  if (account.atproto_did && account.atproto_did !== did) {
+    return "This bridge account belongs to another Bluesky account.";
+  }
+  return null;
+}
+
+/**
+ * In multi-user mode, whether this browser connected Bluesky for the
+ * account, so another user can't attach their Mastodon to it
+ */
+function ownsSetupAccount(c: any, userId: string): boolean {
+  return !isMultiUserMode() || getCookie(c, "setup_user_id") === userId;
+}
+
 // ATProto OAuth routes
 oauth.get("/atproto/start", async (c) => {
   const handle = c.req.query("handle");
@@ -304,6 +367,7 @@ oauth.get("/atproto/callback", async (c) => {
     ) {
       return c.json({ error: "Missing OAuth session data" }, 400);
     }
+    const accountId = resolveUserId(userId);
 
     // Recreate DPoP key pair from stored JWK
     const dpopPrivateKeyJwk = JSON.parse(dpopPrivateKeyJwkStr);
@@ -431,17 +495,9 @@ oauth.get("/atproto/callback", async (c) => {
           // Identity resolution failed, handle will remain null
         }
 
-        // Verify the handle matches the allowed handle for this service
-        const allowedHandle = Deno.env.get("ATPROTO_ALLOWED_HANDLE");
-        if (allowedHandle && handle !== allowedHandle) {
-          console.error(
-            `OAuth rejected: handle ${handle} does not match allowed handle ${allowedHandle}`,
-          );
-          return c.json({
-            error: "Unauthorized",
-            message:
-              `This service is configured for ${allowedHandle} only. You are logged in as ${handle}.`,
-          }, 403);
+        const accessError = await checkBlueskyAccess(handle, did, accountId);
+        if (accessError) {
+          return c.json({ error: "Unauthorized", message: accessError }, 403);
         }
 
         // Update user account with ATProto tokens and DPoP keys
@@ -455,7 +511,7 @@ oauth.get("/atproto/callback", async (c) => {
             : undefined,
           atproto_dpop_private_key: dpopPrivateKeyJwkStr,
           atproto_dpop_public_jwk: dpopPublicJwkStr,
-        });
+        }, accountId);
 
         // Clear OAuth cookies
         setCookie(c, "oauth_state", "", { maxAge: 0 });
@@ -464,6 +520,12 @@ oauth.get("/atproto/callback", async (c) => {
         setCookie(c, "oauth_pds_url", "", { maxAge: 0 });
         setCookie(c, "oauth_dpop_private_key", "", { maxAge: 0 });
         setCookie(c, "oauth_dpop_public_jwk", "", { maxAge: 0 });
+        setCookie(c, "setup_user_id", userId, {
+          httpOnly: true,
+          secure: true,
+          sameSite: "Lax",
+          maxAge: 3600,
+        });
 
         // Use Hono's redirect method to ensure cookies are included
         return c.redirect(`/setup?step=mastodon&user_id=${userId}`);
@@ -491,17 +553,9 @@ oauth.get("/atproto/callback", async (c) => {
       // Identity resolution failed, handle will remain null
     }
 
-    // Verify the handle matches the allowed handle for this service
-    const allowedHandle = Deno.env.get("ATPROTO_ALLOWED_HANDLE");
-    if (allowedHandle && handle !== allowedHandle) {
-      console.error(
-        `OAuth rejected: handle ${handle} does not match allowed handle ${allowedHandle}`,
-      );
-      return c.json({
-        error: "Unauthorized",
-        message:
-          `This service is configured for ${allowedHandle} only. You are logged in as ${handle}.`,
-      }, 403);
+    const accessError = await checkBlueskyAccess(handle, did, accountId);
+    if (accessError) {
+      return c.json({ error: "Unauthorized", message: accessError }, 403);
     }
 
     // Update user account with ATProto tokens and DPoP keys
@@ -515,7 +569,7 @@ oauth.get("/atproto/callback", async (c) => {
         : undefined,
       atproto_dpop_private_key: dpopPrivateKeyJwkStr,
       atproto_dpop_public_jwk: dpopPublicJwkStr,
-    });
+    }, accountId);
 
     // Clear OAuth cookies
     setCookie(c, "oauth_state", "", { maxAge: 0 });
@@ -524,6 +578,13 @@ oauth.get("/atproto/callback", async (c) => {
     setCookie(c, "oauth_pds_url", "", { maxAge: 0 });
     setCookie(c, "oauth_dpop_private_key", "", { maxAge: 0 });
     setCookie(c, "oauth_dpop_public_jwk", "", { maxAge: 0 });
+    // Lets the same browser connect Mastodon to this account next
+    setCookie(c, "setup_user_id", userId, {
+      httpOnly: true,
+      secure: true,
+      sameSite: "Lax",
+      maxAge: 3600, // 1 hour
+    });
 
     // Use Hono's redirect method to ensure cookies are included
     return c.redirect(`/setup?step=mastodon&user_id=${userId}`);
@@ -552,49 +613,80 @@ oauth.get("/mastodon/start", async (c) => {
   if (!instanceUrl || !userId) {
     return c.json({ error: "Instance URL and user_id are required" }, 400);
   }
+  if (!ownsSetupAccount(c, userId)) {
+    return c.json({ error: "Connect Bluesky for this account first" }, 403);
+  }
 
   try {
     // Normalize instance URL
     const normalizedUrl = instanceUrl.startsWith("http")
       ? instanceUrl
       : `https://${instanceUrl}`;
-
-    // Register application with Mastodon instance
-    const appResponse = await fetch(`${normalizedUrl}/api/v1/apps`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        client_name: "ATProto-to-Fediverse Bridge",
-        redirect_uris: `${
-          c.req.url.split("/oauth")[0]
-        }/oauth/mastodon/callback`,
-        scopes: "read write",
-        website: c.req.url.split("/oauth")[0],
-      }),
-    });
-
-    if (!appResponse.ok) {
-      const errorData = await appResponse.text();
-      console.error("Mastodon app registration failed:", errorData);
-      return c.json(
-        { error: "Failed to register with Mastodon instance" },
-        500,
-      );
-    }
-
-    const appData = await appResponse.json();
-
-    // Store app credentials in user account
-    await updateUserAccount({
-      mastodon_instance_url: normalizedUrl,
-      mastodon_client_id: appData.client_id,
-      mastodon_client_secret: appData.client_secret,
-    });
+    const redirectUri = `${
+      c.req.url.split("/oauth")[0]
+    }/oauth/mastodon/callback`;
 
     // Generate OAuth parameters
     const state = generateState();
+    let authUrl: URL;
+
+    const software = await detectServerSoftware(normalizedUrl);
+    if (software === "misskey") {
+      // Misskey-family servers authorize through MiAuth, with no app to
+      // register; the state doubles as the MiAuth session id
+      await updateUserAccount({
+        mastodon_instance_url: normalizedUrl,
+        mastodon_software: software,
+      }, resolveUserId(userId));
+
+      authUrl = new URL(
+        miAuthUrl(normalizedUrl, state, {
+          name: BRIDGE_APP_NAME,
+          callback: redirectUri,
+        }),
+      );
+    } else {
+      // Register application with Mastodon instance
+      const appResponse = await fetch(`${normalizedUrl}/api/v1/apps`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          client_name: BRIDGE_APP_NAME,
+          redirect_uris: redirectUri,
+          scopes: "read write",
+          website: c.req.url.split("/oauth")[0],
+        }),
+      });
+
+      if (!appResponse.ok) {
+        const errorData = await appResponse.text();
+        console.error("Mastodon app registration failed:", errorData);
+        return c.json(
+          { error: "Failed to register with Mastodon instance" },
+          500,
+        );
+      }
+
+      const appData = await appResponse.json();
+
+      // Store app credentials in user account
+      await updateUserAccount({
+        mastodon_instance_url: normalizedUrl,
+        mastodon_client_id: appData.client_id,
+        mastodon_client_secret: appData.client_secret,
+        mastodon_software: software,
+      }, resolveUserId(userId));
+
+      // Build authorization URL
+      authUrl = new URL(`${normalizedUrl}/oauth/authorize`);
+      authUrl.searchParams.set("response_type", "code");
+      authUrl.searchParams.set("client_id", appData.client_id);
+      authUrl.searchParams.set("redirect_uri", redirectUri);
+      authUrl.searchParams.set("scope", "read write");
+      authUrl.searchParams.set("state", state);
+    }
 
     // Store OAuth state in cookies
     setCookie(c, "mastodon_oauth_state", state, {
@@ -610,17 +702,6 @@ oauth.get("/mastodon/start", async (c) => {
       maxAge: 600,
     });
 
-    // Build authorization URL
-    const authUrl = new URL(`${normalizedUrl}/oauth/authorize`);
-    authUrl.searchParams.set("response_type", "code");
-    authUrl.searchParams.set("client_id", appData.client_id);
-    const redirectUri = `${
-      c.req.url.split("/oauth")[0]
-    }/oauth/mastodon/callback`;
-    authUrl.searchParams.set("redirect_uri", redirectUri);
-    authUrl.searchParams.set("scope", "read write");
-    authUrl.searchParams.set("state", state);
-
     return c.json({ authUrl: authUrl.toString() });
   } catch (error) {
     console.error("Mastodon OAuth start error:", error);
@@ -630,13 +711,14 @@ oauth.get("/mastodon/start", async (c) => {
 
 oauth.get("/mastodon/callback", async (c) => {
   const code = c.req.query("code");
-  const state = c.req.query("state");
+  const session = c.req.query("session"); // MiAuth, for Misskey servers
+  const state = c.req.query("state") ?? session;
   const error = c.req.query("error");
   if (error) {
     return c.json({ error: `OAuth error: ${error}` }, 400);
   }
 
-  if (!code || !state) {
+  if ((!code && !session) || !state) {
     return c.json({ error: "Missing code or state" }, 400);
   }
 
@@ -651,76 +733,99 @@ oauth.get("/mastodon/callback", async (c) => {
     if (!userId) {
       return c.json({ error: "Missing user ID" }, 400);
     }
-
-    // Get user account to retrieve app credentials
-    const userAccount = await getUserAccount();
-    if (
-      !userAccount?.mastodon_client_id ||
-      !userAccount?.mastodon_client_secret ||
-      !userAccount?.mastodon_instance_url
-    ) {
-      return c.json({ error: "Missing Mastodon app credentials" }, 400);
+    if (!ownsSetupAccount(c, userId)) {
+      return c.json({ error: "Connect Bluesky for this account first" }, 403);
     }
+    const accountId = resolveUserId(userId);
+
+    const userAccount = await getUserAccount(accountId);
+    let accessToken: string;
+    let username: string | undefined;
+
+    if (session) {
+      if (
+        userAccount?.mastodon_software !== "misskey" ||
+        !userAccount.mastodon_instance_url
+      ) {
+        return c.json({ error: "No MiAuth session was started" }, 400);
+      }
 
-    // Exchange code for tokens
-    const tokenResponse = await fetch(
-      `${userAccount.mastodon_instance_url}/oauth/token`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          "Accept": "application/json",
+      const miAuth = await checkMiAuthSession(
+        userAccount.mastodon_instance_url,
+        session,
+      );
+      accessToken = miAuth.token;
+      username = miAuth.username;
+    } else {
+      // Get user account to retrieve app credentials
+      if (
+        !userAccount?.mastodon_client_id ||
+        !userAccount?.mastodon_client_secret ||
+        !userAccount?.mastodon_instance_url
+      ) {
+        return c.json({ error: "Missing Mastodon app credentials" }, 400);
+      }
+
+      // Exchange code for tokens
+      const tokenResponse = await fetch(
+        `${userAccount.mastodon_instance_url}/oauth/token`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            "Accept": "application/json",
+          },
+          body: new URLSearchParams({
+            grant_type: "authorization_code",
+            code: code!,
+            redirect_uri: `${
+              c.req.url.split("/oauth")[0]
+            }/oauth/mastodon/callback`,
+            client_id: userAccount.mastodon_client_id,
+            client_secret: userAccount.mastodon_client_secret,
+          }),
         },
-        body: new URLSearchParams({
-          grant_type: "authorization_code",
-          code: code,
-          redirect_uri: `${
-            c.req.url.split("/oauth")[0]
-          }/oauth/mastodon/callback`,
-          client_id: userAccount.mastodon_client_id,
-          client_secret: userAccount.mastodon_client_secret,
-        }),
-      },
-    );
+      );
 
-    if (!tokenResponse.ok) {
-      const errorData = await tokenResponse.json();
-      console.error("Mastodon token exchange failed:", errorData);
-      return c.json({
-        error: "Token exchange failed",
-        details: errorData,
-        endpoint: `${userAccount.mastodon_instance_url}/oauth/token`,
-      }, 500);
-    }
+      if (!tokenResponse.ok) {
+        const errorData = await tokenResponse.json();
+        console.error("Mastodon token exchange failed:", errorData);
+        return c.json({
+          error: "Token exchange failed",
+          details: errorData,
+          endpoint: `${userAccount.mastodon_instance_url}/oauth/token`,
+        }, 500);
+      }
 
-    const tokens = await tokenResponse.json();
+      const tokens = await tokenResponse.json();
+      accessToken = tokens.access_token;
 
-    // Get user profile
-    const profileResponse = await fetch(
-      `${userAccount.mastodon_instance_url}/api/v1/accounts/verify_credentials`,
-      {
-        headers: {
-          "Authorization": `Bearer ${tokens.access_token}`,
+      // Get user profile
+      const profileResponse = await fetch(
+        `${userAccount.mastodon_instance_url}/api/v1/accounts/verify_credentials`,
+        {
+          headers: {
+            "Authorization": `Bearer ${tokens.access_token}`,
+          },
         },
-      },
-    );
+      );
 
-    let userProfile: any = {};
-    if (profileResponse.ok) {
-      userProfile = await profileResponse.json();
+      if (profileResponse.ok) {
+        const userProfile = await profileResponse.json();
+        username = userProfile.username || userProfile.acct;
+      }
     }
 
     // Update user account with Mastodon tokens
     await updateUserAccount({
-      mastodon_access_token: tokens.access_token,
-      mastodon_username: userProfile.username || userProfile.acct,
+      mastodon_access_token: accessToken,
+      mastodon_username: username,
       setup_completed: true, // Both accounts are now connected
-    });
+    }, accountId);
 
     // Get updated user account to get the handle
-    const updatedUser = await getUserAccount();
-    const handle = updatedUser?.atproto_handle || userProfile.username ||
-      userProfile.acct;
+    const updatedUser = await getUserAccount(accountId);
+    const handle = updatedUser?.atproto_handle || username || "";
 
     // Create session automatically after successful setup
     const { sessionToken } = await createUserSession(userId, handle);
@@ -733,6 +838,7 @@ oauth.get("/mastodon/callback", async (c) => {
     setCookie(c, "oauth_dpop_public_jwk", "", { maxAge: 0, path: "/" });
     setCookie(c, "mastodon_oauth_state", "", { maxAge: 0, path: "/" });
     setCookie(c, "mastodon_oauth_user_id", "", { maxAge: 0, path: "/" });
+    setCookie(c, "setup_user_id", "", { maxAge: 0, path: "/" });
 
     // Set session cookie for automatic login
     // Check if we're on HTTPS (Val.town should be)
@@ -786,4 +892,215 @@ oauth.get("/mastodon/callback", async (c) => {
   }
 });
 
+// Additional Mastodon destinations: the same OAuth (or MiAuth) flow as the
+// main account, storing the app and token on a destinations row instead
+oauth.get("/destination/start", requireAuth(), async (c) => {
+  const instanceUrl = c.req.query("instance_url");
+  const name = c.req.query("name");
+  if (!instanceUrl || !name) {
+    return c.json({ error: "Instance URL and name are required" }, 400);
+  }
+
+  try {
+    const normalizedUrl =
+      (instanceUrl.startsWith("http") ? instanceUrl : `https://${instanceUrl}`)
+        .replace(/\/$/, "");
+    const redirectUri = `${
+      c.req.url.split("/oauth")[0]
+    }/oauth/destination/callback`;
+    const storage = new SQLiteStorageProvider(
+      resolveUserId(c.get("userId") as string),
+    );
+    const state = generateState();
+    let authUrl: URL;
+    let destinationId: number;
+
+    // Destinations stay disabled until the callback stores a token
+    if (await detectServerSoftware(normalizedUrl) === "misskey") {
+      const destination = await storage.destinations.create({
+        name,
+        instance_url: normalizedUrl,
+        client_id: "",
+        client_secret: "",
+        software: "misskey",
+      });
+      destinationId = destination.id;
+
+      authUrl = new URL(
+        miAuthUrl(normalizedUrl, state, {
+          name: BRIDGE_APP_NAME,
+          callback: redirectUri,
+        }),
+      );
+    } else {
+      const appResponse = await fetch(`${normalizedUrl}/api/v1/apps`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          client_name: BRIDGE_APP_NAME,
+          redirect_uris: redirectUri,
+          scopes: "read write",
+          website: c.req.url.split("/oauth")[0],
+        }),
+      });
+
+      if (!appResponse.ok) {
+        const errorData = await appResponse.text();
+        console.error("Destination app registration failed:", errorData);
+        return c.json(
+          { error: "Failed to register with Mastodon instance" },
+          500,
+        );
+      }
+
+      const appData = await appResponse.json();
+
+      const destination = await storage.destinations.create({
+        name,
+        instance_url: normalizedUrl,
+        client_id: appData.client_id,
+        client_secret: appData.client_secret,
+        software: "mastodon",
+      });
+      destinationId = destination.id;
+
+      authUrl = new URL(`${normalizedUrl}/oauth/authorize`);
+      authUrl.searchParams.set("response_type", "code");
+      authUrl.searchParams.set("client_id", appData.client_id);
+      authUrl.searchParams.set("redirect_uri", redirectUri);
+      authUrl.searchParams.set("scope", "read write");
+      authUrl.searchParams.set("state", state);
+    }
+
+    setCookie(c, "destination_oauth_state", state, {
+      httpOnly: true,
+      secure: true,
+      sameSite: "Lax",
+      maxAge: 600, // 10 minutes
+    });
+    setCookie(c, "destination_oauth_id", String(destinationId), {
+      httpOnly: true,
+      secure: true,
+      sameSite: "Lax",
+      maxAge: 600,
+    });
+
+    return c.json({ authUrl: authUrl.toString() });
+  } catch (error) {
+    console.error("Destination OAuth start error:", error);
+    return c.json({ error: "Failed to start OAuth flow" }, 500);
+  }
+});
+
+oauth.get("/destination/callback", requireAuth(), async (c) => {
+  const code = c.req.query("code");
+  const session = c.req.query("session"); // MiAuth, for Misskey servers
+  const state = c.req.query("state") ?? session;
+  const error = c.req.query("error");
+  if (error) {
+    return c.json({ error: `OAuth error: ${error}` }, 400);
+  }
+
+  if ((!code && !session) || !state) {
+    return c.json({ error: "Missing code or state" }, 400);
+  }
+
+  if (state !== getCookie(c, "destination_oauth_state")) {
+    return c.json({ error: "Invalid state parameter" }, 400);
+  }
+
+  try {
+    const storage = new SQLiteStorageProvider(
+      resolveUserId(c.get("userId") as string),
+    );
+    const destination = await storage.destinations.get(
+      Number(getCookie(c, "destination_oauth_id")),
+    );
+    if (!destination) {
+      return c.json({ error: "Unknown destination" }, 400);
+    }
+
+    let accessToken: string;
+    let username: string | undefined;
+
+    if (session) {
+      if (destination.software !== "misskey") {
+        return c.json({ error: "No MiAuth session was started" }, 400);
+      }
+
+      const miAuth = await checkMiAuthSession(
+        destination.instance_url,
+        session,
+      );
+      accessToken = miAuth.token;
+      username = miAuth.username;
+    } else {
+      const tokenResponse = await fetch(
+        `${destination.instance_url}/oauth/token`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            "Accept": "application/json",
+          },
+          body: new URLSearchParams({
+            grant_type: "authorization_code",
+            code: code!,
+            redirect_uri: `${
+              c.req.url.split("/oauth")[0]
+            }/oauth/destination/callback`,
+            client_id: destination.client_id,
+            client_secret: destination.client_secret,
+          }),
+        },
+      );
+
+      if (!tokenResponse.ok) {
+        const errorData = await tokenResponse.json();
+        console.error("Destination token exchange failed:", errorData);
+        return c.json({
+          error: "Token exchange failed",
+          details: errorData,
+        }, 500);
+      }
+
+      const tokens = await tokenResponse.json();
+      accessToken = tokens.access_token;
+
+      const profileResponse = await fetch(
+        `${destination.instance_url}/api/v1/accounts/verify_credentials`,
+        {
+          headers: {
+            "Authorization": `Bearer ${tokens.access_token}`,
+          },
+        },
+      );
+
+      if (profileResponse.ok) {
+        const userProfile = await profileResponse.json();
+        username = userProfile.username || userProfile.acct;
+      }
+    }
+
+    await storage.destinations.update(destination.id, {
+      access_token: accessToken,
+      username,
+      enabled: true,
+    });
+
+    setCookie(c, "destination_oauth_state", "", { maxAge: 0, path: "/" });
+    setCookie(c, "destination_oauth_id", "", { maxAge: 0, path: "/" });
+
+    return c.redirect("/dashboard");
+  } catch (error) {
+    console.error("Destination OAuth callback error:", error);
+    return c.json({
+      error: "OAuth callback failed",
+      details: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
+
 export default oauth;
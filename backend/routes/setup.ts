@@ -1,19 +1,22 @@
 import { Hono } from "https://esm.sh/hono@3.11.7";
 import {
   createDefaultSettings,
+  createNewUserAccount,
   createUserAccount,
   getUserAccount,
   updateUserAccount,
 } from "../database/queries.ts";
+import { isMultiUserMode, resolveUserId } from "../lib/multi-user.ts";
 import { SetupState, SetupStep } from "../../shared/types.ts";
 import { blockIfSetupCompleted } from "./auth.ts";
 import { DIDResolver } from "../services/did-resolver.ts";
+import { createFediverseClient } from "../services/server-software.ts";
 
 const setup = new Hono();
 
-// Get setup state for the single user
-async function getSetupState(): Promise<SetupState> {
-  const userAccount = await getUserAccount();
+// Get setup state for the single user, or the given user in multi-user mode
+async function getSetupState(userId: number): Promise<SetupState> {
+  const userAccount = await getUserAccount(userId);
 
   const steps: SetupStep[] = [
     {
@@ -48,30 +51,37 @@ async function getSetupState(): Promise<SetupState> {
   return {
     currentStep,
     steps,
-    userId: "single-user", // For backward compatibility
+    userId: setupUserId(userId),
     atprotoConnected: !!userAccount?.atproto_access_token,
     mastodonConnected: !!userAccount?.mastodon_access_token,
     setupCompleted: !!userAccount?.setup_completed,
   };
 }
 
+// The user id the setup page carries through the OAuth flows
+function setupUserId(userId: number): string {
+  return isMultiUserMode() ? String(userId) : "single-user"; // For backward compatibility
+}
+
 // Start setup - get or create the single user account
 setup.post("/start", blockIfSetupCompleted(), async (c) => {
   try {
-    // For single-user service, get or create the single user account
-    let userAccount = await getUserAccount();
+    let userAccount = isMultiUserMode() ? null : await getUserAccount();
 
     if (!userAccount) {
-      // Create the single user account
-      userAccount = await createUserAccount();
-      await createDefaultSettings();
+      // Create the single user account, or a new one in multi-user mode;
+      // the allowlist is checked once Bluesky is connected
+      userAccount = isMultiUserMode()
+        ? await createNewUserAccount()
+        : await createUserAccount();
+      await createDefaultSettings(userAccount.id);
     }
 
-    const setupState = await getSetupState();
+    const setupState = await getSetupState(userAccount.id);
 
     return c.json({
       success: true,
-      userId: "single-user", // For backward compatibility
+      userId: setupUserId(userAccount.id),
       setupState,
     });
   } catch (error) {
@@ -82,10 +92,9 @@ setup.post("/start", blockIfSetupCompleted(), async (c) => {
 
 // Get setup state
 setup.get("/state/:userId", async (c) => {
-  const _userId = c.req.param("userId");
-
   try {
-    const setupState = await getSetupState();
+    const userId = resolveUserId(c.req.param("userId"));
+    const setupState = await getSetupState(userId);
     return c.json(setupState);
   } catch (error) {
     console.error("Setup state error:", error);
@@ -95,10 +104,9 @@ setup.get("/state/:userId", async (c) => {
 
 // Complete setup
 setup.post("/complete/:userId", async (c) => {
-  const _userId = c.req.param("userId");
-
   try {
-    const userAccount = await getUserAccount();
+    const userId = resolveUserId(c.req.param("userId"));
+    const userAccount = await getUserAccount(userId);
 
     if (!userAccount) {
       return c.json({ error: "User account not found" }, 404);
@@ -116,9 +124,9 @@ setup.post("/complete/:userId", async (c) => {
     // Mark setup as completed
     await updateUserAccount({
       setup_completed: true,
-    });
+    }, userId);
 
-    const setupState = await getSetupState();
+    const setupState = await getSetupState(userId);
 
     return c.json({
       success: true,
@@ -151,10 +159,9 @@ setup.get("/check", (c) => {
 
 // Test connections
 setup.post("/test-connections/:userId", blockIfSetupCompleted(), async (c) => {
-  const _userId = c.req.param("userId");
-
   try {
-    const userAccount = await getUserAccount();
+    const userId = resolveUserId(c.req.param("userId"));
+    const userAccount = await getUserAccount(userId);
 
     if (!userAccount) {
       return c.json({ error: "User account not found" }, 404);
@@ -203,21 +210,12 @@ setup.post("/test-connections/:userId", blockIfSetupCompleted(), async (c) => {
       userAccount.mastodon_access_token && userAccount.mastodon_instance_url
     ) {
       try {
-        const response = await fetch(
-          `${userAccount.mastodon_instance_url}/api/v1/accounts/verify_credentials`,
-          {
-            headers: {
-              "Authorization": `Bearer ${userAccount.mastodon_access_token}`,
-            },
-          },
-        );
-
-        if (response.ok) {
-          results.mastodon.connected = true;
-        } else {
-          results.mastodon.error =
-            `HTTP ${response.status}: ${response.statusText}`;
-        }
+        await createFediverseClient(
+          userAccount.mastodon_instance_url,
+          userAccount.mastodon_access_token,
+          userAccount.mastodon_software,
+        ).verifyCredentials();
+        results.mastodon.connected = true;
       } catch (error) {
         results.mastodon.error = error instanceof Error
           ? error.message
@@ -83,6 +83,7 @@ export class ATProtoClientAdapter implements ATProtoHttpClient {
           record: post.record,
           indexedAt: post.indexedAt,
         },
+        reason: post.reason,
       })),
       cursor: result.cursor,
     };
@@ -96,7 +97,7 @@ export class ATProtoClientAdapter implements ATProtoHttpClient {
 
     const post = await this.passwordClient.getPost(uri);
     if (!post) {
-      throw new Error("Post not found");
+      throw new Error(`Post ${uri} is unavailable`);
     }
 
     return {
@@ -145,6 +146,27 @@ export class ATProtoClientAdapter implements ATProtoHttpClient {
     return this.passwordClient.resolveBlobUrl(cid);
   }
 
+  async uploadBlob(data: Blob, mimeType: string): Promise<any> {
+    // Writing to the repo only available with App Password client
+    if (!this.useAppPassword || !this.passwordClient) {
+      throw new Error("Blob uploads require App Password authentication");
+    }
+
+    return await this.passwordClient.uploadBlob(data, mimeType);
+  }
+
+  async createPost(
+    record: Record<string, unknown>,
+    rkey: string,
+  ): Promise<{ uri: string; cid: string }> {
+    // Writing to the repo only available with App Password client
+    if (!this.useAppPassword || !this.passwordClient) {
+      throw new Error("Creating posts requires App Password authentication");
+    }
+
+    return await this.passwordClient.createPost(record, rkey);
+  }
+
   /**
    * Get blob as Blob object for media processing
    */
@@ -188,6 +210,7 @@ export class ATProtoClientAdapter implements ATProtoHttpClient {
           record: post.record,
           indexedAt: post.indexedAt,
         },
+        reason: post.reason,
       })),
       cursor: result.cursor,
     };
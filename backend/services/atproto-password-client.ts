@@ -1,5 +1,14 @@
 import { BskyAgent } from "https://esm.sh/@atproto/api@0.15.23";
 import { ATProtoPost } from "../../shared/types.ts";
+import { PostNotFoundError } from "../interfaces/http-client.ts";
+
+/**
+ * When a feed item appeared in the feed: the repost time for reposts, which
+ * can be much later than the original post
+ */
+function activityTime(post: ATProtoPost): string {
+  return post.reason?.indexedAt || post.record.createdAt;
+}
 
 /**
  * ATProto client using App Password authentication
@@ -82,8 +91,11 @@ export class ATProtoPasswordClient {
         embed: (item.post.record as any).embed,
         facets: (item.post.record as any).facets,
         reply: (item.post.record as any).reply,
+        langs: (item.post.record as any).langs,
+        labels: (item.post.record as any).labels,
       },
       indexedAt: item.post.indexedAt,
+      reason: item.reason,
     }));
 
     return {
@@ -130,7 +142,7 @@ export class ATProtoPasswordClient {
 
       // Apply time filter if provided
       if (sinceTime) {
-        postsToAdd = posts.filter((post) => post.record.createdAt > sinceTime);
+        postsToAdd = posts.filter((post) => activityTime(post) > sinceTime);
 
         // If we got filtered posts and some were too old, we can stop
         if (postsToAdd.length < posts.length) {
@@ -163,19 +175,33 @@ export class ATProtoPasswordClient {
   }
 
   /**
-   * Get a specific post by URI
+   * Get a specific post by URI. Returns null for posts that exist but can't
+   * be viewed (blocked or otherwise unavailable) and throws
+   * PostNotFoundError when the record is gone.
    */
   async getPost(uri: string): Promise<ATProtoPost | null> {
-    const response = await this.agent.getPostThread({
-      uri,
-      depth: 0,
-    });
+    let response;
+    try {
+      response = await this.agent.getPostThread({
+        uri,
+        depth: 0,
+      });
+    } catch (error) {
+      const code = (error as any)?.error;
+      if (code === "NotFound" || code === "RecordNotFound") {
+        throw new PostNotFoundError(uri);
+      }
+      throw error;
+    }
 
     if (!response.success) {
       return null;
     }
 
     const thread = response.data.thread;
+    if (thread?.$type === "app.bsky.feed.defs#notFoundPost") {
+      throw new PostNotFoundError(uri);
+    }
     if (!thread || thread.$type !== "app.bsky.feed.defs#threadViewPost") {
       return null;
     }
@@ -196,6 +222,8 @@ export class ATProtoPasswordClient {
         embed: (post.record as any).embed,
         facets: (post.record as any).facets,
         reply: (post.record as any).reply,
+        langs: (post.record as any).langs,
+        labels: (post.record as any).labels,
       },
       indexedAt: post.indexedAt,
     };
@@ -241,6 +269,44 @@ export class ATProtoPasswordClient {
     return new Blob([data]);
   }
 
+  /**
+   * Upload media to the user's repo and return its blob ref
+   */
+  async uploadBlob(data: Blob, mimeType: string): Promise<any> {
+    const response = await this.agent.uploadBlob(
+      new Uint8Array(await data.arrayBuffer()),
+      { encoding: mimeType },
+    );
+
+    if (!response.success) {
+      throw new Error("Failed to upload blob");
+    }
+
+    return response.data.blob;
+  }
+
+  /**
+   * Create a post record under a chosen record key, so a retry of an
+   * interrupted write can't create a second copy
+   */
+  async createPost(
+    record: Record<string, unknown>,
+    rkey: string,
+  ): Promise<{ uri: string; cid: string }> {
+    const response = await this.agent.com.atproto.repo.createRecord({
+      repo: this.did,
+      collection: "app.bsky.feed.post",
+      rkey,
+      record: { $type: "app.bsky.feed.post", ...record },
+    });
+
+    if (!response.success) {
+      throw new Error("Failed to create post");
+    }
+
+    return { uri: response.data.uri, cid: response.data.cid };
+  }
+
   /**
    * Get user profile information
    */
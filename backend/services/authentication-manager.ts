@@ -2,8 +2,10 @@ import { StorageProvider } from "../interfaces/storage.ts";
 import {
   ATProtoHttpClient,
   MastodonHttpClient,
+  ServerSoftware,
 } from "../interfaces/http-client.ts";
 import { DIDResolver } from "./did-resolver.ts";
+import { isMultiUserMode } from "../lib/multi-user.ts";
 
 export interface AuthenticationResult {
   atprotoClient: ATProtoHttpClient;
@@ -26,6 +28,7 @@ export class AuthenticationManager {
     private createMastodonClient: (
       instanceUrl: string,
       accessToken: string,
+      software?: ServerSoftware | null,
     ) => MastodonHttpClient,
   ) {}
 
@@ -50,11 +53,14 @@ export class AuthenticationManager {
     const pdsUrl = await DIDResolver.resolvePDSUrl(account.atproto_did);
     console.log(`Resolved PDS URL: ${pdsUrl}`);
 
-    // Initialize ATProto client - prefer App Password from env if available
+    // Initialize ATProto client - prefer App Password from env if available.
+    // In multi-user mode it belongs to the operator, not to every user.
     let atprotoClient: ATProtoHttpClient;
     let appPassword: string | undefined;
     try {
-      appPassword = Deno.env.get("ATPROTO_APP_PASSWORD");
+      appPassword = isMultiUserMode()
+        ? undefined
+        : Deno.env.get("ATPROTO_APP_PASSWORD");
     } catch (_error) {
       // Environment access not available (e.g., in tests without --allow-env)
       appPassword = undefined;
@@ -94,6 +100,7 @@ export class AuthenticationManager {
     const mastodonClient = this.createMastodonClient(
       account.mastodon_instance_url,
       account.mastodon_access_token,
+      account.mastodon_software,
     );
 
     return { atprotoClient, mastodonClient };
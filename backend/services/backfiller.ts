@@ -0,0 +1,344 @@
+import { BackfillJob, StorageProvider } from "../interfaces/storage.ts";
+import {
+  ATProtoHttpClient,
+  MastodonHttpClient,
+} from "../interfaces/http-client.ts";
+import { ATProtoPost } from "../../shared/types.ts";
+import { BRIDGE_CONFIG } from "../../config.ts";
+import { isSelfReply, PostFilterManager } from "./post-filter.ts";
+import { MastodonSyncer, mayStillSync, SyncResult } from "./mastodon-syncer.ts";
+import { SyncSettings } from "./sync-settings.ts";
+
+export interface BackfillRequest {
+  since: string; // ISO date of the oldest post to import
+  until: string; // ISO date of the newest post to import
+  maxPosts: number;
+  addDatePrefix: boolean;
+}
+
+/**
+ * An account a backfill publishes to: the primary Mastodon account or an
+ * additional destination, with its own tracking rows and settings
+ */
+export interface BackfillTarget {
+  name: string;
+  storage: StorageProvider; // Post tracking scoped to the target
+  mastodonClient: MastodonHttpClient;
+  mastodonSyncer: MastodonSyncer;
+  settings: SyncSettings;
+}
+
+const FEED_PAGE_SIZE = 50;
+const MAX_BACKFILL_POSTS = 1000;
+
+/**
+ * Imports older posts in chunks across cron runs. The feed is scanned
+ * newest-first back to the start of the range, collecting up to max_posts
+ * posts that some target would sync; those are then published oldest-first
+ * to every target that hasn't got them. Progress is persisted after every
+ * chunk, so a job survives timeouts.
+ */
+export class Backfiller {
+  constructor(
+    private storage: StorageProvider,
+    private postFilterManager: PostFilterManager = new PostFilterManager(),
+    private mastodonSyncer: MastodonSyncer = new MastodonSyncer(storage),
+    private chunkConfig: {
+      pages_per_run: number;
+      posts_per_run: number;
+    } = BRIDGE_CONFIG.backfill,
+  ) {}
+
+  /**
+   * Start a new job, replacing a finished or cancelled one
+   */
+  async start(request: BackfillRequest): Promise<BackfillJob> {
+    const current = await this.storage.backfillJobs.get();
+    if (current?.status === "running" || current?.status === "paused") {
+      throw new Error("A backfill job is already in progress");
+    }
+
+    const sinceAt = Math.floor(new Date(request.since).getTime() / 1000);
+    const untilAt = Math.floor(new Date(request.until).getTime() / 1000);
+    if (Number.isNaN(sinceAt) || Number.isNaN(untilAt)) {
+      throw new Error("Invalid backfill date range");
+    }
+    if (sinceAt > untilAt) {
+      throw new Error("Backfill start date must be before its end date");
+    }
+    if (
+      !Number.isInteger(request.maxPosts) || request.maxPosts < 1 ||
+      request.maxPosts > MAX_BACKFILL_POSTS
+    ) {
+      throw new Error(
+        `Backfill max posts must be between 1 and ${MAX_BACKFILL_POSTS}`,
+      );
+    }
+
+    return await this.storage.backfillJobs.create({
+      since_at: sinceAt,
+      until_at: untilAt,
+      max_posts: request.maxPosts,
+      add_date_prefix: request.addDatePrefix,
+    });
+  }
+
+  async pause(): Promise<void> {
+    await this.transition("running", "paused");
+  }
+
+  async resume(): Promise<void> {
+    await this.transition("paused", "running");
+  }
+
+  async cancel(): Promise<void> {
+    const job = await this.storage.backfillJobs.get();
+    if (job?.status !== "running" && job?.status !== "paused") {
+      throw new Error("No backfill job in progress");
+    }
+    await this.storage.backfillJobs.update({ status: "cancelled" });
+  }
+
+  /**
+   * Advance a running job by one chunk
+   */
+  async runChunk(
+    atprotoClient: ATProtoHttpClient,
+    targets: BackfillTarget[],
+    actorDid: string,
+  ): Promise<SyncResult> {
+    let job = await this.storage.backfillJobs.get();
+    if (job?.status !== "running") {
+      return { successful: 0, failed: 0, errors: [] };
+    }
+
+    if (job.phase === "scanning") {
+      await this.scan(job, atprotoClient, actorDid, targets);
+      job = (await this.storage.backfillJobs.get())!;
+    }
+
+    // The job may have been paused while the scan ran
+    if (job.status === "running" && job.phase === "posting") {
+      return await this.publish(job, atprotoClient, targets);
+    }
+    return { successful: 0, failed: 0, errors: [] };
+  }
+
+  private async transition(
+    from: BackfillJob["status"],
+    to: BackfillJob["status"],
+  ): Promise<void> {
+    const job = await this.storage.backfillJobs.get();
+    if (job?.status !== from) {
+      throw new Error(`No ${from} backfill job`);
+    }
+    await this.storage.backfillJobs.update({ status: to });
+  }
+
+  /**
+   * Status update for a job that ran out of work, unless it was paused or
+   * cancelled from the dashboard while the chunk ran
+   */
+  private async completion(): Promise<Partial<BackfillJob>> {
+    const latest = await this.storage.backfillJobs.get();
+    return latest?.status === "running" ? { status: "completed" } : {};
+  }
+
+  /**
+   * Walk the author feed back towards the start of the range, collecting
+   * posts to publish. Switches the job to posting once the range, the feed
+   * or max_posts is exhausted.
+   */
+  private async scan(
+    job: BackfillJob,
+    atprotoClient: ATProtoHttpClient,
+    actorDid: string,
+    targets: BackfillTarget[],
+  ): Promise<void> {
+    const queue: string[] = JSON.parse(job.queue);
+    let cursor = job.feed_cursor ?? undefined;
+
+    for (let page = 0; page < this.chunkConfig.pages_per_run; page++) {
+      const response = await atprotoClient.fetchPosts({
+        actor: actorDid,
+        limit: FEED_PAGE_SIZE,
+        cursor,
+      });
+      const feed = response.feed ?? [];
+      let done = feed.length === 0 || !response.cursor;
+
+      for (const item of feed) {
+        // Reposts and pins aren't the user's own posts at that point in time
+        if (item.reason) continue;
+
+        const post: ATProtoPost = {
+          uri: item.post.uri,
+          cid: item.post.cid,
+          author: item.post.author,
+          record: item.post.record,
+          indexedAt: item.post.indexedAt,
+        };
+        const createdAt = Math.floor(
+          new Date(post.record.createdAt).getTime() / 1000,
+        );
+
+        if (createdAt > job.until_at) continue;
+        if (createdAt < job.since_at) {
+          done = true;
+          break;
+        }
+
+        if (!await this.wantedBy(post, targets)) continue;
+
+        // The feed is newest first, the queue oldest first
+        queue.unshift(post.uri);
+        if (queue.length >= job.max_posts) {
+          done = true;
+          break;
+        }
+      }
+
+      cursor = response.cursor;
+      if (done) {
+        console.log(`Backfill scan complete, ${queue.length} posts queued`);
+        await this.storage.backfillJobs.update({
+          phase: "posting",
+          feed_cursor: null,
+          queue: JSON.stringify(queue),
+          ...(queue.length === 0 && await this.completion()),
+        });
+        return;
+      }
+    }
+
+    await this.storage.backfillJobs.update({
+      feed_cursor: cursor,
+      queue: JSON.stringify(queue),
+    });
+  }
+
+  /**
+   * Whether any target would sync a post it hasn't got yet
+   */
+  private async wantedBy(
+    post: ATProtoPost,
+    targets: BackfillTarget[],
+  ): Promise<boolean> {
+    for (const target of targets) {
+      if (
+        this.postFilterManager.shouldSyncPost(post, target.settings) &&
+        !await target.storage.postTracking.getByUri(post.uri)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Publish the next chunk of queued posts to every target, re-fetching
+   * each so edits and deletions since the scan are respected. Self-replies
+   * whose parent isn't on a target yet are queued again while the parent
+   * can still get there.
+   */
+  private async publish(
+    job: BackfillJob,
+    atprotoClient: ATProtoHttpClient,
+    targets: BackfillTarget[],
+  ): Promise<SyncResult> {
+    const queue: string[] = JSON.parse(job.queue);
+    const batch = queue.slice(
+      job.position,
+      job.position + this.chunkConfig.posts_per_run,
+    );
+
+    const posts: ATProtoPost[] = [];
+    for (const uri of batch) {
+      const post = await this.mastodonSyncer.fetchSourcePost(
+        atprotoClient,
+        uri,
+      );
+      if (post) posts.push(post);
+    }
+
+    const upcoming = queue.slice(job.position + batch.length);
+    const result: SyncResult = { successful: 0, failed: 0, errors: [] };
+    const requeued = new Set<string>();
+    for (const target of targets) {
+      const tracking = target.storage.postTracking;
+
+      // Skipping posts picked up by a regular sync in the meantime
+      const pending: ATProtoPost[] = [];
+      for (const post of posts) {
+        if (
+          this.postFilterManager.shouldSyncPost(post, target.settings) &&
+          !await tracking.getByUri(post.uri)
+        ) {
+          pending.push(post);
+        }
+      }
+
+      try {
+        const synced = await target.mastodonSyncer.syncPosts(
+          pending,
+          atprotoClient,
+          target.mastodonClient,
+          { addDatePrefix: !!job.add_date_prefix },
+        );
+        result.successful += synced.successful;
+        result.failed += synced.failed;
+        result.errors.push(...synced.errors);
+      } catch (error) {
+        console.error(`Backfill to ${target.name} failed:`, error);
+        result.errors.push({
+          postUri: "general",
+          message: `${target.name}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          retryable: true,
+        });
+        continue;
+      }
+
+      // Self-replies are left untracked when their parent wasn't synced
+      for (const post of pending) {
+        if (
+          isSelfReply(post) && !await tracking.getByUri(post.uri) &&
+          await this.parentMayArrive(post, upcoming, tracking)
+        ) {
+          requeued.add(post.uri);
+        }
+      }
+    }
+
+    queue.push(...requeued);
+    const position = job.position + batch.length;
+    await this.storage.backfillJobs.update({
+      queue: JSON.stringify(queue),
+      position,
+      posts_synced: job.posts_synced + result.successful,
+      posts_failed: job.posts_failed + result.failed,
+      ...(position >= queue.length && await this.completion()),
+    });
+
+    console.log(
+      `Backfill published ${result.successful} posts (${position}/${queue.length})`,
+    );
+    return result;
+  }
+
+  /**
+   * Whether a reply's parent can still be synced: it's further along the
+   * backfill queue, or tracked as a post that's being retried. Replies to posts
+   * that will never be synced aren't queued again, so the job ends.
+   */
+  private async parentMayArrive(
+    post: ATProtoPost,
+    upcoming: string[],
+    tracking: StorageProvider["postTracking"],
+  ): Promise<boolean> {
+    const parentUri = post.record.reply!.parent.uri;
+    const parent = await tracking.getByUri(parentUri);
+    return parent ? mayStillSync(parent) : upcoming.includes(parentUri);
+  }
+}
@@ -0,0 +1,79 @@
+// CIDv1 prefix of an ATProto blob: version 1, raw codec, sha2-256 multihash
+// with a 32-byte digest
+const BLOB_CID_PREFIX = [0x01, 0x55, 0x12, 0x20];
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+// Servers that don't know a blob's type send one of these
+const UNKNOWN_MIME_TYPES = new Set(["", "application/octet-stream"]);
+
+/**
+ * Thrown when fetched media doesn't match the blob the post references
+ */
+export class BlobVerificationError extends Error {
+  constructor(message: string, public cid: string) {
+    super(message);
+    this.name = "BlobVerificationError";
+  }
+}
+
+function base32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return output;
+}
+
+/**
+ * The CID a PDS assigns to blob data, in its usual base32 form ("bafkrei...")
+ */
+export async function computeBlobCid(
+  data: Uint8Array<ArrayBuffer>,
+): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return `b${base32(new Uint8Array([...BLOB_CID_PREFIX, ...digest]))}`;
+}
+
+function baseMimeType(mimeType: string): string {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Check fetched blob data against the blob ref it was fetched for: the
+ * content must hash to the CID, and the served type (when the server sent
+ * one) must match the record's mimeType
+ */
+export async function verifyBlob(
+  blob: Blob,
+  expected: { cid: string; mimeType?: string },
+): Promise<void> {
+  const { cid, mimeType } = expected;
+
+  const served = baseMimeType(blob.type);
+  if (
+    mimeType && !UNKNOWN_MIME_TYPES.has(served) &&
+    served !== baseMimeType(mimeType)
+  ) {
+    throw new BlobVerificationError(
+      `Blob ${cid} was served as ${served}, expected ${mimeType}`,
+      cid,
+    );
+  }
+
+  const actual = await computeBlobCid(new Uint8Array(await blob.arrayBuffer()));
+  if (actual !== cid) {
+    throw new BlobVerificationError(
+      `Blob ${cid} content doesn't match its CID (got ${actual})`,
+      cid,
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { PostTracking, StorageProvider } from "../interfaces/storage.ts";
+import {
+  ATProtoHttpClient,
+  MastodonHttpClient,
+  PostNotFoundError,
+} from "../interfaces/http-client.ts";
+import { ATProtoPost } from "../../shared/types.ts";
+
+export interface ReconcileResult {
+  deleted: number;
+  // Posts that still exist but whose record changed since they were synced
+  edited: ATProtoPost[];
+}
+
+export class DeletionReconciler {
+  constructor(private storage: StorageProvider) {}
+
+  /**
+   * Check recently synced posts against Bluesky: delete the Mastodon copies
+   * of posts that no longer exist (when deleteMissing is set) and report
+   * the ones that were edited
+   */
+  async reconcileSyncedPosts(
+    atprotoClient: ATProtoHttpClient,
+    mastodonClient: MastodonHttpClient,
+    limit: number = 20,
+    deleteMissing: boolean = true,
+  ): Promise<ReconcileResult> {
+    const syncedPosts = await this.storage.postTracking.getSynced(limit);
+    let deleted = 0;
+    const edited: ATProtoPost[] = [];
+
+    for (const tracked of syncedPosts) {
+      try {
+        const source = await this.fetchSourcePost(
+          atprotoClient,
+          tracked.atproto_uri,
+        );
+        if (source) {
+          if (source.cid !== tracked.atproto_cid) {
+            edited.push(source);
+          }
+          continue;
+        }
+        if (!deleteMissing) continue;
+
+        console.log(
+          `Post ${tracked.atproto_uri} was deleted on Bluesky, removing from Mastodon`,
+        );
+        await this.deleteFromMastodon(tracked, mastodonClient);
+        deleted++;
+      } catch (error) {
+        // Leave the post as-is and try again on the next run
+        console.error(
+          `Failed to reconcile deletion for ${tracked.atproto_uri}:`,
+          error,
+        );
+      }
+    }
+
+    return { deleted, edited };
+  }
+
+  /**
+   * Delete the Mastodon copy of a tracked post and mark it as deleted
+   */
+  async deleteFromMastodon(
+    tracked: PostTracking,
+    mastodonClient: MastodonHttpClient,
+  ): Promise<void> {
+    if (tracked.mastodon_id) {
+      try {
+        await mastodonClient.deletePost(tracked.mastodon_id);
+      } catch (error) {
+        // Already gone on Mastodon, which is the state we want
+        if (!this.isNotFoundError(error)) {
+          throw error;
+        }
+      }
+    }
+
+    await this.storage.postTracking.updateByUri(tracked.atproto_uri, {
+      sync_status: "deleted",
+      error_message: null,
+    });
+  }
+
+  /**
+   * Fetch the current version of a post, or null when it was deleted on
+   * Bluesky. Posts that exist but can't be viewed (e.g. blocked) throw, so
+   * their Mastodon copies are left alone.
+   */
+  private async fetchSourcePost(
+    atprotoClient: ATProtoHttpClient,
+    uri: string,
+  ): Promise<ATProtoPost | null> {
+    try {
+      const response = await atprotoClient.getPost(uri);
+      const post = response?.thread?.post;
+      if (!post) throw new Error(`Post ${uri} is unavailable`);
+
+      return {
+        uri: post.uri,
+        cid: post.cid,
+        author: post.author,
+        record: post.record,
+        indexedAt: post.indexedAt,
+      };
+    } catch (error) {
+      if (error instanceof PostNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private isNotFoundError(error: unknown): boolean {
+    if ((error as any)?.statusCode === 404 || (error as any)?.status === 404) {
+      return true;
+    }
+
+    return error instanceof Error &&
+      error.message.toLowerCase().includes("not found");
+  }
+}
@@ -0,0 +1,193 @@
+import {
+  hasTransparency,
+  orientRaster,
+  RasterImage,
+  resizeRaster,
+} from "../lib/image/raster.ts";
+import { decodeJpeg } from "../lib/image/jpeg-decoder.ts";
+import { encodeJpeg } from "../lib/image/jpeg-encoder.ts";
+import {
+  isJpeg,
+  readJpegOrientation,
+  readJpegSize,
+  stripJpegMetadata,
+} from "../lib/image/jpeg-markers.ts";
+import { decodePng, encodePng, isPng, readPngSize } from "../lib/image/png.ts";
+import {
+  decodeWebp,
+  isWebp,
+  readWebpSize,
+  stripWebpMetadata,
+} from "../lib/image/webp.ts";
+import { BRIDGE_CONFIG } from "../../config.ts";
+
+/**
+ * What the destination accepts, from the instance's media configuration
+ */
+export interface ImageLimits {
+  maxBytes?: number; // image_size_limit
+  maxPixels?: number; // image_matrix_limit (width × height)
+}
+
+export interface ImageProcessingOptions extends ImageLimits {
+  compress?: boolean; // Re-encode even when the original is within limits
+  quality?: number; // JPEG quality, 1-100
+}
+
+export interface ProcessedImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+type ImageFormat = "jpeg" | "png" | "webp";
+
+// Never trade away more quality than this before scaling down instead
+const MIN_QUALITY = 50;
+const QUALITY_STEP = 10;
+const SCALE_STEP = 0.8;
+const MAX_ATTEMPTS = 10;
+
+function detectFormat(data: Uint8Array): ImageFormat | null {
+  if (isJpeg(data)) return "jpeg";
+  if (isPng(data)) return "png";
+  if (isWebp(data)) return "webp";
+  return null;
+}
+
+function readSize(
+  format: ImageFormat,
+  data: Uint8Array,
+): { width: number; height: number } | null {
+  switch (format) {
+    case "jpeg":
+      return readJpegSize(data);
+    case "png":
+      return readPngSize(data);
+    case "webp":
+      return readWebpSize(data);
+  }
+}
+
+function decode(format: ImageFormat, data: Uint8Array): Promise<RasterImage> {
+  switch (format) {
+    case "jpeg":
+      return Promise.resolve(decodeJpeg(data));
+    case "png":
+      return decodePng(data);
+    case "webp":
+      return Promise.resolve(decodeWebp(data));
+  }
+}
+
+// PNGs are passed on as they are: camera metadata doesn't end up in them
+function stripMetadata(format: ImageFormat, data: Uint8Array): Uint8Array {
+  switch (format) {
+    case "jpeg":
+      return stripJpegMetadata(data);
+    case "webp":
+      return stripWebpMetadata(data);
+    default:
+      return data;
+  }
+}
+
+/**
+ * Re-encode until the image fits the size limit: lowering the JPEG quality
+ * first, then scaling down. Images with transparency stay PNGs.
+ */
+async function reencode(
+  image: RasterImage,
+  options: ImageProcessingOptions,
+): Promise<ProcessedImage> {
+  const { maxBytes, maxPixels } = options;
+  const opaque = !hasTransparency(image);
+  let quality = options.quality ?? BRIDGE_CONFIG.media.image_quality;
+  let scale = 1;
+
+  const pixels = image.width * image.height;
+  if (maxPixels && pixels > maxPixels) {
+    scale = Math.sqrt(maxPixels / pixels);
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const resized = resizeRaster(
+      image,
+      Math.max(1, Math.floor(image.width * scale)),
+      Math.max(1, Math.floor(image.height * scale)),
+    );
+    const data = opaque
+      ? encodeJpeg(resized, quality)
+      : await encodePng(resized);
+    if (!maxBytes || data.length <= maxBytes) {
+      return { data, mimeType: opaque ? "image/jpeg" : "image/png" };
+    }
+
+    if (opaque && quality > MIN_QUALITY) {
+      quality = Math.max(MIN_QUALITY, quality - QUALITY_STEP);
+    } else {
+      scale *= SCALE_STEP;
+    }
+  }
+
+  throw new Error(`Could not fit the image in ${maxBytes} bytes`);
+}
+
+/**
+ * Prepare an image for upload: re-encoded (scaled to the destination's
+ * limits, turned upright and without metadata) when it's over the limits,
+ * needs rotating or compression is on; otherwise the original with its
+ * EXIF stripped. Formats that can't be decoded here, and images that
+ * fail to process, are returned as they are.
+ */
+export async function processImage(
+  data: Uint8Array,
+  mimeType: string,
+  options: ImageProcessingOptions = {},
+): Promise<ProcessedImage> {
+  const format = detectFormat(data);
+  if (!format) return { data, mimeType };
+
+  try {
+    const { maxBytes, maxPixels } = options;
+    const size = readSize(format, data);
+    const orientation = format === "jpeg" ? readJpegOrientation(data) : 1;
+    const oversized = (!!maxBytes && data.length > maxBytes) ||
+      (!!maxPixels && !!size && size.width * size.height > maxPixels);
+
+    const stripped = {
+      data: stripMetadata(format, data),
+      mimeType: `image/${format}`,
+    };
+    if (!oversized && orientation === 1 && !options.compress) return stripped;
+
+    const image = orientRaster(await decode(format, data), orientation);
+    const processed = await reencode(image, options);
+
+    // Compressing an already small image can make it bigger
+    if (
+      !oversized && orientation === 1 &&
+      processed.data.length >= stripped.data.length
+    ) {
+      return stripped;
+    }
+    return processed;
+  } catch (error) {
+    console.warn("Could not process image, uploading the original:", error);
+    return { data, mimeType };
+  }
+}
+
+/**
+ * processImage for fetched blobs
+ */
+export async function processImageBlob(
+  blob: Blob,
+  options: ImageProcessingOptions = {},
+): Promise<Blob> {
+  const original = new Uint8Array(await blob.arrayBuffer());
+  const { data, mimeType } = await processImage(original, blob.type, options);
+  if (data === original) return blob;
+
+  // Copied into a plain ArrayBuffer, as Blob parts can't be shared memory
+  return new Blob([data.slice()], { type: mimeType });
+}
@@ -0,0 +1,176 @@
+import {
+  PostEvent,
+  PostEventBatch,
+  PostEventSource,
+} from "../interfaces/event-source.ts";
+
+const POST_COLLECTION = "app.bsky.feed.post";
+
+export interface JetstreamOptions {
+  url: string; // Jetstream subscribe endpoint, e.g. wss://host/subscribe
+  listenMs: number; // Maximum time to stay connected per fetch
+  idleMs: number; // Disconnect early once no events arrive for this long
+  maxEvents: number; // Disconnect early once this many post events arrived
+  createWebSocket?: (url: string) => WebSocket;
+}
+
+/**
+ * Consumes app.bsky.feed.post commits for a single DID from a Jetstream
+ * WebSocket. Each fetch connects from the given cursor, collects events for a
+ * bounded window and disconnects, so it fits inside a cron invocation.
+ */
+export class JetstreamEventSource implements PostEventSource {
+  private createWebSocket: (url: string) => WebSocket;
+
+  constructor(private options: JetstreamOptions) {
+    this.createWebSocket = options.createWebSocket ??
+      ((url) => new WebSocket(url));
+  }
+
+  /**
+   * Build the subscribe URL filtered to the user's posts
+   */
+  buildSubscribeUrl(did: string, cursor?: number): string {
+    const url = new URL(this.options.url);
+    url.searchParams.set("wantedCollections", POST_COLLECTION);
+    url.searchParams.set("wantedDids", did);
+    if (cursor !== undefined) {
+      url.searchParams.set("cursor", String(cursor));
+    }
+    return url.toString();
+  }
+
+  fetchEvents(params: {
+    did: string;
+    cursor?: number;
+  }): Promise<PostEventBatch> {
+    const events: PostEvent[] = [];
+    let cursor = params.cursor;
+
+    return new Promise((resolve, reject) => {
+      const socket = this.createWebSocket(
+        this.buildSubscribeUrl(params.did, params.cursor),
+      );
+      let opened = false;
+      let settled = false;
+      let idleTimer: ReturnType<typeof setTimeout> | undefined;
+      const listenTimer = setTimeout(() => finish(), this.options.listenMs);
+
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(listenTimer);
+        clearTimeout(idleTimer);
+        if (
+          socket.readyState === WebSocket.OPEN ||
+          socket.readyState === WebSocket.CONNECTING
+        ) {
+          socket.close();
+        }
+        resolve({ events, cursor });
+      };
+
+      const resetIdleTimer = () => {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(finish, this.options.idleMs);
+      };
+
+      socket.onopen = () => {
+        opened = true;
+        resetIdleTimer();
+      };
+
+      socket.onmessage = (message) => {
+        if (settled) return;
+        resetIdleTimer();
+
+        let data: any;
+        try {
+          data = JSON.parse(String(message.data));
+        } catch (error) {
+          console.error("Ignoring malformed Jetstream message:", error);
+          return;
+        }
+
+        // Every message carries time_us, so the cursor advances past skipped ones
+        if (typeof data.time_us === "number") {
+          cursor = data.time_us;
+        }
+
+        const event = this.parseEvent(data, params.did);
+        if (!event) return;
+
+        events.push(event);
+        if (events.length >= this.options.maxEvents) {
+          finish();
+        }
+      };
+
+      socket.onerror = (error) => {
+        if (settled) return;
+        if (!opened) {
+          settled = true;
+          clearTimeout(listenTimer);
+          clearTimeout(idleTimer);
+          reject(new Error("Jetstream connection failed"));
+          return;
+        }
+        console.error("Jetstream connection error:", error);
+        finish();
+      };
+
+      socket.onclose = () => finish();
+    });
+  }
+
+  /**
+   * Convert a Jetstream commit message into a post event
+   */
+  private parseEvent(data: any, did: string): PostEvent | null {
+    if (data?.kind !== "commit" || data.did !== did) return null;
+
+    const commit = data.commit;
+    if (!commit || commit.collection !== POST_COLLECTION) return null;
+    if (!["create", "update", "delete"].includes(commit.operation)) {
+      return null;
+    }
+
+    const event: PostEvent = {
+      operation: commit.operation,
+      uri: `at://${data.did}/${commit.collection}/${commit.rkey}`,
+      timeUs: data.time_us,
+    };
+
+    if (commit.operation !== "delete") {
+      event.cid = commit.cid;
+      event.record = normalizeBlobRefs(commit.record);
+    }
+
+    return event;
+  }
+}
+
+/**
+ * Jetstream sends records as plain JSON, where blob refs are {"$link": cid}
+ * objects instead of CID instances. Flatten them to CID strings.
+ */
+export function normalizeBlobRefs(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(normalizeBlobRefs);
+  }
+
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && typeof value.$link === "string") {
+      return value.$link;
+    }
+
+    const normalized: Record<string, any> = {};
+    for (const key of keys) {
+      normalized[key] = normalizeBlobRefs(value[key]);
+    }
+    return normalized;
+  }
+
+  return value;
+}
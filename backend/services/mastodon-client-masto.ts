@@ -49,9 +49,12 @@ export class MastodonClientMasto implements MastodonHttpClient {
         description: description?.substring(0, 50),
       });
 
-      const mediaAttachment = await this.client.v1.media.create({
+      // The v2 endpoint processes large media asynchronously; polling for
+      // completion is left to the caller via getMediaStatus
+      const mediaAttachment = await this.client.v2.media.create({
         file,
         description,
+        skipPolling: true,
       });
 
       console.log("Media upload successful:", {
@@ -69,7 +72,7 @@ export class MastodonClientMasto implements MastodonHttpClient {
 
   async getMediaStatus(mediaId: string): Promise<any> {
     try {
-      return await this.client.v1.media.fetch(mediaId);
+      return await this.client.v1.media.$select(mediaId).fetch();
     } catch (error) {
       console.error("Failed to get media status:", error);
       throw error;
@@ -82,12 +85,17 @@ export class MastodonClientMasto implements MastodonHttpClient {
     sensitive?: boolean;
     spoiler_text?: string;
     visibility?: "public" | "unlisted" | "private" | "direct";
+    in_reply_to_id?: string;
+    language?: string;
+    idempotency_key?: string;
   }): Promise<any> {
     try {
       console.log("Creating Mastodon post:", {
         statusLength: params.status.length,
         mediaCount: params.media_ids?.length || 0,
         visibility: params.visibility || "public",
+        inReplyToId: params.in_reply_to_id,
+        language: params.language,
       });
 
       const status = await this.client.v1.statuses.create({
@@ -96,6 +104,13 @@ export class MastodonClientMasto implements MastodonHttpClient {
         sensitive: params.sensitive,
         spoilerText: params.spoiler_text,
         visibility: params.visibility || "public",
+        inReplyToId: params.in_reply_to_id,
+        language: params.language,
+      }, {
+        // Mastodon returns the original status for a repeated key
+        requestInit: params.idempotency_key
+          ? { headers: { "Idempotency-Key": params.idempotency_key } }
+          : undefined,
       });
 
       console.log("Post created successfully:", {
@@ -111,6 +126,79 @@ export class MastodonClientMasto implements MastodonHttpClient {
     }
   }
 
+  async editPost(id: string, params: {
+    status: string;
+    media_ids?: string[];
+    media_attributes?: Array<{ id: string; description?: string }>;
+    sensitive?: boolean;
+    spoiler_text?: string;
+    language?: string;
+  }): Promise<any> {
+    try {
+      const status = await this.client.v1.statuses.$select(id).update({
+        status: params.status,
+        mediaIds: params.media_ids,
+        mediaAttributes: params.media_attributes,
+        sensitive: params.sensitive,
+        spoilerText: params.spoiler_text,
+        language: params.language,
+      });
+      console.log("Post edited successfully:", { id });
+      return status;
+    } catch (error) {
+      console.error("Failed to edit Mastodon post:", error);
+      throw error;
+    }
+  }
+
+  async getStatus(id: string): Promise<any> {
+    try {
+      return await this.client.v1.statuses.$select(id).fetch();
+    } catch (error) {
+      console.error("Failed to get Mastodon status:", error);
+      throw error;
+    }
+  }
+
+  async deletePost(id: string): Promise<void> {
+    try {
+      await this.client.v1.statuses.$select(id).remove();
+      console.log("Post deleted successfully:", { id });
+    } catch (error) {
+      console.error("Failed to delete Mastodon post:", error);
+      throw error;
+    }
+  }
+
+  async getAccountStatuses(accountId: string, params: {
+    limit: number;
+    max_id?: string;
+    min_id?: string;
+  }): Promise<any[]> {
+    try {
+      return await this.client.v1.accounts.$select(accountId).statuses.list({
+        limit: params.limit,
+        maxId: params.max_id,
+        minId: params.min_id,
+        excludeReblogs: true,
+      });
+    } catch (error) {
+      console.error("Failed to list Mastodon statuses:", error);
+      throw error;
+    }
+  }
+
+  async reblog(id: string): Promise<any> {
+    try {
+      const status = await this.client.v1.statuses.$select(id).reblog();
+      console.log("Post boosted successfully:", { id });
+      return status;
+    } catch (error) {
+      console.error("Failed to boost Mastodon post:", error);
+      throw error;
+    }
+  }
+
   // OAuth registration methods (still needed for initial setup)
   async registerApp(params: {
     client_name: string;
@@ -1,11 +1,20 @@
-import { StorageProvider } from "../interfaces/storage.ts";
+import { PostTracking, StorageProvider } from "../interfaces/storage.ts";
 import {
   ATProtoHttpClient,
   MastodonHttpClient,
+  PostNotFoundError,
 } from "../interfaces/http-client.ts";
-import { ATProtoPost, RetryConfig } from "../../shared/types.ts";
-import { PostTransformer } from "./post-transformer.ts";
+import {
+  ATProtoPost,
+  PostTransformation,
+  RetryConfig,
+} from "../../shared/types.ts";
+import { FormatOptions, PostTransformer } from "./post-transformer.ts";
 import { BRIDGE_CONFIG } from "../../config.ts";
+import { resolveSyncSettings } from "./sync-settings.ts";
+import { isSelfReply } from "./post-filter.ts";
+import { ImageProcessingOptions, processImageBlob } from "./image-processor.ts";
+import { BlobVerificationError, verifyBlob } from "./blob-verifier.ts";
 
 export interface SyncResult {
   successful: number;
@@ -13,10 +22,77 @@ export interface SyncResult {
   errors: any[];
 }
 
+// Per-run options: the instance's limits plus the user's media setting
+export interface PostSyncOptions extends FormatOptions {
+  includeMedia?: boolean;
+  addDatePrefix?: boolean; // "Originally posted on Bluesky on <date>"
+  visibility?: "public" | "unlisted" | "private";
+  images?: ImageProcessingOptions; // Resizing and re-encoding before upload
+}
+
+// Mastodon remembers an Idempotency-Key for an hour; an interrupted post can
+// only be safely re-sent within that window
+const IDEMPOTENCY_WINDOW_SECONDS = 60 * 60;
+
+/**
+ * The status ids of a tracked post's published parts. Posts tracked before
+ * the parts were recorded only have their first status.
+ */
+function parseThreadIds(tracked: PostTracking | null): string[] {
+  if (tracked?.mastodon_thread_ids) {
+    try {
+      const ids = JSON.parse(tracked.mastodon_thread_ids);
+      if (Array.isArray(ids)) return ids.map(String);
+    } catch {
+      // Fall back to the first status below
+    }
+  }
+  return tracked?.mastodon_id ? [tracked.mastodon_id] : [];
+}
+
+/**
+ * Whether a tracked post can still reach Mastodon: it's waiting, being
+ * posted, or failed with retries left
+ */
+export function mayStillSync(tracked: PostTracking): boolean {
+  return tracked.sync_status === "pending" ||
+    tracked.sync_status === "posting" ||
+    (tracked.sync_status === "failed" &&
+      tracked.retry_count < tracked.max_retries);
+}
+
+// Blob CIDs of the media that made it into a status, in attachment order
+function attachedMediaCids(
+  mediaList: PostTransformation["media"] = [],
+  uploadedIds: Map<number, string>,
+  mediaIds: string[],
+): string[] {
+  return mediaList
+    .filter((_, index) => mediaIds.includes(uploadedIds.get(index)!))
+    .map((media) => media.cid ?? "");
+}
+
+// A post as it would be published on Mastodon
+export interface RenderedPost {
+  statuses: string[]; // Thread parts in posting order (one unless split)
+  media: Array<{
+    type: "image" | "video";
+    url: string;
+    description?: string;
+  }>;
+  sensitive: boolean;
+  spoilerText?: string;
+  language?: string;
+}
+
 export class MastodonSyncer {
   constructor(
     private storage: StorageProvider,
     private retryConfig: RetryConfig = BRIDGE_CONFIG.sync.retry,
+    private mediaPollConfig: RetryConfig = BRIDGE_CONFIG.media.processing_poll,
+    // Fixed options of the destination this syncer posts to, applied over
+    // the persisted settings
+    private destinationOptions: PostSyncOptions = {},
   ) {}
 
   /**
@@ -26,15 +102,36 @@ export class MastodonSyncer {
     posts: ATProtoPost[],
     atprotoClient: ATProtoHttpClient,
     mastodonClient: MastodonHttpClient,
+    overrides: PostSyncOptions = {},
   ): Promise<SyncResult> {
     let successful = 0;
     let failed = 0;
     const errors: any[] = [];
 
+    // Look up the instance's limits once per run rather than once per post
+    const syncOptions = posts.length > 0
+      ? { ...await this.getSyncOptions(mastodonClient), ...overrides }
+      : {};
+
     for (const post of posts) {
+      // Self-replies continue a thread, so the parent must already be on Mastodon
+      const inReplyToId = await this.resolveReplyTarget(post);
+      if (inReplyToId === null) {
+        console.log(
+          `Skipping reply ${post.uri} (parent post not synced to Mastodon)`,
+        );
+        continue;
+      }
+
       try {
         // Sync the post to Mastodon
-        await this.syncPostToMastodon(post, atprotoClient, mastodonClient);
+        await this.syncPostToMastodon(
+          post,
+          atprotoClient,
+          mastodonClient,
+          inReplyToId,
+          syncOptions,
+        );
         successful++;
         console.log(`Successfully synced post ${post.uri}`);
       } catch (error) {
@@ -50,19 +147,305 @@ export class MastodonSyncer {
         });
 
         // Update tracking record with error
+        await this.recordFailure(post.uri, errorMessage, 0);
+
+        console.error(`Failed to sync post ${post.uri}:`, error);
+      }
+    }
+
+    return { successful, failed, errors };
+  }
+
+  /**
+   * Retry previously failed posts whose backoff has elapsed and whose retry
+   * budget isn't exhausted. The source post is re-fetched so edits and
+   * deletions since the failure are respected. Replies wait for their
+   * parent, and are skipped once it can't be synced anymore.
+   */
+  async retryFailedPosts(
+    atprotoClient: ATProtoHttpClient,
+    mastodonClient: MastodonHttpClient,
+    now: number = Date.now(),
+  ): Promise<SyncResult> {
+    let successful = 0;
+    let failed = 0;
+    const errors: any[] = [];
+
+    const nowSeconds = Math.floor(now / 1000);
+    const failedPosts = (await this.storage.postTracking.getFailed())
+      .filter((tracked) =>
+        tracked.retry_count < tracked.max_retries &&
+        (!tracked.next_retry_at || tracked.next_retry_at <= nowSeconds)
+      );
+    const interrupted = await this.reconcileInterruptedPosts(nowSeconds);
+    const due = [...failedPosts, ...interrupted]
+      // Oldest first so thread parents recover before their replies
+      .sort((a, b) => a.atproto_created_at - b.atproto_created_at);
+
+    if (due.length === 0) {
+      return { successful, failed, errors };
+    }
+
+    console.log(`Retrying ${due.length} failed or interrupted posts`);
+    const syncOptions = await this.getSyncOptions(mastodonClient);
+
+    for (const tracked of due) {
+      const attempt = tracked.retry_count + 1;
+
+      let post: ATProtoPost | null;
+      try {
+        post = await this.fetchSourcePost(atprotoClient, tracked.atproto_uri);
+      } catch (error) {
+        failed++;
+        const errorMessage = error instanceof Error
+          ? error.message
+          : "Unknown error";
+        errors.push({
+          postUri: tracked.atproto_uri,
+          message: errorMessage,
+          retryable: this.isRetryableError(error),
+        });
+        console.error(`Failed to re-fetch ${tracked.atproto_uri}:`, error);
+
+        // Counts as an attempt, so a post that can't be viewed runs out of
+        // retries. Interrupted posts stay as they are until their
+        // idempotency window passes.
+        if (tracked.sync_status === "failed") {
+          await this.recordFailure(tracked.atproto_uri, errorMessage, attempt);
+        }
+        continue;
+      }
+
+      if (!post) {
+        console.log(
+          `Not retrying ${tracked.atproto_uri} (deleted on Bluesky)`,
+        );
+        await this.storage.postTracking.updateByUri(tracked.atproto_uri, {
+          sync_status: "skipped",
+          error_message: "Source post no longer exists",
+          next_retry_at: null,
+        });
+        continue;
+      }
+
+      const inReplyToId = await this.resolveReplyTarget(post);
+      if (inReplyToId === null) {
+        const parent = await this.storage.postTracking.getByUri(
+          post.record.reply!.parent.uri,
+        );
+        if (parent && mayStillSync(parent)) {
+          console.log(
+            `Postponing retry of ${post.uri} (parent post not synced to Mastodon)`,
+          );
+          continue;
+        }
+
+        console.log(`Not retrying ${post.uri} (parent post won't be synced)`);
         await this.storage.postTracking.updateByUri(post.uri, {
-          sync_status: "failed",
-          error_message: errorMessage,
-          retry_count: 0,
+          sync_status: "skipped",
+          error_message: "Parent post was never synced to Mastodon",
+          next_retry_at: null,
         });
+        continue;
+      }
 
-        console.error(`Failed to sync post ${post.uri}:`, error);
+      try {
+        await this.syncPostToMastodon(
+          post,
+          atprotoClient,
+          mastodonClient,
+          inReplyToId,
+          syncOptions,
+        );
+        successful++;
+        console.log(`Successfully synced post ${post.uri} on retry ${attempt}`);
+      } catch (error) {
+        failed++;
+        const errorMessage = error instanceof Error
+          ? error.message
+          : "Unknown error";
+
+        errors.push({
+          postUri: post.uri,
+          message: errorMessage,
+          retryable: this.isRetryableError(error),
+        });
+
+        await this.recordFailure(post.uri, errorMessage, attempt);
+
+        console.error(`Retry ${attempt} failed for ${post.uri}:`, error);
       }
     }
 
     return { successful, failed, errors };
   }
 
+  /**
+   * Find posts left in the posting state by a run that died mid-createPost.
+   * Those still inside Mastodon's idempotency window are returned to be
+   * re-sent with the same key, which returns the original status if it was
+   * created. Older ones can't be re-sent without risking a duplicate, so
+   * they're marked failed without retries for the user to check.
+   */
+  private async reconcileInterruptedPosts(
+    nowSeconds: number,
+  ): Promise<PostTracking[]> {
+    const resumable: PostTracking[] = [];
+
+    for (const tracked of await this.storage.postTracking.getPosting()) {
+      const startedAt = tracked.posting_started_at ?? 0;
+      if (nowSeconds - startedAt < IDEMPOTENCY_WINDOW_SECONDS) {
+        resumable.push(tracked);
+        continue;
+      }
+
+      console.warn(
+        `Not resending interrupted post ${tracked.atproto_uri} (idempotency window passed)`,
+      );
+      await this.storage.postTracking.updateByUri(tracked.atproto_uri, {
+        sync_status: "failed",
+        error_message:
+          "Interrupted while posting; check Mastodon for the post before retrying",
+        retry_count: tracked.max_retries,
+        next_retry_at: null,
+      });
+    }
+
+    return resumable;
+  }
+
+  /**
+   * Boost the Mastodon copies of the user's own reposted posts. Reposts of
+   * posts that were never synced are ignored.
+   */
+  async boostReposts(
+    reposts: ATProtoPost[],
+    mastodonClient: MastodonHttpClient,
+  ): Promise<number> {
+    let boosted = 0;
+
+    for (const repost of reposts) {
+      const tracked = await this.storage.postTracking.getByUri(repost.uri);
+      if (tracked?.sync_status !== "success" || !tracked.mastodon_id) {
+        continue;
+      }
+
+      const repostedAt = Math.floor(
+        new Date(repost.reason?.indexedAt ?? repost.indexedAt).getTime() /
+          1000,
+      );
+      if (
+        tracked.mastodon_reblogged_at &&
+        tracked.mastodon_reblogged_at >= repostedAt
+      ) {
+        continue;
+      }
+
+      try {
+        await mastodonClient.reblog(tracked.mastodon_id);
+        await this.storage.postTracking.updateByUri(repost.uri, {
+          mastodon_reblogged_at: repostedAt,
+        });
+        boosted++;
+        console.log(
+          `Boosted ${tracked.mastodon_id} for repost of ${repost.uri}`,
+        );
+      } catch (error) {
+        // Not worth failing the run over; the next sync will try again
+        console.error(`Failed to boost repost of ${repost.uri}:`, error);
+      }
+    }
+
+    return boosted;
+  }
+
+  /**
+   * Mark a post as failed and schedule its next attempt with backoff
+   */
+  private async recordFailure(
+    uri: string,
+    errorMessage: string,
+    retryCount: number,
+  ): Promise<void> {
+    const { base_delay_minutes, max_delay_minutes, backoff_factor } =
+      BRIDGE_CONFIG.sync.retry_queue;
+    const delayMinutes = Math.min(
+      base_delay_minutes * Math.pow(backoff_factor, retryCount),
+      max_delay_minutes,
+    );
+
+    await this.storage.postTracking.updateByUri(uri, {
+      sync_status: "failed",
+      error_message: errorMessage,
+      retry_count: retryCount,
+      next_retry_at: Math.floor(Date.now() / 1000) + delayMinutes * 60,
+    });
+  }
+
+  /**
+   * Re-fetch a post from Bluesky. Returns null when it no longer exists;
+   * posts that exist but can't be viewed throw like any other failure.
+   */
+  async fetchSourcePost(
+    atprotoClient: ATProtoHttpClient,
+    uri: string,
+  ): Promise<ATProtoPost | null> {
+    try {
+      const response = await atprotoClient.getPost(uri);
+      const post = response?.thread?.post;
+      if (!post) throw new Error(`Post ${uri} is unavailable`);
+      return post;
+    } catch (error) {
+      if (error instanceof PostNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Find the Mastodon status a reply should be threaded under.
+   * Returns undefined for non-replies and null when the parent isn't synced.
+   * Replies to others (synced when skip_replies is off) are posted on their
+   * own, as their parent is never on Mastodon.
+   */
+  private async resolveReplyTarget(
+    post: ATProtoPost,
+  ): Promise<string | null | undefined> {
+    if (!post.record.reply || !isSelfReply(post)) return undefined;
+
+    const parent = await this.storage.postTracking.getByUri(
+      post.record.reply.parent.uri,
+    );
+    if (parent?.sync_status !== "success" || !parent.mastodon_id) {
+      return null;
+    }
+
+    return parent.mastodon_id;
+  }
+
+  /**
+   * Link quotes of our own synced posts to their Mastodon copy, so the
+   * quote stays within the fediverse
+   */
+  private async resolveQuotedPostUrl(
+    post: ATProtoPost,
+  ): Promise<string | undefined> {
+    const embed = post.record.embed;
+    const quotedUri = embed?.record?.record?.uri ?? embed?.record?.uri;
+    if (!quotedUri) return undefined;
+
+    const quotedDid = quotedUri.replace("at://", "").split("/")[0];
+    if (quotedDid !== post.author.did) return undefined;
+
+    const quoted = await this.storage.postTracking.getByUri(quotedUri);
+    if (quoted?.sync_status !== "success" || !quoted.mastodon_url) {
+      return undefined;
+    }
+
+    return quoted.mastodon_url;
+  }
+
   /**
    * Sync a single post to Mastodon
    */
@@ -70,97 +453,588 @@ export class MastodonSyncer {
     post: ATProtoPost,
     atprotoClient: ATProtoHttpClient,
     mastodonClient: MastodonHttpClient,
+    inReplyToId?: string,
+    syncOptions?: PostSyncOptions,
   ): Promise<void> {
-    // Create tracking record
+    // Create tracking record, unless this is a retry of a tracked post
     const contentHash = PostTransformer.generateContentHash(post);
-    await this.storage.postTracking.create({
-      atproto_uri: post.uri,
-      atproto_cid: post.cid,
-      atproto_rkey: post.uri.split("/").pop()!,
-      content_hash: contentHash,
-      atproto_created_at: Math.floor(
-        new Date(post.record.createdAt).getTime() / 1000,
-      ),
-    });
-
-    // Transform post
-    const transformation = PostTransformer.transformPost(post);
+    const existing = await this.storage.postTracking.getByUri(post.uri);
+    if (!existing) {
+      await this.storage.postTracking.create({
+        atproto_uri: post.uri,
+        atproto_cid: post.cid,
+        atproto_rkey: post.uri.split("/").pop()!,
+        content_hash: contentHash,
+        atproto_created_at: Math.floor(
+          new Date(post.record.createdAt).getTime() / 1000,
+        ),
+      });
+    }
 
-    // Resolve blob URLs using the ATProto client
-    const resolvedTransformation = PostTransformer.resolveBlobUrls(
-      transformation,
+    const options = syncOptions ?? await this.getSyncOptions(mastodonClient);
+    const resolvedTransformation = await this.transformForMastodon(
+      post,
       atprotoClient,
+      options,
     );
 
-    // Cross-post to Mastodon with retry logic
-    const mastodonPost = await this.crossPostWithRetry(
+    // Mark the attempt first, so a run that dies after createPost leaves a
+    // trace to reconcile instead of an untracked post
+    await this.storage.postTracking.updateByUri(post.uri, {
+      sync_status: "posting",
+      posting_started_at: Math.floor(Date.now() / 1000),
+    });
+
+    // Cross-post to Mastodon with retry logic, recording each part as it's
+    // posted so a later retry resumes after the parts already published
+    await this.crossPostWithRetry(
       mastodonClient,
       resolvedTransformation,
+      await this.idempotencyKey(post),
+      inReplyToId,
+      options,
+      parseThreadIds(existing),
+      async (threadIds, status, mediaCids) => {
+        await this.storage.postTracking.updateByUri(post.uri, {
+          mastodon_thread_ids: JSON.stringify(threadIds),
+          ...(threadIds.length === 1 && {
+            mastodon_id: status.id,
+            mastodon_url: status.url,
+            mastodon_media_cids: JSON.stringify(mediaCids ?? []),
+          }),
+        });
+      },
     );
 
     // Update tracking record
     await this.storage.postTracking.updateByUri(post.uri, {
-      mastodon_id: mastodonPost.id,
-      mastodon_url: mastodonPost.url,
       sync_status: "success",
+      error_message: null,
+      next_retry_at: null,
       synced_at: Math.floor(Date.now() / 1000),
     });
   }
 
   /**
-   * Cross-post to Mastodon with retry logic
+   * Mirror edits of synced posts (same URI, new CID) to their Mastodon
+   * statuses. A post that was split into a thread is split again, adding or
+   * deleting continuations when the number of parts changed. Failed edits
+   * leave the tracked CID alone, so they're retried on the next run.
+   */
+  async editPosts(
+    posts: ATProtoPost[],
+    atprotoClient: ATProtoHttpClient,
+    mastodonClient: MastodonHttpClient,
+  ): Promise<SyncResult> {
+    let successful = 0;
+    let failed = 0;
+    const errors: any[] = [];
+
+    const options = posts.length > 0
+      ? await this.getSyncOptions(mastodonClient)
+      : {};
+
+    for (const post of posts) {
+      const tracked = await this.storage.postTracking.getByUri(post.uri);
+      if (!tracked?.mastodon_id) continue;
+
+      try {
+        await this.editPostOnMastodon(
+          post,
+          tracked,
+          atprotoClient,
+          mastodonClient,
+          options,
+        );
+
+        await this.storage.postTracking.updateByUri(post.uri, {
+          atproto_cid: post.cid,
+          content_hash: PostTransformer.generateContentHash(post),
+          edit_count: (tracked.edit_count ?? 0) + 1,
+          edited_at: Math.floor(Date.now() / 1000),
+        });
+        successful++;
+        console.log(`Edited Mastodon status for ${post.uri}`);
+      } catch (error) {
+        failed++;
+        errors.push({
+          postUri: post.uri,
+          message: error instanceof Error ? error.message : "Unknown error",
+          retryable: this.isRetryableError(error),
+        });
+        console.error(`Failed to edit post ${post.uri}:`, error);
+      }
+    }
+
+    return { successful, failed, errors };
+  }
+
+  /**
+   * Re-render a post and replace the content of its Mastodon statuses.
+   * Attachments are kept (with updated descriptions) when the post still
+   * has the same blobs as the first status; otherwise the media are
+   * uploaded again.
+   * Thread ids are stored after each part added or deleted, so a retry
+   * doesn't post a continuation twice.
+   */
+  private async editPostOnMastodon(
+    post: ATProtoPost,
+    tracked: PostTracking,
+    atprotoClient: ATProtoHttpClient,
+    mastodonClient: MastodonHttpClient,
+    options: PostSyncOptions,
+  ): Promise<void> {
+    const threadIds = parseThreadIds(tracked);
+    const mastodonId = threadIds[0];
+    const transformation = await this.transformForMastodon(
+      post,
+      atprotoClient,
+      options,
+    );
+    const formatted = PostTransformer.formatForMastodon(
+      transformation,
+      options,
+    );
+
+    const current = await this.withRetry(() =>
+      mastodonClient.getStatus(mastodonId)
+    );
+    // masto returns camelCase, raw API responses use snake_case
+    const attachments: any[] = current?.mediaAttachments ??
+      current?.media_attachments ?? [];
+
+    // Rows from before the CIDs were recorded get their media uploaded again
+    const postedCids: string[] = JSON.parse(
+      tracked.mastodon_media_cids ?? "null",
+    ) ?? [];
+    const sameMedia = attachments.length === transformation.media.length &&
+      postedCids.length === attachments.length &&
+      transformation.media.every((media, index) =>
+        !!media.cid && media.cid === postedCids[index]
+      );
+
+    let mediaIds: string[];
+    let mediaAttributes: Array<{ id: string; description?: string }> = [];
+    const uploadedIds = new Map<number, string>();
+    if (sameMedia) {
+      mediaIds = attachments.map((attachment) => attachment.id);
+      mediaAttributes = attachments.map((attachment, index) => ({
+        id: attachment.id,
+        description: transformation.media[index].description,
+      }));
+    } else {
+      mediaIds = await this.uploadMedia(
+        mastodonClient,
+        transformation.media,
+        uploadedIds,
+        options.images,
+      );
+    }
+
+    const textParams = {
+      sensitive: transformation.sensitive,
+      spoiler_text: transformation.spoilerText,
+      language: transformation.language ??
+        BRIDGE_CONFIG.sync.fallback_language ?? undefined,
+    };
+    await this.withRetry(() =>
+      mastodonClient.editPost(mastodonId, {
+        ...textParams,
+        status: formatted.statuses[0],
+        media_ids: mediaIds,
+        media_attributes: mediaAttributes.length > 0
+          ? mediaAttributes
+          : undefined,
+      })
+    );
+    if (!sameMedia) {
+      await this.storage.postTracking.updateByUri(post.uri, {
+        mastodon_media_cids: JSON.stringify(
+          attachedMediaCids(transformation.media, uploadedIds, mediaIds),
+        ),
+      });
+    }
+
+    const { statuses } = formatted;
+    const saveThreadIds = () =>
+      this.storage.postTracking.updateByUri(post.uri, {
+        mastodon_thread_ids: JSON.stringify(threadIds),
+      });
+
+    for (let index = 1; index < statuses.length; index++) {
+      if (index < threadIds.length) {
+        await this.withRetry(() =>
+          mastodonClient.editPost(threadIds[index], {
+            ...textParams,
+            status: statuses[index],
+          })
+        );
+        continue;
+      }
+
+      const reply = await this.withRetry(() =>
+        mastodonClient.createPost({
+          ...textParams,
+          visibility: options.visibility ?? "public",
+          status: statuses[index],
+          in_reply_to_id: threadIds[index - 1],
+        })
+      );
+      threadIds.push(reply.id);
+      await saveThreadIds();
+    }
+
+    // The edit made the post shorter, so its last parts go
+    while (threadIds.length > statuses.length) {
+      const id = threadIds[threadIds.length - 1];
+      await this.withRetry(() => mastodonClient.deletePost(id));
+      threadIds.pop();
+      await saveThreadIds();
+    }
+  }
+
+  /**
+   * Render posts as they would be published, without uploading media,
+   * posting or touching the tracking table
+   */
+  async previewPosts(
+    posts: ATProtoPost[],
+    atprotoClient: ATProtoHttpClient,
+    mastodonClient: MastodonHttpClient,
+  ): Promise<RenderedPost[]> {
+    if (posts.length === 0) return [];
+
+    const options = await this.getSyncOptions(mastodonClient);
+    const rendered: RenderedPost[] = [];
+
+    for (const post of posts) {
+      const transformation = await this.transformForMastodon(
+        post,
+        atprotoClient,
+        options,
+      );
+      const formatted = PostTransformer.formatForMastodon(
+        transformation,
+        options,
+      );
+
+      rendered.push({
+        statuses: formatted.statuses,
+        media: (formatted.media ?? []).map((media) => ({
+          type: media.type,
+          url: media.url,
+          description: media.description,
+        })),
+        sensitive: !!transformation.sensitive,
+        spoilerText: transformation.spoilerText,
+        language: transformation.language ??
+          BRIDGE_CONFIG.sync.fallback_language ?? undefined,
+      });
+    }
+
+    return rendered;
+  }
+
+  /**
+   * Transform a post and resolve its media to fetchable URLs
+   */
+  private async transformForMastodon(
+    post: ATProtoPost,
+    atprotoClient: ATProtoHttpClient,
+    options: PostSyncOptions,
+  ): Promise<PostTransformation> {
+    const transformation = PostTransformer.transformPost(post, {
+      contentWarnings: BRIDGE_CONFIG.content_warnings.labels,
+      quotedPostUrl: await this.resolveQuotedPostUrl(post),
+      linkCards: {
+        appendUrl: BRIDGE_CONFIG.link_cards.append_url,
+        includeSummary: BRIDGE_CONFIG.link_cards.include_summary,
+        uploadThumbnail: BRIDGE_CONFIG.link_cards.upload_thumbnail,
+      },
+    });
+
+    if (options.includeMedia === false) {
+      transformation.media = [];
+    }
+
+    if (options.addDatePrefix) {
+      const date = new Date(post.record.createdAt).toISOString().slice(0, 10);
+      transformation.text =
+        `Originally posted on Bluesky on ${date}\n\n${transformation.text}`;
+    }
+
+    // Resolve blob URLs using the ATProto client
+    return PostTransformer.resolveBlobUrls(transformation, atprotoClient);
+  }
+
+  /**
+   * Build per-run options from the instance's status and media limits and
+   * the persisted settings
+   */
+  private async getSyncOptions(
+    mastodonClient: MastodonHttpClient,
+  ): Promise<PostSyncOptions> {
+    const settings = resolveSyncSettings(
+      await this.storage.settings.getSingle(),
+    );
+    const images: ImageProcessingOptions = {
+      compress: settings.compress_images,
+    };
+    const options: PostSyncOptions = {
+      splitIntoThread: BRIDGE_CONFIG.sync.split_long_posts,
+      includeMedia: settings.include_media,
+      images,
+    };
+
+    try {
+      const instance = await mastodonClient.getInstance();
+      const statuses = instance?.configuration?.statuses;
+      // masto returns camelCase, raw API responses use snake_case
+      const maxLength = statuses?.maxCharacters ?? statuses?.max_characters ??
+        instance?.max_toot_chars;
+      const urlLength = statuses?.charactersReservedPerUrl ??
+        statuses?.characters_reserved_per_url;
+
+      if (typeof maxLength === "number" && maxLength > 0) {
+        options.maxLength = maxLength;
+      }
+      if (typeof urlLength === "number" && urlLength > 0) {
+        options.urlLength = urlLength;
+      }
+
+      const media = instance?.configuration?.mediaAttachments ??
+        instance?.configuration?.media_attachments;
+      const maxBytes = media?.imageSizeLimit ?? media?.image_size_limit;
+      const maxPixels = media?.imageMatrixLimit ?? media?.image_matrix_limit;
+      if (typeof maxBytes === "number" && maxBytes > 0) {
+        images.maxBytes = maxBytes;
+      }
+      if (typeof maxPixels === "number" && maxPixels > 0) {
+        images.maxPixels = maxPixels;
+      }
+    } catch (error) {
+      console.warn("Could not read instance limits, using defaults:", error);
+    }
+
+    return { ...options, ...this.destinationOptions };
+  }
+
+  /**
+   * Cross-post to Mastodon with retry logic. Posts that were split into a
+   * thread get their continuation parts as replies to the previous part.
+   * Parts in postedIds were published by an earlier attempt and are skipped;
+   * onPosted is called with the ids so far after each new part, and with
+   * the blob CIDs of the attached media after the first. Returns the status
+   * ids of all parts.
    */
   private async crossPostWithRetry(
     mastodonClient: MastodonHttpClient,
     transformation: any,
-  ): Promise<any> {
-    let lastError: Error | null = null;
+    idempotencyKey: string,
+    inReplyToId: string | undefined,
+    formatOptions: PostSyncOptions,
+    postedIds: string[],
+    onPosted: (
+      threadIds: string[],
+      status: any,
+      mediaCids?: string[],
+    ) => Promise<void>,
+  ): Promise<string[]> {
+    // Format the post for Mastodon (adds footnotes, handles character limits)
+    const mastodonFormatted = PostTransformer.formatForMastodon(
+      transformation,
+      formatOptions,
+    );
+    const postParams = {
+      visibility: formatOptions.visibility ?? "public",
+      sensitive: transformation.sensitive,
+      spoiler_text: transformation.spoilerText,
+      language: transformation.language ??
+        BRIDGE_CONFIG.sync.fallback_language ?? undefined,
+    };
 
-    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
-      try {
-        // Upload media if present
-        const mediaIds: string[] = [];
-        if (transformation.media.length > 0) {
-          for (const media of transformation.media) {
-            try {
-              // Get actual blob data from the resolved URL
-              const response = await fetch(media.url);
-              const blob = await response.blob();
-              console.log(`Fetched ${media.type} blob:`, {
-                url: media.url,
-                size: blob.size,
-                type: blob.type,
-              });
-
-              const uploadedMedia = await mastodonClient.uploadMedia(
-                blob,
-                media.description,
-              );
-              mediaIds.push(uploadedMedia.id);
-              console.log(
-                `Successfully uploaded ${media.type} to Mastodon:`,
-                uploadedMedia.id,
-              );
-            } catch (error) {
-              console.error(`Failed to upload media: ${media.url}`, error);
-              // Continue with post even if media upload fails
-            }
-          }
-        }
+    // Uploads survive retries, so a retry after a processing timeout
+    // resumes polling instead of uploading the same file again
+    const uploadedIds = new Map<number, string>();
+    const threadIds = [...postedIds];
 
-        // Format the post for Mastodon (adds footnotes, handles character limits)
-        const mastodonFormatted = PostTransformer.formatForMastodon(
-          transformation,
+    if (threadIds.length === 0) {
+      let mediaIds: string[] = [];
+      const firstPost = await this.withRetry(async () => {
+        mediaIds = await this.uploadMedia(
+          mastodonClient,
+          transformation.media,
+          uploadedIds,
+          formatOptions.images,
         );
 
         // Create the post
-        const post = await mastodonClient.createPost({
-          status: mastodonFormatted.status,
+        return await mastodonClient.createPost({
+          ...postParams,
+          status: mastodonFormatted.statuses[0],
           media_ids: mediaIds,
-          visibility: "public",
+          in_reply_to_id: inReplyToId,
+          idempotency_key: idempotencyKey,
         });
+      });
+      threadIds.push(firstPost.id);
+      await onPosted(
+        threadIds,
+        firstPost,
+        attachedMediaCids(transformation.media, uploadedIds, mediaIds),
+      );
+    }
+
+    // Retry each continuation on its own so earlier parts aren't re-posted
+    const { statuses } = mastodonFormatted;
+    for (let index = threadIds.length; index < statuses.length; index++) {
+      const reply = await this.withRetry(() =>
+        mastodonClient.createPost({
+          ...postParams,
+          status: statuses[index],
+          in_reply_to_id: threadIds[index - 1],
+          idempotency_key: `${idempotencyKey}-${index}`,
+        })
+      );
+      threadIds.push(reply.id);
+      await onPosted(threadIds, reply);
+    }
+
+    return threadIds;
+  }
+
+  /**
+   * Upload a post's media, skipping attachments already uploaded by an
+   * earlier attempt. Fetched data is verified against the blob's CID, and
+   * images are fitted to the instance's limits. Returns the ids of the
+   * attachments that made it.
+   */
+  private async uploadMedia(
+    mastodonClient: MastodonHttpClient,
+    mediaList: any[],
+    uploadedIds: Map<number, string>,
+    imageOptions: ImageProcessingOptions = {},
+  ): Promise<string[]> {
+    const mediaIds: string[] = [];
+
+    for (const [index, media] of mediaList.entries()) {
+      try {
+        let mediaId = uploadedIds.get(index);
+        let ready = false;
+
+        if (!mediaId) {
+          // Get actual blob data from the resolved URL
+          const response = await fetch(media.url);
+          if (!response.ok) {
+            throw new Error(
+              `Failed to fetch ${media.type} blob: ${response.status}`,
+            );
+          }
+          let blob = await response.blob();
+          console.log(`Fetched ${media.type} blob:`, {
+            url: media.url,
+            size: blob.size,
+            type: blob.type,
+          });
+          if (media.cid) {
+            await verifyBlob(blob, media);
+          }
+          if (media.type === "image") {
+            blob = await processImageBlob(blob, imageOptions);
+          }
+
+          const uploadedMedia = await mastodonClient.uploadMedia(
+            blob,
+            media.description,
+          );
+          mediaId = uploadedMedia.id;
+          ready = !!uploadedMedia.url;
+          uploadedIds.set(index, mediaId);
+          console.log(
+            `Successfully uploaded ${media.type} to Mastodon:`,
+            mediaId,
+          );
+        }
+
+        if (!ready) {
+          await this.waitForMediaProcessing(mastodonClient, mediaId);
+        }
+        mediaIds.push(mediaId);
+      } catch (error) {
+        // Fail the post so it's retried with its media rather than
+        // posted without it, or with data that isn't the author's
+        if (
+          this.isMediaTimeoutError(error) ||
+          error instanceof BlobVerificationError
+        ) {
+          throw error;
+        }
+        console.error(`Failed to upload media: ${media.url}`, error);
+        // Continue with post even if media upload fails
+      }
+    }
+
+    return mediaIds;
+  }
+
+  /**
+   * Derive a stable Idempotency-Key from the post's URI and CID, so
+   * re-sending the same version of a post can't create a second status
+   */
+  private async idempotencyKey(post: ATProtoPost): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(`${post.uri}#${post.cid}`),
+    );
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+
+  /**
+   * Poll an uploaded attachment until Mastodon has finished processing it
+   */
+  private async waitForMediaProcessing(
+    mastodonClient: MastodonHttpClient,
+    mediaId: string,
+  ): Promise<void> {
+    const { maxRetries, baseDelay, backoffFactor, maxDelay } =
+      this.mediaPollConfig;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      const delay = Math.min(
+        baseDelay * Math.pow(backoffFactor, attempt),
+        maxDelay,
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
 
-        return post;
+      const status = await mastodonClient.getMediaStatus(mediaId);
+      if (status?.url) {
+        console.log(`Media ${mediaId} finished processing`);
+        return;
+      }
+      console.log(`Media ${mediaId} still processing (attempt ${attempt + 1})`);
+    }
+
+    throw new Error(
+      `Media processing timeout: ${mediaId} was not ready after ${maxRetries} checks`,
+    );
+  }
+
+  private isMediaTimeoutError(error: unknown): boolean {
+    return error instanceof Error &&
+      error.message.startsWith("Media processing timeout");
+  }
+
+  /**
+   * Run an operation with exponential backoff on retryable errors
+   */
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+      try {
+        return await operation();
       } catch (error) {
         lastError = error instanceof Error ? error : new Error("Unknown error");
 
@@ -0,0 +1,339 @@
+import { MastodonHttpClient } from "../interfaces/http-client.ts";
+
+// Mastodon visibilities and their Misskey equivalents
+const VISIBILITY_TO_MISSKEY: Record<string, string> = {
+  public: "public",
+  unlisted: "home",
+  private: "followers",
+  direct: "specified",
+};
+
+const VISIBILITY_FROM_MISSKEY: Record<string, string> = {
+  public: "public",
+  home: "unlisted",
+  followers: "private",
+  specified: "direct",
+};
+
+// Permissions requested when connecting an account through MiAuth
+const MIAUTH_PERMISSIONS = [
+  "read:account",
+  "write:notes",
+  "read:drive",
+  "write:drive",
+];
+
+/**
+ * URL of the MiAuth page where the user grants the bridge access. The
+ * server then redirects to the callback with ?session=<sessionId>.
+ */
+export function miAuthUrl(
+  instanceUrl: string,
+  sessionId: string,
+  params: { name: string; callback: string },
+): string {
+  const url = new URL(`${instanceUrl}/miauth/${sessionId}`);
+  url.searchParams.set("name", params.name);
+  url.searchParams.set("callback", params.callback);
+  url.searchParams.set("permission", MIAUTH_PERMISSIONS.join(","));
+  return url.toString();
+}
+
+/**
+ * Exchange an approved MiAuth session for its access token
+ */
+export async function checkMiAuthSession(
+  instanceUrl: string,
+  sessionId: string,
+): Promise<{ token: string; username?: string }> {
+  const response = await fetch(
+    `${instanceUrl}/api/miauth/${sessionId}/check`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    },
+  );
+  const data = response.ok ? await response.json() : null;
+  if (!data?.ok || !data.token) {
+    throw new Error("MiAuth session was not approved");
+  }
+
+  return { token: data.token, username: data.user?.username };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render a note's plain (MFM) text as Mastodon-style HTML, linking URLs
+ * and hashtags the way Mastodon marks them up
+ */
+export function noteTextToHtml(text: string, instanceUrl: string): string {
+  const linked = escapeHtml(text).replace(
+    /(https?:\/\/[^\s<]+[^\s<.,:;!?)\]'"])|(^|\s)#([\p{L}\p{N}_]+)/gu,
+    (match, url, space, tag) =>
+      url
+        ? `<a href="${url}">${url}</a>`
+        : tag
+        ? `${space}<a href="${instanceUrl}/tags/${
+          encodeURIComponent(tag)
+        }" class="mention hashtag" rel="tag">#<span>${tag}</span></a>`
+        : match,
+  );
+
+  return linked
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${paragraph.replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+function attachmentType(mimeType: string): string {
+  const kind = mimeType.split("/")[0];
+  return ["image", "video", "audio"].includes(kind) ? kind : "unknown";
+}
+
+/**
+ * MastodonHttpClient for Misskey and its forks (Sharkey, Firefish, ...),
+ * translating to the Misskey API and returning Mastodon-shaped statuses
+ * and media so the syncers work unchanged. Misskey has no idempotency
+ * keys, so resending an interrupted post can't be deduplicated by the
+ * server, and editing needs a fork that implements notes/edit.
+ */
+export class MisskeyClient implements MastodonHttpClient {
+  private instanceUrl: string;
+
+  constructor(instanceUrl: string, private accessToken: string) {
+    this.instanceUrl = instanceUrl.replace(/\/$/, ""); // Remove trailing slash
+  }
+
+  /**
+   * Call an API endpoint. Misskey takes the token as the "i" parameter.
+   */
+  private async request(
+    endpoint: string,
+    params: Record<string, unknown> = {},
+  ): Promise<any> {
+    const response = await fetch(`${this.instanceUrl}/api/${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...params, i: this.accessToken }),
+    });
+    return await this.parseResponse(endpoint, response);
+  }
+
+  private async parseResponse(
+    endpoint: string,
+    response: Response,
+  ): Promise<any> {
+    if (response.status === 204) return null;
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      const error = new Error(
+        `Misskey ${endpoint} failed: ${
+          data?.error?.message ?? response.statusText
+        }`,
+      );
+      // Missing notes and files are reported as NO_SUCH_* client errors
+      (error as any).status = String(data?.error?.code).startsWith("NO_SUCH_")
+        ? 404
+        : response.status;
+      throw error;
+    }
+    return data;
+  }
+
+  private toMedia(file: any) {
+    return {
+      id: file.id,
+      type: attachmentType(file.type ?? ""),
+      url: file.url ?? null,
+      description: file.comment ?? null,
+      meta: {
+        original: {
+          width: file.properties?.width,
+          height: file.properties?.height,
+        },
+      },
+    };
+  }
+
+  private toStatus(note: any) {
+    const url = note.url ?? note.uri ?? `${this.instanceUrl}/notes/${note.id}`;
+    return {
+      id: note.id,
+      uri: note.uri ?? url,
+      url,
+      content: noteTextToHtml(note.text ?? "", this.instanceUrl),
+      created_at: note.createdAt,
+      // Local-only notes don't federate, much like unlisted statuses
+      visibility: note.localOnly && note.visibility === "public"
+        ? "unlisted"
+        : VISIBILITY_FROM_MISSKEY[note.visibility] ?? "direct",
+      sensitive: !!note.cw ||
+        (note.files ?? []).some((file: any) => file.isSensitive),
+      spoiler_text: note.cw ?? "",
+      in_reply_to_id: note.replyId ?? null,
+      in_reply_to_account_id: note.reply?.userId ?? null,
+      // A renote without text of its own is a boost
+      reblog: note.renoteId && !note.text && !note.files?.length
+        ? { id: note.renoteId }
+        : null,
+      mentions: [],
+      media_attachments: (note.files ?? []).map((file: any) =>
+        this.toMedia(file)
+      ),
+    };
+  }
+
+  async verifyCredentials(): Promise<any> {
+    const user = await this.request("i");
+    return {
+      id: user.id,
+      username: user.username,
+      acct: user.username,
+      display_name: user.name ?? user.username,
+      url: `${this.instanceUrl}/@${user.username}`,
+    };
+  }
+
+  async getAccount(): Promise<any> {
+    return await this.verifyCredentials();
+  }
+
+  async getInstance(): Promise<any> {
+    const meta = await this.request("meta", { detail: false });
+    return {
+      title: meta.name,
+      configuration: {
+        statuses: { max_characters: meta.maxNoteTextLength ?? 3000 },
+      },
+    };
+  }
+
+  async uploadMedia(file: Blob, description?: string): Promise<any> {
+    const form = new FormData();
+    form.append("i", this.accessToken);
+    form.append("file", file);
+    if (description) form.append("comment", description);
+
+    const response = await fetch(
+      `${this.instanceUrl}/api/drive/files/create`,
+      { method: "POST", body: form },
+    );
+    // Drive files are usable as soon as the upload returns
+    return this.toMedia(
+      await this.parseResponse("drive/files/create", response),
+    );
+  }
+
+  async getMediaStatus(mediaId: string): Promise<any> {
+    return this.toMedia(
+      await this.request("drive/files/show", { fileId: mediaId }),
+    );
+  }
+
+  async createPost(params: {
+    status: string;
+    media_ids?: string[];
+    visibility?: string;
+    sensitive?: boolean;
+    spoiler_text?: string;
+    in_reply_to_id?: string;
+    language?: string;
+    idempotency_key?: string;
+  }): Promise<any> {
+    const { createdNote } = await this.request("notes/create", {
+      text: params.status || null,
+      // Misskey has no sensitive flag for notes; a content warning hides them
+      cw: params.spoiler_text ||
+        (params.sensitive ? "Sensitive content" : null),
+      visibility: VISIBILITY_TO_MISSKEY[params.visibility ?? "public"] ??
+        "public",
+      ...(params.media_ids?.length && { fileIds: params.media_ids }),
+      ...(params.in_reply_to_id && { replyId: params.in_reply_to_id }),
+    });
+    return this.toStatus(createdNote);
+  }
+
+  async editPost(id: string, params: {
+    status: string;
+    media_ids?: string[];
+    media_attributes?: Array<{ id: string; description?: string }>;
+    sensitive?: boolean;
+    spoiler_text?: string;
+    language?: string;
+  }): Promise<any> {
+    for (const attribute of params.media_attributes ?? []) {
+      await this.request("drive/files/update", {
+        fileId: attribute.id,
+        comment: attribute.description ?? null,
+      });
+    }
+
+    await this.request("notes/edit", {
+      editId: id,
+      text: params.status,
+      cw: params.spoiler_text ||
+        (params.sensitive ? "Sensitive content" : null),
+      ...(params.media_ids && { fileIds: params.media_ids }),
+    });
+    return await this.getStatus(id);
+  }
+
+  async getStatus(id: string): Promise<any> {
+    return this.toStatus(await this.request("notes/show", { noteId: id }));
+  }
+
+  async deletePost(id: string): Promise<void> {
+    await this.request("notes/delete", { noteId: id });
+  }
+
+  async getAccountStatuses(accountId: string, params: {
+    limit: number;
+    max_id?: string;
+    min_id?: string;
+  }): Promise<any[]> {
+    const notes: any[] = await this.request("users/notes", {
+      userId: accountId,
+      limit: params.limit,
+      withRenotes: false,
+      ...(params.max_id && { untilId: params.max_id }),
+      ...(params.min_id && { sinceId: params.min_id }),
+    });
+
+    return notes
+      .map((note) => this.toStatus(note))
+      .filter((status) => !status.reblog)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async reblog(id: string): Promise<any> {
+    const { createdNote } = await this.request("notes/create", {
+      renoteId: id,
+    });
+    return this.toStatus(createdNote);
+  }
+
+  registerApp(): Promise<{ client_id: string; client_secret: string }> {
+    return Promise.reject(
+      new Error("Misskey servers are connected through MiAuth, not OAuth"),
+    );
+  }
+
+  exchangeCodeForToken(): Promise<{
+    access_token: string;
+    token_type: string;
+    scope: string;
+  }> {
+    return Promise.reject(
+      new Error("Misskey servers are connected through MiAuth, not OAuth"),
+    );
+  }
+}
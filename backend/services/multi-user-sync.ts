@@ -0,0 +1,59 @@
+import { StorageProvider, UserAccount } from "../interfaces/storage.ts";
+
+export interface UserSyncOutcome {
+  userId: number;
+  handle?: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Runs a sync for every user of a multi-user bridge, one after another.
+ * Each user gets storage scoped to their own rows, and a failure is
+ * recorded against that user instead of stopping the others.
+ */
+export class MultiUserSyncRunner {
+  constructor(private storage: StorageProvider) {}
+
+  /**
+   * Users who have connected both accounts
+   */
+  async listSyncableUsers(): Promise<UserAccount[]> {
+    const users = await this.storage.listUsers();
+    return users.filter((user) => user.setup_completed);
+  }
+
+  async run(
+    syncUser: (storage: StorageProvider, account: UserAccount) => Promise<void>,
+  ): Promise<UserSyncOutcome[]> {
+    const outcomes: UserSyncOutcome[] = [];
+
+    for (const account of await this.listSyncableUsers()) {
+      try {
+        await syncUser(this.storage.forUser(account.id), account);
+        outcomes.push({
+          userId: account.id,
+          handle: account.atproto_handle,
+          success: true,
+        });
+      } catch (error) {
+        console.error(
+          `Sync for user ${account.id} (${account.atproto_handle}) failed:`,
+          error,
+        );
+        outcomes.push({
+          userId: account.id,
+          handle: account.atproto_handle,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const failed = outcomes.filter((outcome) => !outcome.success).length;
+    console.log(
+      `Synced ${outcomes.length - failed} of ${outcomes.length} users`,
+    );
+    return outcomes;
+  }
+}
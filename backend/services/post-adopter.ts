@@ -0,0 +1,239 @@
+import { StorageProvider } from "../interfaces/storage.ts";
+import {
+  ATProtoHttpClient,
+  MastodonHttpClient,
+} from "../interfaces/http-client.ts";
+import { ATProtoPost } from "../../shared/types.ts";
+import { BRIDGE_CONFIG } from "../../config.ts";
+import { PostTransformer } from "./post-transformer.ts";
+
+export interface AdoptedPost {
+  uri: string;
+  text: string;
+  createdAt: string;
+  mastodonId: string;
+  mastodonUrl: string;
+}
+
+export interface AdoptionResult {
+  adopted: AdoptedPost[];
+  blueskyPostsScanned: number;
+  mastodonStatusesScanned: number;
+}
+
+const FEED_PAGE_SIZE = 50;
+const STATUS_PAGE_SIZE = 40;
+// Shorter texts are only matched in full, not as a truncated prefix
+const MIN_PREFIX_MATCH_LENGTH = 20;
+
+/**
+ * Reduce post text to what survives crossposting: links are dropped
+ * (Bluesky shows them shortened, Mastodon in full), as are mentions,
+ * punctuation, case and whitespace differences
+ */
+export function normalizeForMatching(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/\S*(?:[a-z][a-z0-9+.-]*:\/\/|www\.)\S*/gi, " ")
+    .replace(/\S+\.\S+\/\S*/g, " ")
+    .replace(/(^|\s)@\S+/g, " ")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Plain text of a Mastodon status' HTML content
+ */
+export function statusText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>\s*<p>/gi, "\n\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#(?:39|x27);/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Whether two normalized texts are the same post, allowing for the copy
+ * having been truncated by a crossposter
+ */
+function textsMatch(a: string, b: string): boolean {
+  if (!a || !b) return false;
+  if (a === b) return true;
+
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  return shorter.length >= MIN_PREFIX_MATCH_LENGTH &&
+    longer.startsWith(shorter);
+}
+
+/**
+ * Links recent Bluesky posts to Mastodon statuses that another crossposter
+ * already published, recording them as synced so they aren't posted again
+ */
+export class PostAdopter {
+  constructor(
+    private storage: StorageProvider,
+    private adoptConfig: {
+      max_posts: number;
+      match_window_minutes: number;
+    } = BRIDGE_CONFIG.adopt,
+  ) {}
+
+  /**
+   * Match untracked Bluesky posts to the account's Mastodon statuses by
+   * text and time. Unless dryRun is set, matches are stored as successful
+   * syncs of the matched status.
+   */
+  async adopt(
+    atprotoClient: ATProtoHttpClient,
+    mastodonClient: MastodonHttpClient,
+    actorDid: string,
+    dryRun: boolean = false,
+  ): Promise<AdoptionResult> {
+    const posts = await this.fetchUntrackedPosts(atprotoClient, actorDid);
+    const statuses = await this.fetchStatuses(mastodonClient);
+
+    const windowMs = this.adoptConfig.match_window_minutes * 60 * 1000;
+    const candidates = statuses.map((status) => ({
+      status,
+      text: normalizeForMatching(statusText(status.content ?? "")),
+      time: new Date(status.created_at).getTime(),
+    }));
+    const claimed = new Set<string>();
+    const adopted: AdoptedPost[] = [];
+
+    for (const post of posts) {
+      const text = normalizeForMatching(post.record.text);
+      const time = new Date(post.record.createdAt).getTime();
+
+      // The closest status in time that has the same text
+      let best: typeof candidates[number] | undefined;
+      for (const candidate of candidates) {
+        if (claimed.has(candidate.status.id)) continue;
+        const distance = Math.abs(candidate.time - time);
+        if (distance > windowMs || !textsMatch(text, candidate.text)) {
+          continue;
+        }
+        if (!best || distance < Math.abs(best.time - time)) {
+          best = candidate;
+        }
+      }
+      if (!best) continue;
+
+      claimed.add(best.status.id);
+      adopted.push({
+        uri: post.uri,
+        text: post.record.text,
+        createdAt: post.record.createdAt,
+        mastodonId: best.status.id,
+        mastodonUrl: best.status.url,
+      });
+
+      if (!dryRun) {
+        await this.recordAdoption(post, best.status);
+      }
+    }
+
+    console.log(
+      `${
+        dryRun ? "Would adopt" : "Adopted"
+      } ${adopted.length} of ${posts.length} Bluesky posts`,
+    );
+
+    return {
+      adopted,
+      blueskyPostsScanned: posts.length,
+      mastodonStatusesScanned: statuses.length,
+    };
+  }
+
+  /**
+   * The user's own recent posts that the bridge hasn't tracked yet
+   */
+  private async fetchUntrackedPosts(
+    atprotoClient: ATProtoHttpClient,
+    actorDid: string,
+  ): Promise<ATProtoPost[]> {
+    const posts: ATProtoPost[] = [];
+    let cursor: string | undefined;
+    let scanned = 0;
+
+    while (scanned < this.adoptConfig.max_posts) {
+      const response = await atprotoClient.fetchPosts({
+        actor: actorDid,
+        limit: Math.min(FEED_PAGE_SIZE, this.adoptConfig.max_posts - scanned),
+        cursor,
+      });
+      const feed = response.feed ?? [];
+      scanned += feed.length;
+
+      for (const item of feed) {
+        if (item.reason) continue;
+        if (await this.storage.postTracking.getByUri(item.post.uri)) continue;
+
+        posts.push({
+          uri: item.post.uri,
+          cid: item.post.cid,
+          author: item.post.author,
+          record: item.post.record,
+          indexedAt: item.post.indexedAt,
+        });
+      }
+
+      cursor = response.cursor;
+      if (feed.length === 0 || !cursor) break;
+    }
+
+    return posts;
+  }
+
+  /**
+   * The account's recent original statuses (not boosts), newest first
+   */
+  private async fetchStatuses(
+    mastodonClient: MastodonHttpClient,
+  ): Promise<any[]> {
+    const account = await mastodonClient.getAccount();
+    const statuses: any[] = [];
+    let maxId: string | undefined;
+
+    while (statuses.length < this.adoptConfig.max_posts) {
+      const page = await mastodonClient.getAccountStatuses(account.id, {
+        limit: STATUS_PAGE_SIZE,
+        max_id: maxId,
+      });
+      statuses.push(...page);
+
+      if (page.length < STATUS_PAGE_SIZE) break;
+      maxId = page[page.length - 1].id;
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Track the post as already synced to the matched status
+   */
+  private async recordAdoption(post: ATProtoPost, status: any): Promise<void> {
+    await this.storage.postTracking.create({
+      atproto_uri: post.uri,
+      atproto_cid: post.cid,
+      atproto_rkey: post.uri.split("/").pop()!,
+      content_hash: PostTransformer.generateContentHash(post),
+      atproto_created_at: Math.floor(
+        new Date(post.record.createdAt).getTime() / 1000,
+      ),
+    });
+    await this.storage.postTracking.updateByUri(post.uri, {
+      mastodon_id: status.id,
+      mastodon_url: status.url,
+      sync_status: "success",
+      synced_at: Math.floor(new Date(status.created_at).getTime() / 1000),
+    });
+  }
+}
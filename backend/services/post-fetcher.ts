@@ -3,9 +3,12 @@ import { ATProtoPost } from "../../shared/types.ts";
 
 export interface PostFetchResult {
   posts: ATProtoPost[];
+  reposts: ATProtoPost[]; // The user's reposts of their own posts
   cursor?: string;
 }
 
+const REASON_REPOST = "app.bsky.feed.defs#reasonRepost";
+
 export class PostFetcher {
   constructor() {}
 
@@ -64,6 +67,7 @@ export class PostFetcher {
         author: item.post.author,
         record: item.post.record,
         indexedAt: item.post.indexedAt,
+        reason: item.reason,
       }));
 
       finalCursor = result.cursor;
@@ -88,11 +92,14 @@ export class PostFetcher {
           author: item.post.author,
           record: item.post.record,
           indexedAt: item.post.indexedAt,
+          reason: item.reason,
         }));
 
         // If we have a last sync time, filter out posts older than that
         const newPosts = lastSyncAt
-          ? posts.filter((post) => post.record.createdAt > fallbackTime)
+          ? posts.filter((post: ATProtoPost) =>
+            this.activityTime(post) > fallbackTime
+          )
           : posts;
 
         allPosts = allPosts.concat(newPosts);
@@ -115,9 +122,28 @@ export class PostFetcher {
       }
     }
 
+    // Reposts show up in the author feed with the original post's content.
+    // Only reposts of the user's own posts are kept, to be mirrored as boosts.
+    const fetched = allPosts.slice(0, limit);
     return {
-      posts: allPosts.slice(0, limit),
+      posts: fetched.filter((post) => !this.isRepost(post)),
+      reposts: fetched.filter((post) =>
+        this.isRepost(post) && post.author?.did === actorDid
+      ),
       cursor: finalCursor,
     };
   }
+
+  private isRepost(post: ATProtoPost): boolean {
+    return post.reason?.$type === REASON_REPOST;
+  }
+
+  /**
+   * When the post appeared in the feed: the repost time for reposts, which
+   * can be much later than the original post
+   */
+  private activityTime(post: ATProtoPost): string {
+    return (this.isRepost(post) && post.reason?.indexedAt) ||
+      post.record.createdAt;
+  }
 }
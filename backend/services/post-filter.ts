@@ -6,22 +6,49 @@ export interface PostFilter {
 }
 
 /**
- * Filter that skips replies
+ * Check whether a post replies to one of the author's own posts
+ */
+export function isSelfReply(post: ATProtoPost): boolean {
+  const parentUri = post.record.reply?.parent?.uri;
+  if (!parentUri) return false;
+
+  // at://<did>/app.bsky.feed.post/<rkey>
+  const parentDid = parentUri.replace("at://", "").split("/")[0];
+  return parentDid === post.author.did;
+}
+
+/**
+ * Filter that skips replies, except self-replies when thread mirroring is
+ * enabled. Replies are skipped unless skip_replies is turned off.
  */
 export class ReplyFilter implements PostFilter {
-  shouldSyncPost(post: ATProtoPost, _settings: any): boolean {
-    return !post.record.reply;
+  shouldSyncPost(post: ATProtoPost, settings: any): boolean {
+    if (!post.record.reply) return true;
+    if (settings?.skip_replies === false) return true;
+
+    // Continuations of our own threads can be mirrored as Mastodon replies
+    return !!settings?.sync_self_threads && isSelfReply(post);
   }
 }
 
 /**
- * Filter that skips reposts and quote posts
+ * Filter that skips reposts and quote posts, unless skip_reposts is turned
+ * off or quote posts are enabled (they are then rendered with a link to the
+ * quoted post)
  */
 export class RepostFilter implements PostFilter {
-  shouldSyncPost(post: ATProtoPost, _settings: any): boolean {
+  shouldSyncPost(post: ATProtoPost, settings: any): boolean {
     if (post.record.embed) {
       const embedType = post.record.embed.$type;
 
+      if (
+        (settings?.sync_quote_posts || settings?.skip_reposts === false) &&
+        (embedType === "app.bsky.embed.record" ||
+          embedType === "app.bsky.embed.recordWithMedia")
+      ) {
+        return true;
+      }
+
       if (embedType === "app.bsky.embed.record") {
         console.log(
           `Skipping repost/quote post ${post.uri} (referenced content not available on Mastodon)`,
@@ -87,6 +114,143 @@ export class MentionFilter implements PostFilter {
   }
 }
 
+export interface FilterRule {
+  type: "keyword" | "regex" | "hashtag";
+  pattern: string;
+  // "skip" drops matching posts; with any "require" rule, only posts
+  // matching at least one of them are synced
+  action: "skip" | "require";
+}
+
+const RULE_TYPES = ["keyword", "regex", "hashtag"];
+const RULE_ACTIONS = ["skip", "require"];
+const HASHTAG_PATTERN = /(?:^|\s)#([\p{L}\p{N}_]+)/gu;
+
+/**
+ * Check a rule's shape, returning an error message or null when valid
+ */
+export function validateFilterRule(rule: any): string | null {
+  if (!rule || typeof rule !== "object") {
+    return "Rule must be an object";
+  }
+  if (!RULE_TYPES.includes(rule.type)) {
+    return `Rule type must be one of: ${RULE_TYPES.join(", ")}`;
+  }
+  if (!RULE_ACTIONS.includes(rule.action)) {
+    return `Rule action must be one of: ${RULE_ACTIONS.join(", ")}`;
+  }
+  if (typeof rule.pattern !== "string" || !rule.pattern.trim()) {
+    return "Rule pattern must be a non-empty string";
+  }
+  if (rule.type === "regex") {
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch (error) {
+      return `Invalid regex: ${
+        error instanceof Error ? error.message : rule.pattern
+      }`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse rules stored as JSON, dropping any that aren't valid
+ */
+export function parseFilterRules(
+  json: string | null | undefined,
+): FilterRule[] {
+  if (!json) return [];
+
+  try {
+    const rules = JSON.parse(json);
+    if (!Array.isArray(rules)) return [];
+    return rules.filter((rule) => validateFilterRule(rule) === null);
+  } catch (error) {
+    console.warn("Ignoring unreadable filter rules:", error);
+    return [];
+  }
+}
+
+/**
+ * Collect a post's hashtags, lowercased, from tag facets and the text
+ */
+export function getPostHashtags(post: ATProtoPost): string[] {
+  const tags = new Set<string>();
+
+  for (const facet of post.record.facets ?? []) {
+    for (const feature of facet.features ?? []) {
+      if (feature.$type === "app.bsky.richtext.facet#tag" && feature.tag) {
+        tags.add(feature.tag.toLowerCase());
+      }
+    }
+  }
+
+  for (const match of post.record.text.matchAll(HASHTAG_PATTERN)) {
+    tags.add(match[1].toLowerCase());
+  }
+
+  return [...tags];
+}
+
+/**
+ * Check whether a single rule matches a post. Matching is case-insensitive.
+ */
+export function matchesFilterRule(
+  post: ATProtoPost,
+  rule: FilterRule,
+): boolean {
+  const text = post.record.text;
+
+  switch (rule.type) {
+    case "keyword":
+      return text.toLowerCase().includes(rule.pattern.toLowerCase());
+    case "hashtag":
+      return getPostHashtags(post).includes(
+        rule.pattern.replace(/^#/, "").toLowerCase(),
+      );
+    case "regex":
+      try {
+        return new RegExp(rule.pattern, "i").test(text);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Filter that applies the user's keyword, regex and hashtag rules
+ */
+export class RuleFilter implements PostFilter {
+  shouldSyncPost(post: ATProtoPost, settings: any): boolean {
+    const rules: FilterRule[] = settings?.filter_rules ?? [];
+    if (rules.length === 0) return true;
+
+    const skipRule = rules.find((rule) =>
+      rule.action === "skip" && matchesFilterRule(post, rule)
+    );
+    if (skipRule) {
+      console.log(
+        `Skipping post ${post.uri} (matches ${skipRule.type} rule "${skipRule.pattern}")`,
+      );
+      return false;
+    }
+
+    const requireRules = rules.filter((rule) => rule.action === "require");
+    if (
+      requireRules.length > 0 &&
+      !requireRules.some((rule) => matchesFilterRule(post, rule))
+    ) {
+      console.log(`Skipping post ${post.uri} (matches no required rule)`);
+      return false;
+    }
+
+    return true;
+  }
+}
+
 /**
  * Filter that skips invalid or empty posts
  */
@@ -119,6 +283,7 @@ export class DefaultPostFilter implements PostFilter {
     new ReplyFilter(),
     new RepostFilter(),
     new MentionFilter(),
+    new RuleFilter(),
   ];
 
   shouldSyncPost(post: ATProtoPost, settings: any): boolean {
@@ -165,6 +330,26 @@ export class PostFilterManager {
     );
   }
 
+  /**
+   * Name of the first filter that rejects the post, or null if it passes.
+   * Combined filters are looked into so the specific rule is reported.
+   */
+  getRejectingFilter(post: ATProtoPost, settings: any): string | null {
+    for (const filter of this.filters) {
+      const filters = filter instanceof DefaultPostFilter
+        ? filter.getFilters()
+        : [filter];
+
+      const rejecting = filters.find((candidate) =>
+        !candidate.shouldSyncPost(post, settings)
+      );
+      if (rejecting) {
+        return rejecting.constructor.name;
+      }
+    }
+    return null;
+  }
+
   /**
    * Remove all filters and add new ones
    */
@@ -1,6 +1,64 @@
 import { RichText } from "https://esm.sh/@atproto/api@0.15.23";
 import { ATProtoPost, PostTransformation } from "../../shared/types.ts";
 import { ATProtoValidator } from "./atproto-validator.ts";
+import { verifyBlob } from "./blob-verifier.ts";
+
+// ISO 639-3 codes Mastodon accepts for languages without a two-letter code
+const MASTODON_ISO_639_3_LANGUAGES = new Set([
+  "ast",
+  "chr",
+  "ckb",
+  "cnr",
+  "csb",
+  "gsw",
+  "jbo",
+  "kab",
+  "ldn",
+  "lfn",
+  "moh",
+  "nds",
+  "pdc",
+  "sco",
+  "sma",
+  "smj",
+  "szl",
+  "tok",
+  "zba",
+  "zgh",
+]);
+
+// Mastodon's default status length and fixed per-URL character count
+const DEFAULT_MAX_CHARACTERS = 500;
+const DEFAULT_URL_LENGTH = 23;
+const THREAD_SUFFIX_RESERVE = " (99/99)".length;
+
+// URLs as Mastodon counts them, excluding trailing punctuation
+const URL_PATTERN = /https?:\/\/[^\s]*[^\s.,;:!?)\]'"]/g;
+
+// Longest link card description quoted before it's cut off
+const MAX_CARD_DESCRIPTION_LENGTH = 200;
+
+export interface LinkCardOptions {
+  appendUrl?: boolean; // Append the card's URL when the text doesn't link it
+  includeSummary?: boolean; // Quote the card's title and description
+  uploadThumbnail?: boolean; // Attach the thumbnail when there's no other media
+}
+
+export interface TransformOptions {
+  // Content warning text per self-label value, e.g. { nudity: "Nudity" }
+  contentWarnings?: Record<string, string>;
+  // Link to use for a quoted post instead of its bsky.app permalink
+  quotedPostUrl?: string;
+  // How to carry over an external link card; left out, only its URL is
+  // added to the links
+  linkCards?: LinkCardOptions;
+}
+
+export interface FormatOptions {
+  maxLength?: number; // Instance max_characters, defaults to 500
+  urlLength?: number; // Instance characters_reserved_per_url, defaults to 23
+  splitIntoThread?: boolean; // Split overflow into replies instead of truncating
+}
 
 export class PostTransformer {
   private static validator = new ATProtoValidator();
@@ -8,7 +66,10 @@ export class PostTransformer {
   /**
    * Transform an ATProto post to a format suitable for Mastodon
    */
-  static transformPost(post: ATProtoPost): PostTransformation {
+  static transformPost(
+    post: ATProtoPost,
+    options: TransformOptions = {},
+  ): PostTransformation {
     // Validate the post before processing
     const validation = this.validator.validateATProtoPost(post);
     if (!validation.valid) {
@@ -70,32 +131,44 @@ export class PostTransformer {
     if (record.embed) {
       switch (record.embed.$type) {
         case "app.bsky.embed.images":
-          if (record.embed.images) {
-            for (const image of record.embed.images) {
-              media.push({
-                url: `blob://${image.image.ref}`, // Will be resolved to actual URL later
-                type: "image",
-                description: image.alt || "",
-              });
-            }
-          }
+        case "app.bsky.embed.video":
+          media.push(...this.collectMedia(record.embed));
           break;
 
-        case "app.bsky.embed.video":
-          if (record.embed.video) {
-            media.push({
-              url: `blob://${record.embed.video.ref}`, // Will be resolved to actual URL later
-              type: "video",
-              description: "",
-            });
+        case "app.bsky.embed.record":
+        case "app.bsky.embed.recordWithMedia": {
+          // Quote post: keep any attached media and link the quoted record
+          if (record.embed.media) {
+            media.push(...this.collectMedia(record.embed.media));
+          }
+
+          const quotedUri = record.embed.record?.record?.uri ??
+            record.embed.record?.uri;
+          const quoteUrl = options.quotedPostUrl ??
+            (quotedUri ? this.recordPermalink(quotedUri) : undefined);
+          if (quoteUrl) {
+            links.push({ url: quoteUrl, displayText: quoteUrl });
+            transformedText = `${transformedText.trim()}\n\n${quoteUrl}`;
           }
           break;
+        }
 
         case "app.bsky.embed.external":
-          // Add external link preview information
-          if (record.embed.external) {
-            const external = record.embed.external;
+          if (record.embed.external && options.linkCards) {
+            const card = this.renderLinkCard(
+              record.embed.external,
+              transformedText,
+              links,
+              options.linkCards,
+            );
+            transformedText = card.text;
+            links.push(...card.links);
+            if (card.thumbnail && media.length === 0) {
+              media.push(card.thumbnail);
+            }
+          } else if (record.embed.external) {
             // Add the external URL if not already in links
+            const external = record.embed.external;
             const externalUrl = external.uri;
             if (!links.some((link) => link.url === externalUrl)) {
               links.push({
@@ -103,7 +176,6 @@ export class PostTransformer {
                 displayText: external.title || externalUrl,
               });
             }
-            // Note: Mastodon will generate its own preview, so we don't need to handle description/thumb
           }
           break;
       }
@@ -115,7 +187,167 @@ export class PostTransformer {
       mentions,
       links,
       hashtags,
+      language: this.normalizeLanguage(record.langs?.[0]),
+      ...this.resolveContentWarning(record, options.contentWarnings ?? {}),
+    };
+  }
+
+  /**
+   * Map self-labels to Mastodon's sensitive flag and content warning text
+   */
+  static resolveContentWarning(
+    record: ATProtoPost["record"],
+    contentWarnings: Record<string, string>,
+  ): { sensitive: boolean; spoilerText?: string } {
+    const warnings: string[] = [];
+    let sensitive = false;
+
+    for (const label of record.labels?.values ?? []) {
+      if (!Object.hasOwn(contentWarnings, label.val)) continue;
+
+      sensitive = true;
+      const warning = contentWarnings[label.val];
+      if (warning && !warnings.includes(warning)) {
+        warnings.push(warning);
+      }
+    }
+
+    return {
+      sensitive,
+      spoilerText: warnings.length > 0 ? warnings.join(", ") : undefined,
+    };
+  }
+
+  /**
+   * Render an external link card as text, since Mastodon can't always fetch
+   * a preview itself (e.g. for paywalled pages): its title and description
+   * as a quote and its URL after the post text, plus the thumbnail as an
+   * image with the title as alt text
+   */
+  private static renderLinkCard(
+    external: NonNullable<
+      NonNullable<ATProtoPost["record"]["embed"]>["external"]
+    >,
+    text: string,
+    links: PostTransformation["links"],
+    options: LinkCardOptions,
+  ): {
+    text: string;
+    links: PostTransformation["links"];
+    thumbnail?: PostTransformation["media"][number];
+  } {
+    const url = external.uri;
+    const linked = links.some((link) => link.url === url) ||
+      text.includes(url);
+    const parts = [text.trim()];
+
+    if (options.includeSummary) {
+      let description = external.description?.trim() ?? "";
+      if (description.length > MAX_CARD_DESCRIPTION_LENGTH) {
+        description = `${
+          description.slice(0, MAX_CARD_DESCRIPTION_LENGTH - 1).trimEnd()
+        }…`;
+      }
+      const summary = [external.title?.trim() ?? "", description]
+        .join("\n")
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => `> ${line.trim()}`)
+        .join("\n");
+      if (summary) parts.push(summary);
+    }
+
+    if (options.appendUrl && !linked) parts.push(url);
+
+    const thumb = external.thumb;
+    return {
+      text: parts.filter(Boolean).join("\n\n"),
+      links: linked ? [] : [{ url, displayText: url }],
+      thumbnail: options.uploadThumbnail && thumb
+        ? {
+          url: `blob://${thumb.ref}`, // Will be resolved to actual URL later
+          type: "image",
+          description: external.title || "",
+          cid: String(thumb.ref),
+          mimeType: thumb.mimeType,
+        }
+        : undefined,
+    };
+  }
+
+  /**
+   * Extract image or video attachments from a media embed
+   */
+  private static collectMedia(
+    embed:
+      & { $type: string }
+      & Partial<
+        Pick<NonNullable<ATProtoPost["record"]["embed"]>, "images" | "video">
+      >,
+  ): PostTransformation["media"] {
+    if (embed.$type === "app.bsky.embed.images" && embed.images) {
+      return embed.images.map((image) => ({
+        url: `blob://${image.image.ref}`, // Will be resolved to actual URL later
+        type: "image" as const,
+        description: image.alt || "",
+        cid: String(image.image.ref),
+        mimeType: image.image.mimeType,
+      }));
+    }
+
+    if (embed.$type === "app.bsky.embed.video" && embed.video) {
+      return [{
+        url: `blob://${embed.video.ref}`, // Will be resolved to actual URL later
+        type: "video" as const,
+        description: "",
+        cid: String(embed.video.ref),
+        mimeType: embed.video.mimeType,
+      }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Build the bsky.app URL for an at:// record URI. Returns undefined for
+   * record types that have no web page.
+   */
+  static recordPermalink(uri: string): string | undefined {
+    // at://<did>/<collection>/<rkey>
+    const [did, collection, rkey] = uri.replace("at://", "").split("/");
+    if (!did || !rkey) return undefined;
+
+    const paths: Record<string, string> = {
+      "app.bsky.feed.post": "post",
+      "app.bsky.feed.generator": "feed",
+      "app.bsky.graph.list": "lists",
+      "app.bsky.graph.starterpack": "start",
     };
+    const path = paths[collection];
+    if (!path) return undefined;
+
+    if (path === "start") {
+      return `https://bsky.app/starter-pack/${did}/${rkey}`;
+    }
+    return `https://bsky.app/profile/${did}/${path}/${rkey}`;
+  }
+
+  /**
+   * Normalize a BCP-47 language tag to the ISO 639 code Mastodon accepts
+   * (e.g. "en-US" -> "en"). Returns undefined for unsupported tags.
+   */
+  static normalizeLanguage(tag?: string): string | undefined {
+    if (!tag) return undefined;
+
+    const primary = tag.trim().split(/[-_]/)[0].toLowerCase();
+    if (/^[a-z]{2}$/.test(primary)) {
+      return primary;
+    }
+    if (MASTODON_ISO_639_3_LANGUAGES.has(primary)) {
+      return primary;
+    }
+
+    return undefined;
   }
 
   /**
@@ -184,7 +416,9 @@ export class PostTransformer {
   }
 
   /**
-   * Get blob data for media uploads using ATProto client
+   * Get blob data for media uploads using ATProto client. Each blob is
+   * checked against its CID and declared type; failures throw rather than
+   * leaving a gap.
    */
   static async getBlobsForUpload(
     transformation: PostTransformation,
@@ -193,20 +427,14 @@ export class PostTransformer {
     const blobData: Blob[] = [];
 
     for (const item of transformation.media) {
-      if (item.url.startsWith("blob://")) {
-        const blobRef = item.url.replace("blob://", "");
-        try {
-          const blob = await atprotoClient.getBlob(blobRef);
-          blobData.push(blob);
-        } catch (error) {
-          console.error("Failed to get blob data:", error);
-          // Add empty blob as placeholder
-          blobData.push(new Blob());
-        }
-      } else {
-        // For non-blob URLs, we'd need to fetch them
-        blobData.push(new Blob());
+      if (!item.url.startsWith("blob://")) {
+        throw new Error(`Media isn't an unresolved blob: ${item.url}`);
       }
+
+      const blobRef = item.url.replace("blob://", "");
+      const blob = await atprotoClient.getBlob(blobRef);
+      await verifyBlob(blob, { cid: blobRef, mimeType: item.mimeType });
+      blobData.push(blob);
     }
 
     return {
@@ -218,10 +446,16 @@ export class PostTransformer {
   /**
    * Format post for Mastodon (respecting character limits)
    */
-  static formatForMastodon(transformation: PostTransformation): {
+  static formatForMastodon(
+    transformation: PostTransformation,
+    options: FormatOptions = {},
+  ): {
     status: string;
+    statuses: string[]; // Thread parts in posting order (one unless split)
     media: PostTransformation["media"];
   } {
+    const maxLength = options.maxLength ?? DEFAULT_MAX_CHARACTERS;
+    const urlLength = options.urlLength ?? DEFAULT_URL_LENGTH;
     let status = transformation.text;
 
     // Replace display text with actual URLs to ensure links are clickable
@@ -240,16 +474,132 @@ export class PostTransformer {
       });
     }
 
-    // Mastodon has a 500 character limit by default
-    // If post is too long, truncate and add indication
-    const maxLength = 500;
-    if (status.length > maxLength) {
-      status = status.substring(0, maxLength - 4) + "...";
+    if (this.countCharacters(status, urlLength) <= maxLength) {
+      return { status, statuses: [status], media: transformation.media };
     }
 
+    // Continue overflowing content in a numbered reply thread
+    if (options.splitIntoThread) {
+      const statuses = this.splitIntoThread(status, maxLength, urlLength);
+      return { status: statuses[0], statuses, media: transformation.media };
+    }
+
+    // If post is too long, truncate and add indication
+    status = this.truncate(status, maxLength - 4, urlLength) + "...";
+
     return {
       status,
+      statuses: [status],
       media: transformation.media,
     };
   }
+
+  /**
+   * Count characters the way Mastodon does, where every URL counts as a
+   * fixed number of characters regardless of its real length
+   */
+  static countCharacters(
+    text: string,
+    urlLength: number = DEFAULT_URL_LENGTH,
+  ): number {
+    return this.tokenize(text).reduce(
+      (total, token) => total + (token.isUrl ? urlLength : token.text.length),
+      0,
+    );
+  }
+
+  /**
+   * Split text into URL and non-URL tokens
+   */
+  private static tokenize(text: string): Array<{
+    text: string;
+    isUrl: boolean;
+  }> {
+    const tokens: Array<{ text: string; isUrl: boolean }> = [];
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(URL_PATTERN)) {
+      if (match.index! > lastIndex) {
+        tokens.push({ text: text.slice(lastIndex, match.index), isUrl: false });
+      }
+      tokens.push({ text: match[0], isUrl: true });
+      lastIndex = match.index! + match[0].length;
+    }
+    if (lastIndex < text.length) {
+      tokens.push({ text: text.slice(lastIndex), isUrl: false });
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Cut text down to a character budget without breaking URLs apart
+   */
+  private static truncate(
+    text: string,
+    budget: number,
+    urlLength: number,
+  ): string {
+    let result = "";
+    let used = 0;
+
+    for (const token of this.tokenize(text)) {
+      if (token.isUrl) {
+        if (used + urlLength > budget) break;
+        result += token.text;
+        used += urlLength;
+      } else {
+        const remaining = budget - used;
+        if (token.text.length > remaining) {
+          result += token.text.substring(0, remaining);
+          break;
+        }
+        result += token.text;
+        used += token.text.length;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Split text at word boundaries into parts numbered " (1/3)", each within
+   * the character limit
+   */
+  private static splitIntoThread(
+    text: string,
+    maxLength: number,
+    urlLength: number,
+  ): string[] {
+    // Reserve room for the largest numbering suffix we expect, " (99/99)"
+    const budget = maxLength - THREAD_SUFFIX_RESERVE;
+    const parts: string[] = [];
+    let current = "";
+
+    for (const word of text.split(/(?<=\s)/)) {
+      const candidate = current + word;
+      if (this.countCharacters(candidate.trimEnd(), urlLength) <= budget) {
+        current = candidate;
+        continue;
+      }
+
+      if (current.trim()) {
+        parts.push(current.trim());
+      }
+      current = word;
+
+      // A single word longer than a whole part has to be cut
+      while (this.countCharacters(current.trimEnd(), urlLength) > budget) {
+        const head = this.truncate(current, budget, urlLength);
+        if (!head) break;
+        parts.push(head.trim());
+        current = current.slice(head.length);
+      }
+    }
+    if (current.trim()) {
+      parts.push(current.trim());
+    }
+
+    return parts.map((part, index) => `${part} (${index + 1}/${parts.length})`);
+  }
 }
@@ -0,0 +1,402 @@
+import { StorageProvider, UserAccount } from "../interfaces/storage.ts";
+import {
+  ATProtoHttpClient,
+  MastodonHttpClient,
+} from "../interfaces/http-client.ts";
+import { ATProtoPost, MastodonPost } from "../../shared/types.ts";
+import { BRIDGE_CONFIG } from "../../config.ts";
+import { PostTransformer } from "./post-transformer.ts";
+import { processImageBlob } from "./image-processor.ts";
+import {
+  prependText,
+  statusToRichText,
+  truncateRichText,
+} from "./status-rich-text.ts";
+
+export interface ReverseSyncResult {
+  successful: number;
+  failed: number;
+  skipped: number;
+  errors: Array<{
+    postUri: string;
+    message: string;
+    retryable: boolean;
+  }>;
+}
+
+// Bluesky's limits: post length in graphemes, images per post and bytes
+// per image blob
+const MAX_POST_GRAPHEMES = 300;
+const MAX_IMAGES = 4;
+const MAX_IMAGE_BYTES = 1_000_000;
+
+const TID_ALPHABET = "234567abcdefghijklmnopqrstuvwxyz";
+
+// The name the bridge registers its Mastodon and Misskey apps under
+export const BRIDGE_APP_NAME = "ATProto-to-Fediverse Bridge";
+
+/**
+ * A record key in the TID format Bluesky uses for posts: microseconds since
+ * the epoch and a random clock id, in sortable base32
+ */
+export function generateTid(now: number = Date.now()): string {
+  const micros = BigInt(now) * 1000n +
+    BigInt(Math.floor(Math.random() * 1000));
+  let value = (micros << 10n) | BigInt(Math.floor(Math.random() * 1024));
+
+  let tid = "";
+  for (let i = 0; i < 13; i++) {
+    tid = TID_ALPHABET[Number(value & 31n)] + tid;
+    value >>= 5n;
+  }
+  return tid;
+}
+
+// Status ids are numeric strings too long for a number
+function compareStatusIds(a: string, b: string): number {
+  return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+/**
+ * Posts the account's own public Mastodon statuses to Bluesky. Statuses
+ * the bridge published on Mastodon are recognized by their tracking rows
+ * (any part of a split post) or app name and never sent back, and the
+ * Bluesky copies are tracked (with origin
+ * "mastodon") before they're written, so the Bluesky to Mastodon sync
+ * sees them as already synced.
+ */
+export class ReverseSyncer {
+  constructor(
+    private storage: StorageProvider,
+    private reverseConfig: { max_statuses_per_run: number } =
+      BRIDGE_CONFIG.reverse,
+  ) {}
+
+  /**
+   * Post the statuses after the stored cursor, oldest first. The first run
+   * only records where to start, so turning this on doesn't repost the
+   * account's history.
+   */
+  async syncStatuses(
+    atprotoClient: ATProtoHttpClient,
+    mastodonClient: MastodonHttpClient,
+    account: UserAccount & { atproto_did: string },
+    options: { includeMedia: boolean },
+  ): Promise<ReverseSyncResult> {
+    const result: ReverseSyncResult = {
+      successful: 0,
+      failed: 0,
+      skipped: 0,
+      errors: [],
+    };
+    const mastodonAccount = await mastodonClient.getAccount();
+
+    if (!account.mastodon_status_cursor) {
+      const [newest] = await mastodonClient.getAccountStatuses(
+        mastodonAccount.id,
+        { limit: 1 },
+      );
+      await this.storage.userAccounts.updateSingle({
+        mastodon_status_cursor: newest?.id ?? "0",
+      });
+      console.log("Reverse sync will start from the next Mastodon status");
+      return result;
+    }
+
+    const statuses: MastodonPost[] = (await mastodonClient.getAccountStatuses(
+      mastodonAccount.id,
+      {
+        limit: this.reverseConfig.max_statuses_per_run,
+        min_id: account.mastodon_status_cursor,
+      },
+    )).sort((a, b) => compareStatusIds(a.id, b.id));
+
+    const instanceHost = account.mastodon_instance_url
+      ? new URL(account.mastodon_instance_url).host
+      : undefined;
+    let cursor = account.mastodon_status_cursor;
+
+    for (const status of statuses) {
+      const skipReason = await this.skipReason(status, mastodonAccount.id);
+      if (skipReason) {
+        console.log(
+          `Not posting status ${status.id} to Bluesky: ${skipReason}`,
+        );
+        result.skipped++;
+        cursor = status.id;
+        continue;
+      }
+
+      try {
+        await this.publishStatus(status, atprotoClient, account, {
+          ...options,
+          instanceHost,
+        });
+        result.successful++;
+      } catch (error) {
+        console.error(`Failed to post status ${status.id} to Bluesky:`, error);
+        const message = error instanceof Error
+          ? error.message
+          : "Unknown error";
+        const retryable = await this.recordFailure(status, message);
+        result.failed++;
+        result.errors.push({ postUri: status.url, message, retryable });
+
+        // Later statuses wait for this one, so a reply can't reach Bluesky
+        // before the post it replies to
+        if (retryable) break;
+      }
+      cursor = status.id;
+    }
+
+    if (cursor !== account.mastodon_status_cursor) {
+      await this.storage.userAccounts.updateSingle({
+        mastodon_status_cursor: cursor,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Why a status isn't posted to Bluesky, or null when it should be
+   */
+  private async skipReason(
+    status: MastodonPost,
+    ownAccountId: string,
+  ): Promise<string | null> {
+    // Loop detection: the bridge's own statuses have a tracking row, or at
+    // least its app name when the run that posted them didn't finish
+    const tracked = await this.storage.postTracking.getByMastodonId(status.id);
+    if (
+      (tracked && tracked.origin !== "mastodon") ||
+      status.application?.name === BRIDGE_APP_NAME
+    ) {
+      return "published by the bridge";
+    }
+    if (tracked?.sync_status === "success") return "already on Bluesky";
+
+    if (status.reblog) return "boost";
+    if (status.visibility !== "public") return "not public";
+
+    if (status.in_reply_to_id) {
+      if (status.in_reply_to_account_id !== ownAccountId) {
+        return "reply to another account";
+      }
+      const parent = await this.storage.postTracking.getByMastodonId(
+        status.in_reply_to_id,
+      );
+      if (parent?.sync_status !== "success") {
+        return "replies to a status that isn't on Bluesky";
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Write the Bluesky copy of a status. An interrupted earlier attempt is
+   * resumed under the same record key: if that write went through, the
+   * post is found and tracked instead of being created again.
+   */
+  private async publishStatus(
+    status: MastodonPost,
+    atprotoClient: ATProtoHttpClient,
+    account: UserAccount & { atproto_did: string },
+    options: { includeMedia: boolean; instanceHost?: string },
+  ): Promise<void> {
+    const existing = await this.storage.postTracking.getByMastodonId(
+      status.id,
+    );
+    const rkey = existing?.atproto_rkey ?? generateTid();
+    const uri = existing?.atproto_uri ??
+      `at://${account.atproto_did}/app.bsky.feed.post/${rkey}`;
+
+    let richText = statusToRichText(
+      status.content,
+      status.mentions,
+      options.instanceHost,
+    );
+    if (status.spoiler_text) {
+      richText = prependText(richText, `CW: ${status.spoiler_text}\n\n`);
+    }
+    const { text, facets } = truncateRichText(richText, MAX_POST_GRAPHEMES);
+
+    const record: Record<string, unknown> = {
+      text,
+      createdAt: status.created_at,
+    };
+    if (facets.length > 0) record.facets = facets;
+    if (status.language) record.langs = [status.language];
+
+    if (existing) {
+      const written = await this.findPost(atprotoClient, uri);
+      if (written) {
+        await this.storage.postTracking.updateByUri(uri, {
+          atproto_cid: written.cid,
+          sync_status: "success",
+          synced_at: Math.floor(Date.now() / 1000),
+          error_message: null,
+        });
+        return;
+      }
+    } else {
+      await this.storage.postTracking.create({
+        atproto_uri: uri,
+        atproto_cid: "",
+        atproto_rkey: rkey,
+        content_hash: PostTransformer.generateContentHash({
+          uri,
+          cid: "",
+          author: {
+            did: account.atproto_did,
+            handle: account.atproto_handle ?? "",
+          },
+          record: { text, createdAt: status.created_at, facets },
+          indexedAt: new Date().toISOString(),
+        }),
+        atproto_created_at: Math.floor(
+          new Date(status.created_at).getTime() / 1000,
+        ),
+        origin: "mastodon",
+      });
+    }
+
+    await this.storage.postTracking.updateByUri(uri, {
+      mastodon_id: status.id,
+      mastodon_url: status.url,
+      sync_status: "posting",
+      posting_started_at: Math.floor(Date.now() / 1000),
+    });
+
+    const reply = await this.replyRefs(status, atprotoClient);
+    if (reply) record.reply = reply;
+    if (options.includeMedia) {
+      const embed = await this.uploadImages(status, atprotoClient);
+      if (embed) record.embed = embed;
+    }
+
+    const created = await atprotoClient.createPost(record, rkey);
+    await this.storage.postTracking.updateByUri(uri, {
+      atproto_cid: created.cid,
+      sync_status: "success",
+      synced_at: Math.floor(Date.now() / 1000),
+      error_message: null,
+    });
+    console.log(`Posted status ${status.id} to Bluesky as ${created.uri}`);
+  }
+
+  /**
+   * Thread references for a self-reply, whose parent is on Bluesky either
+   * as the original post or as a reverse-synced copy
+   */
+  private async replyRefs(
+    status: MastodonPost,
+    atprotoClient: ATProtoHttpClient,
+  ): Promise<ATProtoPost["record"]["reply"]> {
+    if (!status.in_reply_to_id) return undefined;
+
+    const parent = await this.storage.postTracking.getByMastodonId(
+      status.in_reply_to_id,
+    );
+    if (!parent) {
+      throw new Error(`Parent status ${status.in_reply_to_id} is not tracked`);
+    }
+
+    const parentPost = await this.findPost(atprotoClient, parent.atproto_uri);
+    const parentRef = {
+      uri: parent.atproto_uri,
+      cid: parentPost?.cid ?? parent.atproto_cid,
+    };
+    return {
+      root: parentPost?.record?.reply?.root ?? parentRef,
+      parent: parentRef,
+    };
+  }
+
+  /**
+   * Upload the status' images as blobs for an images embed. Images over
+   * Bluesky's size limit are scaled down, or left out if they can't be;
+   * other media types aren't bridged.
+   */
+  private async uploadImages(
+    status: MastodonPost,
+    atprotoClient: ATProtoHttpClient,
+  ): Promise<Record<string, unknown> | undefined> {
+    const attachments = (status.media_attachments ?? [])
+      .filter((attachment) => attachment.type === "image")
+      .slice(0, MAX_IMAGES);
+    const images: Array<Record<string, unknown>> = [];
+
+    for (const attachment of attachments) {
+      const response = await fetch(attachment.url);
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch media ${attachment.id}: ${response.status}`,
+        );
+      }
+      const data = await processImageBlob(await response.blob(), {
+        maxBytes: MAX_IMAGE_BYTES,
+      });
+      if (data.size > MAX_IMAGE_BYTES) {
+        console.warn(
+          `Leaving out image ${attachment.id}: ${data.size} bytes is over Bluesky's limit`,
+        );
+        continue;
+      }
+
+      // The blob's type follows the content type, or the new format if the
+      // image was re-encoded
+      const mimeType = data.type.split(";")[0] || "image/jpeg";
+      const { width, height } = attachment.meta?.original ?? {};
+      images.push({
+        alt: attachment.description ?? "",
+        image: await atprotoClient.uploadBlob(data, mimeType),
+        ...(width && height && { aspectRatio: { width, height } }),
+      });
+    }
+
+    return images.length > 0
+      ? { $type: "app.bsky.embed.images", images }
+      : undefined;
+  }
+
+  /**
+   * The post at a URI, or null when it doesn't resolve
+   */
+  private async findPost(
+    atprotoClient: ATProtoHttpClient,
+    uri: string,
+  ): Promise<ATProtoPost | null> {
+    try {
+      const response = await atprotoClient.getPost(uri);
+      return response?.thread?.post ?? null;
+    } catch (_error) {
+      // Missing posts throw with some clients; creating the record again
+      // under the same key fails rather than duplicating it
+      return null;
+    }
+  }
+
+  /**
+   * Count a failed attempt on the status' tracking row. Returns whether
+   * it will be retried on a later run.
+   */
+  private async recordFailure(
+    status: MastodonPost,
+    message: string,
+  ): Promise<boolean> {
+    const tracked = await this.storage.postTracking.getByMastodonId(
+      status.id,
+    );
+    if (tracked?.origin !== "mastodon") return false;
+
+    const retryCount = tracked.retry_count + 1;
+    await this.storage.postTracking.updateByUri(tracked.atproto_uri, {
+      sync_status: "failed",
+      error_message: message,
+      retry_count: retryCount,
+    });
+    return retryCount < tracked.max_retries;
+  }
+}
@@ -0,0 +1,74 @@
+// Which API a fediverse server speaks. Most servers (Mastodon, Pleroma,
+// Akkoma, GoToSocial) implement the Mastodon API; Misskey and its forks
+// have their own, so the bridge talks to them through MisskeyClient.
+
+import {
+  MastodonHttpClient,
+  ServerSoftware,
+} from "../interfaces/http-client.ts";
+import { MastodonClientMasto } from "./mastodon-client-masto.ts";
+import { MisskeyClient } from "./misskey-client.ts";
+
+// nodeinfo software names of Misskey and its forks
+const MISSKEY_FAMILY = [
+  "misskey",
+  "sharkey",
+  "firefish",
+  "calckey",
+  "foundkey",
+  "iceshrimp",
+  "cherrypick",
+  "catodon",
+  "meisskey",
+];
+
+const NODEINFO_SCHEMA_PREFIX = "http://nodeinfo.diaspora.software/ns/schema/";
+
+/**
+ * Probe a server's nodeinfo to tell which API to use. Anything that can't
+ * be identified is assumed to speak the Mastodon API.
+ */
+export async function detectServerSoftware(
+  instanceUrl: string,
+): Promise<ServerSoftware> {
+  try {
+    const wellKnown = await fetch(`${instanceUrl}/.well-known/nodeinfo`, {
+      headers: { "Accept": "application/json" },
+    });
+    if (!wellKnown.ok) return "mastodon";
+
+    // Prefer the newest schema version the server links to
+    const links: Array<{ rel?: string; href?: string }> =
+      (await wellKnown.json())?.links ?? [];
+    const link = links
+      .filter((link) => link.rel?.startsWith(NODEINFO_SCHEMA_PREFIX))
+      .sort((a, b) => b.rel!.localeCompare(a.rel!))[0];
+    if (!link?.href) return "mastodon";
+
+    const nodeinfo = await fetch(link.href, {
+      headers: { "Accept": "application/json" },
+    });
+    if (!nodeinfo.ok) return "mastodon";
+
+    const name = String((await nodeinfo.json())?.software?.name ?? "")
+      .toLowerCase();
+    return MISSKEY_FAMILY.includes(name) ? "misskey" : "mastodon";
+  } catch (error) {
+    console.warn(`Could not read nodeinfo of ${instanceUrl}:`, error);
+    return "mastodon";
+  }
+}
+
+/**
+ * A client for the account's server in the API it speaks. Accounts
+ * connected before software was recorded are Mastodon.
+ */
+export function createFediverseClient(
+  instanceUrl: string,
+  accessToken: string,
+  software?: ServerSoftware | null,
+): MastodonHttpClient {
+  return software === "misskey"
+    ? new MisskeyClient(instanceUrl, accessToken)
+    : new MastodonClientMasto(instanceUrl, accessToken);
+}
@@ -0,0 +1,240 @@
+// Converting Mastodon status HTML to Bluesky rich text. Bluesky keeps post
+// text plain and marks links, hashtags and mentions with facets, whose
+// offsets count UTF-8 bytes rather than JavaScript string indexes.
+
+import { ATProtoPost, MastodonPost } from "../../shared/types.ts";
+
+export type Facet = NonNullable<ATProtoPost["record"]["facets"]>[number];
+
+export interface RichText {
+  text: string;
+  facets: Facet[];
+}
+
+type FacetFeature = Facet["features"][number];
+
+// A facet by string index, converted to byte offsets once the text is final
+interface PendingFacet {
+  start: number;
+  end: number;
+  feature: FacetFeature;
+}
+
+const encoder = new TextEncoder();
+const graphemeSegmenter = new Intl.Segmenter(undefined, {
+  granularity: "grapheme",
+});
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+// A DID in a profile URL, as bridges give Bluesky accounts on Mastodon
+const DID_PATTERN = /did:(?:plc:[a-z2-7]+|web:[a-z0-9.:-]+)/i;
+
+/**
+ * Length of a string in UTF-8 bytes, the unit of facet offsets
+ */
+export function utf8Length(text: string): number {
+  return encoder.encode(text).length;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name.startsWith("#")) {
+        const code = /^#x/i.test(name)
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : entity;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i"),
+  );
+  return match ? decodeEntities(match[1] ?? match[2]) : undefined;
+}
+
+function hasClass(className: string, name: string): boolean {
+  return className.split(/\s+/).includes(name);
+}
+
+/**
+ * Turn a closed <a> into a facet over the text it wrapped. Hashtags become
+ * tag facets; mentions are written out as @user@domain and link to the
+ * profile, or become real mentions when the profile URL carries a DID.
+ */
+function closeLink(
+  text: string,
+  link: { href: string; className: string; start: number },
+  mentions: NonNullable<MastodonPost["mentions"]>,
+  instanceHost: string | undefined,
+  facets: PendingFacet[],
+): string {
+  const label = text.slice(link.start);
+
+  if (hasClass(link.className, "hashtag") && label.length > 1) {
+    facets.push({
+      start: link.start,
+      end: text.length,
+      feature: { $type: "app.bsky.richtext.facet#tag", tag: label.slice(1) },
+    });
+    return text;
+  }
+
+  if (hasClass(link.className, "mention") && label.startsWith("@")) {
+    const acct = mentions.find((mention) => mention.url === link.href)?.acct ??
+      label.slice(1);
+    const did = link.href.match(DID_PATTERN)?.[0];
+    const written = did
+      ? acct.split("@")[0]
+      : acct.includes("@") || !instanceHost
+      ? acct
+      : `${acct}@${instanceHost}`;
+
+    const withMention = `${text.slice(0, link.start)}@${written}`;
+    facets.push({
+      start: link.start,
+      end: withMention.length,
+      feature: did
+        ? { $type: "app.bsky.richtext.facet#mention", did }
+        : { $type: "app.bsky.richtext.facet#link", uri: link.href },
+    });
+    return withMention;
+  }
+
+  if (/^https?:\/\//i.test(link.href) && label.length > 0) {
+    facets.push({
+      start: link.start,
+      end: text.length,
+      feature: { $type: "app.bsky.richtext.facet#link", uri: link.href },
+    });
+  }
+  return text;
+}
+
+/**
+ * Convert a status' HTML content to Bluesky rich text. Paragraphs and line
+ * breaks become newlines, and links keep Mastodon's shortened display text
+ * with the full URL in their facet.
+ */
+export function statusToRichText(
+  html: string,
+  mentions: MastodonPost["mentions"] = [],
+  instanceHost?: string,
+): RichText {
+  let text = "";
+  const facets: PendingFacet[] = [];
+  const spanClasses: string[] = []; // Of the spans currently open
+  let hiddenDepth = 0; // Open spans of the "invisible" class
+  let link: { href: string; className: string; start: number } | null = null;
+
+  for (const [token] of html.matchAll(/<[^>]*>|[^<]+/g)) {
+    if (!token.startsWith("<")) {
+      if (hiddenDepth === 0) text += decodeEntities(token);
+      continue;
+    }
+
+    const tag = token.match(/^<\s*(\/?)\s*([a-z0-9]+)/i);
+    if (!tag) continue;
+    const closing = tag[1] === "/";
+    const name = tag[2].toLowerCase();
+
+    if (name === "br") {
+      text += "\n";
+    } else if (name === "p") {
+      if (!closing && text) text += "\n\n";
+    } else if (name === "span") {
+      if (closing) {
+        const className = spanClasses.pop() ?? "";
+        if (hasClass(className, "invisible")) hiddenDepth--;
+        if (hasClass(className, "ellipsis") && hiddenDepth === 0) {
+          text += "…";
+        }
+      } else {
+        const className = attribute(token, "class") ?? "";
+        spanClasses.push(className);
+        if (hasClass(className, "invisible")) hiddenDepth++;
+      }
+    } else if (name === "a") {
+      if (!closing) {
+        link = {
+          href: attribute(token, "href") ?? "",
+          className: attribute(token, "class") ?? "",
+          start: text.length,
+        };
+      } else if (link) {
+        text = closeLink(text, link, mentions, instanceHost, facets);
+        link = null;
+      }
+    }
+  }
+
+  text = text.trimEnd();
+  return {
+    text,
+    facets: facets
+      .filter((facet) => facet.end <= text.length && facet.end > facet.start)
+      .map((facet) => ({
+        index: {
+          byteStart: utf8Length(text.slice(0, facet.start)),
+          byteEnd: utf8Length(text.slice(0, facet.end)),
+        },
+        features: [facet.feature],
+      })),
+  };
+}
+
+/**
+ * Put text in front of rich text, moving its facets along
+ */
+export function prependText(richText: RichText, prefix: string): RichText {
+  const shift = utf8Length(prefix);
+  return {
+    text: prefix + richText.text,
+    facets: richText.facets.map((facet) => ({
+      ...facet,
+      index: {
+        byteStart: facet.index.byteStart + shift,
+        byteEnd: facet.index.byteEnd + shift,
+      },
+    })),
+  };
+}
+
+/**
+ * Cut rich text down to a number of graphemes (Bluesky's unit for post
+ * length), ending it with "…" and dropping facets that no longer fit
+ */
+export function truncateRichText(
+  richText: RichText,
+  maxGraphemes: number,
+): RichText {
+  const graphemes = [...graphemeSegmenter.segment(richText.text)];
+  if (graphemes.length <= maxGraphemes) return richText;
+
+  const kept = graphemes
+    .slice(0, maxGraphemes - 1)
+    .map(({ segment }) => segment)
+    .join("")
+    .trimEnd();
+  const keptBytes = utf8Length(kept);
+
+  return {
+    text: `${kept}…`,
+    facets: richText.facets.filter((facet) => facet.index.byteEnd <= keptBytes),
+  };
+}
@@ -1,17 +1,37 @@
 // Dependency-injected sync service for better testability
 
-import { StorageProvider } from "../interfaces/storage.ts";
+import {
+  PostTrackingStorage,
+  PRIMARY_DESTINATION_ID,
+  StorageProvider,
+} from "../interfaces/storage.ts";
+import { PostEvent, PostEventSource } from "../interfaces/event-source.ts";
 import {
   ATProtoHttpClient,
   MastodonHttpClient,
+  ServerSoftware,
 } from "../interfaces/http-client.ts";
 import { ATProtoPost, RetryConfig, SyncResult } from "../../shared/types.ts";
 import { BRIDGE_CONFIG } from "../../config.ts";
 import { SetupValidator } from "./setup-validator.ts";
 import { AuthenticationManager } from "./authentication-manager.ts";
 import { PostFetcher } from "./post-fetcher.ts";
-import { PostFilterManager } from "./post-filter.ts";
-import { MastodonSyncer } from "./mastodon-syncer.ts";
+import {
+  FilterRule,
+  matchesFilterRule,
+  PostFilterManager,
+  RuleFilter,
+} from "./post-filter.ts";
+import { MastodonSyncer, RenderedPost } from "./mastodon-syncer.ts";
+import { DeletionReconciler } from "./deletion-reconciler.ts";
+import { Backfiller } from "./backfiller.ts";
+import { AdoptionResult, PostAdopter } from "./post-adopter.ts";
+import { ReverseSyncer } from "./reverse-syncer.ts";
+import {
+  applyDestinationOverrides,
+  resolveSyncSettings,
+  SyncSettings,
+} from "./sync-settings.ts";
 
 export interface SyncServiceDependencies {
   storage: StorageProvider;
@@ -28,8 +48,55 @@ export interface SyncServiceDependencies {
   createMastodonClient: (
     instanceUrl: string,
     accessToken: string,
+    software?: ServerSoftware | null,
   ) => MastodonHttpClient;
   retryConfig?: RetryConfig;
+  mediaPollConfig?: RetryConfig;
+}
+
+export interface RuleMatchPreview {
+  uri: string;
+  text: string;
+  createdAt: string;
+  matchedRules: number[]; // Indexes of the rules that match the post
+  passesRules: boolean;
+}
+
+export interface PostPreview {
+  uri: string;
+  createdAt: string;
+  text: string; // The Bluesky text
+  rejectedBy: string | null; // Name of the filter that skipped the post
+  alreadyTracked: boolean;
+  rendered: RenderedPost | null; // Set for posts the sync would publish
+}
+
+export interface SyncPreview {
+  syncEnabled: boolean;
+  posts: PostPreview[];
+}
+
+// A Mastodon account posts are published to, with its own tracking rows
+interface DestinationTarget {
+  id: number;
+  name: string;
+  storage: StorageProvider; // Post tracking scoped to the destination
+  mastodonClient: MastodonHttpClient;
+  mastodonSyncer: MastodonSyncer;
+  deletionReconciler: DeletionReconciler;
+  settings: SyncSettings;
+}
+
+/**
+ * Thrown when another sync run holds the sync lease
+ */
+export class SyncInProgressError extends Error {
+  constructor(public startedAt: number) {
+    super(
+      `Sync already in progress since ${new Date(startedAt).toISOString()}`,
+    );
+    this.name = "SyncInProgressError";
+  }
 }
 
 export class SyncService {
@@ -39,8 +106,12 @@ export class SyncService {
   private postFetcher: PostFetcher;
   private postFilterManager: PostFilterManager;
   private mastodonSyncer: MastodonSyncer;
+  private deletionReconciler: DeletionReconciler;
+  private backfiller: Backfiller;
+  private postAdopter: PostAdopter;
+  private reverseSyncer: ReverseSyncer;
 
-  constructor(dependencies: SyncServiceDependencies) {
+  constructor(private dependencies: SyncServiceDependencies) {
     this.storage = dependencies.storage;
 
     this.setupValidator = new SetupValidator(dependencies.storage);
@@ -54,7 +125,23 @@ export class SyncService {
     this.mastodonSyncer = new MastodonSyncer(
       dependencies.storage,
       dependencies.retryConfig,
+      dependencies.mediaPollConfig,
     );
+    this.deletionReconciler = new DeletionReconciler(dependencies.storage);
+    this.backfiller = new Backfiller(
+      dependencies.storage,
+      this.postFilterManager,
+      this.mastodonSyncer,
+    );
+    this.postAdopter = new PostAdopter(dependencies.storage);
+    this.reverseSyncer = new ReverseSyncer(dependencies.storage);
+  }
+
+  /**
+   * Get the backfiller (for starting, pausing and cancelling jobs)
+   */
+  getBackfiller(): Backfiller {
+    return this.backfiller;
   }
 
   /**
@@ -65,22 +152,31 @@ export class SyncService {
   }
 
   /**
-   * Filter posts based on config and existing tracking
+   * Load the persisted settings, falling back to the config defaults
+   */
+  private async loadSettings(): Promise<SyncSettings> {
+    return resolveSyncSettings(await this.storage.settings.getSingle());
+  }
+
+  /**
+   * Filter posts based on settings and existing tracking
    */
   private async filterPosts(
     posts: ATProtoPost[],
+    settings: SyncSettings,
+    postTracking: PostTrackingStorage = this.storage.postTracking,
   ): Promise<ATProtoPost[]> {
     const filteredPosts: ATProtoPost[] = [];
 
     for (const post of posts) {
-      // Apply filtering rules using config
-      if (!this.postFilterManager.shouldSyncPost(post, BRIDGE_CONFIG.filters)) {
-        console.log(`Skipping post ${post.uri} (filtered by config)`);
+      // Apply filtering rules using settings
+      if (!this.postFilterManager.shouldSyncPost(post, settings)) {
+        console.log(`Skipping post ${post.uri} (filtered by settings)`);
         continue;
       }
 
       // Check if post already exists
-      const existingPost = await this.storage.postTracking.getByUri(post.uri);
+      const existingPost = await postTracking.getByUri(post.uri);
       if (existingPost) {
         console.log(`Post ${post.uri} already tracked`);
         continue;
@@ -89,13 +185,44 @@ export class SyncService {
       filteredPosts.push(post);
     }
 
-    return filteredPosts;
+    // Post oldest first so thread parents reach Mastodon before their replies
+    return filteredPosts.sort((a, b) =>
+      new Date(a.record.createdAt).getTime() -
+      new Date(b.record.createdAt).getTime()
+    );
   }
 
   /**
-   * Sync posts for the single user
+   * Run a sync while holding the sync lease, so overlapping cron and manual
+   * runs can't both post the same untracked post
    */
-  async syncUser(): Promise<SyncResult> {
+  private async withSyncLease<T>(run: () => Promise<T>): Promise<T> {
+    const holder = crypto.randomUUID();
+    const lease = await this.storage.syncLease.acquire(
+      holder,
+      BRIDGE_CONFIG.sync.lease_minutes * 60 * 1000,
+    );
+    if (!lease) {
+      const current = await this.storage.syncLease.getCurrent();
+      throw new SyncInProgressError(current?.acquired_at ?? Date.now());
+    }
+
+    try {
+      return await run();
+    } finally {
+      await this.storage.syncLease.release(holder);
+    }
+  }
+
+  /**
+   * Sync posts for the single user. Throws SyncInProgressError when
+   * another run is already syncing.
+   */
+  syncUser(): Promise<SyncResult> {
+    return this.withSyncLease(() => this.pollAndSync());
+  }
+
+  private async pollAndSync(): Promise<SyncResult> {
     const startTime = Date.now();
     const result: SyncResult = {
       success: false,
@@ -113,35 +240,39 @@ export class SyncService {
         return { ...result, success: true };
       }
 
+      const settings = await this.loadSettings();
+      if (!settings.sync_enabled) {
+        console.log("Sync is disabled in settings, skipping");
+        return { ...result, success: true };
+      }
+
       // Validate authentication and create clients
       const { atprotoClient, mastodonClient } = await this.authenticationManager
         .validateAuthenticationAndCreateClients(account);
 
       // Fetch posts from ATProto
-      const { posts, cursor: newCursor } = await this.postFetcher.fetchPosts(
-        atprotoClient,
-        account,
-      );
-      result.postsProcessed = posts.length;
+      const { posts, reposts, cursor: newCursor } = await this.postFetcher
+        .fetchPosts(
+          atprotoClient,
+          account,
+        );
+      result.postsProcessed += posts.length;
 
       console.log(`Found ${posts.length} posts for user`);
 
-      // Filter posts
-      const filteredPosts = await this.filterPosts(posts);
-
-      console.log(`${filteredPosts.length} posts passed filtering`);
-
-      // Sync filtered posts
-      const syncResults = await this.mastodonSyncer.syncPosts(
-        filteredPosts,
+      const primary = this.primaryTarget(mastodonClient, settings);
+      await this.publishToTarget(primary, posts, reposts, atprotoClient, {
+        reconcile: true,
+      }, result);
+      await this.publishToDestinations(
+        posts,
+        reposts,
         atprotoClient,
-        mastodonClient,
+        settings,
+        { reconcile: true },
+        result,
       );
 
-      result.postsSuccessful += syncResults.successful;
-      result.postsFailed += syncResults.failed;
-      result.errors.push(...syncResults.errors);
-
       // Update last sync time and cursor
       await this.storage.userAccounts.updateSingle({
         last_sync_at: Date.now(),
@@ -158,9 +289,639 @@ export class SyncService {
       });
     }
 
-    // Log sync operation
+    await this.logSync(result, startTime, "cron");
+
+    return result;
+  }
+
+  /**
+   * Sync posts delivered by a push-based event source (e.g. Jetstream)
+   * through the same filter/transform/sync pipeline as polling. Throws
+   * SyncInProgressError when another run is already syncing.
+   */
+  syncFromEventSource(eventSource: PostEventSource): Promise<SyncResult> {
+    return this.withSyncLease(() => this.syncEvents(eventSource));
+  }
+
+  private async syncEvents(
+    eventSource: PostEventSource,
+  ): Promise<SyncResult> {
+    const startTime = Date.now();
+    const result: SyncResult = {
+      success: false,
+      postsProcessed: 0,
+      postsSuccessful: 0,
+      postsFailed: 0,
+      errors: [],
+    };
+
+    try {
+      // Validate setup
+      const { account, shouldProceed } = await this.setupValidator
+        .validateSetup();
+      if (!shouldProceed) {
+        return { ...result, success: true };
+      }
+
+      const settings = await this.loadSettings();
+      if (!settings.sync_enabled) {
+        console.log("Sync is disabled in settings, skipping");
+        return { ...result, success: true };
+      }
+
+      // Validate authentication and create clients
+      const { atprotoClient, mastodonClient } = await this.authenticationManager
+        .validateAuthenticationAndCreateClients(account);
+
+      // Resume from the stored cursor, or from the last poll when switching over
+      const startCursor = account.jetstream_cursor ??
+        (account.last_sync_at ? account.last_sync_at * 1000 : undefined);
+      const { events, cursor } = await eventSource.fetchEvents({
+        did: account.atproto_did,
+        cursor: startCursor,
+      });
+
+      const posts = events
+        .filter((event) => event.operation !== "delete" && event.record)
+        .map((event) => this.eventToPost(event, account));
+      result.postsProcessed += posts.length;
+
+      console.log(`Received ${events.length} events for user`);
+
+      // Deletes arrive as events, so no need to poll getPost for them
+      const deletedUris = events
+        .filter((event) => event.operation === "delete")
+        .map((event) => event.uri);
+
+      const primary = this.primaryTarget(mastodonClient, settings);
+      await this.publishToTarget(primary, posts, [], atprotoClient, {
+        reconcile: false,
+        deletedUris,
+      }, result);
+      await this.publishToDestinations(posts, [], atprotoClient, settings, {
+        reconcile: false,
+        deletedUris,
+      }, result);
+
+      await this.storage.userAccounts.updateSingle({
+        last_sync_at: Date.now(),
+        jetstream_cursor: cursor ?? startCursor,
+      });
+
+      result.success = true;
+    } catch (error) {
+      console.error(`Event sync error:`, error);
+      result.errors.push({
+        postUri: "general",
+        message: error instanceof Error ? error.message : "Unknown error",
+        retryable: false,
+      });
+    }
+
+    await this.logSync(result, startTime, "webhook");
+
+    return result;
+  }
+
+  /**
+   * Advance a running backfill job by one chunk. Does nothing when no job
+   * is running. Throws SyncInProgressError when another run is syncing.
+   */
+  async runBackfill(): Promise<SyncResult> {
+    const job = await this.storage.backfillJobs.get();
+    if (job?.status !== "running") {
+      return {
+        success: true,
+        postsProcessed: 0,
+        postsSuccessful: 0,
+        postsFailed: 0,
+        errors: [],
+      };
+    }
+
+    return await this.withSyncLease(() => this.backfillChunk());
+  }
+
+  private async backfillChunk(): Promise<SyncResult> {
+    const startTime = Date.now();
+    const result: SyncResult = {
+      success: false,
+      postsProcessed: 0,
+      postsSuccessful: 0,
+      postsFailed: 0,
+      errors: [],
+    };
+
+    try {
+      const { account, shouldProceed } = await this.setupValidator
+        .validateSetup();
+      if (!shouldProceed) {
+        return { ...result, success: true };
+      }
+
+      const settings = await this.loadSettings();
+      if (!settings.sync_enabled) {
+        console.log("Sync is disabled in settings, skipping backfill");
+        return { ...result, success: true };
+      }
+
+      const { atprotoClient, mastodonClient } = await this.authenticationManager
+        .validateAuthenticationAndCreateClients(account);
+
+      const targets = [
+        this.primaryTarget(mastodonClient, settings),
+        ...await this.loadDestinations(settings),
+      ];
+      const chunkResults = await this.backfiller.runChunk(
+        atprotoClient,
+        targets,
+        account.atproto_did,
+      );
+
+      result.postsProcessed += chunkResults.successful + chunkResults.failed;
+      result.postsSuccessful += chunkResults.successful;
+      result.postsFailed += chunkResults.failed;
+      result.errors.push(...chunkResults.errors);
+      result.success = true;
+    } catch (error) {
+      console.error(`Backfill error:`, error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      result.errors.push({ postUri: "general", message, retryable: true });
+      await this.storage.backfillJobs.update({ error_message: message });
+    }
+
+    await this.logSync(result, startTime, "cron");
+
+    return result;
+  }
+
+  /**
+   * Post new public statuses from the home Mastodon account to Bluesky,
+   * when the reverse_sync setting is on. Throws SyncInProgressError when
+   * another run is syncing.
+   */
+  async runReverseSync(): Promise<SyncResult> {
+    const settings = await this.loadSettings();
+    if (!settings.reverse_sync || !settings.sync_enabled) {
+      return {
+        success: true,
+        postsProcessed: 0,
+        postsSuccessful: 0,
+        postsFailed: 0,
+        errors: [],
+      };
+    }
+
+    return await this.withSyncLease(() => this.reverseSyncStatuses(settings));
+  }
+
+  private async reverseSyncStatuses(
+    settings: SyncSettings,
+  ): Promise<SyncResult> {
+    const startTime = Date.now();
+    const result: SyncResult = {
+      success: false,
+      postsProcessed: 0,
+      postsSuccessful: 0,
+      postsFailed: 0,
+      errors: [],
+    };
+
+    try {
+      const { account, shouldProceed } = await this.setupValidator
+        .validateSetup();
+      if (!shouldProceed) {
+        return { ...result, success: true };
+      }
+
+      const { atprotoClient, mastodonClient } = await this.authenticationManager
+        .validateAuthenticationAndCreateClients(account);
+
+      const reverseResults = await this.reverseSyncer.syncStatuses(
+        atprotoClient,
+        mastodonClient,
+        account,
+        { includeMedia: settings.include_media },
+      );
+
+      result.postsProcessed += reverseResults.successful +
+        reverseResults.failed + reverseResults.skipped;
+      result.postsSuccessful += reverseResults.successful;
+      result.postsFailed += reverseResults.failed;
+      result.errors.push(...reverseResults.errors);
+      result.success = true;
+    } catch (error) {
+      console.error(`Reverse sync error:`, error);
+      result.errors.push({
+        postUri: "general",
+        message: error instanceof Error ? error.message : "Unknown error",
+        retryable: true,
+      });
+    }
+
+    await this.logSync(result, startTime, "cron");
+
+    return result;
+  }
+
+  /**
+   * Mark recent posts that already exist on Mastodon (e.g. published by
+   * another crossposter) as synced. With dryRun, only report the matches.
+   * Throws SyncInProgressError when another run is syncing.
+   */
+  async adoptExistingPosts(dryRun: boolean): Promise<AdoptionResult> {
+    const adopt = async () => {
+      const { account, shouldProceed } = await this.setupValidator
+        .validateSetup();
+      if (!shouldProceed) {
+        throw new Error("Setup is not complete");
+      }
+
+      const { atprotoClient, mastodonClient } = await this
+        .authenticationManager
+        .validateAuthenticationAndCreateClients(account);
+
+      return await this.postAdopter.adopt(
+        atprotoClient,
+        mastodonClient,
+        account.atproto_did,
+        dryRun,
+      );
+    };
+
+    // Adopting writes tracking rows, so it mustn't race a sync posting
+    // the same posts
+    return dryRun ? await adopt() : await this.withSyncLease(adopt);
+  }
+
+  /**
+   * Dry run of the next sync: fetch, filter and format posts exactly as
+   * syncUser would, without posting anything or writing tracking rows
+   */
+  async previewSync(): Promise<SyncPreview> {
+    const { account, shouldProceed } = await this.setupValidator
+      .validateSetup();
+    if (!shouldProceed) {
+      throw new Error("Setup is not complete");
+    }
+
+    const settings = await this.loadSettings();
+    const { atprotoClient, mastodonClient } = await this.authenticationManager
+      .validateAuthenticationAndCreateClients(account);
+
+    const { posts } = await this.postFetcher.fetchPosts(
+      atprotoClient,
+      account,
+    );
+
+    const previews: PostPreview[] = [];
+    const publishable: ATProtoPost[] = [];
+    for (const post of posts) {
+      const rejectedBy = this.postFilterManager.getRejectingFilter(
+        post,
+        settings,
+      );
+      const alreadyTracked = !!await this.storage.postTracking.getByUri(
+        post.uri,
+      );
+      if (!rejectedBy && !alreadyTracked) {
+        publishable.push(post);
+      }
+
+      previews.push({
+        uri: post.uri,
+        createdAt: post.record.createdAt,
+        text: post.record.text,
+        rejectedBy,
+        alreadyTracked,
+        rendered: null,
+      });
+    }
+
+    const rendered = await this.mastodonSyncer.previewPosts(
+      publishable,
+      atprotoClient,
+      mastodonClient,
+    );
+    publishable.forEach((post, index) => {
+      previews.find((preview) => preview.uri === post.uri)!.rendered =
+        rendered[index];
+    });
+
+    return { syncEnabled: settings.sync_enabled, posts: previews };
+  }
+
+  /**
+   * Show which of the user's recent posts each rule would match, without
+   * syncing anything
+   */
+  async previewFilterRules(rules: FilterRule[]): Promise<RuleMatchPreview[]> {
+    const { account, shouldProceed } = await this.setupValidator
+      .validateSetup();
+    if (!shouldProceed) {
+      throw new Error("Setup is not complete");
+    }
+
+    const { atprotoClient } = await this.authenticationManager
+      .validateAuthenticationAndCreateClients(account);
+
+    // Look at recent posts regardless of what was already synced
+    const { posts } = await this.postFetcher.fetchPosts(atprotoClient, {
+      ...account,
+      last_sync_cursor: undefined,
+      last_sync_at: undefined,
+    });
+
+    const ruleFilter = new RuleFilter();
+    return posts.map((post) => ({
+      uri: post.uri,
+      text: post.record.text,
+      createdAt: post.record.createdAt,
+      matchedRules: rules
+        .map((rule, index) => matchesFilterRule(post, rule) ? index : -1)
+        .filter((index) => index >= 0),
+      passesRules: ruleFilter.shouldSyncPost(post, { filter_rules: rules }),
+    }));
+  }
+
+  /**
+   * The account's own Mastodon connection as a publishing target
+   */
+  private primaryTarget(
+    mastodonClient: MastodonHttpClient,
+    settings: SyncSettings,
+  ): DestinationTarget {
+    return {
+      id: PRIMARY_DESTINATION_ID,
+      name: "primary",
+      storage: this.storage,
+      mastodonClient,
+      mastodonSyncer: this.mastodonSyncer,
+      deletionReconciler: this.deletionReconciler,
+      settings,
+    };
+  }
+
+  /**
+   * Enabled additional destinations, each with its own client, tracking
+   * rows, posting options and settings overrides
+   */
+  private async loadDestinations(
+    settings: SyncSettings,
+  ): Promise<DestinationTarget[]> {
+    const destinations = await this.storage.destinations.list();
+
+    return destinations
+      .filter((destination) => destination.enabled && destination.access_token)
+      .map((destination) => {
+        // Everything but post tracking is shared with the primary
+        const storage: StorageProvider = Object.assign(
+          Object.create(this.storage),
+          {
+            postTracking: this.storage.postTracking.forDestination(
+              destination.id,
+            ),
+          },
+        );
+        const destinationSettings = applyDestinationOverrides(
+          settings,
+          destination.filter_overrides,
+        );
+
+        return {
+          id: destination.id,
+          name: destination.name,
+          storage,
+          mastodonClient: this.dependencies.createMastodonClient(
+            destination.instance_url,
+            destination.access_token!,
+            destination.software,
+          ),
+          mastodonSyncer: new MastodonSyncer(
+            storage,
+            this.dependencies.retryConfig,
+            this.dependencies.mediaPollConfig,
+            {
+              visibility: destination.visibility,
+              includeMedia: destinationSettings.include_media,
+            },
+          ),
+          deletionReconciler: new DeletionReconciler(storage),
+          settings: destinationSettings,
+        };
+      });
+  }
+
+  /**
+   * Publish to every additional destination. A destination that fails is
+   * reported in the result without holding up the others.
+   */
+  private async publishToDestinations(
+    posts: ATProtoPost[],
+    reposts: ATProtoPost[],
+    atprotoClient: ATProtoHttpClient,
+    settings: SyncSettings,
+    options: { reconcile: boolean; deletedUris?: string[] },
+    result: SyncResult,
+  ): Promise<void> {
+    for (const target of await this.loadDestinations(settings)) {
+      try {
+        await this.publishToTarget(
+          target,
+          posts,
+          reposts,
+          atprotoClient,
+          options,
+          result,
+        );
+      } catch (error) {
+        console.error(`Sync to destination ${target.name} failed:`, error);
+        result.errors.push({
+          postUri: "general",
+          message: `${target.name}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          retryable: true,
+        });
+      }
+    }
+  }
+
+  /**
+   * Run one destination's part of a sync: retry its failed posts, publish
+   * the new ones, boost reposts and mirror deletions and edits. Deletions
+   * are found by re-checking recent posts (reconcile) or given as URIs.
+   */
+  private async publishToTarget(
+    target: DestinationTarget,
+    posts: ATProtoPost[],
+    reposts: ATProtoPost[],
+    atprotoClient: ATProtoHttpClient,
+    options: { reconcile: boolean; deletedUris?: string[] },
+    result: SyncResult,
+  ): Promise<void> {
+    // Retry earlier failures whose backoff has elapsed
+    await this.retryFailedPosts(target, atprotoClient, result);
+
+    const filteredPosts = await this.filterPosts(
+      posts,
+      target.settings,
+      target.storage.postTracking,
+    );
+
+    console.log(
+      `${filteredPosts.length} posts passed filtering for ${target.name}`,
+    );
+
+    const syncResults = await target.mastodonSyncer.syncPosts(
+      filteredPosts,
+      atprotoClient,
+      target.mastodonClient,
+    );
+
+    result.postsSuccessful += syncResults.successful;
+    result.postsFailed += syncResults.failed;
+    result.errors.push(...syncResults.errors);
+
+    // Resurface own posts that were reposted on Bluesky
+    if (BRIDGE_CONFIG.sync.boost_own_reposts && reposts.length > 0) {
+      const boosted = await target.mastodonSyncer.boostReposts(
+        reposts,
+        target.mastodonClient,
+      );
+      console.log(`Boosted ${boosted} reposted posts on ${target.name}`);
+    }
+
+    const { propagate_deletions, propagate_edits } = BRIDGE_CONFIG.sync;
+    let editedPosts: ATProtoPost[] = [];
+    if (options.reconcile && (propagate_deletions || propagate_edits)) {
+      // Remove Mastodon copies of posts deleted on Bluesky, and pick up
+      // edits to posts older than this poll
+      const reconciled = await target.deletionReconciler.reconcileSyncedPosts(
+        atprotoClient,
+        target.mastodonClient,
+        BRIDGE_CONFIG.sync.deletion_check_limit,
+        propagate_deletions,
+      );
+      if (reconciled.deleted > 0) {
+        console.log(`Deleted ${reconciled.deleted} posts from ${target.name}`);
+      }
+      editedPosts = reconciled.edited;
+    }
+
+    if (propagate_deletions) {
+      for (const uri of options.deletedUris ?? []) {
+        const tracked = await target.storage.postTracking.getByUri(uri);
+        // Deleting the Bluesky copy of a reverse-synced status leaves the
+        // Mastodon original alone
+        if (
+          tracked?.sync_status !== "success" || tracked.origin === "mastodon"
+        ) continue;
+
+        try {
+          await target.deletionReconciler.deleteFromMastodon(
+            tracked,
+            target.mastodonClient,
+          );
+        } catch (error) {
+          console.error(`Failed to delete ${uri} on ${target.name}:`, error);
+        }
+      }
+    }
+
+    await this.propagateEdits(
+      target,
+      [...posts, ...editedPosts],
+      atprotoClient,
+      result,
+    );
+  }
+
+  /**
+   * Edit the Mastodon copies of synced posts whose record changed on
+   * Bluesky (a new CID for the same URI), and add the outcome to the run's
+   * result
+   */
+  private async propagateEdits(
+    target: DestinationTarget,
+    posts: ATProtoPost[],
+    atprotoClient: ATProtoHttpClient,
+    result: SyncResult,
+  ): Promise<void> {
+    if (!BRIDGE_CONFIG.sync.propagate_edits) return;
+
+    const editedPosts = new Map<string, ATProtoPost>();
+    for (const post of posts) {
+      const tracked = await target.storage.postTracking.getByUri(post.uri);
+      if (
+        tracked?.sync_status === "success" && tracked.mastodon_id &&
+        tracked.origin !== "mastodon" && tracked.atproto_cid !== post.cid
+      ) {
+        editedPosts.set(post.uri, post);
+      }
+    }
+    if (editedPosts.size === 0) return;
+
+    const editResults = await target.mastodonSyncer.editPosts(
+      [...editedPosts.values()],
+      atprotoClient,
+      target.mastodonClient,
+    );
+    console.log(`Edited ${editResults.successful} posts on Mastodon`);
+
+    result.postsSuccessful += editResults.successful;
+    result.postsFailed += editResults.failed;
+    result.errors.push(...editResults.errors);
+  }
+
+  /**
+   * Retry failed posts and add the outcome to the run's result
+   */
+  private async retryFailedPosts(
+    target: DestinationTarget,
+    atprotoClient: ATProtoHttpClient,
+    result: SyncResult,
+  ): Promise<void> {
+    const retryResults = await target.mastodonSyncer.retryFailedPosts(
+      atprotoClient,
+      target.mastodonClient,
+    );
+
+    result.postsProcessed += retryResults.successful + retryResults.failed;
+    result.postsSuccessful += retryResults.successful;
+    result.postsFailed += retryResults.failed;
+    result.errors.push(...retryResults.errors);
+  }
+
+  /**
+   * Build a post from a create/update event for the account's own repo
+   */
+  private eventToPost(event: PostEvent, account: any): ATProtoPost {
+    return {
+      uri: event.uri,
+      cid: event.cid!,
+      author: {
+        did: account.atproto_did,
+        handle: account.atproto_handle,
+      },
+      record: {
+        ...event.record!,
+        text: event.record!.text || "",
+      },
+      indexedAt: new Date(event.timeUs / 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Record a sync operation in the sync log
+   */
+  private async logSync(
+    result: SyncResult,
+    startTime: number,
+    syncType: "manual" | "cron" | "webhook",
+  ): Promise<void> {
     await this.storage.syncLogs.create({
-      sync_type: "cron",
+      sync_type: syncType,
       posts_fetched: result.postsProcessed,
       posts_synced: result.postsSuccessful,
       posts_failed: result.postsFailed,
@@ -171,7 +932,5 @@ export class SyncService {
         : undefined,
       duration_ms: Date.now() - startTime,
     });
-
-    return result;
   }
 }
@@ -0,0 +1,148 @@
+import { Settings } from "../interfaces/storage.ts";
+import { BRIDGE_CONFIG } from "../../config.ts";
+import {
+  FilterRule,
+  parseFilterRules,
+  validateFilterRule,
+} from "./post-filter.ts";
+
+/**
+ * Settings that drive a sync run: the persisted settings row where one
+ * exists, with config.ts supplying the defaults and the options that
+ * aren't stored
+ */
+export interface SyncSettings {
+  sync_enabled: boolean;
+  skip_replies: boolean;
+  sync_self_threads: boolean;
+  skip_mentions: boolean;
+  skip_reposts: boolean;
+  sync_quote_posts: boolean;
+  include_media: boolean;
+  compress_images: boolean; // Re-encode images even when within limits
+  reverse_sync: boolean; // Also bridge Mastodon statuses to Bluesky
+  filter_rules: FilterRule[];
+}
+
+// Settings that can be changed from the dashboard
+export const EDITABLE_SETTINGS = [
+  "sync_enabled",
+  "skip_replies",
+  "skip_mentions",
+  "skip_reposts",
+  "include_media",
+  "compress_images",
+  "reverse_sync",
+] as const;
+
+export type EditableSetting = typeof EDITABLE_SETTINGS[number];
+
+export function defaultSyncSettings(): SyncSettings {
+  return {
+    sync_enabled: true,
+    ...BRIDGE_CONFIG.filters,
+    include_media: BRIDGE_CONFIG.media.include_media,
+    compress_images: BRIDGE_CONFIG.media.compress_images,
+    reverse_sync: BRIDGE_CONFIG.reverse.enabled,
+    filter_rules: [],
+  };
+}
+
+/**
+ * Merge the stored settings over the config defaults. SQLite stores
+ * booleans as 0/1, so stored values are coerced.
+ */
+export function resolveSyncSettings(stored: Settings | null): SyncSettings {
+  const settings = defaultSyncSettings();
+  if (!stored) return settings;
+
+  for (const key of EDITABLE_SETTINGS) {
+    const value = stored[key] as unknown;
+    if (value !== null && value !== undefined) {
+      settings[key] = Boolean(value);
+    }
+  }
+
+  settings.filter_rules = parseFilterRules(stored.filter_rules);
+
+  return settings;
+}
+
+// Settings an additional destination can set differently from the bridge
+export const DESTINATION_OVERRIDES = [
+  "skip_replies",
+  "skip_mentions",
+  "skip_reposts",
+  "sync_quote_posts",
+  "include_media",
+] as const;
+
+export type DestinationOverrides =
+  & Partial<Pick<SyncSettings, typeof DESTINATION_OVERRIDES[number]>>
+  & { filter_rules?: FilterRule[] };
+
+/**
+ * Check a destination's overrides object, returning an error message for
+ * the first problem found
+ */
+export function validateDestinationOverrides(value: unknown): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "Filter overrides must be an object";
+  }
+
+  for (const [key, setting] of Object.entries(value)) {
+    if (key === "filter_rules") {
+      if (!Array.isArray(setting)) {
+        return "filter_rules must be an array";
+      }
+      for (const [index, rule] of setting.entries()) {
+        const error = validateFilterRule(rule);
+        if (error) return `Rule ${index + 1}: ${error}`;
+      }
+    } else if (
+      !(DESTINATION_OVERRIDES as readonly string[]).includes(key)
+    ) {
+      return `Unknown override: ${key}`;
+    } else if (typeof setting !== "boolean") {
+      return `Override ${key} must be a boolean`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply a destination's stored overrides (JSON) to the bridge settings.
+ * Unreadable overrides are ignored rather than failing the sync.
+ */
+export function applyDestinationOverrides(
+  settings: SyncSettings,
+  stored: string | null | undefined,
+): SyncSettings {
+  if (!stored) return settings;
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(stored);
+  } catch (error) {
+    console.warn("Ignoring unreadable destination overrides:", error);
+    return settings;
+  }
+  if (validateDestinationOverrides(overrides)) {
+    console.warn("Ignoring invalid destination overrides:", stored);
+    return settings;
+  }
+
+  return { ...settings, ...overrides as DestinationOverrides };
+}
+
+/**
+ * The subset of settings exposed to the dashboard
+ */
+export function editableSettings(
+  settings: SyncSettings,
+): Record<EditableSetting, boolean> {
+  return Object.fromEntries(
+    EDITABLE_SETTINGS.map((key) => [key, settings[key]]),
+  ) as Record<EditableSetting, boolean>;
+}
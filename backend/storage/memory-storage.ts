@@ -1,24 +1,35 @@
 // In-memory implementation of storage interfaces for testing
 
 import {
+  BackfillJob,
+  BackfillJobStorage,
+  DEFAULT_USER_ID,
+  Destination,
+  DestinationStorage,
   PostTracking,
   PostTrackingStorage,
+  PRIMARY_DESTINATION_ID,
   Settings,
   SettingsStorage,
   StorageProvider,
+  SyncLease,
+  SyncLeaseStorage,
   SyncLog,
   SyncLogStorage,
   SyncStats,
   UserAccount,
   UserAccountStorage,
 } from "../interfaces/storage.ts";
+import { ServerSoftware } from "../interfaces/http-client.ts";
 
 export class InMemoryUserAccountStorage implements UserAccountStorage {
   private account: UserAccount | null = null;
 
+  constructor(private userId: number = DEFAULT_USER_ID) {}
+
   create(): Promise<UserAccount> {
     this.account = {
-      id: 1,
+      id: this.userId,
       setup_completed: false,
       created_at: Date.now(),
       updated_at: Date.now(),
@@ -50,16 +61,20 @@ export class InMemoryUserAccountStorage implements UserAccountStorage {
 export class InMemorySettingsStorage implements SettingsStorage {
   private settings: Settings | null = null;
 
+  constructor(private userId: number = DEFAULT_USER_ID) {}
+
   create(): Promise<Settings> {
     this.settings = {
-      id: 1,
+      id: this.userId,
       sync_enabled: true,
       sync_interval_minutes: 15,
       skip_replies: true,
       skip_mentions: true,
-      skip_reposts: false,
+      skip_reposts: null,
       include_media: true,
       compress_images: false,
+      reverse_sync: null,
+      filter_rules: null,
       created_at: Date.now(),
       updated_at: Date.now(),
     };
@@ -88,8 +103,23 @@ export class InMemorySettingsStorage implements SettingsStorage {
 }
 
 export class InMemoryPostTrackingStorage implements PostTrackingStorage {
-  private posts = new Map<string, PostTracking>();
-  private nextId = 1;
+  private posts: Map<string, PostTracking>;
+
+  constructor(
+    private destinationId: number = PRIMARY_DESTINATION_ID,
+    // Rows of every destination, shared between the scoped views
+    private rows = new Map<number, Map<string, PostTracking>>(),
+    private ids = { next: 1 },
+  ) {
+    if (!rows.has(destinationId)) {
+      rows.set(destinationId, new Map());
+    }
+    this.posts = rows.get(destinationId)!;
+  }
+
+  forDestination(destinationId: number): InMemoryPostTrackingStorage {
+    return new InMemoryPostTrackingStorage(destinationId, this.rows, this.ids);
+  }
 
   create(data: {
     atproto_uri: string;
@@ -97,9 +127,12 @@ export class InMemoryPostTrackingStorage implements PostTrackingStorage {
     atproto_rkey: string;
     content_hash: string;
     atproto_created_at: number;
+    origin?: "bluesky" | "mastodon";
   }): Promise<PostTracking> {
     const post: PostTracking = {
-      id: this.nextId++,
+      id: this.ids.next++,
+      destination_id: this.destinationId,
+      origin: data.origin ?? "bluesky",
       atproto_uri: data.atproto_uri,
       atproto_cid: data.atproto_cid,
       atproto_rkey: data.atproto_rkey,
@@ -119,6 +152,23 @@ export class InMemoryPostTrackingStorage implements PostTrackingStorage {
     return Promise.resolve(this.posts.get(atprotoUri) || null);
   }
 
+  getByMastodonId(mastodonId: string): Promise<PostTracking | null> {
+    return Promise.resolve(
+      Array.from(this.posts.values()).find((post) =>
+        post.mastodon_id === mastodonId ||
+        (JSON.parse(post.mastodon_thread_ids ?? "[]") as string[])
+          .includes(mastodonId)
+      ) ?? null,
+    );
+  }
+
+  // Rows of the Bluesky to Mastodon sync's work queues
+  private forwardRows(): PostTracking[] {
+    return Array.from(this.posts.values()).filter((post) =>
+      post.origin !== "mastodon"
+    );
+  }
+
   updateByUri(
     atprotoUri: string,
     updates: Partial<PostTracking>,
@@ -133,7 +183,7 @@ export class InMemoryPostTrackingStorage implements PostTrackingStorage {
 
   getPending(): Promise<PostTracking[]> {
     return Promise.resolve(
-      Array.from(this.posts.values())
+      this.forwardRows()
         .filter((post) =>
           post.sync_status === "pending" &&
           post.retry_count < post.max_retries
@@ -144,12 +194,28 @@ export class InMemoryPostTrackingStorage implements PostTrackingStorage {
 
   getFailed(): Promise<PostTracking[]> {
     return Promise.resolve(
-      Array.from(this.posts.values())
+      this.forwardRows()
         .filter((post) => post.sync_status === "failed")
         .sort((a, b) => b.updated_at - a.updated_at),
     );
   }
 
+  getPosting(): Promise<PostTracking[]> {
+    return Promise.resolve(
+      this.forwardRows()
+        .filter((post) => post.sync_status === "posting"),
+    );
+  }
+
+  getSynced(limit: number = 20): Promise<PostTracking[]> {
+    return Promise.resolve(
+      this.forwardRows()
+        .filter((post) => post.sync_status === "success" && post.mastodon_id)
+        .sort((a, b) => b.atproto_created_at - a.atproto_created_at)
+        .slice(0, limit),
+    );
+  }
+
   getRecent(limit: number = 50): Promise<PostTracking[]> {
     return Promise.resolve(
       Array.from(this.posts.values())
@@ -177,8 +243,8 @@ export class InMemoryPostTrackingStorage implements PostTrackingStorage {
 
   // Test helpers
   clear(): void {
-    this.posts.clear();
-    this.nextId = 1;
+    this.rows.forEach((posts) => posts.clear());
+    this.ids.next = 1;
   }
 
   size(): number {
@@ -247,17 +313,182 @@ export class InMemorySyncLogStorage implements SyncLogStorage {
   }
 }
 
+export class InMemorySyncLeaseStorage implements SyncLeaseStorage {
+  private lease: SyncLease | null = null;
+
+  acquire(holder: string, ttlMs: number): Promise<SyncLease | null> {
+    const now = Date.now();
+    if (this.lease && this.lease.expires_at > now) {
+      return Promise.resolve(null);
+    }
+
+    this.lease = {
+      id: 1,
+      holder,
+      acquired_at: now,
+      expires_at: now + ttlMs,
+    };
+    return Promise.resolve({ ...this.lease });
+  }
+
+  release(holder: string): Promise<void> {
+    if (this.lease?.holder === holder) {
+      this.lease = null;
+    }
+    return Promise.resolve();
+  }
+
+  getCurrent(): Promise<SyncLease | null> {
+    const active = this.lease && this.lease.expires_at > Date.now();
+    return Promise.resolve(active ? { ...this.lease! } : null);
+  }
+
+  // Test helpers
+  clear(): void {
+    this.lease = null;
+  }
+}
+
+export class InMemoryBackfillJobStorage implements BackfillJobStorage {
+  private job: BackfillJob | null = null;
+
+  create(data: {
+    since_at: number;
+    until_at: number;
+    max_posts: number;
+    add_date_prefix: boolean;
+  }): Promise<BackfillJob> {
+    this.job = {
+      id: 1,
+      status: "running",
+      phase: "scanning",
+      ...data,
+      feed_cursor: null,
+      queue: "[]",
+      position: 0,
+      posts_synced: 0,
+      posts_failed: 0,
+      error_message: null,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    };
+    return Promise.resolve({ ...this.job });
+  }
+
+  get(): Promise<BackfillJob | null> {
+    return Promise.resolve(this.job ? { ...this.job } : null);
+  }
+
+  update(updates: Partial<BackfillJob>): Promise<void> {
+    if (this.job) {
+      Object.assign(this.job, updates, { updated_at: Date.now() });
+    }
+    return Promise.resolve();
+  }
+
+  // Test helpers
+  clear(): void {
+    this.job = null;
+  }
+}
+
+export class InMemoryDestinationStorage implements DestinationStorage {
+  private destinations = new Map<number, Destination>();
+  private nextId = 1;
+
+  create(data: {
+    name: string;
+    instance_url: string;
+    client_id: string;
+    client_secret: string;
+    software?: ServerSoftware;
+  }): Promise<Destination> {
+    const destination: Destination = {
+      id: this.nextId++,
+      ...data,
+      software: data.software ?? null,
+      username: null,
+      access_token: null,
+      visibility: "public",
+      filter_overrides: null,
+      enabled: false,
+      created_at: Date.now(),
+      updated_at: Date.now(),
+    };
+    this.destinations.set(destination.id, destination);
+    return Promise.resolve({ ...destination });
+  }
+
+  get(id: number): Promise<Destination | null> {
+    const destination = this.destinations.get(id);
+    return Promise.resolve(destination ? { ...destination } : null);
+  }
+
+  list(): Promise<Destination[]> {
+    return Promise.resolve(
+      Array.from(this.destinations.values()).map((destination) => ({
+        ...destination,
+      })),
+    );
+  }
+
+  update(id: number, updates: Partial<Destination>): Promise<void> {
+    const destination = this.destinations.get(id);
+    if (destination) {
+      Object.assign(destination, updates, { id, updated_at: Date.now() });
+    }
+    return Promise.resolve();
+  }
+
+  delete(id: number): Promise<void> {
+    this.destinations.delete(id);
+    return Promise.resolve();
+  }
+
+  // Test helpers
+  clear(): void {
+    this.destinations.clear();
+    this.nextId = 1;
+  }
+}
+
 export class InMemoryStorageProvider implements StorageProvider {
   public userAccounts: InMemoryUserAccountStorage;
   public settings: InMemorySettingsStorage;
   public postTracking: InMemoryPostTrackingStorage;
   public syncLogs: InMemorySyncLogStorage;
-
-  constructor() {
-    this.userAccounts = new InMemoryUserAccountStorage();
-    this.settings = new InMemorySettingsStorage();
+  public syncLease: InMemorySyncLeaseStorage;
+  public backfillJobs: InMemoryBackfillJobStorage;
+  public destinations: InMemoryDestinationStorage;
+
+  constructor(
+    public readonly userId: number = DEFAULT_USER_ID,
+    // Every user's storage, shared between the scoped providers
+    private users = new Map<number, InMemoryStorageProvider>(),
+  ) {
+    users.set(userId, this);
+    this.userAccounts = new InMemoryUserAccountStorage(userId);
+    this.settings = new InMemorySettingsStorage(userId);
     this.postTracking = new InMemoryPostTrackingStorage();
     this.syncLogs = new InMemorySyncLogStorage();
+    this.syncLease = new InMemorySyncLeaseStorage();
+    this.backfillJobs = new InMemoryBackfillJobStorage();
+    this.destinations = new InMemoryDestinationStorage();
+  }
+
+  forUser(userId: number): InMemoryStorageProvider {
+    return this.users.get(userId) ??
+      new InMemoryStorageProvider(userId, this.users);
+  }
+
+  async listUsers(): Promise<UserAccount[]> {
+    const accounts: UserAccount[] = [];
+    const ids = Array.from(this.users.keys()).sort((a, b) => a - b);
+    for (const id of ids) {
+      const account = await this.users.get(id)!.userAccounts.getSingle();
+      if (account) accounts.push(account);
+    }
+    return accounts;
   }
 
   initialize(): Promise<void> {
@@ -271,6 +502,9 @@ export class InMemoryStorageProvider implements StorageProvider {
     this.settings.clear();
     this.postTracking.clear();
     this.syncLogs.clear();
+    this.syncLease.clear();
+    this.backfillJobs.clear();
+    this.destinations.clear();
   }
 
   size(): { accounts: number; settings: number; posts: number; logs: number } {
@@ -1,33 +1,45 @@
 import {
+  BackfillJob,
+  BackfillJobStorage,
+  DEFAULT_USER_ID,
+  Destination,
+  DestinationStorage,
   PostTracking,
   PostTrackingStorage,
+  PRIMARY_DESTINATION_ID,
   Settings,
   SettingsStorage,
   StorageProvider,
+  SyncLease,
+  SyncLeaseStorage,
   SyncLog,
   SyncLogStorage,
   UserAccount,
   UserAccountStorage,
 } from "../interfaces/storage.ts";
+import { ServerSoftware } from "../interfaces/http-client.ts";
 
 const sqlite = (await import("https://esm.town/v/stevekrouse/sqlite")).sqlite;
 
 class SQLiteUserAccountStorage implements UserAccountStorage {
+  constructor(private userId: number) {}
+
   async create(): Promise<UserAccount> {
     const now = Date.now();
     const result = await sqlite.execute(
       `INSERT INTO bridge_user_accounts_v1 (id, setup_completed, created_at, updated_at) 
-       VALUES (1, FALSE, ?, ?) 
+       VALUES (?, FALSE, ?, ?) 
        ON CONFLICT(id) DO UPDATE SET updated_at = ?
        RETURNING *`,
-      [now, now, now],
+      [this.userId, now, now, now],
     );
     return result.rows[0] as unknown as UserAccount;
   }
 
   async getSingle(): Promise<UserAccount | null> {
     const result = await sqlite.execute(
-      `SELECT * FROM bridge_user_accounts_v1 WHERE id = 1`,
+      `SELECT * FROM bridge_user_accounts_v1 WHERE id = ?`,
+      [this.userId],
     );
     return result.rows.length > 0
       ? result.rows[0] as unknown as UserAccount
@@ -42,28 +54,31 @@ class SQLiteUserAccountStorage implements UserAccountStorage {
     const values = fields.map((field) => (updates as any)[field]);
 
     await sqlite.execute(
-      `UPDATE bridge_user_accounts_v1 SET ${setClause}, updated_at = ? WHERE id = 1`,
-      [...values, Date.now()],
+      `UPDATE bridge_user_accounts_v1 SET ${setClause}, updated_at = ? WHERE id = ?`,
+      [...values, Date.now(), this.userId],
     );
   }
 }
 
 class SQLiteSettingsStorage implements SettingsStorage {
+  constructor(private userId: number) {}
+
   async create(): Promise<Settings> {
     const now = Date.now();
     const result = await sqlite.execute(
       `INSERT INTO bridge_settings_v1 (id, sync_enabled, sync_interval_minutes, created_at, updated_at) 
-       VALUES (1, TRUE, 15, ?, ?) 
+       VALUES (?, TRUE, 15, ?, ?) 
        ON CONFLICT(id) DO UPDATE SET updated_at = ?
        RETURNING *`,
-      [now, now, now],
+      [this.userId, now, now, now],
     );
     return result.rows[0] as unknown as Settings;
   }
 
   async getSingle(): Promise<Settings | null> {
     const result = await sqlite.execute(
-      `SELECT * FROM bridge_settings_v1 WHERE id = 1`,
+      `SELECT * FROM bridge_settings_v1 WHERE id = ?`,
+      [this.userId],
     );
     return result.rows.length > 0
       ? result.rows[0] as unknown as Settings
@@ -78,23 +93,35 @@ class SQLiteSettingsStorage implements SettingsStorage {
     const values = fields.map((field) => (updates as any)[field]);
 
     await sqlite.execute(
-      `UPDATE bridge_settings_v1 SET ${setClause}, updated_at = ? WHERE id = 1`,
-      [...values, Date.now()],
+      `UPDATE bridge_settings_v1 SET ${setClause}, updated_at = ? WHERE id = ?`,
+      [...values, Date.now(), this.userId],
     );
   }
 }
 
 class SQLitePostTrackingStorage implements PostTrackingStorage {
+  constructor(
+    private userId: number,
+    private destinationId: number = PRIMARY_DESTINATION_ID,
+  ) {}
+
+  forDestination(destinationId: number): PostTrackingStorage {
+    return new SQLitePostTrackingStorage(this.userId, destinationId);
+  }
+
   async create(
     data: Omit<PostTracking, "id" | "created_at" | "updated_at">,
   ): Promise<PostTracking> {
     const now = Math.floor(Date.now() / 1000); // Convert to Unix seconds
     const result = await sqlite.execute(
       `INSERT INTO bridge_post_tracking_v1 
-       (atproto_uri, atproto_cid, atproto_rkey, content_hash, atproto_created_at, sync_status, created_at, updated_at) 
-       VALUES (?, ?, ?, ?, ?, 'pending', ?, ?) 
+       (user_id, destination_id, origin, atproto_uri, atproto_cid, atproto_rkey, content_hash, atproto_created_at, sync_status, created_at, updated_at) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?) 
        RETURNING *`,
       [
+        this.userId,
+        this.destinationId,
+        data.origin ?? "bluesky",
         data.atproto_uri,
         data.atproto_cid,
         data.atproto_rkey,
@@ -109,8 +136,24 @@ class SQLitePostTrackingStorage implements PostTrackingStorage {
 
   async getByUri(uri: string): Promise<PostTracking | null> {
     const result = await sqlite.execute(
-      `SELECT * FROM bridge_post_tracking_v1 WHERE atproto_uri = ?`,
-      [uri],
+      `SELECT * FROM bridge_post_tracking_v1 WHERE atproto_uri = ? AND user_id = ? AND destination_id = ?`,
+      [uri, this.userId, this.destinationId],
+    );
+    return result.rows.length > 0
+      ? result.rows[0] as unknown as PostTracking
+      : null;
+  }
+
+  async getByMastodonId(mastodonId: string): Promise<PostTracking | null> {
+    const result = await sqlite.execute(
+      `SELECT * FROM bridge_post_tracking_v1
+       WHERE user_id = ? AND destination_id = ? AND (
+         mastodon_id = ? OR EXISTS (
+           SELECT 1 FROM json_each(mastodon_thread_ids) WHERE value = ?
+         )
+       )
+       LIMIT 1`,
+      [this.userId, this.destinationId, mastodonId, mastodonId],
     );
     return result.rows.length > 0
       ? result.rows[0] as unknown as PostTracking
@@ -122,7 +165,9 @@ class SQLitePostTrackingStorage implements PostTrackingStorage {
     updates: Partial<PostTracking>,
   ): Promise<void> {
     const fields = Object.keys(updates).filter((key) =>
-      !["id", "atproto_uri"].includes(key)
+      !["id", "atproto_uri", "user_id", "destination_id", "origin"].includes(
+        key,
+      )
     );
     if (fields.length === 0) return;
 
@@ -130,29 +175,55 @@ class SQLitePostTrackingStorage implements PostTrackingStorage {
     const values = fields.map((field) => (updates as any)[field]);
 
     await sqlite.execute(
-      `UPDATE bridge_post_tracking_v1 SET ${setClause}, updated_at = ? WHERE atproto_uri = ?`,
-      [...values, Math.floor(Date.now() / 1000), uri], // Convert to Unix seconds
+      `UPDATE bridge_post_tracking_v1 SET ${setClause}, updated_at = ? WHERE atproto_uri = ? AND user_id = ? AND destination_id = ?`,
+      [
+        ...values,
+        Math.floor(Date.now() / 1000), // Convert to Unix seconds
+        uri,
+        this.userId,
+        this.destinationId,
+      ],
     );
   }
 
   async getPending(): Promise<PostTracking[]> {
     const result = await sqlite.execute(
-      `SELECT * FROM bridge_post_tracking_v1 WHERE sync_status = 'pending' ORDER BY created_at ASC`,
+      `SELECT * FROM bridge_post_tracking_v1 WHERE sync_status = 'pending' AND origin = 'bluesky' AND user_id = ? AND destination_id = ? ORDER BY created_at ASC`,
+      [this.userId, this.destinationId],
     );
     return result.rows as unknown as PostTracking[];
   }
 
   async getFailed(): Promise<PostTracking[]> {
     const result = await sqlite.execute(
-      `SELECT * FROM bridge_post_tracking_v1 WHERE sync_status = 'failed' ORDER BY created_at DESC`,
+      `SELECT * FROM bridge_post_tracking_v1 WHERE sync_status = 'failed' AND origin = 'bluesky' AND user_id = ? AND destination_id = ? ORDER BY created_at DESC`,
+      [this.userId, this.destinationId],
+    );
+    return result.rows as unknown as PostTracking[];
+  }
+
+  async getPosting(): Promise<PostTracking[]> {
+    const result = await sqlite.execute(
+      `SELECT * FROM bridge_post_tracking_v1 WHERE sync_status = 'posting' AND origin = 'bluesky' AND user_id = ? AND destination_id = ?`,
+      [this.userId, this.destinationId],
+    );
+    return result.rows as unknown as PostTracking[];
+  }
+
+  async getSynced(limit: number = 20): Promise<PostTracking[]> {
+    const result = await sqlite.execute(
+      `SELECT * FROM bridge_post_tracking_v1 
+       WHERE sync_status = 'success' AND mastodon_id IS NOT NULL AND origin = 'bluesky' AND user_id = ? AND destination_id = ? 
+       ORDER BY atproto_created_at DESC LIMIT ?`,
+      [this.userId, this.destinationId, limit],
     );
     return result.rows as unknown as PostTracking[];
   }
 
   async getRecent(limit: number = 20): Promise<PostTracking[]> {
     const result = await sqlite.execute(
-      `SELECT * FROM bridge_post_tracking_v1 ORDER BY created_at DESC LIMIT ?`,
-      [limit],
+      `SELECT * FROM bridge_post_tracking_v1 WHERE user_id = ? AND destination_id = ? ORDER BY created_at DESC LIMIT ?`,
+      [this.userId, this.destinationId, limit],
     );
     return result.rows as unknown as PostTracking[];
   }
@@ -165,21 +236,25 @@ class SQLitePostTrackingStorage implements PostTrackingStorage {
         COUNT(CASE WHEN sync_status = 'failed' THEN 1 END) as failed_posts,
         COUNT(CASE WHEN sync_status = 'pending' THEN 1 END) as pending_posts,
         MAX(created_at) as last_sync
-       FROM bridge_post_tracking_v1`,
+       FROM bridge_post_tracking_v1 WHERE user_id = ? AND destination_id = ?`,
+      [this.userId, this.destinationId],
     );
     return result.rows[0];
   }
 }
 
 class SQLiteSyncLogStorage implements SyncLogStorage {
+  constructor(private userId: number) {}
+
   async create(data: Omit<SyncLog, "id" | "created_at">): Promise<SyncLog> {
     const now = Math.floor(Date.now() / 1000); // Convert to Unix seconds
     const result = await sqlite.execute(
       `INSERT INTO bridge_sync_logs_v1 
-       (sync_type, posts_fetched, posts_synced, posts_failed, posts_skipped, error_message, duration_ms, created_at) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?) 
+       (user_id, sync_type, posts_fetched, posts_synced, posts_failed, posts_skipped, error_message, duration_ms, created_at) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) 
        RETURNING *`,
       [
+        this.userId,
         data.sync_type,
         data.posts_fetched,
         data.posts_synced,
@@ -195,24 +270,213 @@ class SQLiteSyncLogStorage implements SyncLogStorage {
 
   async getRecent(limit: number = 20): Promise<SyncLog[]> {
     const result = await sqlite.execute(
-      `SELECT * FROM bridge_sync_logs_v1 ORDER BY created_at DESC LIMIT ?`,
-      [limit],
+      `SELECT * FROM bridge_sync_logs_v1 WHERE user_id = ? ORDER BY created_at DESC LIMIT ?`,
+      [this.userId, limit],
     );
     return result.rows as unknown as SyncLog[];
   }
 }
 
+class SQLiteSyncLeaseStorage implements SyncLeaseStorage {
+  constructor(private userId: number) {}
+
+  async acquire(holder: string, ttlMs: number): Promise<SyncLease | null> {
+    const now = Date.now();
+    // A single conditional upsert, so two runs can't both take the lease
+    const result = await sqlite.execute(
+      `INSERT INTO bridge_sync_lease_v1 (id, holder, acquired_at, expires_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         holder = excluded.holder,
+         acquired_at = excluded.acquired_at,
+         expires_at = excluded.expires_at
+       WHERE bridge_sync_lease_v1.expires_at <= ?
+       RETURNING *`,
+      [this.userId, holder, now, now + ttlMs, now],
+    );
+    return result.rows.length > 0
+      ? result.rows[0] as unknown as SyncLease
+      : null;
+  }
+
+  async release(holder: string): Promise<void> {
+    await sqlite.execute(
+      `DELETE FROM bridge_sync_lease_v1 WHERE id = ? AND holder = ?`,
+      [this.userId, holder],
+    );
+  }
+
+  async getCurrent(): Promise<SyncLease | null> {
+    const result = await sqlite.execute(
+      `SELECT * FROM bridge_sync_lease_v1 WHERE id = ? AND expires_at > ?`,
+      [this.userId, Date.now()],
+    );
+    return result.rows.length > 0
+      ? result.rows[0] as unknown as SyncLease
+      : null;
+  }
+}
+
+class SQLiteBackfillJobStorage implements BackfillJobStorage {
+  constructor(private userId: number) {}
+
+  async create(data: {
+    since_at: number;
+    until_at: number;
+    max_posts: number;
+    add_date_prefix: boolean;
+  }): Promise<BackfillJob> {
+    const now = Date.now();
+    await sqlite.execute(
+      `DELETE FROM bridge_backfill_jobs_v1 WHERE id = ?`,
+      [this.userId],
+    );
+    const result = await sqlite.execute(
+      `INSERT INTO bridge_backfill_jobs_v1 
+       (id, since_at, until_at, max_posts, add_date_prefix, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [
+        this.userId,
+        data.since_at,
+        data.until_at,
+        data.max_posts,
+        data.add_date_prefix,
+        now,
+        now,
+      ],
+    );
+    return result.rows[0] as unknown as BackfillJob;
+  }
+
+  async get(): Promise<BackfillJob | null> {
+    const result = await sqlite.execute(
+      `SELECT * FROM bridge_backfill_jobs_v1 WHERE id = ?`,
+      [this.userId],
+    );
+    return result.rows.length > 0
+      ? result.rows[0] as unknown as BackfillJob
+      : null;
+  }
+
+  async update(updates: Partial<BackfillJob>): Promise<void> {
+    const fields = Object.keys(updates).filter((key) => key !== "id");
+    if (fields.length === 0) return;
+
+    const setClause = fields.map((field) => `${field} = ?`).join(", ");
+    const values = fields.map((field) => (updates as any)[field]);
+
+    await sqlite.execute(
+      `UPDATE bridge_backfill_jobs_v1 SET ${setClause}, updated_at = ? WHERE id = ?`,
+      [...values, Date.now(), this.userId],
+    );
+  }
+}
+
+class SQLiteDestinationStorage implements DestinationStorage {
+  constructor(private userId: number) {}
+
+  async create(data: {
+    name: string;
+    instance_url: string;
+    client_id: string;
+    client_secret: string;
+    software?: ServerSoftware;
+  }): Promise<Destination> {
+    const now = Date.now();
+    const result = await sqlite.execute(
+      `INSERT INTO bridge_destinations_v1 
+       (user_id, name, instance_url, client_id, client_secret, software, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       RETURNING *`,
+      [
+        this.userId,
+        data.name,
+        data.instance_url,
+        data.client_id,
+        data.client_secret,
+        data.software ?? null,
+        now,
+        now,
+      ],
+    );
+    return result.rows[0] as unknown as Destination;
+  }
+
+  async get(id: number): Promise<Destination | null> {
+    const result = await sqlite.execute(
+      `SELECT * FROM bridge_destinations_v1 WHERE id = ? AND user_id = ?`,
+      [id, this.userId],
+    );
+    return result.rows.length > 0
+      ? result.rows[0] as unknown as Destination
+      : null;
+  }
+
+  async list(): Promise<Destination[]> {
+    const result = await sqlite.execute(
+      `SELECT * FROM bridge_destinations_v1 WHERE user_id = ? ORDER BY id ASC`,
+      [this.userId],
+    );
+    return result.rows as unknown as Destination[];
+  }
+
+  async update(id: number, updates: Partial<Destination>): Promise<void> {
+    const fields = Object.keys(updates).filter((key) =>
+      key !== "id" && key !== "user_id"
+    );
+    if (fields.length === 0) return;
+
+    const setClause = fields.map((field) => `${field} = ?`).join(", ");
+    const values = fields.map((field) => (updates as any)[field]);
+
+    await sqlite.execute(
+      `UPDATE bridge_destinations_v1 SET ${setClause}, updated_at = ? WHERE id = ? AND user_id = ?`,
+      [...values, Date.now(), id, this.userId],
+    );
+  }
+
+  async delete(id: number): Promise<void> {
+    // Ids aren't reused, so the destination's tracking rows are dead weight
+    await sqlite.execute(
+      `DELETE FROM bridge_post_tracking_v1 WHERE user_id = ? AND destination_id = ?`,
+      [this.userId, id],
+    );
+    await sqlite.execute(
+      `DELETE FROM bridge_destinations_v1 WHERE id = ? AND user_id = ?`,
+      [id, this.userId],
+    );
+  }
+}
+
 export class SQLiteStorageProvider implements StorageProvider {
   userAccounts: UserAccountStorage;
   settings: SettingsStorage;
   postTracking: PostTrackingStorage;
   syncLogs: SyncLogStorage;
+  syncLease: SyncLeaseStorage;
+  backfillJobs: BackfillJobStorage;
+  destinations: DestinationStorage;
+
+  constructor(public readonly userId: number = DEFAULT_USER_ID) {
+    this.userAccounts = new SQLiteUserAccountStorage(userId);
+    this.settings = new SQLiteSettingsStorage(userId);
+    this.postTracking = new SQLitePostTrackingStorage(userId);
+    this.syncLogs = new SQLiteSyncLogStorage(userId);
+    this.syncLease = new SQLiteSyncLeaseStorage(userId);
+    this.backfillJobs = new SQLiteBackfillJobStorage(userId);
+    this.destinations = new SQLiteDestinationStorage(userId);
+  }
 
-  constructor() {
-    this.userAccounts = new SQLiteUserAccountStorage();
-    this.settings = new SQLiteSettingsStorage();
-    this.postTracking = new SQLitePostTrackingStorage();
-    this.syncLogs = new SQLiteSyncLogStorage();
+  forUser(userId: number): SQLiteStorageProvider {
+    return new SQLiteStorageProvider(userId);
+  }
+
+  async listUsers(): Promise<UserAccount[]> {
+    const result = await sqlite.execute(
+      `SELECT * FROM bridge_user_accounts_v1 ORDER BY id ASC`,
+    );
+    return result.rows as unknown as UserAccount[];
   }
 
   async initialize(): Promise<void> {
@@ -223,7 +487,7 @@ export class SQLiteStorageProvider implements StorageProvider {
   async cullOldPostLogs(keepCount: number = 100): Promise<number> {
     // Import the cullOldPostLogs function and use it
     const { cullOldPostLogs } = await import("../database/queries.ts");
-    await cullOldPostLogs(keepCount);
+    await cullOldPostLogs(keepCount, this.userId);
     return keepCount; // Return the number we intended to keep
   }
 }
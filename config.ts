@@ -15,11 +15,50 @@ export const BRIDGE_CONFIG = {
     // Skip posts that are replies to other posts
     skip_replies: true,
 
+    // Mirror replies to your own posts (threads) as Mastodon reply chains
+    sync_self_threads: true,
+
     // Skip posts that start with @mentions
     skip_mentions: true,
 
     // Skip reposts/quote posts (since Mastodon can't display the referenced content)
     skip_reposts: true,
+
+    // Sync quote posts anyway, with the quoted post as a trailing link (the
+    // Mastodon copy when you quote your own synced post, bsky.app otherwise)
+    sync_quote_posts: false,
+  },
+
+  /**
+   * Content Warning Options
+   * Map Bluesky self-labels to Mastodon content warnings. Labelled posts are
+   * marked sensitive; use an empty string to hide media without a warning text.
+   */
+  content_warnings: {
+    labels: {
+      porn: "Adult content",
+      sexual: "Sexual content",
+      nudity: "Nudity",
+      "graphic-media": "Graphic media",
+    } as Record<string, string>,
+  },
+
+  /**
+   * Link Card Options
+   * How Bluesky link cards (external embeds) are carried over. Mastodon
+   * builds its own preview from the URL, which fails for some pages
+   * (e.g. paywalled ones).
+   */
+  link_cards: {
+    // Append the card's URL when the post text doesn't already link it
+    append_url: true,
+
+    // Quote the card's title and description below the post text
+    include_summary: false,
+
+    // Attach the card's thumbnail as an image (with the title as alt text)
+    // when the post has no other media
+    upload_thumbnail: false,
   },
 
   /**
@@ -30,8 +69,22 @@ export const BRIDGE_CONFIG = {
     // Include images and videos in synced posts
     include_media: true,
 
-    // Compress images before uploading (reduces quality but saves bandwidth)
+    // Re-encode every image before uploading (reduces quality but saves
+    // bandwidth). Images over the instance's size or resolution limits are
+    // scaled down and re-encoded either way.
     compress_images: false,
+
+    // JPEG quality (1-100) for re-encoded images
+    image_quality: 82,
+
+    // How long to wait for Mastodon to finish processing uploads (e.g. video
+    // transcoding) before failing the post with a retryable error
+    processing_poll: {
+      maxRetries: 10,
+      baseDelay: 1000,
+      maxDelay: 5000,
+      backoffFactor: 1.5,
+    },
   },
 
   /**
@@ -42,6 +95,40 @@ export const BRIDGE_CONFIG = {
     // Maximum number of posts to fetch in each sync operation
     max_posts_per_sync: 50,
 
+    // Boost the Mastodon copy when you repost one of your own synced posts
+    boost_own_reposts: true,
+
+    // Delete Mastodon copies of posts you delete on Bluesky
+    propagate_deletions: true,
+
+    // Edit the Mastodon copy when a post is edited on Bluesky (same post,
+    // new record CID)
+    propagate_edits: true,
+
+    // Number of most recent synced posts to check for deletion on each sync
+    deletion_check_limit: 20,
+
+    // Post text that exceeds the instance's character limit is truncated with
+    // "..." unless this is enabled, in which case it continues in a numbered
+    // reply thread
+    split_long_posts: false as boolean,
+
+    // Language to tag posts with when the Bluesky post has none (e.g. "nl").
+    // Set to null to leave it to the Mastodon instance default.
+    fallback_language: null as string | null,
+
+    // How long a sync run holds the lock that keeps cron and manual syncs
+    // from overlapping; it expires after this in case a run crashes
+    lease_minutes: 10,
+
+    // Backoff between sync runs for posts that failed; each post is retried
+    // up to its max_retries (3 by default) before being given up on
+    retry_queue: {
+      base_delay_minutes: 5,
+      max_delay_minutes: 360,
+      backoff_factor: 2,
+    },
+
     // Retry configuration for failed posts
     retry: {
       maxRetries: 3,
@@ -50,6 +137,64 @@ export const BRIDGE_CONFIG = {
       backoffFactor: 2,
     },
   },
+
+  /**
+   * Backfill Options
+   * Importing older posts from the dashboard runs in chunks on each cron run
+   */
+  backfill: {
+    // Feed pages (50 posts each) to scan per run while collecting posts
+    pages_per_run: 5,
+
+    // Posts to publish to Mastodon per run
+    posts_per_run: 10,
+  },
+
+  /**
+   * Adopt Options
+   * Marking posts that another crossposter already published as synced
+   */
+  adopt: {
+    // Recent Bluesky posts and Mastodon statuses to compare. Adopted posts
+    // are tracked as synced, so the post log cleanup never removes them.
+    max_posts: 200,
+
+    // How far apart the two copies of a post may have been published
+    match_window_minutes: 30,
+  },
+
+  /**
+   * Reverse Sync Options
+   * Bridging public statuses from the home Mastodon account to Bluesky
+   */
+  reverse: {
+    // Default for the dashboard's reverse sync setting
+    enabled: false as boolean,
+
+    // Statuses to post to Bluesky per cron run
+    max_statuses_per_run: 20,
+  },
+
+  /**
+   * Real-time Ingestion Options
+   * Consume post events from a Jetstream WebSocket instead of polling the feed
+   */
+  realtime: {
+    // Use Jetstream in the cron job instead of polling getAuthorFeed
+    enabled: false,
+
+    // Jetstream subscribe endpoint
+    jetstream_url: "wss://jetstream2.us-east.bsky.network/subscribe",
+
+    // Maximum time to stay connected per cron run
+    listen_seconds: 45,
+
+    // Disconnect early once no events arrived for this long (caught up)
+    idle_seconds: 5,
+
+    // Maximum number of post events to process per cron run
+    max_events: 100,
+  },
 } as const;
 
 /**
@@ -1,64 +1,145 @@
 import { runMigrations } from "./backend/database/migrations.ts";
-import { SyncService } from "./backend/services/sync-service.ts";
+import {
+  SyncInProgressError,
+  SyncService,
+} from "./backend/services/sync-service.ts";
 import { SQLiteStorageProvider } from "./backend/storage/sqlite-storage.ts";
 import { ATProtoClientAdapter } from "./backend/services/atproto-client-adapter.ts";
-import { MastodonClientMasto } from "./backend/services/mastodon-client-masto.ts";
+import { createFediverseClient } from "./backend/services/server-software.ts";
+import { JetstreamEventSource } from "./backend/services/jetstream-event-source.ts";
+import { MultiUserSyncRunner } from "./backend/services/multi-user-sync.ts";
+import { isMultiUserMode } from "./backend/lib/multi-user.ts";
+import { BRIDGE_CONFIG } from "./config.ts";
 
 /**
- * Cron job for syncing posts from ATProto to Mastodon
- *
- * This function runs on a schedule (15 minutes for free tier)
- * and syncs posts for the single user.
+ * Set up a sync service backed by the given storage and the real API clients
  */
-export default async function () {
-  console.log("Cron job started:", new Date().toISOString());
-
-  try {
-    // Ensure database is initialized
-    await runMigrations();
-
-    // Set up dependencies for the sync service
-    const storage = new SQLiteStorageProvider();
-    const syncService = new SyncService({
-      storage,
-      createATProtoClient: (
+function createSyncService(storage: SQLiteStorageProvider): SyncService {
+  return new SyncService({
+    storage,
+    createATProtoClient: (
+      pdsUrl,
+      accessToken,
+      refreshToken,
+      did,
+      onTokenRefresh,
+      appPassword,
+    ) =>
+      new ATProtoClientAdapter(
         pdsUrl,
         accessToken,
         refreshToken,
         did,
         onTokenRefresh,
         appPassword,
-      ) =>
-        new ATProtoClientAdapter(
-          pdsUrl,
-          accessToken,
-          refreshToken,
-          did,
-          onTokenRefresh,
-          appPassword,
-        ),
-      createMastodonClient: (instanceUrl, accessToken) =>
-        new MastodonClientMasto(instanceUrl, accessToken),
-    });
+      ),
+    createMastodonClient: createFediverseClient,
+  });
+}
 
-    // Run sync for the single user
-    const result = await syncService.syncUser();
+/**
+ * Sync one user's posts, advance their backfill and trim their post logs.
+ * Throws when the sync fails, so multi-user runs can report it per user.
+ */
+async function runForUser(storage: SQLiteStorageProvider): Promise<void> {
+  const syncService = createSyncService(storage);
 
-    if (!result.success) {
-      console.error("Sync failed:", result.errors);
-    } else {
+  // Run the sync, from Jetstream events or by polling. Multi-user runs poll,
+  // as listening for events would take the full window for every user.
+  const { realtime } = BRIDGE_CONFIG;
+  let result;
+  try {
+    result = realtime.enabled && !isMultiUserMode()
+      ? await syncService.syncFromEventSource(
+        new JetstreamEventSource({
+          url: realtime.jetstream_url,
+          listenMs: realtime.listen_seconds * 1000,
+          idleMs: realtime.idle_seconds * 1000,
+          maxEvents: realtime.max_events,
+        }),
+      )
+      : await syncService.syncUser();
+  } catch (error) {
+    if (error instanceof SyncInProgressError) {
+      console.log(`Skipping cron sync: ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+
+  if (!result.success) {
+    console.error("Sync failed:", result.errors);
+  } else {
+    console.log(
+      `Sync completed: ${result.postsSuccessful} posts synced, ${result.postsFailed} failed`,
+    );
+  }
+
+  // Advance a backfill job started from the dashboard, if any. A sync that
+  // started after ours may hold the lease by now; the cleanup still runs.
+  try {
+    const backfill = await syncService.runBackfill();
+    if (backfill.postsProcessed > 0) {
+      console.log(
+        `Backfill chunk: ${backfill.postsSuccessful} posts synced, ${backfill.postsFailed} failed`,
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof SyncInProgressError)) throw error;
+    console.log(`Skipping backfill: ${error.message}`);
+  }
+
+  // Post new Mastodon statuses to Bluesky, if reverse sync is on
+  try {
+    const reverse = await syncService.runReverseSync();
+    if (reverse.postsProcessed > 0) {
       console.log(
-        `Sync completed: ${result.postsSuccessful} posts synced, ${result.postsFailed} failed`,
+        `Reverse sync: ${reverse.postsSuccessful} statuses posted to Bluesky, ${reverse.postsFailed} failed`,
       );
     }
+  } catch (error) {
+    if (!(error instanceof SyncInProgressError)) throw error;
+    console.log(`Skipping reverse sync: ${error.message}`);
+  }
+
+  // Clean up old post logs to prevent database bloat
+  try {
+    await storage.cullOldPostLogs(100); // Keep the 100 most recent skipped or deleted posts
+    console.log("Old post logs cleaned up successfully");
+  } catch (error) {
+    console.error("Failed to clean up old post logs:", error);
+    // Don't fail the cron job if cleanup fails
+  }
 
-    // Clean up old post logs to prevent database bloat
-    try {
-      await storage.cullOldPostLogs(100); // Keep only the 100 most recent posts
-      console.log("Old post logs cleaned up successfully");
-    } catch (error) {
-      console.error("Failed to clean up old post logs:", error);
-      // Don't fail the cron job if cleanup fails
+  if (!result.success) {
+    throw new Error(
+      result.errors.map((error) => error.message).join("; ") ||
+        "Sync failed",
+    );
+  }
+}
+
+/**
+ * Cron job for syncing posts from ATProto to Mastodon
+ *
+ * This function runs on a schedule (15 minutes for free tier)
+ * and syncs posts for the single user, or for every user in
+ * multi-user mode.
+ */
+export default async function () {
+  console.log("Cron job started:", new Date().toISOString());
+
+  try {
+    // Ensure database is initialized
+    await runMigrations();
+
+    const storage = new SQLiteStorageProvider();
+    if (isMultiUserMode()) {
+      await new MultiUserSyncRunner(storage).run((userStorage) =>
+        runForUser(userStorage as SQLiteStorageProvider)
+      );
+    } else {
+      await runForUser(storage);
     }
 
     console.log("Cron job completed successfully");
@@ -24,7 +24,12 @@ interface DashboardData {
     atproto_uri: string;
     atproto_rkey: string;
     mastodon_url?: string;
-    sync_status: "success" | "failed" | "pending";
+    sync_status:
+      | "success"
+      | "failed"
+      | "pending"
+      | "posting"
+      | "deleted";
     atproto_created_at: string | null;
     synced_at: string | null;
     error_message?: string;
@@ -32,15 +37,805 @@ interface DashboardData {
   }>;
 }
 
+interface SyncSettings {
+  sync_enabled: boolean;
+  skip_replies: boolean;
+  skip_mentions: boolean;
+  skip_reposts: boolean;
+  include_media: boolean;
+  compress_images: boolean;
+  reverse_sync: boolean;
+}
+
+const SETTING_LABELS: Array<{
+  key: keyof SyncSettings;
+  label: string;
+  description: string;
+}> = [
+  {
+    key: "sync_enabled",
+    label: "Sync enabled",
+    description: "Pause to stop posting to Mastodon until turned back on",
+  },
+  {
+    key: "skip_replies",
+    label: "Skip replies",
+    description:
+      "Don't sync replies, apart from your own threads when those are mirrored",
+  },
+  {
+    key: "skip_mentions",
+    label: "Skip mentions",
+    description: "Don't sync posts that start with an @mention",
+  },
+  {
+    key: "skip_reposts",
+    label: "Skip quote posts",
+    description: "Don't sync posts that quote another post",
+  },
+  {
+    key: "include_media",
+    label: "Include media",
+    description: "Upload images and videos along with the post text",
+  },
+  {
+    key: "compress_images",
+    label: "Compress images",
+    description:
+      "Re-encode images to save space, even when they're within your instance's limits",
+  },
+  {
+    key: "reverse_sync",
+    label: "Sync Mastodon to Bluesky",
+    description: "Also post your new public Mastodon statuses to Bluesky",
+  },
+];
+
+interface FilterRule {
+  type: "keyword" | "regex" | "hashtag";
+  pattern: string;
+  action: "skip" | "require";
+}
+
+interface RuleMatchPreview {
+  uri: string;
+  text: string;
+  createdAt: string;
+  matchedRules: number[];
+  passesRules: boolean;
+}
+
+function FilterRulesEditor() {
+  const [rules, setRules] = useState<FilterRule[]>([]);
+  const [preview, setPreview] = useState<RuleMatchPreview[] | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/dashboard/rules", { credentials: "include" })
+      .then((response) => response.ok ? response.json() : { rules: [] })
+      .then((body) => setRules(body.rules))
+      .catch((error) => console.error("Rules fetch error:", error));
+  }, []);
+
+  const updateRule = (index: number, changes: Partial<FilterRule>) => {
+    setRules(
+      rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule),
+    );
+  };
+
+  const sendRules = async (url: string, method: string) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setStatus(body.error || "Request failed");
+        return null;
+      }
+      return body;
+    } catch (error) {
+      console.error("Rules request error:", error);
+      setStatus("Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveRules = async () => {
+    const body = await sendRules("/api/dashboard/rules", "PUT");
+    if (body) {
+      setRules(body.rules);
+      setStatus("Rules saved");
+    }
+  };
+
+  const previewRules = async () => {
+    const body = await sendRules("/api/dashboard/rules/preview", "POST");
+    if (body) {
+      setPreview(body.posts);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+      <h3 className="text-lg font-semibold mb-2">Filter Rules</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Skip posts that match a keyword, regex or hashtag, or require a match to
+        sync (e.g. only posts tagged #fedi). Matching ignores case.
+      </p>
+      <div className="space-y-2 mb-4">
+        {rules.map((rule, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+            <select
+              value={rule.action}
+              onChange={(event) =>
+                updateRule(index, {
+                  action: event.currentTarget.value as FilterRule["action"],
+                })}
+              className="border rounded px-2 py-1 text-sm"
+            >
+              <option value="skip">Skip</option>
+              <option value="require">Require</option>
+            </select>
+            <select
+              value={rule.type}
+              onChange={(event) =>
+                updateRule(index, {
+                  type: event.currentTarget.value as FilterRule["type"],
+                })}
+              className="border rounded px-2 py-1 text-sm"
+            >
+              <option value="keyword">Keyword</option>
+              <option value="hashtag">Hashtag</option>
+              <option value="regex">Regex</option>
+            </select>
+            <input
+              type="text"
+              value={rule.pattern}
+              placeholder={rule.type === "hashtag" ? "#bskyonly" : "pattern"}
+              onChange={(event) =>
+                updateRule(index, { pattern: event.currentTarget.value })}
+              className="border rounded px-2 py-1 text-sm flex-1"
+            />
+            <button
+              type="button"
+              onClick={() =>
+                setRules(rules.filter((_, i) =>
+                  i !== index
+                ))}
+              className="text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() =>
+            setRules([
+              ...rules,
+              { type: "hashtag", pattern: "", action: "skip" },
+            ])}
+          className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+        >
+          Add rule
+        </button>
+        <button
+          type="button"
+          onClick={previewRules}
+          disabled={busy}
+          className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+        >
+          Preview
+        </button>
+        <button
+          type="button"
+          onClick={saveRules}
+          disabled={busy}
+          className="bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 text-sm"
+        >
+          Save
+        </button>
+        {status && <span className="text-sm text-gray-600">{status}</span>}
+      </div>
+      {preview && (
+        <div className="mt-4 border-t pt-4 space-y-2">
+          {preview.length === 0 && (
+            <p className="text-sm text-gray-500">No recent posts to preview</p>
+          )}
+          {preview.map((post) => (
+            <div
+              key={post.uri}
+              className="flex items-start justify-between gap-4 text-sm"
+            >
+              <span className="text-gray-700 truncate">
+                {post.text || "(no text)"}
+              </span>
+              <span
+                className={`px-2 py-1 rounded text-xs whitespace-nowrap ${
+                  post.passesRules
+                    ? "bg-green-100 text-green-800"
+                    : "bg-gray-100 text-gray-600"
+                }`}
+              >
+                {post.matchedRules.length > 0
+                  ? `Rule ${
+                    post.matchedRules.map((index) => index + 1).join(", ")
+                  }`
+                  : "No match"} · {post.passesRules ? "synced" : "skipped"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AdoptionResult {
+  adopted: Array<{
+    uri: string;
+    text: string;
+    createdAt: string;
+    mastodonId: string;
+    mastodonUrl: string;
+  }>;
+  blueskyPostsScanned: number;
+  mastodonStatusesScanned: number;
+}
+
+function AdoptPanel() {
+  const [result, setResult] = useState<AdoptionResult | null>(null);
+  const [applied, setApplied] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const adopt = async (dryRun: boolean) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const response = await fetch("/api/dashboard/adopt", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dry_run: dryRun }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setStatus(body.error || "Request failed");
+        return;
+      }
+      setResult(body);
+      setApplied(!dryRun);
+    } catch (error) {
+      console.error("Adopt request error:", error);
+      setStatus("Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+      <h3 className="text-lg font-semibold mb-2">Adopt Existing Posts</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Moving from another crossposter? Find recent posts that are already on
+        your Mastodon account and mark them as synced, so they aren't posted
+        again.
+      </p>
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => adopt(true)}
+          disabled={busy}
+          className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+        >
+          Find matches
+        </button>
+        <button
+          type="button"
+          onClick={() => adopt(false)}
+          disabled={busy || !result || applied}
+          className="bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 text-sm"
+        >
+          Adopt
+        </button>
+        {status && <span className="text-sm text-gray-600">{status}</span>}
+      </div>
+      {result && (
+        <div className="mt-4 border-t pt-4 space-y-2 text-sm">
+          <p className="text-gray-600">
+            {applied ? "Adopted" : "Found"} {result.adopted.length}{" "}
+            matches among {result.blueskyPostsScanned} untracked posts
+          </p>
+          {result.adopted.map((post) => (
+            <div
+              key={post.uri}
+              className="flex items-start justify-between gap-4"
+            >
+              <span className="text-gray-700 truncate">
+                {post.text || "(no text)"}
+              </span>
+              <a
+                href={post.mastodonUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:text-blue-800 whitespace-nowrap"
+              >
+                On Mastodon
+              </a>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DestinationOverrides {
+  skip_mentions?: boolean;
+  include_media?: boolean;
+}
+
+interface BridgeDestination {
+  id: number;
+  name: string;
+  instance_url: string;
+  username: string | null;
+  visibility: "public" | "unlisted" | "private";
+  enabled: boolean;
+  connected: boolean;
+  filter_overrides: DestinationOverrides;
+}
+
+const OVERRIDE_LABELS: Record<keyof DestinationOverrides, string> = {
+  skip_mentions: "Skip mentions",
+  include_media: "Include media",
+};
+
+function DestinationsPanel() {
+  const [destinations, setDestinations] = useState<BridgeDestination[]>([]);
+  const [instanceUrl, setInstanceUrl] = useState("");
+  const [name, setName] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/dashboard/destinations", { credentials: "include" })
+      .then((response) => response.ok ? response.json() : { destinations: [] })
+      .then((body) => setDestinations(body.destinations))
+      .catch((error) => console.error("Destinations fetch error:", error));
+  }, []);
+
+  const updateDestination = async (
+    id: number,
+    updates: Partial<BridgeDestination>,
+  ) => {
+    setStatus(null);
+    try {
+      const response = await fetch(`/api/dashboard/destinations/${id}`, {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setStatus(body.error || "Update failed");
+        return;
+      }
+      setDestinations((current) =>
+        current.map((destination) =>
+          destination.id === id ? body.destination : destination
+        )
+      );
+    } catch (error) {
+      console.error("Destination update error:", error);
+      setStatus("Update failed");
+    }
+  };
+
+  const removeDestination = async (id: number) => {
+    if (!confirm("Stop posting to this destination?")) return;
+    try {
+      const response = await fetch(`/api/dashboard/destinations/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (response.ok) {
+        setDestinations((current) =>
+          current.filter((destination) => destination.id !== id)
+        );
+      }
+    } catch (error) {
+      console.error("Destination delete error:", error);
+    }
+  };
+
+  const addDestination = async () => {
+    if (!instanceUrl || !name) {
+      setStatus("Enter an instance and a name");
+      return;
+    }
+    setStatus(null);
+    try {
+      const response = await fetch(
+        `/api/oauth/destination/start?instance_url=${
+          encodeURIComponent(instanceUrl)
+        }&name=${encodeURIComponent(name)}`,
+        { credentials: "include" },
+      );
+      const body = await response.json();
+      if (!response.ok) {
+        setStatus(body.error || "Failed to connect");
+        return;
+      }
+      globalThis.location.href = body.authUrl;
+    } catch (error) {
+      console.error("Destination connect error:", error);
+      setStatus("Failed to connect");
+    }
+  };
+
+  const setOverride = (
+    destination: BridgeDestination,
+    key: keyof DestinationOverrides,
+    value: string,
+  ) => {
+    const overrides = { ...destination.filter_overrides };
+    if (value === "") {
+      delete overrides[key];
+    } else {
+      overrides[key] = value === "on";
+    }
+    updateDestination(destination.id, { filter_overrides: overrides });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+      <h3 className="text-lg font-semibold mb-2">Additional Destinations</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Also post to other Mastodon accounts, each with its own visibility and
+        filters. Backfill and adopt only apply to your main account.
+      </p>
+      <div className="space-y-4">
+        {destinations.map((destination) => (
+          <div key={destination.id} className="border rounded-lg p-4">
+            <div className="flex items-center justify-between gap-4 mb-2">
+              <div>
+                <p className="font-medium">{destination.name}</p>
+                <p className="text-sm text-gray-500">
+                  {destination.username ? `@${destination.username} on ` : ""}
+                  {destination.instance_url}
+                  {!destination.connected && " (not connected)"}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  removeDestination(destination.id)}
+                className="text-red-600 hover:text-red-800 text-sm"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={destination.enabled}
+                  disabled={!destination.connected}
+                  onChange={(e) =>
+                    updateDestination(destination.id, {
+                      enabled: e.target.checked,
+                    })}
+                />
+                Enabled
+              </label>
+              <select
+                value={destination.visibility}
+                onChange={(e) =>
+                  updateDestination(destination.id, {
+                    visibility: e.target
+                      .value as BridgeDestination["visibility"],
+                  })}
+                className="border rounded px-2 py-1"
+              >
+                <option value="public">Public</option>
+                <option value="unlisted">Unlisted</option>
+                <option value="private">Followers only</option>
+              </select>
+              {(Object.keys(OVERRIDE_LABELS) as Array<
+                keyof DestinationOverrides
+              >).map((key) => (
+                <label key={key} className="flex items-center gap-2">
+                  {OVERRIDE_LABELS[key]}
+                  <select
+                    value={destination.filter_overrides[key] === undefined
+                      ? ""
+                      : destination.filter_overrides[key]
+                      ? "on"
+                      : "off"}
+                    onChange={(e) =>
+                      setOverride(destination, key, e.target.value)}
+                    className="border rounded px-2 py-1"
+                  >
+                    <option value="">Default</option>
+                    <option value="on">On</option>
+                    <option value="off">Off</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 mt-4">
+        <input
+          type="text"
+          value={instanceUrl}
+          onChange={(e) => setInstanceUrl(e.target.value)}
+          placeholder="mastodon.social"
+          className="border rounded px-2 py-1 text-sm"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className="border rounded px-2 py-1 text-sm"
+        />
+        <button
+          type="button"
+          onClick={addDestination}
+          className="bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700 text-sm"
+        >
+          Connect
+        </button>
+        {status && <span className="text-sm text-gray-600">{status}</span>}
+      </div>
+    </div>
+  );
+}
+
+interface BackfillJob {
+  status: "running" | "paused" | "cancelled" | "completed";
+  phase: "scanning" | "posting";
+  since_at: number;
+  until_at: number;
+  max_posts: number;
+  queue: string;
+  position: number;
+  posts_synced: number;
+  posts_failed: number;
+  error_message: string | null;
+}
+
+function BackfillPanel() {
+  const [job, setJob] = useState<BackfillJob | null>(null);
+  const [since, setSince] = useState("");
+  const [until, setUntil] = useState(new Date().toISOString().slice(0, 10));
+  const [maxPosts, setMaxPosts] = useState(50);
+  const [addDatePrefix, setAddDatePrefix] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/dashboard/backfill", { credentials: "include" })
+      .then((response) => response.ok ? response.json() : { job: null })
+      .then((body) => setJob(body.job))
+      .catch((error) => console.error("Backfill fetch error:", error));
+  }, []);
+
+  const sendBackfill = async (path: string, body?: unknown) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const response = await fetch(`/api/dashboard/backfill${path}`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body ?? {}),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setStatus(result.error || "Request failed");
+        return;
+      }
+      setJob(result.job);
+    } catch (error) {
+      console.error("Backfill request error:", error);
+      setStatus("Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const active = job?.status === "running" || job?.status === "paused";
+  const queued = job ? JSON.parse(job.queue).length : 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+      <h3 className="text-lg font-semibold mb-2">Backfill</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Import older Bluesky posts, oldest first. The job runs a few posts at a
+        time on each scheduled sync.
+      </p>
+      {job && (
+        <div className="text-sm text-gray-700 mb-4">
+          <span className="font-medium capitalize">{job.status}</span>
+          {" · "}
+          {job.phase === "scanning"
+            ? `Scanning feed (${queued} posts found)`
+            : `${job.position}/${queued} posts processed`}
+          {" · "}
+          {job.posts_synced} synced, {job.posts_failed} failed
+          {job.error_message && (
+            <div className="text-red-600 mt-1">{job.error_message}</div>
+          )}
+        </div>
+      )}
+      {active
+        ? (
+          <div className="flex items-center gap-4">
+            {job.status === "running"
+              ? (
+                <button
+                  type="button"
+                  onClick={() => sendBackfill("/pause")}
+                  disabled={busy}
+                  className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                >
+                  Pause
+                </button>
+              )
+              : (
+                <button
+                  type="button"
+                  onClick={() => sendBackfill("/resume")}
+                  disabled={busy}
+                  className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                >
+                  Resume
+                </button>
+              )}
+            <button
+              type="button"
+              onClick={() => sendBackfill("/cancel")}
+              disabled={busy}
+              className="text-red-600 hover:text-red-800 text-sm font-medium"
+            >
+              Cancel
+            </button>
+            {status && <span className="text-sm text-gray-600">{status}</span>}
+          </div>
+        )
+        : (
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              From
+              <input
+                type="date"
+                value={since}
+                onChange={(event) => setSince(event.currentTarget.value)}
+                className="border rounded px-2 py-1"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              To
+              <input
+                type="date"
+                value={until}
+                onChange={(event) => setUntil(event.currentTarget.value)}
+                className="border rounded px-2 py-1"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Max posts
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={maxPosts}
+                onChange={(event) =>
+                  setMaxPosts(Number(event.currentTarget.value))}
+                className="border rounded px-2 py-1 w-20"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={addDatePrefix}
+                onChange={(event) =>
+                  setAddDatePrefix(event.currentTarget.checked)}
+              />
+              Add "Originally posted on Bluesky" date
+            </label>
+            <button
+              type="button"
+              onClick={() =>
+                sendBackfill("", {
+                  since,
+                  // Include posts from the whole end day
+                  until: `${until}T23:59:59Z`,
+                  max_posts: maxPosts,
+                  add_date_prefix: addDatePrefix,
+                })}
+              disabled={busy || !since || !until}
+              className="bg-blue-600 text-white px-3 py-1 rounded-lg hover:bg-blue-700"
+            >
+              Start
+            </button>
+            {status && <span className="text-gray-600">{status}</span>}
+          </div>
+        )}
+    </div>
+  );
+}
+
 function Dashboard() {
   const [data, setData] = useState<DashboardData | null>(null);
+  const [settings, setSettings] = useState<SyncSettings | null>(null);
+  const [savingSetting, setSavingSetting] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchDashboardData();
+    fetchSettings();
   }, []);
 
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch("/api/dashboard/settings", {
+        credentials: "include",
+      });
+
+      if (response.ok) {
+        setSettings(await response.json());
+      }
+    } catch (error) {
+      console.error("Settings fetch error:", error);
+    }
+  };
+
+  const updateSetting = async (key: keyof SyncSettings, value: boolean) => {
+    try {
+      setSavingSetting(key);
+      const response = await fetch("/api/dashboard/settings", {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [key]: value }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          globalThis.location.href = "/login";
+          return;
+        }
+        throw new Error("Failed to save setting");
+      }
+
+      setSettings(await response.json());
+    } catch (error) {
+      console.error("Settings update error:", error);
+      alert("Failed to save setting");
+    } finally {
+      setSavingSetting(null);
+    }
+  };
+
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
@@ -79,6 +874,15 @@ function Dashboard() {
           globalThis.location.href = "/login";
           return;
         }
+        if (response.status === 409) {
+          const body = await response.json();
+          alert(
+            `A sync is already running (started ${
+              new Date(body.startedAt).toLocaleTimeString()
+            })`,
+          );
+          return;
+        }
         throw new Error("Manual sync failed");
       }
 
@@ -325,6 +1129,42 @@ function Dashboard() {
           </div>
         </div>
 
+        {/* Settings */}
+        {settings && (
+          <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+            <h3 className="text-lg font-semibold mb-4">Sync Settings</h3>
+            <div className="space-y-3">
+              {SETTING_LABELS.map(({ key, label, description }) => (
+                <label
+                  key={key}
+                  className="flex items-start justify-between gap-4"
+                >
+                  <div>
+                    <div className="text-gray-700">{label}</div>
+                    <div className="text-sm text-gray-500">{description}</div>
+                  </div>
+                  <input
+                    type="checkbox"
+                    className="mt-1 h-4 w-4"
+                    checked={settings[key]}
+                    disabled={savingSetting === key}
+                    onChange={(event) =>
+                      updateSetting(key, event.currentTarget.checked)}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <FilterRulesEditor />
+
+        <BackfillPanel />
+
+        <AdoptPanel />
+
+        <DestinationsPanel />
+
         {/* Stats */}
         <div className="grid md:grid-cols-3 gap-6 mb-8">
           <div className="bg-white p-6 rounded-lg shadow-sm text-center">
@@ -400,6 +1240,8 @@ function Dashboard() {
                               ? "bg-green-100 text-green-800"
                               : post.sync_status === "failed"
                               ? "bg-red-100 text-red-800"
+                              : post.sync_status === "deleted"
+                              ? "bg-gray-100 text-gray-600"
                               : "bg-yellow-100 text-yellow-800"
                           }`}
                         >
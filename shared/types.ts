@@ -53,9 +53,15 @@ export interface ATProtoPost {
         };
       };
       record?: {
-        uri: string;
-        cid: string;
+        uri?: string;
+        cid?: string;
+        record?: { uri: string; cid: string }; // Nested in recordWithMedia
       };
+      // Images or video alongside a quoted record (recordWithMedia)
+      media?: Omit<
+        NonNullable<ATProtoPost["record"]["embed"]>,
+        "record" | "media"
+      >;
     };
     facets?: Array<{
       index: {
@@ -73,8 +79,19 @@ export interface ATProtoPost {
       root: { uri: string; cid: string };
       parent: { uri: string; cid: string };
     };
+    langs?: string[]; // BCP-47 language tags, e.g. ["en-US"]
+    labels?: {
+      $type?: string; // com.atproto.label.defs#selfLabels
+      values: Array<{ val: string }>;
+    };
   };
   indexedAt: string;
+  // Set when the post appears in the author feed because it was reposted
+  reason?: {
+    $type: string; // app.bsky.feed.defs#reasonRepost
+    by?: { did: string; handle: string };
+    indexedAt?: string; // When the repost happened
+  };
 }
 
 export interface MastodonPost {
@@ -83,11 +100,25 @@ export interface MastodonPost {
   url: string;
   content: string;
   created_at: string;
+  visibility?: "public" | "unlisted" | "private" | "direct";
+  in_reply_to_id?: string | null;
+  in_reply_to_account_id?: string | null;
+  spoiler_text?: string;
+  language?: string | null;
+  reblog?: MastodonPost | null;
+  application?: { name: string; website?: string | null } | null;
+  mentions?: Array<{
+    id: string;
+    username: string;
+    url: string;
+    acct: string; // user@domain, or just user on the same instance
+  }>;
   media_attachments?: Array<{
     id: string;
-    type: "image" | "video" | "audio";
+    type: "image" | "gifv" | "video" | "audio" | "unknown";
     url: string;
-    description?: string;
+    description?: string | null;
+    meta?: { original?: { width?: number; height?: number } };
   }>;
 }
 
@@ -104,6 +135,8 @@ export interface PostTransformation {
     url: string;
     type: "image" | "video";
     description?: string;
+    cid?: string; // Blob CID, to verify the fetched data against
+    mimeType?: string; // As declared in the embed
   }>;
   mentions: Array<{
     handle: string;
@@ -114,6 +147,9 @@ export interface PostTransformation {
     displayText: string;
   }>;
   hashtags: string[];
+  language?: string; // ISO 639 code for Mastodon's language field
+  sensitive?: boolean; // Self-labelled as adult or graphic content
+  spoilerText?: string; // Content warning shown before the post
 }
 
 export interface SyncResult {
@@ -182,7 +218,13 @@ export interface PostStatus {
   atprotoCreatedAt: number;
   mastodonId?: string;
   mastodonUrl?: string;
-  status: "pending" | "success" | "failed" | "skipped";
+  status:
+    | "pending"
+    | "posting"
+    | "success"
+    | "failed"
+    | "skipped"
+    | "deleted";
   errorMessage?: string;
   retryCount: number;
   syncedAt?: number;
@@ -0,0 +1,172 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  processImage,
+  processImageBlob,
+} from "../backend/services/image-processor.ts";
+import { createRaster, RasterImage } from "../backend/lib/image/raster.ts";
+import { decodePng, encodePng } from "../backend/lib/image/png.ts";
+import { decodeJpeg } from "../backend/lib/image/jpeg-decoder.ts";
+import { encodeJpeg } from "../backend/lib/image/jpeg-encoder.ts";
+import {
+  readJpegOrientation,
+  readJpegSize,
+} from "../backend/lib/image/jpeg-markers.ts";
+import { decodeWebp, readWebpSize } from "../backend/lib/image/webp.ts";
+
+// 16x16 lossy WebP with a lossless alpha channel
+const PYTHON_WEBP =
+  "UklGRqgBAABXRUJQVlA4WAoAAAAQAAAADwAADwAAQUxQSMMAAAABJ6KokSTleucYX+ffKpmImP90cY3gJjDi4Yt3MsjBEVyDKzDosHgVjnhRNcEIDAJPkqBqsFUZHNa2bUYvTsZ2PLbtd/uvKa4hov9J0f2PkPe6REkkGzolkTTzFG0Ox9PlFiD0CxS+kOGDtxoynjaCfx0pfk52CPuInrOR75lzRugygtv4zEiy90UwfSD9NheMITJWLaXWayO8XeOlWRXVnIGk2W6WdYoYMQ+KqixQNPowgt+6a1BSKbUtz+lUFAoBAAAAVlA4IL4AAACQAgCdASoQABAAAwA0JbACdDBPCIUMfAMdCCz96AD+/XSg/QKbH4r3Q3ycN/bSDK/T/zVo4u6nvclvG/SqxWOuup+XhN9BojvaW+Tv+MvxvX/hr/o/5Qns9LtmX/+qKdl/yWznhuasl7nkxvSTI4xf3Y85VSB/lU/8Ofj/b9JrA+ifvIOYZm2x1RP/dhfmsf5diuSfR7+z+r/+HR3zEo/+XM/B+vkYw73Pzx+ROaAB/ZoBSzEs3rzZe6qsAAAA";
+
+function gradient(width: number, height: number, alpha = 255): RasterImage {
+  const image = createRaster(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      image.data[i] = (x * 255) / width;
+      image.data[i + 1] = (y * 255) / height;
+      image.data[i + 2] = 128;
+      image.data[i + 3] = alpha;
+    }
+  }
+  return image;
+}
+
+// Random pixels, which compress badly
+function noise(width: number, height: number): RasterImage {
+  const image = createRaster(width, height);
+  let seed = 1;
+  for (let i = 0; i < image.data.length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    image.data[i] = i % 4 === 3 ? 255 : seed >>> 24;
+  }
+  return image;
+}
+
+// An APP1 segment with a big-endian EXIF orientation tag
+function withOrientation(jpeg: Uint8Array, orientation: number): Uint8Array {
+  // deno-fmt-ignore
+  const app1 = new Uint8Array([
+    0xff, 0xe1, 0x00, 0x22, // Marker and length
+    ...new TextEncoder().encode("Exif\0\0"),
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // TIFF header
+    0x00, 0x01, // One entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0, 0,
+    0x00, 0x00, 0x00, 0x00, // No next IFD
+  ]);
+  const out = new Uint8Array(jpeg.length + app1.length);
+  out.set(jpeg.subarray(0, 2));
+  out.set(app1, 2);
+  out.set(jpeg.subarray(2), 2 + app1.length);
+  return out;
+}
+
+function maxDifference(a: RasterImage, b: RasterImage): number {
+  let max = 0;
+  for (let i = 0; i < a.data.length; i++) {
+    max = Math.max(max, Math.abs(a.data[i] - b.data[i]));
+  }
+  return max;
+}
+
+Deno.test("image codecs", async (t) => {
+  await t.step("PNG round-trips exactly", async () => {
+    const image = gradient(37, 21, 200);
+    const decoded = await decodePng(await encodePng(image));
+
+    assertEquals(decoded, image);
+  });
+
+  await t.step("JPEG stays close to the original", () => {
+    const image = gradient(40, 30);
+    const decoded = decodeJpeg(encodeJpeg(image, 90));
+
+    assertEquals([decoded.width, decoded.height], [40, 30]);
+    assertEquals(maxDifference(decoded, image) <= 12, true);
+  });
+
+  await t.step("decodes lossy WebP with alpha", () => {
+    const bytes = Uint8Array.from(atob(PYTHON_WEBP), (c) => c.charCodeAt(0));
+    const image = decodeWebp(bytes);
+
+    assertEquals(readWebpSize(bytes), { width: 16, height: 16 });
+    assertEquals([image.width, image.height], [16, 16]);
+    // Pixels as libwebp decodes them
+    assertEquals(Array.from(image.data.subarray(0, 4)), [14, 0, 0, 0]);
+    assertEquals(
+      Array.from(image.data.subarray(136 * 4, 137 * 4)),
+      [243, 222, 129, 255],
+    );
+    assertEquals(
+      Array.from(image.data.subarray(60 * 4, 61 * 4)),
+      [0, 3, 0, 24],
+    );
+  });
+});
+
+Deno.test("processImage", async (t) => {
+  await t.step("passes unknown formats through", async () => {
+    const data = new Uint8Array([1, 2, 3, 4]);
+    const result = await processImage(data, "video/mp4", { compress: true });
+
+    assertEquals(result, { data, mimeType: "video/mp4" });
+  });
+
+  await t.step("scales down to the pixel limit", async () => {
+    const png = await encodePng(gradient(64, 48));
+    const result = await processImage(png, "image/png", { maxPixels: 768 });
+
+    assertEquals(result.mimeType, "image/jpeg");
+    assertEquals(readJpegSize(result.data), { width: 32, height: 24 });
+  });
+
+  await t.step("keeps transparent images as PNG", async () => {
+    const png = await encodePng(gradient(64, 48, 100));
+    const result = await processImage(png, "image/png", { maxPixels: 768 });
+    const decoded = await decodePng(result.data);
+
+    assertEquals(result.mimeType, "image/png");
+    assertEquals([decoded.width, decoded.height], [32, 24]);
+    assertEquals(decoded.data[3], 100);
+  });
+
+  await t.step("re-encodes until under the size limit", async () => {
+    const jpeg = encodeJpeg(noise(120, 80), 95);
+    const result = await processImage(jpeg, "image/jpeg", {
+      maxBytes: 6000,
+    });
+
+    assertEquals(result.data.length <= 6000, true);
+    assertEquals(result.mimeType, "image/jpeg");
+  });
+
+  await t.step("turns rotated photos upright", async () => {
+    const jpeg = withOrientation(encodeJpeg(gradient(40, 30), 90), 6);
+    assertEquals(readJpegOrientation(jpeg), 6);
+
+    const result = await processImage(jpeg, "image/jpeg");
+
+    assertEquals(readJpegOrientation(result.data), 1);
+    assertEquals(readJpegSize(result.data), { width: 30, height: 40 });
+  });
+
+  await t.step("strips EXIF without re-encoding", async () => {
+    const original = encodeJpeg(gradient(40, 30), 90);
+    const jpeg = withOrientation(original, 1);
+
+    const result = await processImage(jpeg, "image/jpeg");
+
+    assertEquals(result.data, original);
+  });
+
+  await t.step("keeps small originals when compressing", async () => {
+    const jpeg = encodeJpeg(gradient(40, 30), 10);
+    const blob = new Blob([jpeg], { type: "image/jpeg" });
+
+    const result = await processImageBlob(blob, {
+      compress: true,
+      quality: 95,
+    });
+
+    assertEquals(result, blob);
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  JetstreamEventSource,
+  normalizeBlobRefs,
+} from "../backend/services/jetstream-event-source.ts";
+
+const DID = "did:plc:test";
+
+function commitMessage(
+  timeUs: number,
+  commit: Record<string, unknown>,
+  did = DID,
+) {
+  return JSON.stringify({ did, time_us: timeUs, kind: "commit", commit });
+}
+
+/**
+ * Start a local WebSocket server that sends the given messages on connect
+ */
+function startFakeJetstream(messages: string[], closeAfterSend = false) {
+  const requestedUrls: string[] = [];
+  const server = Deno.serve({ port: 0, onListen() {} }, (req) => {
+    requestedUrls.push(req.url);
+    const { socket, response } = Deno.upgradeWebSocket(req);
+    socket.onopen = () => {
+      for (const message of messages) {
+        socket.send(message);
+      }
+      if (closeAfterSend) {
+        socket.close();
+      }
+    };
+    return response;
+  });
+
+  return {
+    url: `ws://localhost:${server.addr.port}/subscribe`,
+    requestedUrls,
+    shutdown: () => server.shutdown(),
+  };
+}
+
+Deno.test("JetstreamEventSource - builds filtered subscribe URL", () => {
+  const source = new JetstreamEventSource({
+    url: "wss://jetstream.example/subscribe",
+    listenMs: 1000,
+    idleMs: 100,
+    maxEvents: 10,
+  });
+
+  const url = new URL(source.buildSubscribeUrl(DID, 1700000000000000));
+  assertEquals(url.searchParams.get("wantedCollections"), "app.bsky.feed.post");
+  assertEquals(url.searchParams.get("wantedDids"), DID);
+  assertEquals(url.searchParams.get("cursor"), "1700000000000000");
+
+  const noCursor = new URL(source.buildSubscribeUrl(DID));
+  assertEquals(noCursor.searchParams.has("cursor"), false);
+});
+
+Deno.test("JetstreamEventSource - collects post commits and advances cursor", async () => {
+  const fake = startFakeJetstream([
+    commitMessage(100, {
+      operation: "create",
+      collection: "app.bsky.feed.post",
+      rkey: "abc",
+      cid: "bafycreate",
+      record: {
+        $type: "app.bsky.feed.post",
+        text: "Hello from Jetstream",
+        createdAt: "2024-01-01T00:00:00.000Z",
+      },
+    }),
+    commitMessage(200, {
+      operation: "create",
+      collection: "app.bsky.feed.like",
+      rkey: "like1",
+      record: {},
+    }),
+    commitMessage(300, {
+      operation: "create",
+      collection: "app.bsky.feed.post",
+      rkey: "other",
+      record: { text: "Not mine", createdAt: "2024-01-01T00:00:00.000Z" },
+    }, "did:plc:someone-else"),
+    commitMessage(400, {
+      operation: "delete",
+      collection: "app.bsky.feed.post",
+      rkey: "old",
+    }),
+    JSON.stringify({ did: DID, time_us: 500, kind: "identity" }),
+  ], true);
+
+  try {
+    const source = new JetstreamEventSource({
+      url: fake.url,
+      listenMs: 2000,
+      idleMs: 1000,
+      maxEvents: 10,
+    });
+
+    const batch = await source.fetchEvents({ did: DID, cursor: 50 });
+
+    assertEquals(batch.events.length, 2);
+    assertEquals(batch.events[0].operation, "create");
+    assertEquals(batch.events[0].uri, `at://${DID}/app.bsky.feed.post/abc`);
+    assertEquals(batch.events[0].cid, "bafycreate");
+    assertEquals(batch.events[0].record?.text, "Hello from Jetstream");
+    assertEquals(batch.events[1].operation, "delete");
+    assertEquals(batch.events[1].uri, `at://${DID}/app.bsky.feed.post/old`);
+    assertEquals(batch.events[1].record, undefined);
+    // Cursor follows every message, including ones that were filtered out
+    assertEquals(batch.cursor, 500);
+
+    const requested = new URL(fake.requestedUrls[0]);
+    assertEquals(requested.searchParams.get("cursor"), "50");
+    assertEquals(requested.searchParams.get("wantedDids"), DID);
+  } finally {
+    await fake.shutdown();
+  }
+});
+
+Deno.test("JetstreamEventSource - stops after maxEvents", async () => {
+  const messages = [1, 2, 3].map((n) =>
+    commitMessage(n, {
+      operation: "create",
+      collection: "app.bsky.feed.post",
+      rkey: `post${n}`,
+      cid: `bafy${n}`,
+      record: { text: `Post ${n}`, createdAt: "2024-01-01T00:00:00.000Z" },
+    })
+  );
+  const fake = startFakeJetstream(messages);
+
+  try {
+    const source = new JetstreamEventSource({
+      url: fake.url,
+      listenMs: 2000,
+      idleMs: 1000,
+      maxEvents: 2,
+    });
+
+    const batch = await source.fetchEvents({ did: DID });
+
+    assertEquals(batch.events.length, 2);
+    assertEquals(batch.cursor, 2);
+  } finally {
+    await fake.shutdown();
+  }
+});
+
+Deno.test("JetstreamEventSource - rejects when connection fails", async () => {
+  const source = new JetstreamEventSource({
+    url: "ws://localhost:1/subscribe",
+    listenMs: 2000,
+    idleMs: 1000,
+    maxEvents: 10,
+  });
+
+  await assertRejects(
+    () => source.fetchEvents({ did: DID }),
+    Error,
+    "Jetstream connection failed",
+  );
+});
+
+Deno.test("normalizeBlobRefs - flattens $link objects to CID strings", () => {
+  const record = normalizeBlobRefs({
+    text: "Image post",
+    embed: {
+      $type: "app.bsky.embed.images",
+      images: [{
+        alt: "A picture",
+        image: {
+          $type: "blob",
+          ref: { $link: "bafkreiimage" },
+          mimeType: "image/jpeg",
+          size: 1234,
+        },
+      }],
+    },
+  });
+
+  assertEquals(record.embed.images[0].image.ref, "bafkreiimage");
+  assertEquals(record.embed.images[0].image.mimeType, "image/jpeg");
+  assertEquals(record.embed.images[0].alt, "A picture");
+});
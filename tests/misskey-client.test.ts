@@ -0,0 +1,204 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  checkMiAuthSession,
+  miAuthUrl,
+  MisskeyClient,
+  noteTextToHtml,
+} from "../backend/services/misskey-client.ts";
+import { detectServerSoftware } from "../backend/services/server-software.ts";
+import { statusToRichText } from "../backend/services/status-rich-text.ts";
+import { jsonResponse, withMockFetch } from "./helpers/mockFetch.ts";
+
+function nodeinfoFetch(softwareName: string) {
+  return (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.endsWith("/.well-known/nodeinfo")) {
+      return jsonResponse({
+        links: [
+          {
+            rel: "http://nodeinfo.diaspora.software/ns/schema/2.0",
+            href: "https://social.example/nodeinfo/2.0",
+          },
+          {
+            rel: "http://nodeinfo.diaspora.software/ns/schema/2.1",
+            href: "https://social.example/nodeinfo/2.1",
+          },
+        ],
+      });
+    }
+    if (url === "https://social.example/nodeinfo/2.1") {
+      return jsonResponse({ software: { name: softwareName } });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+}
+
+Deno.test("detectServerSoftware - read nodeinfo", async (t) => {
+  await t.step("Misskey forks use the Misskey API", async () => {
+    let software;
+    await withMockFetch(nodeinfoFetch("Sharkey"), async () => {
+      software = await detectServerSoftware("https://social.example");
+    });
+    assertEquals(software, "misskey");
+  });
+
+  await t.step("other servers use the Mastodon API", async () => {
+    let software;
+    await withMockFetch(nodeinfoFetch("gotosocial"), async () => {
+      software = await detectServerSoftware("https://social.example");
+    });
+    assertEquals(software, "mastodon");
+  });
+
+  await t.step("fall back to Mastodon without nodeinfo", async () => {
+    let software;
+    await withMockFetch(() => {
+      throw new TypeError("connection refused");
+    }, async () => {
+      software = await detectServerSoftware("https://social.example");
+    });
+    assertEquals(software, "mastodon");
+  });
+});
+
+Deno.test("MisskeyClient - createPost", async () => {
+  let requestBody: any;
+  let status: any;
+  await withMockFetch((input, init) => {
+    assertEquals(String(input), "https://misskey.example/api/notes/create");
+    requestBody = JSON.parse(String(init?.body));
+    return jsonResponse({
+      createdNote: {
+        id: "9xyz",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        text: requestBody.text,
+        cw: requestBody.cw,
+        visibility: requestBody.visibility,
+        replyId: requestBody.replyId,
+        files: [{
+          id: "file1",
+          type: "image/png",
+          url: "https://misskey.example/files/file1",
+          comment: "A cat",
+          properties: { width: 640, height: 480 },
+        }],
+      },
+    });
+  }, async () => {
+    status = await new MisskeyClient("https://misskey.example/", "token")
+      .createPost({
+        status: "Hello\nhttps://example.com #bridge",
+        media_ids: ["file1"],
+        visibility: "unlisted",
+        sensitive: true,
+        in_reply_to_id: "9abc",
+        idempotency_key: "ignored",
+      });
+  });
+
+  assertEquals(requestBody, {
+    text: "Hello\nhttps://example.com #bridge",
+    cw: "Sensitive content",
+    visibility: "home",
+    fileIds: ["file1"],
+    replyId: "9abc",
+    i: "token",
+  });
+  assertEquals(status.url, "https://misskey.example/notes/9xyz");
+  assertEquals(status.visibility, "unlisted");
+  assertEquals(status.in_reply_to_id, "9abc");
+  assertEquals(status.media_attachments, [{
+    id: "file1",
+    type: "image",
+    url: "https://misskey.example/files/file1",
+    description: "A cat",
+    meta: { original: { width: 640, height: 480 } },
+  }]);
+});
+
+Deno.test("MisskeyClient - missing notes report a 404", async () => {
+  let error: any;
+  await withMockFetch(() =>
+    jsonResponse(
+      { error: { code: "NO_SUCH_NOTE", message: "No such note." } },
+      { status: 400 },
+    ), async () => {
+    try {
+      await new MisskeyClient("https://misskey.example", "token")
+        .getStatus("gone");
+    } catch (e) {
+      error = e;
+    }
+  });
+
+  assertEquals(error.status, 404);
+  assertEquals(error.message, "Misskey notes/show failed: No such note.");
+});
+
+Deno.test("noteTextToHtml - converts like a Mastodon status", () => {
+  const html = noteTextToHtml(
+    "Tom & Jerry\nhttps://example.com/a?b=c.\n\n#bridge",
+    "https://misskey.example",
+  );
+
+  const { text, facets } = statusToRichText(html);
+  assertEquals(text, "Tom & Jerry\nhttps://example.com/a?b=c.\n\n#bridge");
+  assertEquals(facets.map((facet) => facet.features[0]), [
+    {
+      $type: "app.bsky.richtext.facet#link",
+      uri: "https://example.com/a?b=c",
+    },
+    { $type: "app.bsky.richtext.facet#tag", tag: "bridge" },
+  ]);
+});
+
+Deno.test("MiAuth - authorize and check the session", async (t) => {
+  await t.step("ask for the permissions the bridge needs", () => {
+    const url = new URL(
+      miAuthUrl("https://misskey.example", "session-1", {
+        name: "Bridge",
+        callback: "https://bridge.example/oauth/mastodon/callback",
+      }),
+    );
+
+    assertEquals(url.pathname, "/miauth/session-1");
+    assertEquals(
+      url.searchParams.get("callback"),
+      "https://bridge.example/oauth/mastodon/callback",
+    );
+    assertEquals(
+      url.searchParams.get("permission"),
+      "read:account,write:notes,read:drive,write:drive",
+    );
+  });
+
+  await t.step("return the token of an approved session", async () => {
+    let result;
+    await withMockFetch((input) => {
+      assertEquals(
+        String(input),
+        "https://misskey.example/api/miauth/session-1/check",
+      );
+      return jsonResponse({
+        ok: true,
+        token: "secret",
+        user: { username: "alice" },
+      });
+    }, async () => {
+      result = await checkMiAuthSession("https://misskey.example", "session-1");
+    });
+    assertEquals(result, { token: "secret", username: "alice" });
+  });
+
+  await t.step("reject a session that wasn't approved", async () => {
+    let message;
+    await withMockFetch(() => jsonResponse({ ok: false }), async () => {
+      try {
+        await checkMiAuthSession("https://misskey.example", "session-2");
+      } catch (error) {
+        message = (error as Error).message;
+      }
+    });
+    assertEquals(message, "MiAuth session was not approved");
+  });
+});
@@ -1,8 +1,14 @@
 // Unit tests for PostTransformer
 
-import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
 import { PostTransformer } from "../backend/services/post-transformer.ts";
+import { BlobVerificationError } from "../backend/services/blob-verifier.ts";
 import { DefaultPostFilter } from "../backend/services/post-filter.ts";
+import { resolveSyncSettings } from "../backend/services/sync-settings.ts";
+import { Settings } from "../backend/interfaces/storage.ts";
 import { ATProtoPost } from "../shared/types.ts";
 
 // Test helper to create sample ATProto post
@@ -37,6 +43,74 @@ Deno.test("PostTransformer - should transform basic post", () => {
   assertEquals(result.hashtags.length, 0);
 });
 
+Deno.test("PostTransformer - should carry the post language", () => {
+  const post = createSamplePost();
+  post.record.langs = ["en-US", "nl"];
+
+  const result = PostTransformer.transformPost(post);
+
+  assertEquals(result.language, "en");
+});
+
+Deno.test("PostTransformer - should leave language unset without langs", () => {
+  const result = PostTransformer.transformPost(createSamplePost());
+
+  assertEquals(result.language, undefined);
+});
+
+Deno.test("PostTransformer - should normalize language tags for Mastodon", () => {
+  assertEquals(PostTransformer.normalizeLanguage("en-US"), "en");
+  assertEquals(PostTransformer.normalizeLanguage("pt_BR"), "pt");
+  assertEquals(PostTransformer.normalizeLanguage("NL"), "nl");
+  assertEquals(PostTransformer.normalizeLanguage("zh-Hant-TW"), "zh");
+  assertEquals(PostTransformer.normalizeLanguage("tok"), "tok");
+  assertEquals(PostTransformer.normalizeLanguage("und"), undefined);
+  assertEquals(PostTransformer.normalizeLanguage(""), undefined);
+  assertEquals(PostTransformer.normalizeLanguage(undefined), undefined);
+});
+
+Deno.test("PostTransformer - should map self-labels to a content warning", () => {
+  const post = createSamplePost();
+  post.record.labels = {
+    $type: "com.atproto.label.defs#selfLabels",
+    values: [{ val: "sexual" }, { val: "graphic-media" }],
+  };
+
+  const result = PostTransformer.transformPost(post, {
+    contentWarnings: {
+      sexual: "Sexual content",
+      "graphic-media": "Graphic media",
+    },
+  });
+
+  assertEquals(result.sensitive, true);
+  assertEquals(result.spoilerText, "Sexual content, Graphic media");
+});
+
+Deno.test("PostTransformer - should mark sensitive without warning text when configured empty", () => {
+  const post = createSamplePost();
+  post.record.labels = { values: [{ val: "porn" }] };
+
+  const result = PostTransformer.transformPost(post, {
+    contentWarnings: { porn: "" },
+  });
+
+  assertEquals(result.sensitive, true);
+  assertEquals(result.spoilerText, undefined);
+});
+
+Deno.test("PostTransformer - should ignore unmapped labels", () => {
+  const post = createSamplePost();
+  post.record.labels = { values: [{ val: "!no-unauthenticated" }] };
+
+  const result = PostTransformer.transformPost(post, {
+    contentWarnings: { nudity: "Nudity" },
+  });
+
+  assertEquals(result.sensitive, false);
+  assertEquals(result.spoilerText, undefined);
+});
+
 Deno.test("PostTransformer - should transform mentions to profile links using DID", () => {
   const post = createSamplePost({
     record: {
@@ -138,6 +212,8 @@ Deno.test("PostTransformer - should handle image embeds", () => {
   assertEquals(result.media[0].type, "image");
   assertEquals(result.media[0].url, "blob://blob_ref_123");
   assertEquals(result.media[0].description, "A beautiful sunset");
+  assertEquals(result.media[0].cid, "blob_ref_123");
+  assertEquals(result.media[0].mimeType, "image/jpeg");
 });
 
 Deno.test("PostTransformer - should handle external embeds (link previews)", () => {
@@ -169,6 +245,94 @@ Deno.test("PostTransformer - should handle external embeds (link previews)", ()
   assertEquals(result.links[0].displayText, "Great Article Title");
 });
 
+function linkCardPost(text: string) {
+  return createSamplePost({
+    record: {
+      text,
+      createdAt: "2024-01-01T10:00:00Z",
+      embed: {
+        $type: "app.bsky.embed.external",
+        external: {
+          uri: "https://example.com/article",
+          title: "Great Article Title",
+          description: "This is a preview\nof the article",
+          thumb: {
+            ref: "blob_ref_thumb",
+            mimeType: "image/jpeg",
+            size: 50000,
+          },
+        },
+      },
+    },
+  });
+}
+
+Deno.test("PostTransformer - should append a link card's URL", () => {
+  const result = PostTransformer.transformPost(
+    linkCardPost("Check out this article!"),
+    { linkCards: { appendUrl: true } },
+  );
+
+  assertEquals(
+    result.text,
+    "Check out this article!\n\nhttps://example.com/article",
+  );
+  assertEquals(result.links, [{
+    url: "https://example.com/article",
+    displayText: "https://example.com/article",
+  }]);
+  assertEquals(result.media, []);
+  assertEquals(
+    PostTransformer.formatForMastodon(result).status,
+    "Check out this article!\n\nhttps://example.com/article",
+  );
+});
+
+Deno.test("PostTransformer - should not append a link card's URL twice", () => {
+  const result = PostTransformer.transformPost(
+    linkCardPost("Read https://example.com/article"),
+    { linkCards: { appendUrl: true } },
+  );
+
+  assertEquals(result.text, "Read https://example.com/article");
+});
+
+Deno.test("PostTransformer - should quote a link card's title and description", () => {
+  const result = PostTransformer.transformPost(
+    linkCardPost("Check out this article!"),
+    { linkCards: { appendUrl: true, includeSummary: true } },
+  );
+
+  assertEquals(
+    PostTransformer.formatForMastodon(result).status,
+    "Check out this article!\n\n" +
+      "> Great Article Title\n> This is a preview\n> of the article\n\n" +
+      "https://example.com/article",
+  );
+});
+
+Deno.test("PostTransformer - should attach a link card's thumbnail", () => {
+  const result = PostTransformer.transformPost(
+    linkCardPost("Check out this article!"),
+    { linkCards: { uploadThumbnail: true } },
+  );
+
+  assertEquals(result.text, "Check out this article!");
+  assertEquals(result.media, [{
+    url: "blob://blob_ref_thumb",
+    type: "image",
+    description: "Great Article Title",
+    cid: "blob_ref_thumb",
+    mimeType: "image/jpeg",
+  }]);
+
+  const withoutThumbnail = PostTransformer.transformPost(
+    linkCardPost("Check out this article!"),
+    { linkCards: { appendUrl: true } },
+  );
+  assertEquals(withoutThumbnail.media, []);
+});
+
 Deno.test("PostTransformer - should handle video embeds", () => {
   const post = createSamplePost({
     record: {
@@ -328,6 +492,176 @@ Deno.test("PostTransformer - should skip quote posts with media (recordWithMedia
   assertEquals(shouldSync, false);
 });
 
+Deno.test("PostTransformer - should sync quote posts when enabled", () => {
+  const filter = new DefaultPostFilter();
+  const quote = createSamplePost({
+    record: {
+      text: "Worth reading",
+      createdAt: "2024-01-01T10:00:00Z",
+      embed: {
+        $type: "app.bsky.embed.record",
+        record: {
+          uri: "at://did:plc:other/app.bsky.feed.post/original",
+          cid: "original_cid",
+        },
+      },
+    },
+  });
+
+  assertEquals(filter.shouldSyncPost(quote, { sync_quote_posts: true }), true);
+  assertEquals(
+    filter.shouldSyncPost(quote, { sync_quote_posts: false }),
+    false,
+  );
+});
+
+Deno.test("PostTransformer - should follow the stored skip_replies and skip_reposts settings", () => {
+  const filter = new DefaultPostFilter();
+  const stored = (overrides: Partial<Settings>) =>
+    resolveSyncSettings({
+      id: 1,
+      sync_enabled: true,
+      sync_interval_minutes: 15,
+      skip_replies: true,
+      skip_mentions: true,
+      skip_reposts: true,
+      include_media: true,
+      compress_images: false,
+      created_at: 0,
+      updated_at: 0,
+      ...overrides,
+    });
+  const reply = createSamplePost({
+    record: {
+      text: "Good point",
+      createdAt: "2024-01-01T10:00:00Z",
+      reply: {
+        root: {
+          uri: "at://did:plc:other/app.bsky.feed.post/root",
+          cid: "root_cid",
+        },
+        parent: {
+          uri: "at://did:plc:other/app.bsky.feed.post/root",
+          cid: "root_cid",
+        },
+      },
+    },
+  });
+  const quote = createSamplePost({
+    record: {
+      text: "Worth reading",
+      createdAt: "2024-01-01T10:00:00Z",
+      embed: {
+        $type: "app.bsky.embed.record",
+        record: {
+          uri: "at://did:plc:other/app.bsky.feed.post/original",
+          cid: "original_cid",
+        },
+      },
+    },
+  });
+
+  assertEquals(filter.shouldSyncPost(reply, stored({})), false);
+  assertEquals(
+    filter.shouldSyncPost(reply, stored({ skip_replies: false })),
+    true,
+  );
+
+  assertEquals(filter.shouldSyncPost(quote, stored({})), false);
+  assertEquals(
+    filter.shouldSyncPost(quote, stored({ skip_reposts: false })),
+    true,
+  );
+});
+
+Deno.test("PostTransformer - should render quoted post as trailing permalink", () => {
+  const post = createSamplePost({
+    record: {
+      text: "Worth reading",
+      createdAt: "2024-01-01T10:00:00Z",
+      embed: {
+        $type: "app.bsky.embed.record",
+        record: {
+          uri: "at://did:plc:other/app.bsky.feed.post/original",
+          cid: "original_cid",
+        },
+      },
+    },
+  });
+
+  const result = PostTransformer.transformPost(post);
+
+  assertEquals(
+    result.text,
+    "Worth reading\n\nhttps://bsky.app/profile/did:plc:other/post/original",
+  );
+  assertEquals(result.media.length, 0);
+});
+
+Deno.test("PostTransformer - should use provided URL for quoted post", () => {
+  const post = createSamplePost({
+    record: {
+      text: "As I said before",
+      createdAt: "2024-01-01T10:00:00Z",
+      embed: {
+        $type: "app.bsky.embed.record",
+        record: {
+          uri: "at://did:plc:test/app.bsky.feed.post/mine",
+          cid: "mine_cid",
+        },
+      },
+    },
+  });
+
+  const result = PostTransformer.transformPost(post, {
+    quotedPostUrl: "https://mastodon.social/@test/123",
+  });
+
+  assertEquals(
+    result.text,
+    "As I said before\n\nhttps://mastodon.social/@test/123",
+  );
+});
+
+Deno.test("PostTransformer - should keep media from recordWithMedia quotes", () => {
+  const post = createSamplePost({
+    record: {
+      text: "My reaction",
+      createdAt: "2024-01-01T10:00:00Z",
+      embed: {
+        $type: "app.bsky.embed.recordWithMedia",
+        record: {
+          record: {
+            uri: "at://did:plc:other/app.bsky.feed.post/original",
+            cid: "original_cid",
+          },
+        },
+        media: {
+          $type: "app.bsky.embed.images",
+          images: [{
+            alt: "Reaction image",
+            image: {
+              ref: "blob_ref_123",
+              mimeType: "image/jpeg",
+              size: 1024,
+            },
+          }],
+        },
+      },
+    },
+  });
+
+  const result = PostTransformer.transformPost(post);
+
+  assertEquals(
+    result.text,
+    "My reaction\n\nhttps://bsky.app/profile/did:plc:other/post/original",
+  );
+  assertEquals(result.media.length, 1);
+  assertEquals(result.media[0].url, "blob://blob_ref_123");
+  assertEquals(result.media[0].description, "Reaction image");
+});
+
 Deno.test("PostTransformer - should not skip regular posts", () => {
   const post = createSamplePost();
 
@@ -585,23 +919,31 @@ Deno.test("PostTransformer - should resolve blob URLs using ATProto client", ()
   assertEquals(result.media[0].description, "A beautiful sunset");
 });
 
-Deno.test("PostTransformer - should get blob data for upload", async () => {
-  const transformation = {
+// CID of the bytes of "fake image data"
+const FAKE_IMAGE_CID =
+  "bafkreic3golwki2yuztduarf5z3em3koj7lmldkijunkeulqxnqx225qqy";
+
+function blobTransformation(cid: string) {
+  return {
     text: "Check out this image!",
     media: [{
-      url: "blob://blob_ref_123",
+      url: `blob://${cid}`,
       type: "image" as const,
       description: "A beautiful sunset",
+      cid,
+      mimeType: "image/jpeg",
     }],
     mentions: [],
     links: [],
     hashtags: [],
   };
+}
 
+Deno.test("PostTransformer - should get blob data for upload", async () => {
   // Mock ATProto client
   const mockClient = {
     getBlob: (blobRef: string) => {
-      assertEquals(blobRef, "blob_ref_123");
+      assertEquals(blobRef, FAKE_IMAGE_CID);
       return Promise.resolve(
         new Blob(["fake image data"], { type: "image/jpeg" }),
       );
@@ -609,7 +951,7 @@ Deno.test("PostTransformer - should get blob data for upload", async () => {
   };
 
   const result = await PostTransformer.getBlobsForUpload(
-    transformation,
+    blobTransformation(FAKE_IMAGE_CID),
     mockClient,
   );
 
@@ -619,6 +961,58 @@ Deno.test("PostTransformer - should get blob data for upload", async () => {
   assertEquals(result.blobData[0].type, "image/jpeg");
 });
 
+Deno.test("PostTransformer - should reject blob data that doesn't match its CID", async () => {
+  const mockClient = {
+    getBlob: () =>
+      Promise.resolve(new Blob(["other image data"], { type: "image/jpeg" })),
+  };
+
+  await assertRejects(
+    () =>
+      PostTransformer.getBlobsForUpload(
+        blobTransformation(FAKE_IMAGE_CID),
+        mockClient,
+      ),
+    BlobVerificationError,
+    "doesn't match its CID",
+  );
+});
+
+Deno.test("PostTransformer - should reject blobs served with another type", async () => {
+  const mockClient = {
+    getBlob: () =>
+      Promise.resolve(
+        new Blob(["fake image data"], { type: "text/html; charset=utf-8" }),
+      ),
+  };
+
+  await assertRejects(
+    () =>
+      PostTransformer.getBlobsForUpload(
+        blobTransformation(FAKE_IMAGE_CID),
+        mockClient,
+      ),
+    BlobVerificationError,
+    "served as text/html, expected image/jpeg",
+  );
+});
+
+Deno.test("PostTransformer - should fail when a blob can't be fetched", async () => {
+  const mockClient = {
+    getBlob: () => Promise.reject(new Error("Blob not found")),
+  };
+
+  await assertRejects(
+    () =>
+      PostTransformer.getBlobsForUpload(
+        blobTransformation(FAKE_IMAGE_CID),
+        mockClient,
+      ),
+    Error,
+    "Blob not found",
+  );
+});
+
 Deno.test("PostTransformer - should replace display text with actual URLs in Mastodon formatting", () => {
   const transformation = {
     text: "Check out https://example.com for more info",
@@ -704,15 +1098,16 @@ Deno.test("PostTransformer - should handle links that don't need replacement", (
   assertEquals(result.status, "Check out https://short.link today");
 });
 
-Deno.test("PostTransformer - should handle post with links and apply character limit after replacement", () => {
+Deno.test("PostTransformer - should count links as 23 characters when applying character limit", () => {
   const longText = "A".repeat(400);
+  const longUrl =
+    "https://example.com/extremely/long/path/that/will/make/the/post/exceed/character/limits/when/expanded";
   const transformation = {
     text: `${longText} Check out https://example.com... for details`,
     media: [],
     mentions: [],
     links: [{
-      url:
-        "https://example.com/extremely/long/path/that/will/make/the/post/exceed/character/limits/when/expanded",
+      url: longUrl,
       displayText: "https://example.com...",
     }],
     hashtags: [],
@@ -720,20 +1115,78 @@ Deno.test("PostTransformer - should handle post with links and apply character l
 
   const result = PostTransformer.formatForMastodon(transformation);
 
-  // Should truncate the expanded text to 500 chars
-  assertEquals(result.status.length, 499);
-  assertEquals(result.status.endsWith("..."), true);
-  // Should contain the full URL before truncation
+  // 523 characters long, but only 446 as Mastodon counts them
+  assertEquals(result.status, `${longText} Check out ${longUrl} for details`);
+  assertEquals(PostTransformer.countCharacters(result.status), 446);
+});
+
+Deno.test("PostTransformer - should not cut links apart when truncating", () => {
+  const url = "https://example.com/some/article";
+  const transformation = {
+    text: `${"A".repeat(480)} ${url} ${"B".repeat(50)}`,
+    media: [],
+    mentions: [],
+    links: [],
+    hashtags: [],
+  };
+
+  const result = PostTransformer.formatForMastodon(transformation);
+
+  assertEquals(result.status, `${"A".repeat(480)} ...`);
+  assertEquals(result.statuses, [result.status]);
+});
+
+Deno.test("PostTransformer - should respect the instance character limit", () => {
+  const transformation = {
+    text: "A".repeat(600),
+    media: [],
+    mentions: [],
+    links: [],
+    hashtags: [],
+  };
+
+  const result = PostTransformer.formatForMastodon(transformation, {
+    maxLength: 5000,
+  });
+
+  assertEquals(result.status.length, 600);
+});
+
+Deno.test("PostTransformer - should split long posts into a numbered thread", () => {
+  const words = Array.from({ length: 150 }, (_, i) => `word${i}`);
+  const transformation = {
+    text: words.join(" "),
+    media: [],
+    mentions: [{
+      handle: "alice.bsky.social",
+      profileUrl: "https://bsky.app/profile/did:plc:alice",
+    }],
+    links: [],
+    hashtags: [],
+  };
+
+  const result = PostTransformer.formatForMastodon(transformation, {
+    maxLength: 300,
+    splitIntoThread: true,
+  });
+
+  assertEquals(result.statuses.length > 1, true);
+  assertEquals(result.status, result.statuses[0]);
+  result.statuses.forEach((status, index) => {
+    assertEquals(status.length <= 300, true);
+    assertEquals(
+      status.endsWith(` (${index + 1}/${result.statuses.length})`),
+      true,
+    );
+  });
+
+  // No words are lost or broken across parts
+  const rejoined = result.statuses
+    .map((status) => status.replace(/ \(\d+\/\d+\)$/, ""))
+    .join(" ");
+  assertEquals(rejoined.includes(words.join(" ")), true);
   assertEquals(
-    (() => {
-      try {
-        const parsedUrl = new URL("https://example.com/extremely/long/path");
-        return parsedUrl.host === "example.com" &&
-          parsedUrl.pathname.startsWith("/extremely/long/path");
-      } catch {
-        return false;
-      }
-    })(),
+    rejoined.endsWith("(1) https://bsky.app/profile/did:plc:alice"),
     true,
   );
 });
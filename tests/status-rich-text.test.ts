@@ -0,0 +1,141 @@
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  prependText,
+  statusToRichText,
+  truncateRichText,
+  utf8Length,
+} from "../backend/services/status-rich-text.ts";
+
+Deno.test("statusToRichText - links keep their shortened text", () => {
+  const { text, facets } = statusToRichText(
+    '<p>Read <a href="https://example.com/a/very/long/path" target="_blank" rel="nofollow noopener noreferrer"><span class="invisible">https://</span><span class="ellipsis">example.com/a/very/lo</span><span class="invisible">ng/path</span></a> now</p>',
+  );
+
+  assertEquals(text, "Read example.com/a/very/lo… now");
+  assertEquals(facets, [{
+    index: { byteStart: 5, byteEnd: 29 }, // "…" is 3 bytes
+    features: [{
+      $type: "app.bsky.richtext.facet#link",
+      uri: "https://example.com/a/very/long/path",
+    }],
+  }]);
+});
+
+Deno.test("statusToRichText - offsets count UTF-8 bytes", () => {
+  const { text, facets } = statusToRichText(
+    '<p>Café ☕ <a href="https://home.example/tags/bridge" class="mention hashtag" rel="tag">#<span>bridge</span></a></p>',
+  );
+
+  assertEquals(text, "Café ☕ #bridge");
+  assertEquals(facets[0].index, { byteStart: 10, byteEnd: 17 });
+  assertEquals(facets[0].features, [{
+    $type: "app.bsky.richtext.facet#tag",
+    tag: "bridge",
+  }]);
+  assertEquals(
+    new TextDecoder().decode(
+      new TextEncoder().encode(text).slice(
+        facets[0].index.byteStart,
+        facets[0].index.byteEnd,
+      ),
+    ),
+    "#bridge",
+  );
+});
+
+Deno.test("statusToRichText - mentions", async (t) => {
+  await t.step("write out the full address and link the profile", () => {
+    const { text, facets } = statusToRichText(
+      '<p><span class="h-card" translate="no"><a href="https://other.example/@alice" class="u-url mention">@<span>alice</span></a></span> and <span class="h-card"><a href="https://home.example/@bob" class="u-url mention">@<span>bob</span></a></span></p>',
+      [
+        {
+          id: "1",
+          username: "alice",
+          url: "https://other.example/@alice",
+          acct: "alice@other.example",
+        },
+        {
+          id: "2",
+          username: "bob",
+          url: "https://home.example/@bob",
+          acct: "bob",
+        },
+      ],
+      "home.example",
+    );
+
+    assertEquals(text, "@alice@other.example and @bob@home.example");
+    assertEquals(facets.map((facet) => facet.index), [
+      { byteStart: 0, byteEnd: 20 },
+      { byteStart: 25, byteEnd: 42 },
+    ]);
+    assertEquals(facets[1].features, [{
+      $type: "app.bsky.richtext.facet#link",
+      uri: "https://home.example/@bob",
+    }]);
+  });
+
+  await t.step("mention bridged Bluesky accounts by DID", () => {
+    const { text, facets } = statusToRichText(
+      '<p>Hi <span class="h-card"><a href="https://bsky.brid.gy/ap/did:plc:abcdef234567" class="u-url mention">@<span>carol.bsky.social</span></a></span></p>',
+      [{
+        id: "3",
+        username: "carol.bsky.social",
+        url: "https://bsky.brid.gy/ap/did:plc:abcdef234567",
+        acct: "carol.bsky.social@bsky.brid.gy",
+      }],
+    );
+
+    assertEquals(text, "Hi @carol.bsky.social");
+    assertEquals(facets, [{
+      index: { byteStart: 3, byteEnd: 21 },
+      features: [{
+        $type: "app.bsky.richtext.facet#mention",
+        did: "did:plc:abcdef234567",
+      }],
+    }]);
+  });
+});
+
+Deno.test("statusToRichText - paragraphs, line breaks and entities", () => {
+  const { text, facets } = statusToRichText(
+    "<p>One &amp; two<br>three</p><p>&lt;four&gt; &#39;five&#39; &#x1F600;</p>",
+  );
+
+  assertEquals(text, "One & two\nthree\n\n<four> 'five' 😀");
+  assertEquals(facets, []);
+});
+
+Deno.test("truncateRichText - cut to Bluesky's length", async (t) => {
+  await t.step("leave short text alone", () => {
+    const richText = statusToRichText("<p>Short</p>");
+    assertEquals(truncateRichText(richText, 300), richText);
+  });
+
+  await t.step("count graphemes and drop facets past the cut", () => {
+    const family = "👨‍👩‍👧";
+    const richText = statusToRichText(
+      `<p>${family}${
+        "a".repeat(300)
+      } <a href="https://example.com">example.com</a></p>`,
+    );
+
+    const { text, facets } = truncateRichText(richText, 300);
+    assertEquals(text, `${family}${"a".repeat(298)}…`);
+    assertEquals(facets, []);
+  });
+});
+
+Deno.test("prependText - move facets along", () => {
+  const richText = statusToRichText(
+    '<p><a href="https://example.com">example.com</a></p>',
+  );
+  const prefix = "CW: spoilers ⚠\n\n";
+
+  const { text, facets } = prependText(richText, prefix);
+  assertEquals(text, `${prefix}example.com`);
+  assertEquals(facets[0].index, {
+    byteStart: utf8Length(prefix),
+    byteEnd: utf8Length(prefix) + 11,
+  });
+});
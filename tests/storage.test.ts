@@ -282,4 +282,35 @@ Deno.test("InMemoryStorageProvider - concurrent operations", async () => {
   }
 });
 
+Deno.test("InMemoryStorageProvider - per-user scoping", async () => {
+  const storage = new InMemoryStorageProvider();
+  await storage.userAccounts.create();
+  const other = storage.forUser(2);
+  await other.userAccounts.create();
+  await other.userAccounts.updateSingle({
+    atproto_handle: "other.bsky.social",
+  });
+
+  // The same provider comes back for a user
+  assertEquals(storage.forUser(2), other);
+  assertEquals(other.forUser(1), storage);
+
+  await other.postTracking.create({
+    atproto_uri: "at://other/1",
+    atproto_cid: "cid",
+    atproto_rkey: "1",
+    content_hash: "hash",
+    atproto_created_at: Math.floor(Date.now() / 1000),
+  });
+  assertEquals(await storage.postTracking.getByUri("at://other/1"), null);
+  assertEquals(
+    (await other.postTracking.getByUri("at://other/1"))?.atproto_cid,
+    "cid",
+  );
+
+  const users = await storage.listUsers();
+  assertEquals(users.map((user) => user.id), [1, 2]);
+  assertEquals(users[1].atproto_handle, "other.bsky.social");
+});
+
 // Run tests: deno test --allow-read --allow-write tests/storage.test.ts
@@ -2,31 +2,59 @@
 
 import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
 import { InMemoryStorageProvider } from "../backend/storage/memory-storage.ts";
-import { SyncService } from "../backend/services/sync-service.ts";
+import {
+  SyncInProgressError,
+  SyncService,
+} from "../backend/services/sync-service.ts";
+import { MastodonSyncer } from "../backend/services/mastodon-syncer.ts";
+import { ATProtoClientAdapter } from "../backend/services/atproto-client-adapter.ts";
+import { PostFetcher } from "../backend/services/post-fetcher.ts";
+import { BRIDGE_APP_NAME } from "../backend/services/reverse-syncer.ts";
+import { computeBlobCid } from "../backend/services/blob-verifier.ts";
+import { BRIDGE_CONFIG } from "../config.ts";
 import {
   ATProtoHttpClient,
   MastodonHttpClient,
+  PostNotFoundError,
 } from "../backend/interfaces/http-client.ts";
+import { PostEventSource } from "../backend/interfaces/event-source.ts";
+import {
+  MultiUserSyncRunner,
+  UserSyncOutcome,
+} from "../backend/services/multi-user-sync.ts";
+import { isAllowedUser } from "../backend/lib/multi-user.ts";
 import { ATProtoPost } from "../shared/types.ts";
 import { jsonResponse, withMockFetch } from "./helpers/mockFetch.ts";
 
 // Set test environment variables
 Deno.env.set("ATPROTO_ALLOWED_HANDLE", "test.bsky.social");
 
+// Blob CIDs of the image bodies the mocked PDS serves: the bytes 1-4, and
+// the text "image"
+const IMAGE_CID = "bafkreie7mstupynzp4jr7k5wwrdss3e3n4badz47wpctk3tmo7ujw2uani";
+const IMAGE_TEXT_CID =
+  "bafkreidbaxlmy5vpiabsl2knlcgoken6lp63w45ug7ofd3fehel5pjb6hu";
+
 // Minimal mock implementations
 class TestATProtoClient implements ATProtoHttpClient {
+  public createdRecords: Array<{ record: any; rkey: string }> = [];
+  public uploadedBlobs: Array<{ size: number; mimeType: string }> = [];
+  public shouldFailCreate = false;
+
   constructor(public posts: ATProtoPost[] = []) {}
 
   fetchPosts(): Promise<any> {
     return Promise.resolve({
-      feed: this.posts.map((post) => ({ post })),
+      feed: this.posts.map((post) => ({ post, reason: post.reason })),
       cursor: undefined,
     });
   }
 
   getPost(uri: string): Promise<any> {
     const post = this.posts.find((p) => p.uri === uri);
-    return Promise.resolve(post ? { thread: { post } } : null);
+    return post
+      ? Promise.resolve({ thread: { post } })
+      : Promise.reject(new PostNotFoundError(uri));
   }
 
   getProfile(): Promise<any> {
@@ -45,6 +73,33 @@ class TestATProtoClient implements ATProtoHttpClient {
     return `https://bsky.social/xrpc/com.atproto.sync.getBlob?did=test&cid=${blobRef}`;
   }
 
+  uploadBlob(data: Blob, mimeType: string): Promise<any> {
+    this.uploadedBlobs.push({ size: data.size, mimeType });
+    return Promise.resolve({
+      $type: "blob",
+      ref: { $link: `blob-${this.uploadedBlobs.length}` },
+      mimeType,
+      size: data.size,
+    });
+  }
+
+  createPost(record: any, rkey: string): Promise<any> {
+    if (this.shouldFailCreate) {
+      return Promise.reject(new Error("PDS unavailable"));
+    }
+    this.createdRecords.push({ record, rkey });
+    // The new post shows up in the author feed like any other
+    const uri = `at://did:plc:test/app.bsky.feed.post/${rkey}`;
+    this.posts.push({
+      uri,
+      cid: `cid-${rkey}`,
+      author: { did: "did:plc:test", handle: "test.bsky.social" },
+      record,
+      indexedAt: new Date().toISOString(),
+    });
+    return Promise.resolve({ uri, cid: `cid-${rkey}` });
+  }
+
   refreshToken(): Promise<any> {
     return Promise.resolve({
       access_token: "new_token",
@@ -56,7 +111,14 @@ class TestATProtoClient implements ATProtoHttpClient {
 
 class TestMastodonClient implements MastodonHttpClient {
   public posts: any[] = [];
+  public deletedIds: string[] = [];
+  public rebloggedIds: string[] = [];
+  public edits: Array<{ id: string; params: any }> = [];
   public shouldFail = false;
+  public instance: any = { title: "Test Instance" };
+  // Number of status checks before uploaded media finishes processing
+  public mediaProcessingChecks = 0;
+  public mediaStatusChecks = 0;
 
   verifyCredentials(): Promise<any> {
     return Promise.resolve({ id: "1", username: "test" });
@@ -67,21 +129,26 @@ class TestMastodonClient implements MastodonHttpClient {
   }
 
   getInstance(): Promise<any> {
-    return Promise.resolve({ title: "Test Instance" });
+    return Promise.resolve(this.instance);
   }
 
   uploadMedia(): Promise<any> {
     return Promise.resolve({
       id: "media_123",
       type: "image",
-      url: "https://example.com/media.jpg",
+      url: this.mediaProcessingChecks > 0
+        ? null
+        : "https://example.com/media.jpg",
     });
   }
 
   getMediaStatus(mediaId: string): Promise<any> {
+    this.mediaStatusChecks++;
     return Promise.resolve({
       id: mediaId,
-      url: "https://example.com/media.jpg",
+      url: this.mediaStatusChecks >= this.mediaProcessingChecks
+        ? "https://example.com/media.jpg"
+        : null,
     });
   }
 
@@ -89,17 +156,78 @@ class TestMastodonClient implements MastodonHttpClient {
     if (this.shouldFail) {
       return Promise.reject(new Error("Network error"));
     }
+    // Like Mastodon, answer a repeated Idempotency-Key with the original
+    const existing = params.idempotency_key &&
+      this.posts.find((post) =>
+        post.idempotency_key === params.idempotency_key
+      );
+    if (existing) {
+      return Promise.resolve(existing);
+    }
     const post = {
       id: String(this.posts.length + 1),
       uri: `https://example.com/posts/${this.posts.length + 1}`,
       url: `https://example.com/posts/${this.posts.length + 1}`,
       content: params.status,
+      media_ids: params.media_ids,
+      in_reply_to_id: params.in_reply_to_id,
+      // Every status here is the account's own
+      in_reply_to_account_id: params.in_reply_to_id ? "1" : null,
+      language: params.language,
+      visibility: params.visibility,
+      sensitive: params.sensitive,
+      spoiler_text: params.spoiler_text,
+      idempotency_key: params.idempotency_key,
       created_at: new Date().toISOString(),
     };
     this.posts.push(post);
     return Promise.resolve(post);
   }
 
+  editPost(id: string, params: any): Promise<any> {
+    this.edits.push({ id, params });
+    const post = this.posts.find((p) => p.id === id);
+    if (post) post.content = params.status;
+    return Promise.resolve(post);
+  }
+
+  getStatus(id: string): Promise<any> {
+    const post = this.posts.find((p) => p.id === id);
+    return Promise.resolve({
+      ...post,
+      media_attachments: (post?.media_ids ?? []).map((mediaId: string) => ({
+        id: mediaId,
+      })),
+    });
+  }
+
+  deletePost(id: string): Promise<void> {
+    this.deletedIds.push(id);
+    return Promise.resolve();
+  }
+
+  getAccountStatuses(
+    _accountId: string,
+    params: { limit: number; max_id?: string; min_id?: string },
+  ): Promise<any[]> {
+    if (params.min_id) {
+      const after = this.posts.filter((post) =>
+        Number(post.id) > Number(params.min_id)
+      );
+      return Promise.resolve(after.slice(0, params.limit).reverse());
+    }
+    const newestFirst = [...this.posts].reverse();
+    const start = params.max_id
+      ? newestFirst.findIndex((post) => post.id === params.max_id) + 1
+      : 0;
+    return Promise.resolve(newestFirst.slice(start, start + params.limit));
+  }
+
+  reblog(id: string): Promise<any> {
+    this.rebloggedIds.push(id);
+    return Promise.resolve({ id: `reblog-${id}` });
+  }
+
   registerApp(): Promise<any> {
     return Promise.resolve({
       client_id: "test_client_id",
@@ -483,6 +611,87 @@ Deno.test("Step 4: Filter posts", async (t) => {
   });
 });
 
+// Test 4b: Self-reply threads
+Deno.test("Step 4b: Mirror self-reply threads", async (t) => {
+  const mockResolver = (input: Request | URL | string) => {
+    const url = String(input);
+    if (
+      url.includes("/com.bad-example.identity.resolveMiniDoc") &&
+      (url.includes("did:plc:test") || url.includes("did%3Aplc%3Atest"))
+    ) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  await t.step("reply to own synced post becomes Mastodon reply", async () => {
+    const storage = await setupTestEnvironment();
+    const root = createPost(
+      "at://did:plc:test/app.bsky.feed.post/1",
+      "Thread start",
+      { createdAt: "2024-01-01T10:00:00Z" },
+    );
+    const continuation = createPost(
+      "at://did:plc:test/app.bsky.feed.post/2",
+      "Thread continued",
+      { createdAt: "2024-01-01T10:01:00Z" },
+    );
+    continuation.record.reply = {
+      root: { uri: root.uri, cid: root.cid },
+      parent: { uri: root.uri, cid: root.cid },
+    };
+
+    // Feed order is newest first
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient([continuation, root]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.posts.length, 2);
+    assertEquals(mastodonClient.posts[0].content, "Thread start");
+    assertEquals(mastodonClient.posts[1].content, "Thread continued");
+    assertEquals(
+      mastodonClient.posts[1].in_reply_to_id,
+      mastodonClient.posts[0].id,
+    );
+  });
+
+  await t.step("reply to own unsynced post is skipped", async () => {
+    const storage = await setupTestEnvironment();
+    const reply = createPost(
+      "at://did:plc:test/app.bsky.feed.post/2",
+      "Reply to an old post",
+    );
+    reply.record.reply = {
+      root: { uri: "at://did:plc:test/app.bsky.feed.post/1", cid: "cid1" },
+      parent: { uri: "at://did:plc:test/app.bsky.feed.post/1", cid: "cid1" },
+    };
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient([reply]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.posts.length, 0);
+    assertEquals(await storage.postTracking.getByUri(reply.uri), null);
+  });
+});
+
 // Test 5: Sync to Mastodon
 Deno.test("Step 5: Sync to Mastodon", async (t) => {
   await t.step("successful sync", async () => {
@@ -618,6 +827,2286 @@ Deno.test("Step 5: Sync to Mastodon", async (t) => {
     assertEquals(mastodonClient.posts.length, 1);
     assertEquals(mastodonClient.posts[0].content, "New post");
   });
+
+  await t.step("pass post language to Mastodon", async () => {
+    const storage = await setupTestEnvironment();
+    const dutch = createPost("at://test/nl", "Hallo wereld");
+    dutch.record.langs = ["nl-NL"];
+    const posts = [dutch, createPost("at://test/none", "No language")];
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      await service.syncUser();
+    });
+
+    const byContent = Object.fromEntries(
+      mastodonClient.posts.map((post) => [post.content, post.language]),
+    );
+    assertEquals(byContent["Hallo wereld"], "nl");
+    // Without langs the configured fallback applies (null by default)
+    assertEquals(byContent["No language"], undefined);
+  });
+
+  await t.step("apply content warning for self-labelled post", async () => {
+    const storage = await setupTestEnvironment();
+    const labelled = createPost("at://test/labelled", "Beach day");
+    labelled.record.labels = {
+      $type: "com.atproto.label.defs#selfLabels",
+      values: [{ val: "nudity" }],
+    };
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient([labelled]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.posts[0].sensitive, true);
+    assertEquals(mastodonClient.posts[0].spoiler_text, "Nudity");
+  });
+
+  await t.step("use the instance character limit", async () => {
+    const storage = await setupTestEnvironment();
+    const posts = [createPost("at://test/long", "A".repeat(600))];
+
+    const mastodonClient = new TestMastodonClient();
+    mastodonClient.instance = {
+      title: "Big Instance",
+      configuration: {
+        statuses: { maxCharacters: 1000, charactersReservedPerUrl: 23 },
+      },
+    };
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.posts[0].content, "A".repeat(600));
+  });
 });
 
-// Test 6: Removed - sync enabled/disabled is now handled by pausing the cron job
+// Test 5b: Async media processing
+Deno.test("Step 5b: Wait for media processing", async (t) => {
+  const pollConfig = {
+    maxRetries: 3,
+    baseDelay: 1,
+    maxDelay: 5,
+    backoffFactor: 2,
+  };
+
+  function createImagePost(uri: string) {
+    const post = createPost(uri, "Look at this");
+    post.record.embed = {
+      $type: "app.bsky.embed.images",
+      images: [{
+        alt: "A photo",
+        image: { ref: IMAGE_CID, mimeType: "image/jpeg", size: 4 },
+      }],
+    };
+    return post;
+  }
+
+  async function runSync(service: SyncService) {
+    let result: any;
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      if (url.includes("com.atproto.sync.getBlob")) {
+        return new Response(new Uint8Array([1, 2, 3, 4]), {
+          headers: { "content-type": "image/jpeg" },
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      result = await service.syncUser();
+    });
+    return result;
+  }
+
+  await t.step("post once media finishes processing", async () => {
+    const storage = await setupTestEnvironment();
+    const mastodonClient = new TestMastodonClient();
+    mastodonClient.mediaProcessingChecks = 2;
+
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () =>
+        new TestATProtoClient([createImagePost("at://test/media")]),
+      createMastodonClient: () => mastodonClient,
+      mediaPollConfig: pollConfig,
+    });
+
+    const result = await runSync(service);
+
+    assertEquals(result.postsSuccessful, 1);
+    assertEquals(mastodonClient.mediaStatusChecks, 2);
+    assertEquals(mastodonClient.posts[0].media_ids, ["media_123"]);
+  });
+
+  await t.step("fail posts whose media doesn't match its CID", async () => {
+    const storage = await setupTestEnvironment();
+    const mastodonClient = new TestMastodonClient();
+    const post = createImagePost("at://test/corrupt");
+    post.record.embed!.images![0].image.ref = IMAGE_TEXT_CID;
+
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient([post]),
+      createMastodonClient: () => mastodonClient,
+      mediaPollConfig: pollConfig,
+    });
+
+    const result = await runSync(service);
+
+    assertEquals(result.postsFailed, 1);
+    assertEquals(mastodonClient.posts.length, 0);
+    const tracked = await storage.postTracking.getByUri("at://test/corrupt");
+    assertEquals(tracked?.sync_status, "failed");
+    assertEquals(tracked!.next_retry_at! > Math.floor(Date.now() / 1000), true);
+  });
+
+  await t.step(
+    "fail with retryable timeout when processing never ends",
+    async () => {
+      const storage = await setupTestEnvironment();
+      const mastodonClient = new TestMastodonClient();
+      mastodonClient.mediaProcessingChecks = 100;
+
+      const service = new SyncService({
+        storage,
+        createATProtoClient: () =>
+          new TestATProtoClient([createImagePost("at://test/slow")]),
+        createMastodonClient: () => mastodonClient,
+        retryConfig: {
+          maxRetries: 0,
+          baseDelay: 1,
+          maxDelay: 1,
+          backoffFactor: 2,
+        },
+        mediaPollConfig: pollConfig,
+      });
+
+      const result = await runSync(service);
+
+      assertEquals(result.postsFailed, 1);
+      assertEquals(result.errors[0].retryable, true);
+      assertEquals(
+        result.errors[0].message.startsWith("Media processing timeout"),
+        true,
+      );
+      assertEquals(mastodonClient.posts.length, 0);
+
+      const tracked = await storage.postTracking.getByUri("at://test/slow");
+      assertEquals(tracked?.sync_status, "failed");
+    },
+  );
+});
+
+// Test 5c: Persistent retry queue
+Deno.test("Step 5c: Retry failed posts", async (t) => {
+  const noRetries = {
+    maxRetries: 0,
+    baseDelay: 1,
+    maxDelay: 1,
+    backoffFactor: 2,
+  };
+
+  async function runSync(service: SyncService) {
+    let result: any;
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      result = await service.syncUser();
+    });
+    return result;
+  }
+
+  await t.step("retry failed post once its backoff has elapsed", async () => {
+    const storage = await setupTestEnvironment();
+    const posts = [createPost("at://test/flaky", "Flaky post")];
+
+    const mastodonClient = new TestMastodonClient();
+    mastodonClient.shouldFail = true;
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+      retryConfig: noRetries,
+    });
+
+    await runSync(service);
+    let tracked = await storage.postTracking.getByUri("at://test/flaky");
+    assertEquals(tracked?.sync_status, "failed");
+    assertEquals(tracked?.retry_count, 0);
+    assertEquals(tracked!.next_retry_at! > Math.floor(Date.now() / 1000), true);
+
+    // Still backing off, so the next run leaves it alone
+    mastodonClient.shouldFail = false;
+    await runSync(service);
+    assertEquals(mastodonClient.posts.length, 0);
+
+    await storage.postTracking.updateByUri("at://test/flaky", {
+      next_retry_at: Math.floor(Date.now() / 1000) - 1,
+    });
+    const result = await runSync(service);
+
+    assertEquals(result.postsSuccessful, 1);
+    assertEquals(mastodonClient.posts[0].content, "Flaky post");
+    tracked = await storage.postTracking.getByUri("at://test/flaky");
+    assertEquals(tracked?.sync_status, "success");
+    assertEquals(tracked?.next_retry_at, null);
+  });
+
+  await t.step("count attempts and stop when budget is exhausted", async () => {
+    const storage = await setupTestEnvironment();
+    const posts = [createPost("at://test/broken", "Broken post")];
+
+    const mastodonClient = new TestMastodonClient();
+    mastodonClient.shouldFail = true;
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+      retryConfig: noRetries,
+    });
+
+    await runSync(service);
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      await storage.postTracking.updateByUri("at://test/broken", {
+        next_retry_at: Math.floor(Date.now() / 1000) - 1,
+      });
+      await runSync(service);
+    }
+
+    const tracked = await storage.postTracking.getByUri("at://test/broken");
+    assertEquals(tracked?.sync_status, "failed");
+    assertEquals(tracked?.retry_count, tracked?.max_retries);
+  });
+
+  await t.step("skip retry when source post was deleted", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.postTracking.create({
+      atproto_uri: "at://test/gone",
+      atproto_cid: "cid-gone",
+      atproto_rkey: "gone",
+      content_hash: "hash-gone",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+    await storage.postTracking.updateByUri("at://test/gone", {
+      sync_status: "failed",
+      error_message: "Network error",
+    });
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient([]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await runSync(service);
+
+    const tracked = await storage.postTracking.getByUri("at://test/gone");
+    assertEquals(tracked?.sync_status, "skipped");
+    assertEquals(mastodonClient.posts.length, 0);
+  });
+
+  await t.step("back off while the source post can't be viewed", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.postTracking.create({
+      atproto_uri: "at://test/hidden",
+      atproto_cid: "cid-hidden",
+      atproto_rkey: "hidden",
+      content_hash: "hash-hidden",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+    await storage.postTracking.updateByUri("at://test/hidden", {
+      sync_status: "failed",
+      error_message: "Network error",
+    });
+
+    // Blocked or taken down: the record exists but has no view
+    const atprotoClient = new TestATProtoClient([]);
+    atprotoClient.getPost = () => Promise.resolve({ thread: {} });
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => atprotoClient,
+      createMastodonClient: () => new TestMastodonClient(),
+    });
+
+    await runSync(service);
+    await runSync(service);
+
+    const tracked = await storage.postTracking.getByUri("at://test/hidden");
+    assertEquals(tracked?.sync_status, "failed");
+    assertEquals(tracked?.retry_count, 1);
+    assertEquals(
+      tracked?.error_message,
+      "Post at://test/hidden is unavailable",
+    );
+    assertEquals(tracked!.next_retry_at! > Math.floor(Date.now() / 1000), true);
+  });
+
+  await t.step("skip a reply whose parent won't be synced", async () => {
+    const storage = await setupTestEnvironment();
+    const parentUri = "at://did:plc:test/app.bsky.feed.post/parent";
+    const reply = createPost(
+      "at://did:plc:test/app.bsky.feed.post/reply",
+      "Reply post",
+      { reply: true },
+    );
+    reply.record.reply!.parent.uri = parentUri;
+
+    // The parent has used up its retries
+    for (const uri of [parentUri, reply.uri]) {
+      const tracked = await storage.postTracking.create({
+        atproto_uri: uri,
+        atproto_cid: "cid",
+        atproto_rkey: uri.split("/").pop()!,
+        content_hash: "hash",
+        atproto_created_at: Math.floor(Date.now() / 1000),
+      });
+      await storage.postTracking.updateByUri(uri, {
+        sync_status: "failed",
+        error_message: "Network error",
+        retry_count: uri === parentUri ? tracked.max_retries : 0,
+      });
+    }
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient([reply]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await runSync(service);
+
+    const tracked = await storage.postTracking.getByUri(reply.uri);
+    assertEquals(tracked?.sync_status, "skipped");
+    assertEquals(tracked?.next_retry_at, null);
+    assertEquals(mastodonClient.posts.length, 0);
+  });
+});
+
+// Test 5d: Quote posts
+Deno.test("Step 5d: Quote posts", async (t) => {
+  await t.step("link own synced quoted post to its Mastodon copy", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.postTracking.create({
+      atproto_uri: "at://did:plc:test/app.bsky.feed.post/original",
+      atproto_cid: "cid-original",
+      atproto_rkey: "original",
+      content_hash: "hash-original",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+    await storage.postTracking.updateByUri(
+      "at://did:plc:test/app.bsky.feed.post/original",
+      {
+        sync_status: "success",
+        mastodon_id: "42",
+        mastodon_url: "https://mastodon.social/@test/42",
+      },
+    );
+
+    const quote = createPost(
+      "at://did:plc:test/app.bsky.feed.post/quote",
+      "Following up",
+    );
+    quote.record.embed = {
+      $type: "app.bsky.embed.record",
+      record: {
+        uri: "at://did:plc:test/app.bsky.feed.post/original",
+        cid: "cid-original",
+      },
+    };
+
+    const mastodonClient = new TestMastodonClient();
+    const syncer = new MastodonSyncer(storage);
+    await syncer.syncPosts([quote], new TestATProtoClient(), mastodonClient);
+
+    assertEquals(
+      mastodonClient.posts[0].content,
+      "Following up\n\nhttps://mastodon.social/@test/42",
+    );
+  });
+});
+
+// Test 5e: Reposts
+Deno.test("Step 5e: Boost own reposts", async (t) => {
+  await t.step("boost synced post when reposted, ignore others", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.postTracking.create({
+      atproto_uri: "at://did:plc:test/app.bsky.feed.post/old",
+      atproto_cid: "cid-old",
+      atproto_rkey: "old",
+      content_hash: "hash-old",
+      atproto_created_at: Math.floor(Date.now() / 1000) - 7 * 86400,
+    });
+    await storage.postTracking.updateByUri(
+      "at://did:plc:test/app.bsky.feed.post/old",
+      { sync_status: "success", mastodon_id: "masto-old" },
+    );
+
+    const repostReason = {
+      $type: "app.bsky.feed.defs#reasonRepost",
+      by: { did: "did:plc:test", handle: "test.bsky.social" },
+      indexedAt: new Date().toISOString(),
+    };
+    const ownRepost = createPost(
+      "at://did:plc:test/app.bsky.feed.post/old",
+      "An old favourite",
+      { createdAt: new Date(Date.now() - 7 * 86400 * 1000).toISOString() },
+    );
+    ownRepost.reason = repostReason;
+    const otherRepost = createPost(
+      "at://did:plc:other/app.bsky.feed.post/theirs",
+      "Someone else's post",
+    );
+    otherRepost.author = { did: "did:plc:other", handle: "other.bsky.social" };
+    otherRepost.reason = repostReason;
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () =>
+        new TestATProtoClient([ownRepost, otherRepost]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    const runSync = () =>
+      withMockFetch((input) => {
+        const url = String(input);
+        if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+          return jsonResponse({
+            did: "did:plc:test",
+            pds: "https://pds.example.com",
+          });
+        }
+        return new Response("Not Found", { status: 404 });
+      }, async () => {
+        await service.syncUser();
+      });
+
+    await runSync();
+
+    assertEquals(mastodonClient.rebloggedIds, ["masto-old"]);
+    // Neither repost is cross-posted as a new status
+    assertEquals(mastodonClient.posts.length, 0);
+    assertEquals(
+      await storage.postTracking.getByUri(otherRepost.uri),
+      null,
+    );
+
+    // Seeing the same repost again doesn't boost twice
+    await runSync();
+    assertEquals(mastodonClient.rebloggedIds, ["masto-old"]);
+  });
+
+  await t.step("detect reposts in the cursor-based feed", async () => {
+    const weekAgo = new Date(Date.now() - 7 * 86400 * 1000).toISOString();
+    const feedItem = (rkey: string, reason?: any) => ({
+      post: {
+        uri: `at://did:plc:test/app.bsky.feed.post/${rkey}`,
+        cid: `cid-${rkey}`,
+        author: { did: "did:plc:test", handle: "test.bsky.social" },
+        record: { text: rkey, createdAt: weekAgo },
+        indexedAt: weekAgo,
+      },
+      reason,
+    });
+
+    const client = new ATProtoClientAdapter(
+      "https://pds.example.com",
+      "test.bsky.social",
+      "",
+      "did:plc:test",
+      undefined,
+      "app-password",
+    );
+    // Feed order: the repost happened just now, of a week old post that
+    // comes after it
+    (client as any).passwordClient.agent = {
+      login: () => Promise.resolve(),
+      getAuthorFeed: () =>
+        Promise.resolve({
+          success: true,
+          data: {
+            feed: [
+              feedItem("reposted", {
+                $type: "app.bsky.feed.defs#reasonRepost",
+                by: { did: "did:plc:test", handle: "test.bsky.social" },
+                indexedAt: new Date().toISOString(),
+              }),
+              feedItem("old"),
+            ],
+          },
+        }),
+    };
+
+    const result = await new PostFetcher().fetchPosts(client, {
+      atproto_did: "did:plc:test",
+      last_sync_at: Date.now() - 3600 * 1000,
+    });
+
+    assertEquals(result.posts, []);
+    assertEquals(
+      result.reposts.map((post) => post.uri),
+      ["at://did:plc:test/app.bsky.feed.post/reposted"],
+    );
+  });
+});
+
+// Test 6: Removed - sync enabled/disabled is now handled by pausing the cron job
+
+// Test 5f: Idempotent posting
+Deno.test("Step 5f: Reconcile interrupted posts", async (t) => {
+  async function runSync(service: SyncService) {
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      await service.syncUser();
+    });
+  }
+
+  await t.step("resend with the same key inside the window", async () => {
+    const storage = await setupTestEnvironment();
+    const posts = [createPost("at://test/cut-off", "Cut off post")];
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await runSync(service);
+    const key = mastodonClient.posts[0].idempotency_key;
+    assertEquals(typeof key, "string");
+
+    // The post reached Mastodon but the run died before recording it
+    await storage.postTracking.updateByUri("at://test/cut-off", {
+      sync_status: "posting",
+      posting_started_at: Math.floor(Date.now() / 1000) - 60,
+      mastodon_id: undefined,
+      mastodon_thread_ids: null,
+    });
+    await runSync(service);
+
+    assertEquals(mastodonClient.posts.length, 1);
+    const tracked = await storage.postTracking.getByUri("at://test/cut-off");
+    assertEquals(tracked?.sync_status, "success");
+    assertEquals(tracked?.mastodon_id, "1");
+  });
+
+  await t.step("give up on posts interrupted too long ago", async () => {
+    const storage = await setupTestEnvironment();
+    const posts = [createPost("at://test/stale", "Stale post")];
+    await storage.postTracking.create({
+      atproto_uri: "at://test/stale",
+      atproto_cid: "test_cid",
+      atproto_rkey: "stale",
+      content_hash: "hash",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+    await storage.postTracking.updateByUri("at://test/stale", {
+      sync_status: "posting",
+      posting_started_at: Math.floor(Date.now() / 1000) - 2 * 60 * 60,
+    });
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await runSync(service);
+
+    assertEquals(mastodonClient.posts.length, 0);
+    const tracked = await storage.postTracking.getByUri("at://test/stale");
+    assertEquals(tracked?.sync_status, "failed");
+    assertEquals(tracked?.retry_count, tracked?.max_retries);
+  });
+
+  await t.step("resume a split post after the window", async () => {
+    const storage = await setupTestEnvironment();
+    const post = createPost(
+      "at://test/split",
+      ["First", "Second", "Third"].map((word) => word.repeat(15)).join(" "),
+    );
+    const atprotoClient = new TestATProtoClient([post]);
+
+    // The first continuation fails once
+    const mastodonClient = new TestMastodonClient();
+    const createStatus = mastodonClient.createPost.bind(mastodonClient);
+    let failContinuation = true;
+    mastodonClient.createPost = (params: any) => {
+      if (params.in_reply_to_id && failContinuation) {
+        failContinuation = false;
+        return Promise.reject(new Error("Service unavailable"));
+      }
+      return createStatus(params);
+    };
+
+    const syncer = new MastodonSyncer(
+      storage,
+      { maxRetries: 0, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+      undefined,
+      { splitIntoThread: true, maxLength: 100 },
+    );
+    const first = await syncer.syncPosts([post], atprotoClient, mastodonClient);
+    assertEquals(first.failed, 1);
+    assertEquals(mastodonClient.posts.length, 1);
+
+    // Mastodon has forgotten the idempotency keys by the time it's retried
+    for (const status of mastodonClient.posts) status.idempotency_key = null;
+    const retried = await syncer.retryFailedPosts(
+      atprotoClient,
+      mastodonClient,
+      Date.now() + 2 * 60 * 60 * 1000,
+    );
+
+    assertEquals(retried.successful, 1);
+    assertEquals(mastodonClient.posts.length, 3);
+    assertEquals(
+      mastodonClient.posts.map((status) => status.in_reply_to_id),
+      [undefined, "1", "2"],
+    );
+    const tracked = await storage.postTracking.getByUri("at://test/split");
+    assertEquals(tracked?.sync_status, "success");
+    assertEquals(tracked?.mastodon_id, "1");
+    assertEquals(tracked?.mastodon_thread_ids, JSON.stringify(["1", "2", "3"]));
+  });
+});
+
+// Test 6: Persisted settings
+Deno.test("Step 6: Apply persisted settings", async (t) => {
+  const mockResolver = (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    if (url.includes("com.atproto.sync.getBlob")) {
+      return new Response(new Uint8Array([1, 2, 3, 4]), {
+        headers: { "content-type": "image/jpeg" },
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  await t.step("skip the run when sync is disabled", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.settings.create();
+    await storage.settings.updateSingle({ sync_enabled: false });
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () =>
+        new TestATProtoClient([createPost("at://test/1", "Regular post")]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    let result: any;
+    await withMockFetch(mockResolver, async () => {
+      result = await service.syncUser();
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(result.postsProcessed, 0);
+    assertEquals(mastodonClient.posts.length, 0);
+  });
+
+  await t.step("sync mentions when skip_mentions is off", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.settings.create();
+    // SQLite returns booleans as 0/1
+    await storage.settings.updateSingle({ skip_mentions: 0 as any });
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () =>
+        new TestATProtoClient([
+          createPost("at://test/2", "@someone hello", { mention: true }),
+        ]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.posts.length, 1);
+  });
+
+  await t.step("post without media when include_media is off", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.settings.create();
+    await storage.settings.updateSingle({ include_media: false });
+
+    const post = createPost("at://test/media", "Look at this");
+    post.record.embed = {
+      $type: "app.bsky.embed.images",
+      images: [{
+        alt: "A photo",
+        image: { ref: IMAGE_CID, mimeType: "image/jpeg", size: 4 },
+      }],
+    };
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient([post]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.posts.length, 1);
+    assertEquals(mastodonClient.posts[0].media_ids, []);
+  });
+
+  await t.step("apply keyword, regex and hashtag rules", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.settings.create();
+    await storage.settings.updateSingle({
+      filter_rules: JSON.stringify([
+        { type: "hashtag", pattern: "#bskyonly", action: "skip" },
+        { type: "regex", pattern: "^draft:", action: "skip" },
+        { type: "keyword", pattern: "fediverse", action: "require" },
+        { type: "hashtag", pattern: "fedi", action: "require" },
+      ]),
+    });
+
+    const tagged = createPost("at://test/tagged", "Hello there");
+    tagged.record.facets = [{
+      index: { byteStart: 0, byteEnd: 5 },
+      features: [{ $type: "app.bsky.richtext.facet#tag", tag: "Fedi" }],
+    }];
+    const posts = [
+      tagged,
+      createPost("at://test/keyword", "Hello Fediverse"),
+      createPost("at://test/untagged", "Just Bluesky"),
+      createPost("at://test/local", "Fediverse fans #BskyOnly"),
+      createPost("at://test/draft", "Draft: fediverse post"),
+    ];
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(
+      mastodonClient.posts.map((post) => post.content).sort(),
+      ["Hello Fediverse", "Hello there"],
+    );
+  });
+
+  await t.step("preview which recent posts each rule matches", async () => {
+    const storage = await setupTestEnvironment();
+    const posts = [
+      createPost("at://test/1", "Posting #bskyonly"),
+      createPost("at://test/2", "Regular post"),
+    ];
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    let preview: any[] = [];
+    await withMockFetch(mockResolver, async () => {
+      preview = await service.previewFilterRules([
+        { type: "hashtag", pattern: "bskyonly", action: "skip" },
+        { type: "keyword", pattern: "post", action: "skip" },
+      ]);
+    });
+
+    assertEquals(
+      preview.map((post) => [post.uri, post.matchedRules, post.passesRules]),
+      [["at://test/1", [0, 1], false], ["at://test/2", [1], false]],
+    );
+    assertEquals(mastodonClient.posts.length, 0);
+    assertEquals(await storage.postTracking.getByUri("at://test/1"), null);
+  });
+});
+
+// Test 7: Deletion propagation
+Deno.test("Step 7: Propagate Bluesky deletions", async (t) => {
+  await t.step("delete Mastodon copy of removed post", async () => {
+    const storage = await setupTestEnvironment();
+
+    // A previously synced post that no longer exists on Bluesky
+    await storage.postTracking.create({
+      atproto_uri: "at://did:plc:test/app.bsky.feed.post/gone",
+      atproto_cid: "cid-gone",
+      atproto_rkey: "gone",
+      content_hash: "hash-gone",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+    await storage.postTracking.updateByUri(
+      "at://did:plc:test/app.bsky.feed.post/gone",
+      { sync_status: "success", mastodon_id: "masto-gone" },
+    );
+
+    const posts = [
+      createPost("at://did:plc:test/app.bsky.feed.post/1", "Still here"),
+    ];
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (
+        url.includes("/com.bad-example.identity.resolveMiniDoc") &&
+        (url.includes("did:plc:test") || url.includes("did%3Aplc%3Atest"))
+      ) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.deletedIds, ["masto-gone"]);
+
+    const gone = await storage.postTracking.getByUri(
+      "at://did:plc:test/app.bsky.feed.post/gone",
+    );
+    assertEquals(gone?.sync_status, "deleted");
+
+    const kept = await storage.postTracking.getByUri(posts[0].uri);
+    assertEquals(kept?.sync_status, "success");
+  });
+
+  await t.step("keep copies of posts that can't be viewed", async () => {
+    const storage = await setupTestEnvironment();
+    const uri = "at://did:plc:test/app.bsky.feed.post/blocked";
+    await storage.postTracking.create({
+      atproto_uri: uri,
+      atproto_cid: "cid-blocked",
+      atproto_rkey: "blocked",
+      content_hash: "hash-blocked",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+    await storage.postTracking.updateByUri(uri, {
+      sync_status: "success",
+      mastodon_id: "masto-blocked",
+    });
+
+    // Blocked and other unviewable posts fail without being not found
+    const atprotoClient = new TestATProtoClient([]);
+    atprotoClient.getPost = (uri: string) =>
+      Promise.reject(new Error(`Post ${uri} is unavailable`));
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => atprotoClient,
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(
+      () => new Response("Not Found", { status: 404 }),
+      async () => {
+        await service.syncUser();
+      },
+    );
+
+    assertEquals(mastodonClient.deletedIds, []);
+    const tracked = await storage.postTracking.getByUri(uri);
+    assertEquals(tracked?.sync_status, "success");
+  });
+});
+
+// Test 8: Real-time ingestion from an event source
+Deno.test("Step 8: Sync from event source", async (t) => {
+  await t.step("sync created posts and delete removed ones", async () => {
+    const storage = await setupTestEnvironment();
+
+    await storage.postTracking.create({
+      atproto_uri: "at://did:plc:test/app.bsky.feed.post/old",
+      atproto_cid: "cid-old",
+      atproto_rkey: "old",
+      content_hash: "hash-old",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+    await storage.postTracking.updateByUri(
+      "at://did:plc:test/app.bsky.feed.post/old",
+      { sync_status: "success", mastodon_id: "masto-old" },
+    );
+
+    const requestedCursors: (number | undefined)[] = [];
+    const eventSource: PostEventSource = {
+      fetchEvents: ({ cursor }) => {
+        requestedCursors.push(cursor);
+        return Promise.resolve({
+          events: [
+            {
+              operation: "create",
+              uri: "at://did:plc:test/app.bsky.feed.post/new",
+              cid: "cid-new",
+              record: {
+                text: "Live post",
+                createdAt: new Date().toISOString(),
+              },
+              timeUs: 1700000000000000,
+            },
+            {
+              operation: "delete",
+              uri: "at://did:plc:test/app.bsky.feed.post/old",
+              timeUs: 1700000000000001,
+            },
+          ],
+          cursor: 1700000000000001,
+        });
+      },
+    };
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    let result: any;
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (
+        url.includes("/com.bad-example.identity.resolveMiniDoc") &&
+        (url.includes("did:plc:test") || url.includes("did%3Aplc%3Atest"))
+      ) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      result = await service.syncFromEventSource(eventSource);
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(result.postsSuccessful, 1);
+    assertEquals(mastodonClient.posts[0].content, "Live post");
+    assertEquals(mastodonClient.deletedIds, ["masto-old"]);
+
+    const old = await storage.postTracking.getByUri(
+      "at://did:plc:test/app.bsky.feed.post/old",
+    );
+    assertEquals(old?.sync_status, "deleted");
+
+    const account = await storage.userAccounts.getSingle();
+    assertEquals(account?.jetstream_cursor, 1700000000000001);
+
+    // The next run resumes from the stored cursor
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      await service.syncFromEventSource(eventSource);
+    });
+    assertEquals(requestedCursors[1], 1700000000000001);
+  });
+});
+
+// Test 9: Dry-run preview
+Deno.test("Step 9: Preview the next sync", async (t) => {
+  await t.step("render publishable posts without posting", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.postTracking.create({
+      atproto_uri: "at://test/synced",
+      atproto_cid: "test_cid",
+      atproto_rkey: "synced",
+      content_hash: "hash",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+
+    const imagePost = createPost("at://test/image", "Look at this");
+    imagePost.record.embed = {
+      $type: "app.bsky.embed.images",
+      images: [{
+        alt: "A photo",
+        image: { ref: IMAGE_CID, mimeType: "image/jpeg", size: 4 },
+      }],
+    };
+    const posts = [
+      imagePost,
+      createPost("at://test/reply", "Reply post", { reply: true }),
+      createPost("at://test/synced", "Already synced"),
+    ];
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(posts),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    let preview: any;
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+        return jsonResponse({
+          did: "did:plc:test",
+          pds: "https://pds.example.com",
+        });
+      }
+      return new Response("Not Found", { status: 404 });
+    }, async () => {
+      preview = await service.previewSync();
+    });
+
+    assertEquals(preview.syncEnabled, true);
+    const [image, reply, synced] = preview.posts;
+
+    assertEquals(image.rejectedBy, null);
+    assertEquals(image.rendered.statuses, ["Look at this"]);
+    assertEquals(image.rendered.media.length, 1);
+    assertEquals(image.rendered.media[0].description, "A photo");
+
+    assertEquals(reply.rejectedBy, "ReplyFilter");
+    assertEquals(reply.rendered, null);
+
+    assertEquals(synced.alreadyTracked, true);
+    assertEquals(synced.rendered, null);
+
+    assertEquals(mastodonClient.posts.length, 0);
+    assertEquals(await storage.postTracking.getByUri("at://test/image"), null);
+  });
+});
+
+// Test 10: Sync lease
+Deno.test("Step 10: Hold a sync lease while syncing", async (t) => {
+  const mockResolver = (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  await t.step("refuse to sync while another run holds the lease", async () => {
+    const storage = await setupTestEnvironment();
+    const lease = await storage.syncLease.acquire("other-run", 60_000);
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () =>
+        new TestATProtoClient([createPost("at://test/1", "Regular post")]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    let error: unknown;
+    await withMockFetch(mockResolver, async () => {
+      try {
+        await service.syncUser();
+      } catch (e) {
+        error = e;
+      }
+    });
+
+    assertEquals(error instanceof SyncInProgressError, true);
+    assertEquals((error as SyncInProgressError).startedAt, lease!.acquired_at);
+    assertEquals(mastodonClient.posts.length, 0);
+  });
+
+  await t.step("take over an expired lease and release it", async () => {
+    const storage = await setupTestEnvironment();
+    await storage.syncLease.acquire("crashed-run", 0);
+
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () =>
+        new TestATProtoClient([createPost("at://test/1", "Regular post")]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.posts.length, 1);
+    assertEquals(await storage.syncLease.getCurrent(), null);
+  });
+
+  await t.step("let only one of two concurrent runs post", async () => {
+    const storage = await setupTestEnvironment();
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () =>
+        new TestATProtoClient([createPost("at://test/1", "Regular post")]),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    let outcomes: PromiseSettledResult<unknown>[] = [];
+    await withMockFetch(mockResolver, async () => {
+      outcomes = await Promise.allSettled([
+        service.syncUser(),
+        service.syncUser(),
+      ]);
+    });
+
+    assertEquals(
+      outcomes.map((outcome) => outcome.status).sort(),
+      ["fulfilled", "rejected"],
+    );
+    assertEquals(mastodonClient.posts.length, 1);
+  });
+});
+
+Deno.test("Step 11: Backfill older posts", async (t) => {
+  const mockResolver = (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  // Feed order: newest first
+  const feed = [
+    createPost("at://test/4", "Too new", {
+      createdAt: "2024-03-01T00:00:00Z",
+    }),
+    createPost("at://test/3", "Third", { createdAt: "2024-02-03T00:00:00Z" }),
+    createPost("at://test/2", "Second", { createdAt: "2024-02-02T00:00:00Z" }),
+    createPost("at://test/1", "First", { createdAt: "2024-02-01T00:00:00Z" }),
+    createPost("at://test/0", "Too old", {
+      createdAt: "2024-01-01T00:00:00Z",
+    }),
+  ];
+
+  await t.step("post the range oldest first in chunks", async () => {
+    const storage = await setupTestEnvironment();
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(feed),
+      createMastodonClient: () => mastodonClient,
+    });
+    const backfiller = service.getBackfiller();
+    // Two posts per chunk
+    Object.assign(backfiller, {
+      chunkConfig: { pages_per_run: 1, posts_per_run: 2 },
+    });
+
+    await backfiller.start({
+      since: "2024-02-01",
+      until: "2024-02-28",
+      maxPosts: 10,
+      addDatePrefix: true,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.runBackfill();
+      assertEquals(mastodonClient.posts.length, 2);
+      assertEquals((await storage.backfillJobs.get())?.status, "running");
+
+      await service.runBackfill();
+    });
+
+    assertEquals(
+      mastodonClient.posts.map((post) => post.content),
+      [
+        "Originally posted on Bluesky on 2024-02-01\n\nFirst",
+        "Originally posted on Bluesky on 2024-02-02\n\nSecond",
+        "Originally posted on Bluesky on 2024-02-03\n\nThird",
+      ],
+    );
+    const job = await storage.backfillJobs.get();
+    assertEquals(job?.status, "completed");
+    assertEquals(job?.posts_synced, 3);
+  });
+
+  await t.step("stop at max posts, keeping the oldest", async () => {
+    const storage = await setupTestEnvironment();
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(feed),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await service.getBackfiller().start({
+      since: "2024-01-01",
+      until: "2024-02-28",
+      maxPosts: 2,
+      addDatePrefix: false,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.runBackfill();
+    });
+
+    // The scan runs newest first, so the cap keeps the two newest in range
+    assertEquals(
+      mastodonClient.posts.map((post) => post.content),
+      ["Second", "Third"],
+    );
+  });
+
+  await t.step("make no progress while paused or cancelled", async () => {
+    const storage = await setupTestEnvironment();
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(feed),
+      createMastodonClient: () => mastodonClient,
+    });
+    const backfiller = service.getBackfiller();
+
+    await backfiller.start({
+      since: "2024-02-01",
+      until: "2024-02-28",
+      maxPosts: 10,
+      addDatePrefix: false,
+    });
+    await backfiller.pause();
+
+    await withMockFetch(mockResolver, async () => {
+      await service.runBackfill();
+      assertEquals(mastodonClient.posts.length, 0);
+
+      await backfiller.resume();
+      await backfiller.cancel();
+      await service.runBackfill();
+    });
+
+    assertEquals(mastodonClient.posts.length, 0);
+    assertEquals((await storage.backfillJobs.get())?.status, "cancelled");
+  });
+
+  await t.step("refuse a second job while one is in progress", async () => {
+    const storage = await setupTestEnvironment();
+    const backfiller = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(feed),
+      createMastodonClient: () => new TestMastodonClient(),
+    }).getBackfiller();
+    const request = {
+      since: "2024-02-01",
+      until: "2024-02-28",
+      maxPosts: 10,
+      addDatePrefix: false,
+    };
+
+    await backfiller.start(request);
+    let error: unknown;
+    try {
+      await backfiller.start(request);
+    } catch (e) {
+      error = e;
+    }
+
+    assertEquals(
+      (error as Error).message,
+      "A backfill job is already in progress",
+    );
+  });
+
+  await t.step("publish to destinations that are missing posts", async () => {
+    const storage = await setupTestEnvironment();
+    const destination = await storage.destinations.create({
+      name: "Alt account",
+      instance_url: "https://alt.example",
+      client_id: "client",
+      client_secret: "secret",
+    });
+    await storage.destinations.update(destination.id, {
+      access_token: "alt_token",
+      enabled: true,
+    });
+    // Already on the primary account from a regular sync
+    await storage.postTracking.create({
+      atproto_uri: "at://test/1",
+      atproto_cid: "cid1",
+      atproto_rkey: "1",
+      content_hash: "hash1",
+      atproto_created_at: Math.floor(Date.now() / 1000),
+    });
+    await storage.postTracking.updateByUri("at://test/1", {
+      sync_status: "success",
+    });
+
+    const primary = new TestMastodonClient();
+    const alt = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(feed),
+      createMastodonClient: (instanceUrl) =>
+        instanceUrl === "https://alt.example" ? alt : primary,
+    });
+
+    await service.getBackfiller().start({
+      since: "2024-02-01",
+      until: "2024-02-28",
+      maxPosts: 10,
+      addDatePrefix: false,
+    });
+    await withMockFetch(mockResolver, async () => {
+      await service.runBackfill();
+    });
+
+    assertEquals(
+      primary.posts.map((post) => post.content),
+      ["Second", "Third"],
+    );
+    assertEquals(
+      alt.posts.map((post) => post.content),
+      ["First", "Second", "Third"],
+    );
+    const tracked = await storage.postTracking
+      .forDestination(destination.id)
+      .getByUri("at://test/1");
+    assertEquals(tracked?.sync_status, "success");
+  });
+
+  await t.step("queue a reply again while its parent is retried", async () => {
+    const parentUri = "at://did:plc:test/app.bsky.feed.post/parent";
+    const reply = createPost(
+      "at://did:plc:test/app.bsky.feed.post/reply",
+      "Second part",
+      { reply: true, createdAt: "2024-02-02T00:00:00Z" },
+    );
+    reply.record.reply!.parent.uri = parentUri;
+
+    const storage = await setupTestEnvironment();
+    const mastodonClient = new TestMastodonClient();
+    mastodonClient.shouldFail = true;
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () =>
+        new TestATProtoClient([
+          reply,
+          createPost(parentUri, "First part", {
+            createdAt: "2024-02-01T00:00:00Z",
+          }),
+        ]),
+      createMastodonClient: () => mastodonClient,
+      retryConfig: {
+        maxRetries: 0,
+        baseDelay: 1,
+        maxDelay: 1,
+        backoffFactor: 1,
+      },
+    });
+
+    await service.getBackfiller().start({
+      since: "2024-02-01",
+      until: "2024-02-28",
+      maxPosts: 10,
+      addDatePrefix: false,
+    });
+    await withMockFetch(mockResolver, async () => {
+      await service.runBackfill();
+    });
+
+    let job = await storage.backfillJobs.get();
+    assertEquals(job?.status, "running");
+    assertEquals(JSON.parse(job!.queue).at(-1), reply.uri);
+
+    // A regular sync publishes the parent on retry
+    await storage.postTracking.updateByUri(parentUri, {
+      sync_status: "success",
+      mastodon_id: "parent-status",
+    });
+    mastodonClient.shouldFail = false;
+    await withMockFetch(mockResolver, async () => {
+      await service.runBackfill();
+    });
+
+    assertEquals(mastodonClient.posts.length, 1);
+    assertEquals(mastodonClient.posts[0].in_reply_to_id, "parent-status");
+    job = await storage.backfillJobs.get();
+    assertEquals(job?.status, "completed");
+  });
+});
+
+Deno.test("Step 12: Adopt posts already on Mastodon", async (t) => {
+  const mockResolver = (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  const postedAt = new Date(Date.now() - 60 * 60 * 1000);
+  const minutesLater = (minutes: number) =>
+    new Date(postedAt.getTime() + minutes * 60 * 1000).toISOString();
+
+  function setup() {
+    const feed = [
+      createPost(
+        "at://test/1",
+        "Read this: example.com/some-artic... it's great & short",
+        { createdAt: postedAt.toISOString() },
+      ),
+      createPost("at://test/2", "Not crossposted yet", {
+        createdAt: postedAt.toISOString(),
+      }),
+      createPost("at://test/3", "Posted again much later", {
+        createdAt: postedAt.toISOString(),
+      }),
+    ];
+    const mastodonClient = new TestMastodonClient();
+    mastodonClient.posts = [
+      {
+        id: "101",
+        url: "https://mastodon.social/@test/101",
+        content:
+          '<p>Read this: <a href="https://example.com/some-article">https://example.com/some-article</a> it&#39;s great &amp; short</p>',
+        created_at: minutesLater(2),
+      },
+      {
+        id: "102",
+        url: "https://mastodon.social/@test/102",
+        content: "<p>Posted again much later</p>",
+        created_at: minutesLater(45),
+      },
+    ];
+    return { feed, mastodonClient };
+  }
+
+  await t.step("only report matches on a dry run", async () => {
+    const storage = await setupTestEnvironment();
+    const { feed, mastodonClient } = setup();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(feed),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    let result: any;
+    await withMockFetch(mockResolver, async () => {
+      result = await service.adoptExistingPosts(true);
+    });
+
+    assertEquals(
+      result.adopted.map((post: any) => [post.uri, post.mastodonId]),
+      [["at://test/1", "101"]],
+    );
+    assertEquals(await storage.postTracking.getByUri("at://test/1"), null);
+  });
+
+  await t.step("track matches as synced so they aren't reposted", async () => {
+    const storage = await setupTestEnvironment();
+    const { feed, mastodonClient } = setup();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient(feed),
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.adoptExistingPosts(false);
+      await service.syncUser();
+    });
+
+    const adopted = await storage.postTracking.getByUri("at://test/1");
+    assertEquals(adopted?.sync_status, "success");
+    assertEquals(adopted?.mastodon_id, "101");
+
+    // Only the unmatched posts were published
+    assertEquals(
+      mastodonClient.posts.slice(2).map((post) => post.content),
+      ["Not crossposted yet", "Posted again much later"],
+    );
+  });
+});
+
+Deno.test("Step 13: Propagate edits", async (t) => {
+  const mockResolver = (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  await t.step("edit the status when the post's CID changes", async () => {
+    const storage = await setupTestEnvironment();
+    const post = createPost("at://test/1", "Original text");
+    const atprotoClient = new TestATProtoClient([post]);
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => atprotoClient,
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+
+      // Same record, unchanged: nothing to edit
+      await service.syncUser();
+      assertEquals(mastodonClient.edits.length, 0);
+
+      atprotoClient.posts = [{
+        ...post,
+        cid: "edited_cid",
+        record: { ...post.record, text: "Edited text" },
+      }];
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.posts.length, 1);
+    assertEquals(mastodonClient.edits.length, 1);
+    assertEquals(mastodonClient.edits[0].id, "1");
+    assertEquals(mastodonClient.posts[0].content, "Edited text");
+
+    const tracked = await storage.postTracking.getByUri("at://test/1");
+    assertEquals(tracked?.atproto_cid, "edited_cid");
+    assertEquals(tracked?.edit_count, 1);
+  });
+
+  await t.step("update the descriptions of kept media", async () => {
+    const storage = await setupTestEnvironment();
+    const post = createPost("at://test/1", "With a picture");
+    post.record.embed = {
+      $type: "app.bsky.embed.images",
+      images: [{
+        alt: "Old alt",
+        image: { ref: IMAGE_TEXT_CID, mimeType: "image/jpeg", size: 5 },
+      }],
+    };
+    const atprotoClient = new TestATProtoClient([post]);
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => atprotoClient,
+      createMastodonClient: () => mastodonClient,
+    });
+
+    await withMockFetch((input) => {
+      if (String(input).includes("getBlob")) {
+        return new Response(new Blob(["image"], { type: "image/jpeg" }));
+      }
+      return mockResolver(input);
+    }, async () => {
+      await service.syncUser();
+
+      atprotoClient.posts = [{
+        ...post,
+        cid: "edited_cid",
+        record: {
+          ...post.record,
+          embed: {
+            $type: "app.bsky.embed.images",
+            images: [{
+              alt: "New alt",
+              image: { ref: IMAGE_TEXT_CID, mimeType: "image/jpeg", size: 5 },
+            }],
+          },
+        },
+      }];
+      await service.syncUser();
+    });
+
+    assertEquals(mastodonClient.edits[0].params.media_ids, ["media_123"]);
+    assertEquals(mastodonClient.edits[0].params.media_attributes, [
+      { id: "media_123", description: "New alt" },
+    ]);
+  });
+
+  await t.step("upload media again when an image is swapped", async () => {
+    const storage = await setupTestEnvironment();
+    const imagePost = (cid: string) => {
+      const post = createPost("at://test/1", "With a picture");
+      post.record.embed = {
+        $type: "app.bsky.embed.images",
+        images: [{
+          alt: "Same alt",
+          image: { ref: cid, mimeType: "image/jpeg", size: 5 },
+        }],
+      };
+      return post;
+    };
+    const post = imagePost(IMAGE_TEXT_CID);
+    const atprotoClient = new TestATProtoClient([post]);
+    const mastodonClient = new TestMastodonClient();
+    let uploads = 0;
+    const upload = mastodonClient.uploadMedia.bind(mastodonClient);
+    mastodonClient.uploadMedia = () => {
+      uploads++;
+      return upload();
+    };
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => atprotoClient,
+      createMastodonClient: () => mastodonClient,
+    });
+    const otherCid = await computeBlobCid(new TextEncoder().encode("photo"));
+
+    await withMockFetch((input) => {
+      const url = String(input);
+      if (url.includes("getBlob")) {
+        const data = url.includes(otherCid) ? "photo" : "image";
+        return new Response(new Blob([data], { type: "image/jpeg" }));
+      }
+      return mockResolver(input);
+    }, async () => {
+      await service.syncUser();
+
+      atprotoClient.posts = [{ ...imagePost(otherCid), cid: "edited_cid" }];
+      await service.syncUser();
+    });
+
+    assertEquals(uploads, 2);
+    assertEquals(mastodonClient.edits[0].params.media_attributes, undefined);
+    const tracked = await storage.postTracking.getByUri("at://test/1");
+    assertEquals(JSON.parse(tracked!.mastodon_media_cids!), [otherCid]);
+  });
+
+  await t.step("split the edited text over the thread again", async () => {
+    const storage = await setupTestEnvironment();
+    const text = (words: string[]) =>
+      words.map((word) => word.repeat(30)).join(" ");
+    const post = createPost("at://test/split", text(["One", "Two"]));
+    const atprotoClient = new TestATProtoClient([post]);
+    const mastodonClient = new TestMastodonClient();
+    const syncer = new MastodonSyncer(
+      storage,
+      { maxRetries: 0, baseDelay: 1, maxDelay: 1, backoffFactor: 1 },
+      undefined,
+      { splitIntoThread: true, maxLength: 100 },
+    );
+    const threadIds = async () =>
+      JSON.parse(
+        (await storage.postTracking.getByUri(post.uri))!.mastodon_thread_ids!,
+      );
+
+    await syncer.syncPosts([post], atprotoClient, mastodonClient);
+    assertEquals(await threadIds(), ["1", "2"]);
+
+    // Longer: both parts are edited and a third is added under them
+    await syncer.editPosts(
+      [{
+        ...post,
+        cid: "longer_cid",
+        record: { ...post.record, text: text(["Uno", "Dos", "Tre"]) },
+      }],
+      atprotoClient,
+      mastodonClient,
+    );
+
+    assertEquals(mastodonClient.edits.map((edit) => edit.id), ["1", "2"]);
+    assertEquals(mastodonClient.posts[2].in_reply_to_id, "2");
+    assertEquals(mastodonClient.posts[2].content.includes("Tre"), true);
+    assertEquals(await threadIds(), ["1", "2", "3"]);
+
+    // Shorter: the parts that are left over are deleted
+    await syncer.editPosts(
+      [{
+        ...post,
+        cid: "shorter_cid",
+        record: { ...post.record, text: "Just one part" },
+      }],
+      atprotoClient,
+      mastodonClient,
+    );
+
+    assertEquals(mastodonClient.posts[0].content, "Just one part");
+    assertEquals(mastodonClient.deletedIds, ["3", "2"]);
+    assertEquals(await threadIds(), ["1"]);
+  });
+});
+
+// Test 14: Additional Mastodon destinations
+Deno.test("Step 14: Publish to multiple destinations", async (t) => {
+  const mockResolver = (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  async function setup(
+    overrides?: Record<string, boolean>,
+    post = createPost("at://test/1", "Hello from Bluesky"),
+  ) {
+    const storage = await setupTestEnvironment();
+    const destination = await storage.destinations.create({
+      name: "Alt account",
+      instance_url: "https://alt.example",
+      client_id: "client",
+      client_secret: "secret",
+    });
+    await storage.destinations.update(destination.id, {
+      access_token: "alt_token",
+      visibility: "unlisted",
+      enabled: true,
+      ...(overrides && { filter_overrides: JSON.stringify(overrides) }),
+    });
+
+    const primary = new TestMastodonClient();
+    const alt = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => new TestATProtoClient([post]),
+      createMastodonClient: (instanceUrl) =>
+        instanceUrl === "https://alt.example" ? alt : primary,
+    });
+
+    return { storage, destinationId: destination.id, primary, alt, service };
+  }
+
+  await t.step("post to every destination with its visibility", async () => {
+    const { storage, destinationId, primary, alt, service } = await setup();
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(primary.posts.length, 1);
+    assertEquals(primary.posts[0].visibility, "public");
+    assertEquals(alt.posts.length, 1);
+    assertEquals(alt.posts[0].visibility, "unlisted");
+
+    // Each destination tracks its own copy
+    const tracked = await storage.postTracking
+      .forDestination(destinationId)
+      .getByUri("at://test/1");
+    assertEquals(tracked?.sync_status, "success");
+    assertEquals(tracked?.mastodon_url, alt.posts[0].url);
+  });
+
+  await t.step("a failing destination doesn't block the others", async () => {
+    const { storage, primary, alt, service } = await setup();
+    alt.shouldFail = true;
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(primary.posts.length, 1);
+    assertEquals(alt.posts.length, 0);
+    const tracked = await storage.postTracking.getByUri("at://test/1");
+    assertEquals(tracked?.sync_status, "success");
+  });
+
+  await t.step("apply the destination's filter overrides", async () => {
+    const { primary, alt, service } = await setup(
+      { skip_mentions: false },
+      createPost("at://test/1", "@friend.bsky.social hello", {
+        mention: true,
+      }),
+    );
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    // Skipped by the bridge settings, but not for this destination
+    assertEquals(primary.posts.length, 0);
+    assertEquals(alt.posts.length, 1);
+  });
+
+  await t.step("skip disabled destinations", async () => {
+    const { storage, destinationId, alt, service } = await setup();
+    await storage.destinations.update(destinationId, { enabled: false });
+
+    await withMockFetch(mockResolver, async () => {
+      await service.syncUser();
+    });
+
+    assertEquals(alt.posts.length, 0);
+  });
+});
+
+// Test 15: Multi-user mode
+Deno.test("Step 15: Sync every user of a multi-user bridge", async (t) => {
+  const mockResolver = (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  async function addUser(
+    storage: InMemoryStorageProvider,
+    userId: number,
+    account: Record<string, unknown>,
+  ) {
+    const userStorage = storage.forUser(userId);
+    await userStorage.userAccounts.create();
+    await userStorage.userAccounts.updateSingle({
+      setup_completed: true,
+      atproto_access_token: "token",
+      atproto_did: `did:plc:user${userId}`,
+      atproto_handle: `user${userId}.bsky.social`,
+      mastodon_access_token: "token",
+      mastodon_instance_url: `https://user${userId}.example`,
+      ...account,
+    });
+  }
+
+  await t.step("isolate each user's sync", async () => {
+    const storage = new InMemoryStorageProvider();
+    await addUser(storage, 1, {});
+    // Broken: the DID went missing
+    await addUser(storage, 2, { atproto_did: null });
+    await addUser(storage, 3, {});
+    // Still in setup
+    await addUser(storage, 4, { setup_completed: false });
+
+    const mastodonClients = new Map<string, TestMastodonClient>();
+    let outcomes: UserSyncOutcome[] = [];
+    await withMockFetch(mockResolver, async () => {
+      outcomes = await new MultiUserSyncRunner(storage).run(
+        async (userStorage, account) => {
+          const service = new SyncService({
+            storage: userStorage,
+            createATProtoClient: () =>
+              new TestATProtoClient([
+                createPost(`at://user${account.id}/1`, `Hi from ${account.id}`),
+              ]),
+            createMastodonClient: (instanceUrl) => {
+              const client = new TestMastodonClient();
+              mastodonClients.set(instanceUrl, client);
+              return client;
+            },
+          });
+          const result = await service.syncUser();
+          if (!result.success) {
+            throw new Error(result.errors[0].message);
+          }
+        },
+      );
+    });
+
+    assertEquals(
+      outcomes.map(({ userId, success, error }) => ({
+        userId,
+        success,
+        error,
+      })),
+      [
+        { userId: 1, success: true, error: undefined },
+        { userId: 2, success: false, error: "Missing ATProto credentials" },
+        { userId: 3, success: true, error: undefined },
+      ],
+    );
+
+    // Each user's post went to their own Mastodon and tracking
+    assertEquals(
+      mastodonClients.get("https://user1.example")?.posts[0].content,
+      "Hi from 1",
+    );
+    assertEquals(
+      mastodonClients.get("https://user3.example")?.posts[0].content,
+      "Hi from 3",
+    );
+    assertEquals(
+      (await storage.forUser(3).postTracking.getByUri("at://user3/1"))
+        ?.sync_status,
+      "success",
+    );
+    assertEquals(await storage.postTracking.getByUri("at://user3/1"), null);
+
+    // Failures are logged against the user who had them
+    const logs = await storage.forUser(2).syncLogs.getRecent();
+    assertEquals(logs[0].error_message, "Missing ATProto credentials");
+    assertEquals((await storage.syncLogs.getRecent())[0].posts_synced, 1);
+  });
+
+  await t.step("match the allowlist on handle or DID", () => {
+    Deno.env.set(
+      "BRIDGE_ALLOWED_USERS",
+      "@Alice.bsky.social, did:plc:bob\ncarol.example",
+    );
+    try {
+      assertEquals(isAllowedUser("alice.bsky.social", "did:plc:a"), true);
+      assertEquals(isAllowedUser("bob.example", "did:plc:bob"), true);
+      assertEquals(isAllowedUser("carol.example", null), true);
+      assertEquals(isAllowedUser("mallory.example", "did:plc:m"), false);
+      assertEquals(isAllowedUser(null, null), false);
+    } finally {
+      Deno.env.delete("BRIDGE_ALLOWED_USERS");
+    }
+  });
+});
+
+Deno.test("Step 16: Post Mastodon statuses to Bluesky", async (t) => {
+  const mockFetch = (input: Request | URL | string) => {
+    const url = String(input);
+    if (url.includes("/com.bad-example.identity.resolveMiniDoc")) {
+      return jsonResponse({
+        did: "did:plc:test",
+        pds: "https://pds.example.com",
+      });
+    }
+    if (url === "https://mastodon.social/media/photo.png") {
+      return new Response(new Uint8Array([1, 2, 3, 4]), {
+        headers: { "content-type": "image/png" },
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  };
+
+  // A status written on Mastodon (not by the bridge)
+  function addStatus(
+    mastodonClient: TestMastodonClient,
+    content: string,
+    options: Record<string, unknown> = {},
+  ) {
+    const id = String(mastodonClient.posts.length + 1);
+    const status = {
+      id,
+      uri: `https://mastodon.social/users/test/statuses/${id}`,
+      url: `https://mastodon.social/@test/${id}`,
+      content,
+      visibility: "public",
+      created_at: new Date().toISOString(),
+      in_reply_to_id: null,
+      in_reply_to_account_id: null,
+      mentions: [],
+      media_attachments: [],
+      ...options,
+    };
+    mastodonClient.posts.push(status);
+    return status;
+  }
+
+  async function setup(reverseSync = true) {
+    const storage = await setupTestEnvironment();
+    await storage.settings.create();
+    await storage.settings.updateSingle({ reverse_sync: reverseSync });
+
+    const atprotoClient = new TestATProtoClient();
+    const mastodonClient = new TestMastodonClient();
+    const service = new SyncService({
+      storage,
+      createATProtoClient: () => atprotoClient,
+      createMastodonClient: () => mastodonClient,
+    });
+
+    return { storage, atprotoClient, mastodonClient, service };
+  }
+
+  async function run(action: () => Promise<unknown>) {
+    let result: any;
+    await withMockFetch(mockFetch, async () => {
+      result = await action();
+    });
+    return result;
+  }
+
+  await t.step("do nothing while the setting is off", async () => {
+    const { storage, atprotoClient, mastodonClient, service } = await setup(
+      false,
+    );
+    addStatus(mastodonClient, "<p>Hello</p>");
+
+    const result = await run(() => service.runReverseSync());
+
+    assertEquals(result.postsProcessed, 0);
+    assertEquals(atprotoClient.createdRecords.length, 0);
+    assertEquals(
+      (await storage.userAccounts.getSingle())?.mastodon_status_cursor,
+      undefined,
+    );
+  });
+
+  await t.step("start after the newest status", async () => {
+    const { storage, atprotoClient, mastodonClient, service } = await setup();
+    addStatus(mastodonClient, "<p>Old news</p>");
+
+    await run(() => service.runReverseSync());
+    assertEquals(atprotoClient.createdRecords.length, 0);
+    assertEquals(
+      (await storage.userAccounts.getSingle())?.mastodon_status_cursor,
+      "1",
+    );
+
+    addStatus(mastodonClient, "<p>Fresh news</p>");
+    const result = await run(() => service.runReverseSync());
+
+    assertEquals(result.postsSuccessful, 1);
+    assertEquals(
+      atprotoClient.createdRecords.map(({ record }) => record.text),
+      ["Fresh news"],
+    );
+  });
+
+  await t.step("post rich text and images, skip non-public", async () => {
+    const { storage, atprotoClient, mastodonClient, service } = await setup();
+    await run(() => service.runReverseSync());
+
+    const status = addStatus(
+      mastodonClient,
+      '<p>Ça marche <a href="https://mastodon.social/tags/bridge" class="mention hashtag" rel="tag">#<span>bridge</span></a></p>',
+      {
+        language: "fr",
+        media_attachments: [{
+          id: "m1",
+          type: "image",
+          url: "https://mastodon.social/media/photo.png",
+          description: "A photo",
+          meta: { original: { width: 800, height: 600 } },
+        }],
+      },
+    );
+    addStatus(mastodonClient, "<p>Followers only</p>", {
+      visibility: "private",
+    });
+
+    await run(() => service.runReverseSync());
+
+    assertEquals(atprotoClient.createdRecords.length, 1);
+    const { record, rkey } = atprotoClient.createdRecords[0];
+    assertEquals(record.text, "Ça marche #bridge");
+    assertEquals(record.facets, [{
+      index: { byteStart: 11, byteEnd: 18 },
+      features: [{ $type: "app.bsky.richtext.facet#tag", tag: "bridge" }],
+    }]);
+    assertEquals(record.langs, ["fr"]);
+    assertEquals(record.embed.$type, "app.bsky.embed.images");
+    assertEquals(record.embed.images[0].alt, "A photo");
+    assertEquals(record.embed.images[0].aspectRatio, {
+      width: 800,
+      height: 600,
+    });
+    assertEquals(atprotoClient.uploadedBlobs, [{
+      size: 4,
+      mimeType: "image/png",
+    }]);
+    assertEquals(rkey.length, 13);
+
+    const tracked = await storage.postTracking.getByMastodonId(status.id);
+    assertEquals(tracked?.origin, "mastodon");
+    assertEquals(tracked?.sync_status, "success");
+    assertEquals(
+      tracked?.atproto_uri,
+      `at://did:plc:test/app.bsky.feed.post/${rkey}`,
+    );
+    assertEquals(tracked?.atproto_cid, `cid-${rkey}`);
+  });
+
+  await t.step("never send bridged posts back", async () => {
+    const { atprotoClient, mastodonClient, service } = await setup();
+    atprotoClient.posts.push(createPost("at://test/1", "From Bluesky"));
+    await run(() => service.runReverseSync());
+
+    // The Mastodon copy of a Bluesky post isn't posted back to Bluesky
+    await run(() => service.syncUser());
+    assertEquals(mastodonClient.posts.length, 1);
+    await run(() => service.runReverseSync());
+    assertEquals(atprotoClient.createdRecords.length, 0);
+
+    // Nor is the Bluesky copy of a Mastodon status posted back to Mastodon
+    addStatus(mastodonClient, "<p>From Mastodon</p>");
+    await run(() => service.runReverseSync());
+    assertEquals(atprotoClient.createdRecords.length, 1);
+    await run(() => service.syncUser());
+    assertEquals(mastodonClient.posts.length, 2);
+    assertEquals(mastodonClient.deletedIds, []);
+  });
+
+  await t.step("never send parts of split posts back", async () => {
+    const { atprotoClient, mastodonClient, service } = await setup();
+    mastodonClient.instance = {
+      configuration: { statuses: { max_characters: 100 } },
+    };
+    atprotoClient.posts.push(createPost(
+      "at://test/1",
+      ["First", "Second", "Third"].map((word) => word.repeat(15)).join(" "),
+    ));
+    await run(() => service.runReverseSync());
+
+    const splitLongPosts = BRIDGE_CONFIG.sync.split_long_posts;
+    Object.assign(BRIDGE_CONFIG.sync, { split_long_posts: true });
+    try {
+      await run(() => service.syncUser());
+    } finally {
+      Object.assign(BRIDGE_CONFIG.sync, { split_long_posts: splitLongPosts });
+    }
+    assertEquals(mastodonClient.posts[1].in_reply_to_id, "1");
+
+    // Posted by a run that died before recording the status
+    addStatus(mastodonClient, "<p>Interrupted</p>", {
+      application: { name: BRIDGE_APP_NAME },
+    });
+
+    await run(() => service.runReverseSync());
+    assertEquals(atprotoClient.createdRecords.length, 0);
+  });
+
+  await t.step("thread self-replies under the bridged posts", async () => {
+    const { atprotoClient, mastodonClient, service } = await setup();
+    await run(() => service.runReverseSync());
+
+    const first = addStatus(mastodonClient, "<p>Thread 1/3</p>");
+    const second = addStatus(mastodonClient, "<p>Thread 2/3</p>", {
+      in_reply_to_id: first.id,
+      in_reply_to_account_id: "1",
+    });
+    addStatus(mastodonClient, "<p>@someone thanks</p>", {
+      in_reply_to_id: "999",
+      in_reply_to_account_id: "2",
+    });
+    addStatus(mastodonClient, "<p>Thread 3/3</p>", {
+      in_reply_to_id: second.id,
+      in_reply_to_account_id: "1",
+    });
+
+    await run(() => service.runReverseSync());
+
+    const posted = atprotoClient.createdRecords;
+    assertEquals(posted.map(({ record }) => record.text), [
+      "Thread 1/3",
+      "Thread 2/3",
+      "Thread 3/3",
+    ]);
+    const uriOf = (index: number) =>
+      `at://did:plc:test/app.bsky.feed.post/${posted[index].rkey}`;
+    assertEquals(posted[1].record.reply.parent.uri, uriOf(0));
+    assertEquals(posted[1].record.reply.root.uri, uriOf(0));
+    assertEquals(posted[2].record.reply.parent.uri, uriOf(1));
+    assertEquals(posted[2].record.reply.root.uri, uriOf(0));
+  });
+
+  await t.step("retry a failed status under the same record key", async () => {
+    const { storage, atprotoClient, mastodonClient, service } = await setup();
+    await run(() => service.runReverseSync());
+
+    const status = addStatus(mastodonClient, "<p>First</p>");
+    atprotoClient.shouldFailCreate = true;
+    const failed = await run(() => service.runReverseSync());
+
+    assertEquals(failed.postsFailed, 1);
+    const tracked = await storage.postTracking.getByMastodonId(status.id);
+    assertEquals(tracked?.sync_status, "failed");
+    assertEquals(tracked?.retry_count, 1);
+    assertEquals(
+      (await storage.userAccounts.getSingle())?.mastodon_status_cursor,
+      "0",
+    );
+
+    addStatus(mastodonClient, "<p>Second</p>");
+    atprotoClient.shouldFailCreate = false;
+    await run(() => service.runReverseSync());
+
+    assertEquals(
+      atprotoClient.createdRecords.map(({ record }) => record.text),
+      ["First", "Second"],
+    );
+    assertEquals(atprotoClient.createdRecords[0].rkey, tracked?.atproto_rkey);
+  });
+});